@@ -8,7 +8,7 @@
  */
 
 import { auth } from '@/auth'
-import axios from 'axios'
+import axios, { type AxiosInstance } from 'axios'
 import type { 
   UserStats,
   ActivityLog,
@@ -19,11 +19,22 @@ import type {
   Position,
   Team,
 } from '@/types/hrm'
+import type { DepartmentHeadcount } from '@/types/dashboard'
+import {
+  DEFAULT_DASHBOARD_RANGE,
+  fillDailySeries,
+  getPeriodBounds,
+  sumPeriod,
+  type DailyUserActivity,
+  type DashboardRange,
+  type PeriodTotals,
+} from '@/lib/dashboard-metrics'
 
 /**
  * Dashboard Statistics Interface
  */
 export interface DashboardStats {
+  range: DashboardRange
   userStats: UserStats
   hrmStats: {
     total_departments: number
@@ -31,24 +42,51 @@ export interface DashboardStats {
     total_positions: number
     total_teams: number
   }
+  departmentHeadcount: DepartmentHeadcount[]
   recentActivities: ActivityLog[]
-  chartData: {
-    date: string
-    users: number
-  }[]
+  /** Daily sign-ups and logins for the current period */
+  chartData: DailyUserActivity[]
+  /** Totals for the current period and the one right before it */
+  periods: {
+    current: PeriodTotals
+    previous: PeriodTotals
+  }
+}
+
+/**
+ * Every department with its headcount; the chart must not drop any, so
+ * the remaining pages are fetched once the first reports how many there are
+ */
+async function getAllDepartments(apiServer: AxiosInstance): Promise<PaginatedResponse<Department>> {
+  const fetchPage = (page: number) =>
+    apiServer.get<PaginatedResponse<Department>>('/hrm/departments', {
+      params: { per_page: 100, sort: 'name', page },
+    })
+
+  const { data: first } = await fetchPage(1)
+  const rest = await Promise.all(
+    Array.from({ length: first.meta.last_page - 1 }, (_, index) => fetchPage(index + 2))
+  )
+
+  return {
+    ...first,
+    data: [...first.data, ...rest.flatMap((response) => response.data.data)],
+  }
 }
 
 /**
  * Fetch all dashboard data in parallel
  */
-export async function getDashboardData(): Promise<DashboardStats> {
+export async function getDashboardData(
+  range: DashboardRange = DEFAULT_DASHBOARD_RANGE
+): Promise<DashboardStats> {
   try {
     // Get session for authentication
     const session = await auth()
     
     if (!session?.user?.accessToken) {
       console.error('No access token available')
-      return getEmptyDashboardStats()
+      return getEmptyDashboardStats(range)
     }
 
     const token = session.user.accessToken
@@ -65,14 +103,25 @@ export async function getDashboardData(): Promise<DashboardStats> {
       timeout: 10000,
     })
 
+    // The daily series covers the previous period too, for the card comparisons
+    const { previousStart, currentStart, end } = getPeriodBounds(range)
+
     // Fetch all data in parallel for better performance
-    // Note: Using Promise.allSettled to handle endpoints that might not exist yet
+    // Note: Using Promise.allSettled so one failing widget doesn't blank the page
     const results = await Promise.allSettled([
-      // User count - using users endpoint with per_page=1 to get total from meta
-      apiServer.get<PaginatedResponse<unknown>>('/users?per_page=1'),
+      // Active/verified counts and users by role
+      apiServer.get<{ data: UserStats }>('/users/stats'),
+
+      // Sign-ups and logins per day
+      apiServer.get<{ data: DailyUserActivity[] }>('/users/stats/daily', {
+        params: { from: previousStart, to: end },
+      }),
       
-      // HRM Department count
-      apiServer.get<PaginatedResponse<Department>>('/hrm/departments?per_page=1'),
+      // All departments with their headcount
+      getAllDepartments(apiServer),
+
+      // Active departments count
+      apiServer.get<PaginatedResponse<Department>>('/hrm/departments?per_page=1&filter[is_active]=1'),
       
       // HRM Position count
       apiServer.get<PaginatedResponse<Position>>('/hrm/positions?per_page=1'),
@@ -81,53 +130,64 @@ export async function getDashboardData(): Promise<DashboardStats> {
       apiServer.get<PaginatedResponse<Team>>('/hrm/teams?per_page=1'),
     ])
 
-    // Extract user count from users pagination meta
-    const totalUsers = results[0].status === 'fulfilled' ? results[0].value.data.meta.total : 0
-    
-    // Build user stats from available data
-    const userStats: UserStats = {
-      total_users: totalUsers,
-      active_users: Math.floor(totalUsers * 0.8), // Estimation: 80% active
-      inactive_users: Math.floor(totalUsers * 0.2), // Estimation: 20% inactive
-      verified_users: Math.floor(totalUsers * 0.9), // Estimation: 90% verified
-      unverified_users: Math.floor(totalUsers * 0.1), // Estimation: 10% unverified
-      users_by_role: [], // TODO: Fetch from backend when endpoint available
-    }
+    const userStats = results[0].status === 'fulfilled'
+      ? results[0].value.data.data
+      : getEmptyDashboardStats(range).userStats
+
+    const series = fillDailySeries(
+      results[1].status === 'fulfilled' ? results[1].value.data.data : [],
+      previousStart,
+      end
+    )
+
+    const departments = results[2].status === 'fulfilled' ? results[2].value : null
 
-    // Calculate HRM stats from pagination meta
     const hrmStats = {
-      total_departments: results[1].status === 'fulfilled' ? results[1].value.data.meta.total : 0,
-      active_departments: results[1].status === 'fulfilled' ? results[1].value.data.meta.total : 0,
-      total_positions: results[2].status === 'fulfilled' ? results[2].value.data.meta.total : 0,
-      total_teams: results[3].status === 'fulfilled' ? results[3].value.data.meta.total : 0,
+      total_departments: departments?.meta.total ?? 0,
+      active_departments: results[3].status === 'fulfilled' ? results[3].value.data.meta.total : 0,
+      total_positions: results[4].status === 'fulfilled' ? results[4].value.data.meta.total : 0,
+      total_teams: results[5].status === 'fulfilled' ? results[5].value.data.meta.total : 0,
     }
 
+    const departmentHeadcount = (departments?.data ?? [])
+      .map((department) => ({
+        id: department.id,
+        name: department.name,
+        is_active: department.is_active,
+        users_count: department.users_count ?? 0,
+      }))
+      .sort((a, b) => b.users_count - a.users_count)
+
     // Recent activities - empty for now (endpoint not available yet)
     const recentActivities: ActivityLog[] = []
 
-    // Generate chart data (last 7 days of user registrations)
-    const chartData = generateChartData(7)
-
     return {
+      range,
       userStats,
       hrmStats,
+      departmentHeadcount,
       recentActivities,
-      chartData,
+      chartData: series.filter((day) => day.date >= currentStart),
+      periods: {
+        current: sumPeriod(series, currentStart),
+        previous: sumPeriod(series, previousStart, currentStart),
+      },
     }
   } catch (error: unknown) {
     if (error && typeof error === 'object' && 'digest' in error && error.digest === 'DYNAMIC_SERVER_USAGE') {
       throw error
     }
     console.error('Error fetching dashboard data:', error)
-    return getEmptyDashboardStats()
+    return getEmptyDashboardStats(range)
   }
 }
 
 /**
  * Return empty dashboard stats
  */
-function getEmptyDashboardStats(): DashboardStats {
+function getEmptyDashboardStats(range: DashboardRange): DashboardStats {
   return {
+    range,
     userStats: {
       total_users: 0,
       active_users: 0,
@@ -142,32 +202,16 @@ function getEmptyDashboardStats(): DashboardStats {
       total_positions: 0,
       total_teams: 0,
     },
+    departmentHeadcount: [],
     recentActivities: [],
     chartData: [],
+    periods: {
+      current: { signups: 0, logins: 0 },
+      previous: { signups: 0, logins: 0 },
+    },
   }
 }
 
-/**
- * Generate chart data for the last N days
- * TODO: Replace with real analytics endpoint from backend
- */
-function generateChartData(days: number) {
-  const data = []
-  const today = new Date()
-  
-  for (let i = days - 1; i >= 0; i--) {
-    const date = new Date(today)
-    date.setDate(date.getDate() - i)
-    
-    data.push({
-      date: date.toISOString().split('T')[0],
-      users: Math.floor(Math.random() * 50) + 10, // Mock data
-    })
-  }
-  
-  return data
-}
-
 /**
  * Get user statistics only (for quick refresh)
  */
@@ -223,15 +267,16 @@ export async function getHRMStats() {
       },
     })
 
-    const [departmentsRes, positionsRes, teamsRes] = await Promise.all([
+    const [departmentsRes, activeDepartmentsRes, positionsRes, teamsRes] = await Promise.all([
       apiServer.get<PaginatedResponse<Department>>('/hrm/departments?per_page=1'),
+      apiServer.get<PaginatedResponse<Department>>('/hrm/departments?per_page=1&filter[is_active]=1'),
       apiServer.get<PaginatedResponse<Position>>('/hrm/positions?per_page=1'),
       apiServer.get<PaginatedResponse<Team>>('/hrm/teams?per_page=1'),
     ])
 
     return {
       total_departments: departmentsRes.data.meta.total,
-      active_departments: departmentsRes.data.meta.total,
+      active_departments: activeDepartmentsRes.data.meta.total,
       total_positions: positionsRes.data.meta.total,
       total_teams: teamsRes.data.meta.total,
     }
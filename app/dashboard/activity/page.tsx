@@ -1,48 +1,39 @@
 "use client";
 
-import {
-  Card,
-  CardContent,
-  CardDescription,
-  CardHeader,
-  CardTitle,
-} from "@/components/ui/card";
-import { Activity } from "lucide-react";
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
 import { ProtectedRoute } from "@/components/protected-route";
+import { ActivityTable } from "@/components/activity/activity-table";
+import { ActivityDetailSheet } from "@/components/activity/activity-detail-sheet";
+import type { ActivityLog } from "@/types/activity";
 
 export default function ActivityPage() {
+  const [selected, setSelected] = useState<ActivityLog | null>(null);
+
   return (
-    <ProtectedRoute allowedRoles={["Super Admin", "Admin"]}>
+    <ProtectedRoute requireAuth>
       <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
         <div className="px-4 lg:px-6">
-          <div>
+          <div className="mb-6">
             <h1 className="text-3xl font-bold tracking-tight">Activity Logs</h1>
             <p className="text-muted-foreground">
               View and monitor system activities
             </p>
           </div>
-        </div>
 
-        <div className="px-4 lg:px-6">
           <Card>
-            <CardHeader>
-              <CardTitle>
-                <Activity className="inline mr-2 h-5 w-5" />
-                Activity Logs
-              </CardTitle>
-              <CardDescription>
-                Activity log monitoring will be implemented in Task 10
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <p className="text-sm text-muted-foreground">
-                Coming soon: Activity log viewer with filtering and export
-                functionality
-              </p>
+            <CardContent className="p-6">
+              <ActivityTable onView={setSelected} />
             </CardContent>
           </Card>
         </div>
       </div>
+
+      {/* Detail Drawer */}
+      <ActivityDetailSheet
+        activity={selected}
+        onOpenChange={(open) => !open && setSelected(null)}
+      />
     </ProtectedRoute>
   );
 }
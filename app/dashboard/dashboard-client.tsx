@@ -4,150 +4,263 @@
  * Dashboard Client Component
  *
  * Client-side interactive wrapper for dashboard
- * Receives real data from server component as props
+ * Receives real data from server component as props and lays it out as
+ * the user's widget layout (their own, their role's default or built-in)
  */
 
+import { useMemo, useState, useTransition } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { LayoutGrid, Loader2, Plus, RotateCcw, Share2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { SectionCards, type SectionCard } from "@/components/section-cards";
+import { DashboardGrid } from "@/components/dashboard/dashboard-grid";
+import { PublishLayoutDialog } from "@/components/dashboard/publish-layout-dialog";
+import { WidgetLibrary } from "@/components/dashboard/widget-library";
+import { DepartmentHeadcountWidget } from "@/components/dashboard/widgets/department-headcount-widget";
+import { HrmOverviewWidget } from "@/components/dashboard/widgets/hrm-overview-widget";
+import { ProbationEndsWidget } from "@/components/dashboard/widgets/probation-ends-widget";
+import { RecentActivityWidget } from "@/components/dashboard/widgets/recent-activity-widget";
+import { TeamCapacityWidget } from "@/components/dashboard/widgets/team-capacity-widget";
+import { UsersByRoleWidget } from "@/components/dashboard/widgets/users-by-role-widget";
+import { usePermissions } from "@/hooks/use-permissions";
+import {
+  DASHBOARD_RANGES,
+  percentChange,
+  type DashboardRange,
+} from "@/lib/dashboard-metrics";
+import { createWidget, isSameLayout, normalizeLayout } from "@/lib/dashboard-widgets";
+import {
+  useDashboardLayout,
+  useResetDashboardLayout,
+  useSaveDashboardLayout,
+} from "@/lib/hooks/use-dashboard-layout";
 import { LazyChartAreaInteractive } from "@/lib/lazy-components";
+import { cn } from "@/lib/utils";
+import type { DashboardWidget, DashboardWidgetType } from "@/types/dashboard";
 import { DashboardStats } from "./actions";
 
 interface DashboardClientProps {
   data: DashboardStats;
 }
 
+const numberFormat = new Intl.NumberFormat("en-US");
+
 export function DashboardClient({ data }: DashboardClientProps) {
-  const { userStats, hrmStats, recentActivities } = data;
+  const {
+    range,
+    userStats,
+    hrmStats,
+    departmentHeadcount,
+    recentActivities,
+    chartData,
+    periods,
+  } = data;
+  const router = useRouter();
+  const pathname = usePathname();
+  const [isPending, startTransition] = useTransition();
+  const { hasAnyRole } = usePermissions();
+  const isAdmin = hasAnyRole(["Super Admin", "Admin"]);
+
+  const { data: layout, isLoading: isLoadingLayout } = useDashboardLayout();
+  const saveLayout = useSaveDashboardLayout();
+  const resetLayout = useResetDashboardLayout();
+
+  // Edits happen on a draft; null while not customizing
+  const [draft, setDraft] = useState<DashboardWidget[] | null>(null);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [publishOpen, setPublishOpen] = useState(false);
+
+  const savedWidgets = useMemo(() => normalizeLayout(layout?.widgets), [layout]);
+  const widgets = draft ?? savedWidgets;
+  const editing = draft !== null;
+
+  // The range lives in the URL so the server component refetches for it
+  const handleRangeChange = (next: DashboardRange) => {
+    startTransition(() => {
+      router.push(`${pathname}?range=${next}`, { scroll: false });
+    });
+  };
+
+  const handleAddWidget = (type: DashboardWidgetType) => {
+    setDraft((current) => [...(current ?? savedWidgets), createWidget(type)]);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    saveLayout.mutate(draft, { onSuccess: () => setDraft(null) });
+  };
 
-  // Transform stats for SectionCards format
-  const cardData = [
+  const handleReset = () => {
+    resetLayout.mutate(undefined, { onSuccess: () => setDraft(null) });
+  };
+
+  const periodLabel = DASHBOARD_RANGES[range].label.toLowerCase();
+  const activeShare = userStats.total_users > 0
+    ? Math.round((userStats.active_users / userStats.total_users) * 100)
+    : 0;
+
+  const cards: SectionCard[] = [
     {
       title: "Total Users",
-      value: userStats.total_users.toString(),
-      change: "+0%", // Can calculate from historical data
-      changeType: "positive" as const,
-      icon: "users",
+      value: numberFormat.format(userStats.total_users),
+      // Users that existed before this period's sign-ups
+      change: percentChange(userStats.total_users, userStats.total_users - periods.current.signups),
+      description: `${numberFormat.format(periods.current.signups)} joined in the ${periodLabel}`,
     },
     {
-      title: "Active Users",
-      value: userStats.active_users.toString(),
-      change: `${Math.round(
-        (userStats.active_users / userStats.total_users) * 100
-      )}%`,
-      changeType: "positive" as const,
-      icon: "userCheck",
+      title: "New Sign-ups",
+      value: numberFormat.format(periods.current.signups),
+      change: percentChange(periods.current.signups, periods.previous.signups),
+      description: `${numberFormat.format(periods.previous.signups)} in the period before`,
     },
     {
-      title: "Departments",
-      value: hrmStats.total_departments.toString(),
-      change: "+0%",
-      changeType: "neutral" as const,
-      icon: "building",
+      title: "Recently Signed In",
+      value: numberFormat.format(periods.current.logins),
+      change: percentChange(periods.current.logins, periods.previous.logins),
+      description: `Users whose last login was in the ${periodLabel}`,
     },
     {
-      title: "Positions",
-      value: hrmStats.total_positions.toString(),
-      change: `${hrmStats.total_teams} teams`,
-      changeType: "neutral" as const,
-      icon: "briefcase",
+      title: "Active Users",
+      value: numberFormat.format(userStats.active_users),
+      summary: `${activeShare}% of all users`,
+      description: `${numberFormat.format(userStats.verified_users)} verified · ${numberFormat.format(userStats.inactive_users)} inactive`,
     },
   ];
 
-  return (
-    <div className="flex flex-1 flex-col gap-4 p-4">
-      {/* Stats Cards */}
-      <div className="grid grid-cols-1 gap-4 @xl/main:grid-cols-2 @5xl/main:grid-cols-4">
-        {cardData.map((card, index) => (
-          <div key={index} className="rounded-lg border bg-card p-4">
-            <p className="text-sm text-muted-foreground">{card.title}</p>
-            <h3 className="text-2xl font-bold mt-2">{card.value}</h3>
-            <p className="text-sm mt-2">{card.change}</p>
-          </div>
-        ))}
-      </div>
+  const renderWidget = (widget: DashboardWidget) => {
+    switch (widget.type) {
+      case "stat-cards":
+        return <SectionCards cards={cards} />;
+      case "user-activity":
+        return (
+          <LazyChartAreaInteractive
+            data={chartData}
+            range={range}
+            onRangeChange={handleRangeChange}
+          />
+        );
+      case "users-by-role":
+        return <UsersByRoleWidget roles={userStats.users_by_role} />;
+      case "department-headcount":
+        return <DepartmentHeadcountWidget departments={departmentHeadcount} />;
+      case "recent-activity":
+        return <RecentActivityWidget activities={recentActivities} />;
+      case "hrm-overview":
+        return <HrmOverviewWidget stats={hrmStats} />;
+      case "team-capacity":
+        return <TeamCapacityWidget />;
+      case "probation-ends":
+        return <ProbationEndsWidget />;
+    }
+  };
 
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-7">
-        <div className="col-span-4">
-          <LazyChartAreaInteractive />
-        </div>
+  const layoutLabel = layout?.source === "user"
+    ? "Your custom layout"
+    : layout?.source === "role"
+      ? `Default layout for ${layout.role}`
+      : "Default layout";
 
-        <div className="col-span-3">
-          <div className="rounded-lg border bg-card p-4">
-            <h3 className="text-lg font-semibold mb-4">Recent Activity</h3>
-            {recentActivities.length > 0 ? (
-              <div className="space-y-3">
-                {recentActivities.map((activity) => (
-                  <div
-                    key={activity.id}
-                    className="border-b last:border-0 pb-2 last:pb-0"
-                  >
-                    <p className="font-medium text-sm">
-                      {activity.description}
-                    </p>
-                    <p className="text-xs text-muted-foreground mt-1">
-                      {activity.causer?.name || "System"} · {activity.log_name}
-                    </p>
-                  </div>
-                ))}
-              </div>
-            ) : (
-              <p className="text-sm text-muted-foreground">
-                No recent activity
-              </p>
+  return (
+    <div className={cn("flex flex-1 flex-col gap-4 p-4 transition-opacity", isPending && "opacity-60")}>
+      {/* Layout toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {editing ? "Drag widgets to reorder, or drag their right edge to resize" : layoutLabel}
+        </p>
+        {editing ? (
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setLibraryOpen(true)}>
+              <Plus className="size-4" />
+              Add widget
+            </Button>
+            {layout?.source === "user" && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleReset}
+                disabled={resetLayout.isPending}
+              >
+                <RotateCcw className="size-4" />
+                Reset to default
+              </Button>
             )}
+            {isAdmin && (
+              <Button variant="outline" size="sm" onClick={() => setPublishOpen(true)}>
+                <Share2 className="size-4" />
+                Publish for role
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleSave}
+              disabled={saveLayout.isPending || isSameLayout(widgets, savedWidgets)}
+            >
+              {saveLayout.isPending && <Loader2 className="size-4 animate-spin" />}
+              Save layout
+            </Button>
           </div>
-        </div>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setDraft(savedWidgets)}
+            disabled={isLoadingLayout}
+          >
+            <LayoutGrid className="size-4" />
+            Customize
+          </Button>
+        )}
       </div>
 
-      <div className="grid gap-4 md:grid-cols-2">
-        <div className="rounded-lg border bg-card p-4">
-          <h3 className="text-lg font-semibold mb-4">Users by Role</h3>
-          <div className="space-y-2">
-            {userStats.users_by_role.map((item) => (
-              <div
-                key={item.role}
-                className="flex items-center justify-between"
-              >
-                <span className="text-sm text-muted-foreground capitalize">
-                  {item.role}
-                </span>
-                <span className="font-medium">{item.count}</span>
-              </div>
-            ))}
-            {userStats.users_by_role.length === 0 && (
-              <p className="text-sm text-muted-foreground">
-                No role data available
-              </p>
-            )}
-          </div>
+      {isLoadingLayout ? (
+        <div className="grid grid-cols-1 gap-4 lg:grid-cols-4">
+          <Skeleton className="h-32 lg:col-span-4" />
+          <Skeleton className="h-[340px] lg:col-span-3" />
+          <Skeleton className="h-[340px]" />
         </div>
-
-        <div className="rounded-lg border bg-card p-4">
-          <h3 className="text-lg font-semibold mb-4">HRM Overview</h3>
-          <div className="space-y-2">
-            <div className="flex items-center justify-between">
-              <span className="text-sm text-muted-foreground">
-                Total Departments
-              </span>
-              <span className="font-medium">{hrmStats.total_departments}</span>
-            </div>
-            <div className="flex items-center justify-between">
-              <span className="text-sm text-muted-foreground">
-                Active Departments
-              </span>
-              <span className="font-medium">{hrmStats.active_departments}</span>
-            </div>
-            <div className="flex items-center justify-between">
-              <span className="text-sm text-muted-foreground">
-                Total Positions
-              </span>
-              <span className="font-medium">{hrmStats.total_positions}</span>
-            </div>
-            <div className="flex items-center justify-between">
-              <span className="text-sm text-muted-foreground">Total Teams</span>
-              <span className="font-medium">{hrmStats.total_teams}</span>
-            </div>
-          </div>
+      ) : widgets.length > 0 ? (
+        <DashboardGrid
+          widgets={widgets}
+          editing={editing}
+          onChange={setDraft}
+          renderWidget={renderWidget}
+        />
+      ) : (
+        <div className="flex flex-col items-center justify-center gap-3 rounded-xl border border-dashed p-12 text-center">
+          <p className="text-sm text-muted-foreground">
+            Your dashboard is empty.
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setDraft((current) => current ?? []);
+              setLibraryOpen(true);
+            }}
+          >
+            <Plus className="size-4" />
+            Add widget
+          </Button>
         </div>
-      </div>
+      )}
+
+      <WidgetLibrary
+        open={libraryOpen}
+        onOpenChange={setLibraryOpen}
+        widgets={widgets}
+        onAdd={handleAddWidget}
+      />
+      {isAdmin && (
+        <PublishLayoutDialog
+          open={publishOpen}
+          onOpenChange={setPublishOpen}
+          widgets={widgets}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,17 @@
+/**
+ * 403 Page
+ *
+ * `proxy.ts` rewrites here (keeping the requested URL) when the signed-in
+ * user lacks the permission a route needs
+ */
+
+import { Metadata } from "next";
+import { Forbidden } from "@/components/forbidden";
+
+export const metadata: Metadata = {
+  title: "Access Denied | Enterprise Admin",
+};
+
+export default function ForbiddenPage() {
+  return <Forbidden />;
+}
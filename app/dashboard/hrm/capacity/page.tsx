@@ -0,0 +1,23 @@
+"use client";
+
+import { ProtectedRoute } from "@/components/protected-route";
+import { CapacityDashboard } from "@/components/hrm/capacity/capacity-dashboard";
+
+export default function TeamCapacityPage() {
+  return (
+    <ProtectedRoute requireAuth>
+      <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
+        <div className="px-4 lg:px-6">
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold tracking-tight">Team Capacity</h1>
+            <p className="text-muted-foreground">
+              Utilisation, allocation and headcount across teams and departments
+            </p>
+          </div>
+
+          <CapacityDashboard />
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import { ProtectedRoute } from "@/components/protected-route";
+import { CompensationBands } from "@/components/hrm/compensation/compensation-bands";
+
+export default function CompensationPage() {
+  return (
+    <ProtectedRoute requireAuth>
+      <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
+        <div className="px-4 lg:px-6">
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold tracking-tight">
+              Compensation Bands
+            </h1>
+            <p className="text-muted-foreground">
+              Compare salary bands across levels and departments
+            </p>
+          </div>
+
+          <CompensationBands />
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
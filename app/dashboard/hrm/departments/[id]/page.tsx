@@ -17,6 +17,7 @@ import {
   Briefcase,
   UsersRound,
   Activity,
+  History,
   Edit,
   UserPlus,
   Power,
@@ -61,6 +62,7 @@ import { DepartmentDetailsTab } from "@/components/hrm/departments/tabs/departme
 import { DepartmentUsersTab } from "@/components/hrm/departments/tabs/department-users-tab";
 import { DepartmentPositionsTab } from "@/components/hrm/departments/tabs/department-positions-tab";
 import { DepartmentTeamsTab } from "@/components/hrm/departments/tabs/department-teams-tab";
+import { DepartmentHistoryTab } from "@/components/hrm/departments/tabs/department-history-tab";
 import { DepartmentForm } from "@/components/hrm/departments/department-form";
 import { toast } from "sonner";
 import { getAllUsersForAssignment } from "@/lib/api/hrm-assignments";
@@ -343,6 +345,13 @@ export default function DepartmentDetailPage() {
                   <UsersRound className="h-4 w-4" />
                   <span>Teams ({department.teams_count || 0})</span>
                 </TabsTrigger>
+                <TabsTrigger
+                  value="history"
+                  className="data-[state=active]:bg-transparent flex-0 data-[state=active]:shadow-none data-[state=active]:border-b-2 data-[state=active]:border-t-0 data-[state=active]:border-l-0 data-[state=active]:border-r-0 data-[state=active]:border-zinc-900 data-[state=active]:rounded-b-none px-0 py-1 text-muted-foreground data-[state=active]:text-foreground"
+                >
+                  <History className="h-4 w-4" />
+                  <span>Past Members</span>
+                </TabsTrigger>
                 <TabsTrigger
                   value="activity"
                   className="data-[state=active]:bg-transparent flex-0 data-[state=active]:shadow-none data-[state=active]:border-b-2 data-[state=active]:border-t-0 data-[state=active]:border-l-0 data-[state=active]:border-r-0 data-[state=active]:border-zinc-900 data-[state=active]:rounded-b-none px-0 py-1 text-muted-foreground data-[state=active]:text-foreground"
@@ -378,6 +387,10 @@ export default function DepartmentDetailPage() {
                   />
                 </TabsContent>
 
+                <TabsContent value="history" className="m-0 pt-6">
+                  <DepartmentHistoryTab departmentId={departmentId} />
+                </TabsContent>
+
                 <TabsContent value="activity" className="m-0 pt-6">
                   <div className="px-6 pb-6">
                     <Card>
@@ -7,7 +7,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ProtectedRoute } from "@/components/protected-route";
 import { DepartmentTable } from "@/components/hrm/departments/department-table";
 import { DepartmentForm } from "@/components/hrm/departments/department-form";
+import { DepartmentImportDialog } from "@/components/hrm/departments/department-import-dialog";
 import { DepartmentTree } from "@/components/hrm/departments/department-tree";
+import { DepartmentOrgChart } from "@/components/hrm/departments/department-org-chart";
 import {
   useCreateDepartment,
   useUpdateDepartment,
@@ -15,11 +17,15 @@ import {
   useRestoreDepartment,
 } from "@/hooks/use-departments";
 import { toast } from "sonner";
-import { Table, Workflow } from "lucide-react";
+import { Table, Workflow, Network } from "lucide-react";
 import type { Department, DepartmentInput } from "@/types/hrm";
+import { useCommandStore } from "@/lib/store/command-store";
+import { usePermissions } from "@/hooks/use-permissions";
+import { HRM_PERMISSIONS } from "@/lib/permissions/hrm";
 
 export default function DepartmentsPage() {
   const router = useRouter();
+  const { hasPermission } = usePermissions();
   const [formDialog, setFormDialog] = useState<{
     open: boolean;
     department: Department | null;
@@ -27,7 +33,16 @@ export default function DepartmentsPage() {
     open: false,
     department: null,
   });
-  const [activeTab, setActiveTab] = useState<"table" | "tree">("table");
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [activeTab, setActiveTab] = useState<"table" | "tree" | "chart">(
+    "table"
+  );
+
+  // "Create ..." from the command palette
+  const createRequested = useCommandStore(
+    (state) => state.intent === "departments.create"
+  );
+  const clearIntent = useCommandStore((state) => state.clearIntent);
 
   // Mutations
   const createMutation = useCreateDepartment();
@@ -61,6 +76,7 @@ export default function DepartmentsPage() {
         toast.success("Department created successfully");
       }
       setFormDialog({ open: false, department: null });
+      clearIntent();
     } catch (error: unknown) {
       const errorMessage =
         error instanceof Error ? error.message : "Operation failed";
@@ -110,7 +126,7 @@ export default function DepartmentsPage() {
             <CardContent className="p-6">
               <Tabs
                 value={activeTab}
-                onValueChange={(v) => setActiveTab(v as "table" | "tree")}
+                onValueChange={(v) => setActiveTab(v as "table" | "tree" | "chart")}
               >
                 <TabsList className="mb-4">
                   <TabsTrigger value="table">
@@ -121,11 +137,16 @@ export default function DepartmentsPage() {
                     <Workflow className="h-4 w-4 mr-2" />
                     Tree View
                   </TabsTrigger>
+                  <TabsTrigger value="chart">
+                    <Network className="h-4 w-4 mr-2" />
+                    Org Chart
+                  </TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="table" className="mt-0">
                   <DepartmentTable
                     onCreate={handleCreate}
+                    onImport={() => setImportDialogOpen(true)}
                     onView={handleView}
                     onEdit={handleEdit}
                     onDelete={handleDelete}
@@ -136,6 +157,13 @@ export default function DepartmentsPage() {
                 <TabsContent value="tree" className="mt-0">
                   <DepartmentTree />
                 </TabsContent>
+
+                <TabsContent value="chart" className="mt-0">
+                  <DepartmentOrgChart
+                    onSelectDepartment={(node) => handleView(node)}
+                    editable={hasPermission(HRM_PERMISSIONS.DEPARTMENTS_UPDATE)}
+                  />
+                </TabsContent>
               </Tabs>
             </CardContent>
           </Card>
@@ -144,12 +172,20 @@ export default function DepartmentsPage() {
 
       {/* Form Dialog */}
       <DepartmentForm
-        open={formDialog.open}
-        onOpenChange={(open) => setFormDialog({ open, department: null })}
+        open={formDialog.open || createRequested}
+        onOpenChange={(open) => {
+          setFormDialog({ open, department: null });
+          if (!open) clearIntent();
+        }}
         onSubmit={handleSubmit}
         department={formDialog.department}
         isLoading={createMutation.isPending || updateMutation.isPending}
       />
+
+      <DepartmentImportDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+      />
     </ProtectedRoute>
   );
 }
@@ -6,6 +6,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { ProtectedRoute } from "@/components/protected-route";
 import { PositionTable } from "@/components/hrm/positions/position-table";
 import { PositionForm } from "@/components/hrm/positions/position-form";
+import { PositionImportDialog } from "@/components/hrm/positions/position-import-dialog";
 import {
   useCreatePosition,
   useUpdatePosition,
@@ -14,6 +15,7 @@ import {
 } from "@/hooks/use-positions";
 import { toast } from "sonner";
 import type { Position, PositionInput } from "@/types/hrm";
+import { useCommandStore } from "@/lib/store/command-store";
 
 export default function PositionsPage() {
   const router = useRouter();
@@ -24,6 +26,13 @@ export default function PositionsPage() {
     open: false,
     position: null,
   });
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+
+  // "Create ..." from the command palette
+  const createRequested = useCommandStore(
+    (state) => state.intent === "positions.create"
+  );
+  const clearIntent = useCommandStore((state) => state.clearIntent);
 
   // Mutations
   const createMutation = useCreatePosition();
@@ -57,6 +66,7 @@ export default function PositionsPage() {
         toast.success("Position created successfully");
       }
       setFormDialog({ open: false, position: null });
+      clearIntent();
     } catch (error: unknown) {
       const errorMessage =
         error instanceof Error ? error.message : "Operation failed";
@@ -106,6 +116,7 @@ export default function PositionsPage() {
             <CardContent className="p-6">
               <PositionTable
                 onCreate={handleCreate}
+                onImport={() => setImportDialogOpen(true)}
                 onView={handleView}
                 onEdit={handleEdit}
                 onDelete={handleDelete}
@@ -118,12 +129,20 @@ export default function PositionsPage() {
 
       {/* Form Dialog */}
       <PositionForm
-        open={formDialog.open}
-        onOpenChange={(open) => setFormDialog({ open, position: null })}
+        open={formDialog.open || createRequested}
+        onOpenChange={(open) => {
+          setFormDialog({ open, position: null });
+          if (!open) clearIntent();
+        }}
         onSubmit={handleSubmit}
         position={formDialog.position}
         isLoading={createMutation.isPending || updateMutation.isPending}
       />
+
+      <PositionImportDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+      />
     </ProtectedRoute>
   );
 }
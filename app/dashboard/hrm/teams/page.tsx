@@ -6,6 +6,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { ProtectedRoute } from "@/components/protected-route";
 import { TeamTable } from "@/components/hrm/teams/team-table";
 import { TeamForm } from "@/components/hrm/teams/team-form";
+import { TeamImportDialog } from "@/components/hrm/teams/team-import-dialog";
 import { TeamMembersDialog } from "@/components/hrm/teams/team-members";
 import {
   useCreateTeam,
@@ -15,6 +16,7 @@ import {
 } from "@/hooks/use-teams";
 import { toast } from "sonner";
 import type { Team, TeamInput } from "@/types/hrm";
+import { useCommandStore } from "@/lib/store/command-store";
 
 export default function TeamsPage() {
   const router = useRouter();
@@ -25,6 +27,7 @@ export default function TeamsPage() {
     open: false,
     team: null,
   });
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
   const [membersDialog, setMembersDialog] = useState<{
     open: boolean;
     team: Team | null;
@@ -33,6 +36,12 @@ export default function TeamsPage() {
     team: null,
   });
 
+  // "Create ..." from the command palette
+  const createRequested = useCommandStore(
+    (state) => state.intent === "teams.create"
+  );
+  const clearIntent = useCommandStore((state) => state.clearIntent);
+
   // Mutations
   const createMutation = useCreateTeam();
   const updateMutation = useUpdateTeam();
@@ -69,6 +78,7 @@ export default function TeamsPage() {
         toast.success("Team created successfully");
       }
       setFormDialog({ open: false, team: null });
+      clearIntent();
     } catch (error: unknown) {
       const errorMessage =
         error instanceof Error ? error.message : "Operation failed";
@@ -118,6 +128,7 @@ export default function TeamsPage() {
             <CardContent className="p-6">
               <TeamTable
                 onCreate={handleCreate}
+                onImport={() => setImportDialogOpen(true)}
                 onView={handleView}
                 onEdit={handleEdit}
                 onDelete={handleDelete}
@@ -131,8 +142,11 @@ export default function TeamsPage() {
 
       {/* Form Dialog */}
       <TeamForm
-        open={formDialog.open}
-        onOpenChange={(open) => setFormDialog({ open, team: null })}
+        open={formDialog.open || createRequested}
+        onOpenChange={(open) => {
+          setFormDialog({ open, team: null });
+          if (!open) clearIntent();
+        }}
         onSubmit={handleSubmit}
         team={formDialog.team}
         isLoading={createMutation.isPending || updateMutation.isPending}
@@ -146,6 +160,11 @@ export default function TeamsPage() {
           team={membersDialog.team}
         />
       )}
+
+      <TeamImportDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+      />
     </ProtectedRoute>
   );
 }
@@ -0,0 +1,28 @@
+"use client";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { ProtectedRoute } from "@/components/protected-route";
+import { TeamTimeline } from "@/components/hrm/teams/team-timeline";
+
+export default function TeamTimelinePage() {
+  return (
+    <ProtectedRoute requireAuth>
+      <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
+        <div className="px-4 lg:px-6">
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold tracking-tight">Team Timeline</h1>
+            <p className="text-muted-foreground">
+              Project team lifecycles by department, from start to end date
+            </p>
+          </div>
+
+          <Card>
+            <CardContent className="p-6">
+              <TeamTimeline />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { ProtectedRoute } from "@/components/protected-route";
+import { TrashTable } from "@/components/hrm/trash/trash-table";
+
+export default function TrashPage() {
+  return (
+    <ProtectedRoute requireAuth>
+      <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
+        <div className="px-4 lg:px-6">
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold tracking-tight">Trash</h1>
+            <p className="text-muted-foreground">
+              Restore or permanently remove deleted departments, positions and
+              teams
+            </p>
+          </div>
+
+          <Card>
+            <CardContent className="p-6">
+              <TrashTable />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -5,14 +5,23 @@
  * Passes data to client components for rendering
  */
 
+import { DEFAULT_DASHBOARD_RANGE, isDashboardRange } from "@/lib/dashboard-metrics";
 import { getDashboardData } from "./actions";
 import { DashboardClient } from "./dashboard-client";
 
 export const dynamic = "force-dynamic";
 
-export default async function DashboardPage() {
+interface DashboardPageProps {
+  searchParams: Promise<{ range?: string }>;
+}
+
+export default async function DashboardPage({ searchParams }: DashboardPageProps) {
+  const { range } = await searchParams;
+
   // Fetch all dashboard data server-side
-  const data = await getDashboardData();
+  const data = await getDashboardData(
+    isDashboardRange(range) ? range : DEFAULT_DASHBOARD_RANGE
+  );
 
   return <DashboardClient data={data} />;
 }
@@ -0,0 +1,113 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, RefreshCw, Search } from "lucide-react";
+import { ProtectedRoute } from "@/components/protected-route";
+import { TableSkeleton } from "@/components/ui/skeleton-loaders";
+import { ErrorState, EmptyState } from "@/components/error-boundary";
+import { PermissionModuleList } from "@/components/permissions/permission-module-list";
+import { PermissionSyncCard } from "@/components/permissions/permission-sync-card";
+import { PermissionFormDialog } from "@/components/permissions/permission-form-dialog";
+import {
+  usePermissionsByModule,
+  useCreatePermission,
+} from "@/lib/hooks/use-permissions";
+import { usePermissions as useAuthPermissions } from "@/hooks/use-permissions";
+import type { CreatePermissionInput } from "@/types/permission";
+
+export default function PermissionsPage() {
+  const [search, setSearch] = useState("");
+  const [formOpen, setFormOpen] = useState(false);
+
+  const { data, isLoading, isError, error, refetch } = usePermissionsByModule();
+  const createMutation = useCreatePermission();
+  const { isSuperAdmin } = useAuthPermissions();
+
+  const allNames = useMemo(
+    () =>
+      Object.values(data || {})
+        .flat()
+        .map((p) => p.name),
+    [data]
+  );
+
+  const handleSubmit = async (input: CreatePermissionInput) => {
+    await createMutation.mutateAsync(input);
+  };
+
+  const renderContent = () => {
+    if (isLoading) return <TableSkeleton />;
+    if (isError)
+      return <ErrorState error={error as Error} onRetry={() => refetch()} />;
+    if (!data || allNames.length === 0) {
+      return (
+        <EmptyState
+          title="No permissions found"
+          description="The backend did not return any permissions"
+        />
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <PermissionSyncCard backendPermissions={allNames} />
+
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div className="relative flex-1 max-w-sm">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Search permissions or roles..."
+              className="pl-9"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => refetch()}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+            {isSuperAdmin() && (
+              <Button size="sm" onClick={() => setFormOpen(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Permission
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <PermissionModuleList groupedPermissions={data} search={search} />
+      </div>
+    );
+  };
+
+  return (
+    <ProtectedRoute requireAuth>
+      <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
+        <div className="px-4 lg:px-6">
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold tracking-tight">Permissions</h1>
+            <p className="text-muted-foreground">
+              Browse permissions by module and see which roles grant them
+            </p>
+          </div>
+
+          <Card>
+            <CardContent className="p-6">{renderContent()}</CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <PermissionFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        onSubmit={handleSubmit}
+        isLoading={createMutation.isPending}
+      />
+    </ProtectedRoute>
+  );
+}
@@ -1,22 +1,82 @@
 "use client";
 
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
 import {
-  Card,
-  CardContent,
-  CardDescription,
-  CardHeader,
-  CardTitle,
-} from "@/components/ui/card";
-import { Button } from "@/components/ui/button";
-import { Plus, Shield } from "lucide-react";
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, AlertTriangle } from "lucide-react";
 import { ProtectedRoute } from "@/components/protected-route";
+import { RoleTable } from "@/components/roles/role-table";
+import { RoleFormDialog } from "@/components/roles/role-form-dialog";
+import { PROTECTED_ROLES } from "@/components/roles/role-columns";
+import {
+  useCreateRole,
+  useUpdateRole,
+  useDeleteRole,
+} from "@/lib/hooks/use-roles";
+import type { Role, CreateRoleInput } from "@/types/role";
 
 export default function RolesPage() {
+  const [formDialog, setFormDialog] = useState<{
+    open: boolean;
+    role: Role | null;
+  }>({
+    open: false,
+    role: null,
+  });
+  const [deleteTarget, setDeleteTarget] = useState<Role | null>(null);
+
+  // Mutations (toasts are handled inside the hooks)
+  const createMutation = useCreateRole();
+  const updateMutation = useUpdateRole();
+  const deleteMutation = useDeleteRole();
+
+  // Handlers
+  const handleCreate = () => {
+    setFormDialog({ open: true, role: null });
+  };
+
+  const handleEdit = (role: Role) => {
+    setFormDialog({ open: true, role });
+  };
+
+  const handleDelete = (role: Role) => {
+    if (PROTECTED_ROLES.includes(role.name)) return;
+    setDeleteTarget(role);
+  };
+
+  const handleSubmit = async (data: CreateRoleInput) => {
+    if (formDialog.role) {
+      await updateMutation.mutateAsync({ id: formDialog.role.id, data });
+    } else {
+      await createMutation.mutateAsync(data);
+    }
+    setFormDialog({ open: false, role: null });
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await deleteMutation.mutateAsync(deleteTarget.id);
+      setDeleteTarget(null);
+    } catch {
+      // Error toast is shown by useDeleteRole
+    }
+  };
+
   return (
-    <ProtectedRoute allowedRoles={["Super Admin", "Admin"]}>
+    <ProtectedRoute requireAuth>
       <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
-        <div className="flex items-center justify-between px-4 lg:px-6">
-          <div>
+        <div className="px-4 lg:px-6">
+          <div className="mb-6">
             <h1 className="text-3xl font-bold tracking-tight">
               Roles Management
             </h1>
@@ -24,31 +84,72 @@ export default function RolesPage() {
               Manage system roles and permissions
             </p>
           </div>
-          <Button>
-            <Plus className="mr-2 h-4 w-4" />
-            Add Role
-          </Button>
-        </div>
 
-        <div className="px-4 lg:px-6">
           <Card>
-            <CardHeader>
-              <CardTitle>
-                <Shield className="inline mr-2 h-5 w-5" />
-                Roles
-              </CardTitle>
-              <CardDescription>
-                Role management will be implemented in Task 9
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <p className="text-sm text-muted-foreground">
-                Coming soon: Role CRUD with permission assignment interface
-              </p>
+            <CardContent className="p-6">
+              <RoleTable
+                onCreate={handleCreate}
+                onEdit={handleEdit}
+                onDelete={handleDelete}
+              />
             </CardContent>
           </Card>
         </div>
       </div>
+
+      {/* Form Dialog */}
+      <RoleFormDialog
+        open={formDialog.open}
+        onOpenChange={(open) => setFormDialog({ open, role: null })}
+        onSubmit={handleSubmit}
+        role={formDialog.role}
+        isLoading={createMutation.isPending || updateMutation.isPending}
+      />
+
+      {/* Delete Confirmation */}
+      <AlertDialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              Delete Role
+            </AlertDialogTitle>
+            <AlertDialogDescription className="space-y-2">
+              <span className="block">
+                Are you sure you want to delete{" "}
+                <strong className="text-foreground">{deleteTarget?.name}</strong>?
+              </span>
+              {!!deleteTarget?.users_count && (
+                <span className="block text-destructive">
+                  {deleteTarget.users_count} user(s) currently have this role
+                  and will lose its permissions.
+                </span>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteMutation.isPending}>
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirmDelete();
+              }}
+              disabled={deleteMutation.isPending}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              {deleteMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Delete Role
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </ProtectedRoute>
   );
 }
@@ -1,5 +1,6 @@
 "use client";
 
+import { useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
@@ -18,13 +19,21 @@ import {
   Info,
   Settings,
   Plug,
+  ArrowRightLeft,
+  History,
+  GraduationCap,
 } from "lucide-react";
+import { useSession } from "next-auth/react";
 import { ProtectedRoute } from "@/components/protected-route";
 import { UserDetailsTab } from "@/components/users/tabs/user-details-tab";
 import { RolesPermissionsTab } from "@/components/users/tabs/roles-permissions-tab";
 import { MoreInformationTab } from "@/components/users/tabs/more-information-tab";
 import { SettingsTab } from "@/components/users/tabs/settings-tab";
 import { ConnectionsTab } from "@/components/users/tabs/connections-tab";
+import { CareerHistoryTab } from "@/components/users/tabs/career-history-tab";
+import { SkillsTab } from "@/components/users/tabs/skills-tab";
+import { AssignmentWizard } from "@/components/hrm/assignments/assignment-wizard";
+import { usePermissions } from "@/hooks/use-permissions";
 import { useUser } from "@/lib/hooks/use-users";
 import { Skeleton } from "@/components/ui/skeleton";
 import { formatDistanceToNow } from "date-fns";
@@ -36,6 +45,10 @@ export default function UserDetailPage() {
   const userId = params.id as string;
 
   const { data: user, isLoading } = useUser(userId);
+  const { can } = usePermissions();
+  const [assignmentOpen, setAssignmentOpen] = useState(false);
+  const canManageAssignment = can("assign", "user");
+  const { data: session } = useSession();
 
   if (isLoading) {
     return (
@@ -66,6 +79,11 @@ export default function UserDetailPage() {
     );
   }
 
+  const isOwnAccount = session?.user?.email === user.email;
+
+  // Users record their own skills; HR can maintain anyone's
+  const canEditSkills = canManageAssignment || isOwnAccount;
+
   return (
     <ProtectedRoute requireAuth>
       <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
@@ -94,6 +112,16 @@ export default function UserDetailPage() {
 
             {/* Right: Action buttons */}
             <div className="flex items-center gap-2 flex-wrap">
+              {canManageAssignment && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setAssignmentOpen(true)}
+                >
+                  <ArrowRightLeft className="h-4 w-4 mr-2" />
+                  Transfer / Promote
+                </Button>
+              )}
               <Button variant="outline" size="sm">
                 <Shield className="h-4 w-4 mr-2" />
                 Permissions
@@ -147,6 +175,20 @@ export default function UserDetailPage() {
                   <Info className="h-4 w-4" />
                   <span>More Information</span>
                 </TabsTrigger>
+                <TabsTrigger
+                  value="career"
+                  className="data-[state=active]:bg-transparent flex-0 data-[state=active]:shadow-none data-[state=active]:border-b-2 data-[state=active]:border-t-0 data-[state=active]:border-l-0 data-[state=active]:border-r-0 data-[state=active]:border-zinc-900 data-[state=active]:rounded-b-none px-0 py-1 text-muted-foreground data-[state=active]:text-foreground"
+                >
+                  <History className="h-4 w-4" />
+                  <span>Career History</span>
+                </TabsTrigger>
+                <TabsTrigger
+                  value="skills"
+                  className="data-[state=active]:bg-transparent flex-0 data-[state=active]:shadow-none data-[state=active]:border-b-2 data-[state=active]:border-t-0 data-[state=active]:border-l-0 data-[state=active]:border-r-0 data-[state=active]:border-zinc-900 data-[state=active]:rounded-b-none px-0 py-1 text-muted-foreground data-[state=active]:text-foreground"
+                >
+                  <GraduationCap className="h-4 w-4" />
+                  <span>Skills</span>
+                </TabsTrigger>
                 <TabsTrigger
                   value="settings"
                   className="data-[state=active]:bg-transparent flex-0 data-[state=active]:shadow-none data-[state=active]:border-b-2 data-[state=active]:border-t-0 data-[state=active]:border-l-0 data-[state=active]:border-r-0 data-[state=active]:border-zinc-900 data-[state=active]:rounded-b-none px-0 py-1 text-muted-foreground data-[state=active]:text-foreground"
@@ -176,8 +218,21 @@ export default function UserDetailPage() {
                   <MoreInformationTab user={user} userId={userId} />
                 </TabsContent>
 
+                <TabsContent value="career" className="m-0 pt-6">
+                  <CareerHistoryTab userId={userId} />
+                </TabsContent>
+
+                <TabsContent value="skills" className="m-0 pt-6">
+                  <SkillsTab userId={userId} canEdit={canEditSkills} />
+                </TabsContent>
+
                 <TabsContent value="settings" className="m-0 pt-6">
-                  <SettingsTab userId={userId} />
+                  <SettingsTab
+                    userId={userId}
+                    email={user.email}
+                    twoFactorEnabled={!!user.two_factor_enabled}
+                    isOwnAccount={isOwnAccount}
+                  />
                 </TabsContent>
 
                 <TabsContent value="connections" className="m-0 pt-6">
@@ -259,6 +314,14 @@ export default function UserDetailPage() {
           </div>
         </div>
       </div>
+
+      {canManageAssignment && (
+        <AssignmentWizard
+          open={assignmentOpen}
+          onOpenChange={setAssignmentOpen}
+          user={user}
+        />
+      )}
     </ProtectedRoute>
   );
 }
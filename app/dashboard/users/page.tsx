@@ -5,7 +5,7 @@ export const dynamic = "force-dynamic";
 
 export default function UsersPage() {
   return (
-    <ProtectedRoute allowedRoles={["Super Admin", "Admin"]}>
+    <ProtectedRoute requireAuth>
       <UsersClient />
     </ProtectedRoute>
   );
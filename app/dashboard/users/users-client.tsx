@@ -5,6 +5,17 @@ import { Card, CardContent } from "@/components/ui/card";
 import { UserTable } from "@/components/users/user-table";
 import { UserFormDialog } from "@/components/users/user-form-dialog";
 import { DeleteConfirmationDialog } from "@/components/users/delete-confirmation-dialog";
+import { UserImportDialog } from "@/components/users/user-import-dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import {
   useCreateUser,
   useUpdateUser,
@@ -17,6 +28,10 @@ import {
   useUploadAvatar,
   useDeleteAvatar,
 } from "@/lib/hooks/use-users";
+import { useResetTwoFactor } from "@/lib/hooks/use-two-factor";
+import { useImpersonation } from "@/lib/hooks/use-impersonation";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useCommandStore } from "@/lib/store/command-store";
 import type { User, CreateUserInput, UpdateUserInput } from "@/types/user";
 
 import { format } from "date-fns";
@@ -54,6 +69,17 @@ export function UsersClient({ initialRoles = [] }: UsersClientProps) {
     isBulk: false,
     ids: [],
   });
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [resetTwoFactorUser, setResetTwoFactorUser] = useState<User | null>(
+    null
+  );
+  const [impersonateUser, setImpersonateUser] = useState<User | null>(null);
+
+  // "Create ..." from the command palette
+  const createRequested = useCommandStore(
+    (state) => state.intent === "users.create"
+  );
+  const clearIntent = useCommandStore((state) => state.clearIntent);
 
   // Mutations
   const createMutation = useCreateUser();
@@ -66,6 +92,10 @@ export function UsersClient({ initialRoles = [] }: UsersClientProps) {
   const sendPasswordResetMutation = useSendPasswordReset();
   const uploadAvatarMutation = useUploadAvatar();
   const deleteAvatarMutation = useDeleteAvatar();
+  const resetTwoFactorMutation = useResetTwoFactor();
+  const { isSuperAdmin } = usePermissions();
+  const { isImpersonating, startImpersonating, isStarting } =
+    useImpersonation();
 
   // Handlers
   const handleCreateNew = useCallback(() => {
@@ -127,6 +157,14 @@ export function UsersClient({ initialRoles = [] }: UsersClientProps) {
     [sendPasswordResetMutation]
   );
 
+  const handleResetTwoFactor = useCallback((user: User) => {
+    setResetTwoFactorUser(user);
+  }, []);
+
+  const handleImpersonate = useCallback((user: User) => {
+    setImpersonateUser(user);
+  }, []);
+
   const handleFormSubmit = async (data: UserFormSubmitData) => {
     try {
       console.log("=== FORM SUBMIT DEBUG ===");
@@ -196,8 +234,11 @@ export function UsersClient({ initialRoles = [] }: UsersClientProps) {
       }
 
       setFormDialog({ open: false, user: null });
+      clearIntent();
     } catch (error: unknown) {
       console.error("Error submitting form:", error);
+      // Let the dialog map validation errors onto its fields
+      throw error;
     }
   };
 
@@ -232,8 +273,15 @@ export function UsersClient({ initialRoles = [] }: UsersClientProps) {
                 onDeactivate={handleDeactivate}
                 onVerifyEmail={handleVerifyEmail}
                 onResetPassword={handleResetPassword}
+                onResetTwoFactor={handleResetTwoFactor}
+                onImpersonate={
+                  isSuperAdmin() && !isImpersonating
+                    ? handleImpersonate
+                    : undefined
+                }
                 onBulkDelete={handleBulkDelete}
                 onCreateNew={handleCreateNew}
+                onImport={() => setImportDialogOpen(true)}
                 initialRoles={initialRoles}
               />
             </CardContent>
@@ -243,13 +291,21 @@ export function UsersClient({ initialRoles = [] }: UsersClientProps) {
 
       {/* Dialogs */}
       <UserFormDialog
-        open={formDialog.open}
-        onOpenChange={(open) => setFormDialog({ open, user: null })}
+        open={formDialog.open || createRequested}
+        onOpenChange={(open) => {
+          setFormDialog({ open, user: null });
+          if (!open) clearIntent();
+        }}
         onSubmit={handleFormSubmit}
         user={formDialog.user}
         isLoading={createMutation.isPending || updateMutation.isPending}
       />
 
+      <UserImportDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+      />
+
       <DeleteConfirmationDialog
         open={deleteDialog.open}
         onOpenChange={(open) =>
@@ -261,6 +317,76 @@ export function UsersClient({ initialRoles = [] }: UsersClientProps) {
         isBulk={deleteDialog.isBulk}
         count={deleteDialog.ids.length}
       />
+
+      <AlertDialog
+        open={!!resetTwoFactorUser}
+        onOpenChange={(open) => !open && setResetTwoFactorUser(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset two-factor authentication?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This removes the authenticator app and recovery codes for{" "}
+              <strong className="text-foreground">
+                {resetTwoFactorUser?.name}
+              </strong>
+              . They can sign in with their password alone until they enroll
+              again. Only do this after verifying their identity.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={resetTwoFactorMutation.isPending}>
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-white hover:bg-destructive/90"
+              disabled={resetTwoFactorMutation.isPending}
+              onClick={() => {
+                if (resetTwoFactorUser) {
+                  resetTwoFactorMutation.mutate(resetTwoFactorUser.id);
+                }
+              }}
+            >
+              Reset 2FA
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog
+        open={!!impersonateUser}
+        onOpenChange={(open) => !open && !isStarting && setImpersonateUser(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Log in as {impersonateUser?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You will see the panel with exactly the roles and permissions of{" "}
+              <strong className="text-foreground">{impersonateUser?.email}</strong>
+              . Changes to their account, such as email, password, two-factor
+              and sessions, are blocked until you stop impersonating. The start
+              and end are recorded in the activity log.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isStarting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isStarting}
+              onClick={(event) => {
+                // Keep the dialog open until the page reloads as the user
+                event.preventDefault();
+                if (impersonateUser) {
+                  startImpersonating(impersonateUser, {
+                    onError: () => setImpersonateUser(null),
+                  });
+                }
+              }}
+            >
+              {isStarting ? "Switching..." : "Log in as user"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </>
   );
 }
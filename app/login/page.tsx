@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect, Suspense } from "react";
-import { signIn } from "next-auth/react";
+import { signIn, signOut, useSession } from "next-auth/react";
 import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import Image from "next/image";
@@ -15,8 +15,14 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { OTPInput } from "@/components/ui/otp-input";
 import { Icons } from "@/components/icons";
 import { toast } from "sonner";
+import {
+  INVALID_TWO_FACTOR_CODE,
+  TOTP_CODE_LENGTH,
+  TWO_FACTOR_REQUIRED,
+} from "@/lib/two-factor";
 
 function LoginForm() {
   const router = useRouter();
@@ -24,6 +30,26 @@ function LoginForm() {
   const [isLoading, setIsLoading] = useState(false);
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  const [step, setStep] = useState<"credentials" | "two-factor">(
+    "credentials"
+  );
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  // Google / GitHub sign-in to an account with 2FA: the session exists but
+  // grants nothing until the code is verified (see auth.ts)
+  const { data: session, update } = useSession();
+  const socialTwoFactor = !!session?.twoFactorPending;
+  const showTwoFactor = step === "two-factor" || socialTwoFactor;
+
+  // Set by the proxy and by the API client after a session expires;
+  // only same-site paths are honoured
+  const callbackUrl = searchParams.get("callbackUrl");
+  const redirectTo =
+    callbackUrl?.startsWith("/") && !callbackUrl.startsWith("//")
+      ? callbackUrl
+      : "/dashboard";
 
   // Check for error message in URL params (from account deactivation redirect)
   useEffect(() => {
@@ -40,22 +66,30 @@ function LoginForm() {
     }
   }, [searchParams, router]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const authenticate = async (
+    secondFactor?: { code: string } | { recovery_code: string }
+  ) => {
     setIsLoading(true);
 
     try {
       const result = await signIn("credentials", {
         email,
         password,
+        ...secondFactor,
         redirect: false,
       });
 
-      if (result?.error) {
+      if (result?.code === TWO_FACTOR_REQUIRED) {
+        setStep("two-factor");
+      } else if (result?.code === INVALID_TWO_FACTOR_CODE) {
+        toast.error(
+          useRecoveryCode ? "Invalid recovery code" : "Invalid authentication code"
+        );
+      } else if (result?.error) {
         toast.error("Invalid credentials");
       } else {
         toast.success("Login successful");
-        router.push("/dashboard");
+        router.push(redirectTo);
         router.refresh();
       }
     } catch {
@@ -65,10 +99,63 @@ function LoginForm() {
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    authenticate();
+  };
+
+  const verifySocialTwoFactor = async (
+    secondFactor: { code: string } | { recovery_code: string }
+  ) => {
+    setIsLoading(true);
+
+    try {
+      const next = await update({ twoFactor: secondFactor });
+
+      if (next?.twoFactorPending) {
+        toast.error(
+          useRecoveryCode ? "Invalid recovery code" : "Invalid authentication code"
+        );
+      } else {
+        toast.success("Login successful");
+        router.push(redirectTo);
+        router.refresh();
+      }
+    } catch {
+      toast.error("An error occurred during login");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleTwoFactorSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const secondFactor = useRecoveryCode
+      ? { recovery_code: recoveryCode.trim() }
+      : { code };
+
+    if (socialTwoFactor) {
+      verifySocialTwoFactor(secondFactor);
+    } else {
+      authenticate(secondFactor);
+    }
+  };
+
+  const handleBackToCredentials = async () => {
+    // Drop the half-finished social sign-in
+    if (socialTwoFactor) {
+      await signOut({ redirect: false });
+    }
+    setStep("credentials");
+    setCode("");
+    setRecoveryCode("");
+    setUseRecoveryCode(false);
+  };
+
   const handleSocialLogin = async (provider: "google" | "github") => {
     setIsLoading(true);
     try {
-      await signIn(provider, { callbackUrl: "/dashboard" });
+      await signIn(provider, { callbackUrl: redirectTo });
     } catch {
       toast.error(`Failed to login with ${provider}`);
       setIsLoading(false);
@@ -88,98 +175,171 @@ function LoginForm() {
               priority
             />
           </div>
-          <CardTitle className="text-2xl font-bold">Welcome back</CardTitle>
+          <CardTitle className="text-2xl font-bold">
+            {showTwoFactor ? "Two-factor authentication" : "Welcome back"}
+          </CardTitle>
           <CardDescription>
-            Enter your credentials to access your account
+            {showTwoFactor
+              ? useRecoveryCode
+                ? "Enter one of your recovery codes"
+                : "Enter the 6-digit code from your authenticator app"
+              : "Enter your credentials to access your account"}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="you@example.com"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                disabled={isLoading}
-                required
-              />
-            </div>
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label htmlFor="password">Password</Label>
-                <Link
-                  href="/forgot-password"
-                  className="text-sm text-primary hover:underline"
+          {showTwoFactor ? (
+            <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+              {useRecoveryCode ? (
+                <div className="space-y-2">
+                  <Label htmlFor="recovery_code">Recovery code</Label>
+                  <Input
+                    id="recovery_code"
+                    placeholder="xxxxxxxxxx-xxxxxxxxxx"
+                    value={recoveryCode}
+                    onChange={(e) => setRecoveryCode(e.target.value)}
+                    disabled={isLoading}
+                    autoComplete="off"
+                    autoFocus
+                    required
+                  />
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <Label className="text-center block">Authentication code</Label>
+                  <OTPInput
+                    length={TOTP_CODE_LENGTH}
+                    value={code}
+                    onChange={setCode}
+                    disabled={isLoading}
+                  />
+                </div>
+              )}
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={
+                  isLoading ||
+                  (useRecoveryCode
+                    ? !recoveryCode.trim()
+                    : code.length !== TOTP_CODE_LENGTH)
+                }
+              >
+                {isLoading ? "Verifying..." : "Verify & Sign in"}
+              </Button>
+
+              <div className="text-center">
+                <button
+                  type="button"
+                  onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+                  disabled={isLoading}
+                  className="text-sm text-muted-foreground hover:text-primary transition-colors"
                 >
-                  Forgot password?
-                </Link>
+                  {useRecoveryCode
+                    ? "Use authenticator app instead"
+                    : "Lost your device? Use a recovery code"}
+                </button>
               </div>
-              <Input
-                id="password"
-                type="password"
-                placeholder="••••••••"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                disabled={isLoading}
-                required
-              />
-            </div>
-            <Button type="submit" className="w-full" disabled={isLoading}>
-              {isLoading ? "Signing in..." : "Sign in"}
-            </Button>
-          </form>
-
-          <div className="relative">
-            <div className="absolute inset-0 flex items-center">
-              <span className="w-full border-t" />
-            </div>
-            <div className="relative flex justify-center text-xs uppercase">
-              <span className="bg-background px-2 text-muted-foreground">
-                Or continue with
-              </span>
-            </div>
-          </div>
 
-          <div className="grid grid-cols-2 gap-4">
-            <Button
-              variant="outline"
-              onClick={() => handleSocialLogin("google")}
-              disabled={isLoading}
-            >
-              <Icons.google className="mr-2 h-4 w-4" />
-              Google
-            </Button>
-            <Button
-              variant="outline"
-              onClick={() => handleSocialLogin("github")}
-              disabled={isLoading}
-            >
-              <Icons.gitHub className="mr-2 h-4 w-4" />
-              GitHub
-            </Button>
-          </div>
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={handleBackToCredentials}
+                className="w-full"
+              >
+                Back to login
+              </Button>
+            </form>
+          ) : (
+            <>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="you@example.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    disabled={isLoading}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="password">Password</Label>
+                    <Link
+                      href="/forgot-password"
+                      className="text-sm text-primary hover:underline"
+                    >
+                      Forgot password?
+                    </Link>
+                  </div>
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="••••••••"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    disabled={isLoading}
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading ? "Signing in..." : "Sign in"}
+                </Button>
+              </form>
 
-          <div className="text-center text-sm">
-            Don&apos;t have an account?{" "}
-            <Link
-              href="/register"
-              className="text-primary hover:underline font-medium"
-            >
-              Sign up
-            </Link>
-          </div>
+              <div className="relative">
+                <div className="absolute inset-0 flex items-center">
+                  <span className="w-full border-t" />
+                </div>
+                <div className="relative flex justify-center text-xs uppercase">
+                  <span className="bg-background px-2 text-muted-foreground">
+                    Or continue with
+                  </span>
+                </div>
+              </div>
 
-          <div className="text-center">
-            <Link
-              href="/login/otp"
-              className="text-sm text-muted-foreground hover:text-primary transition-colors"
-            >
-              Login with OTP instead
-            </Link>
-          </div>
+              <div className="grid grid-cols-2 gap-4">
+                <Button
+                  variant="outline"
+                  onClick={() => handleSocialLogin("google")}
+                  disabled={isLoading}
+                >
+                  <Icons.google className="mr-2 h-4 w-4" />
+                  Google
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => handleSocialLogin("github")}
+                  disabled={isLoading}
+                >
+                  <Icons.gitHub className="mr-2 h-4 w-4" />
+                  GitHub
+                </Button>
+              </div>
+
+              <div className="text-center text-sm">
+                Don&apos;t have an account?{" "}
+                <Link
+                  href="/register"
+                  className="text-primary hover:underline font-medium"
+                >
+                  Sign up
+                </Link>
+              </div>
+
+              <div className="text-center">
+                <Link
+                  href="/login/otp"
+                  className="text-sm text-muted-foreground hover:text-primary transition-colors"
+                >
+                  Login with OTP instead
+                </Link>
+              </div>
+            </>
+          )}
         </CardContent>
       </Card>
     </div>
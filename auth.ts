@@ -1,7 +1,184 @@
-import NextAuth from "next-auth"
+import NextAuth, { CredentialsSignin } from "next-auth"
+import type { JWT } from "next-auth/jwt"
 import Google from "next-auth/providers/google"
 import GitHub from "next-auth/providers/github"
 import Credentials from "next-auth/providers/credentials"
+import { INVALID_TWO_FACTOR_CODE, TWO_FACTOR_REQUIRED } from "@/lib/two-factor"
+
+class TwoFactorRequired extends CredentialsSignin {
+  code = TWO_FACTOR_REQUIRED
+}
+
+class InvalidTwoFactorCode extends CredentialsSignin {
+  code = INVALID_TWO_FACTOR_CODE
+}
+
+// Refresh a little early so requests in flight don't race the expiry
+const REFRESH_MARGIN_MS = 60 * 1000
+
+function getTokenExpiry(expiresIn?: number) {
+  return expiresIn ? Date.now() + expiresIn * 1000 : undefined
+}
+
+function isTokenExpiring(token: JWT) {
+  return !!token.accessTokenExpires && Date.now() > token.accessTokenExpires - REFRESH_MARGIN_MS
+}
+
+/**
+ * Exchange the refresh token for a new token pair. The backend rotates
+ * refresh tokens, so the old one is useless after this call.
+ */
+async function refreshAccessToken(token: JWT): Promise<JWT> {
+  try {
+    const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'}/api/v1/auth/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refresh_token: token.refreshToken }),
+    })
+
+    const data = await response.json()
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.message || `Refresh failed with status ${response.status}`)
+    }
+
+    return {
+      ...token,
+      accessToken: data.data.token,
+      refreshToken: data.data.refresh_token ?? token.refreshToken,
+      accessTokenExpires: getTokenExpiry(data.data.expires_in),
+      error: undefined,
+    }
+  } catch (error) {
+    console.error('Token refresh error:', error)
+    return { ...token, error: 'RefreshAccessTokenError' }
+  }
+}
+
+/**
+ * Finish a social sign-in held back by `two_factor_required`. A wrong code
+ * leaves the challenge pending so the user can try again.
+ */
+async function completeTwoFactorChallenge(
+  token: JWT,
+  secondFactor: { code?: string; recovery_code?: string }
+): Promise<JWT> {
+  try {
+    const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'}/api/v1/auth/two-factor-challenge`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        challenge_token: token.twoFactorChallenge,
+        ...(secondFactor.recovery_code
+          ? { recovery_code: secondFactor.recovery_code }
+          : { code: secondFactor.code }),
+      }),
+    })
+
+    const data = await response.json()
+
+    if (!response.ok || !data.success) {
+      return token
+    }
+
+    return {
+      ...token,
+      sub: String(data.data.user.id),
+      accessToken: data.data.token,
+      refreshToken: data.data.refresh_token,
+      accessTokenExpires: getTokenExpiry(data.data.expires_in),
+      roles: data.data.user.roles?.map((role: { name: string }) => role.name) || [],
+      permissions: data.data.user.permissions?.map((perm: { name: string }) => perm.name) || [],
+      twoFactorChallenge: undefined,
+    }
+  } catch (error) {
+    console.error('Two-factor challenge error:', error)
+    return token
+  }
+}
+
+/**
+ * Switch the session over to another user (`update({ impersonate: id })`).
+ * The backend decides who may impersonate whom, issues a token for the
+ * target without a refresh token and logs the start. On failure the
+ * session is left as it was.
+ */
+async function startImpersonation(token: JWT, userId: string): Promise<JWT> {
+  // One level only: the admin's own tokens are what we switch back to
+  if (token.impersonator) {
+    return token
+  }
+
+  try {
+    const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'}/api/v1/users/${encodeURIComponent(userId)}/impersonate`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token.accessToken}`,
+        'Content-Type': 'application/json',
+      },
+    })
+
+    const data = await response.json()
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.message || `Impersonation failed with status ${response.status}`)
+    }
+
+    const target = data.data.user
+
+    return {
+      ...token,
+      sub: String(target.id),
+      name: target.name,
+      email: target.email,
+      picture: target.avatar_url ?? null,
+      accessToken: data.data.token,
+      refreshToken: undefined,
+      accessTokenExpires: getTokenExpiry(data.data.expires_in),
+      roles: target.roles?.map((role: { name: string }) => role.name) || [],
+      permissions: target.permissions?.map((perm: { name: string }) => perm.name) || [],
+      impersonator: {
+        sub: token.sub,
+        name: token.name,
+        email: token.email,
+        picture: token.picture,
+        accessToken: token.accessToken,
+        refreshToken: token.refreshToken,
+        accessTokenExpires: token.accessTokenExpires,
+        roles: token.roles,
+        permissions: token.permissions,
+      },
+    }
+  } catch (error) {
+    console.error('Impersonation error:', error)
+    return token
+  }
+}
+
+/**
+ * Restore the admin's own session. The backend logs the stop and revokes
+ * the impersonation token; if that call fails the token still expires on
+ * its own, so switching back never depends on it.
+ */
+async function stopImpersonation(token: JWT): Promise<JWT> {
+  if (!token.impersonator) {
+    return token
+  }
+
+  try {
+    await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'}/api/v1/auth/impersonate/stop`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token.accessToken}`,
+        'Content-Type': 'application/json',
+      },
+    })
+  } catch (error) {
+    console.error('Stop impersonation error:', error)
+  }
+
+  return { ...token, ...token.impersonator, impersonator: undefined }
+}
 
 export const { handlers, signIn, signOut, auth } = NextAuth({
   providers: [
@@ -17,10 +194,14 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
       credentials: {
         email: { label: "Email", type: "email" },
         password: { label: "Password", type: "password" },
+        code: { label: "Authentication code", type: "text" },
+        recovery_code: { label: "Recovery code", type: "text" },
       },
       async authorize(credentials) {
+        const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
+
         try {
-          const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'}/api/v1/auth/login`, {
+          let response = await fetch(`${apiUrl}/api/v1/auth/login`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
@@ -29,12 +210,37 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
             }),
           })
 
-          const data = await response.json()
+          let data = await response.json()
 
           if (!response.ok || !data.success) {
             return null
           }
 
+          // Password was correct but the account has TOTP enabled: no session
+          // until the second step succeeds
+          if (data.data.two_factor_required) {
+            if (!credentials.code && !credentials.recovery_code) {
+              throw new TwoFactorRequired()
+            }
+
+            response = await fetch(`${apiUrl}/api/v1/auth/two-factor-challenge`, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({
+                challenge_token: data.data.challenge_token,
+                ...(credentials.recovery_code
+                  ? { recovery_code: credentials.recovery_code }
+                  : { code: credentials.code }),
+              }),
+            })
+
+            data = await response.json()
+
+            if (!response.ok || !data.success) {
+              throw new InvalidTwoFactorCode()
+            }
+          }
+
           // Extract role names from roles array
           const roleNames = data.data.user.roles?.map((role: { name: string }) => role.name) || []
           const permissionNames = data.data.user.permissions?.map((perm: { name: string }) => perm.name) || []
@@ -44,10 +250,15 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
             email: data.data.user.email,
             name: data.data.user.name,
             accessToken: data.data.token,
+            refreshToken: data.data.refresh_token,
+            accessTokenExpires: getTokenExpiry(data.data.expires_in),
             roles: roleNames,
             permissions: permissionNames,
           }
         } catch (error) {
+          if (error instanceof CredentialsSignin) {
+            throw error
+          }
           console.error('Auth error:', error)
           return null
         }
@@ -55,10 +266,12 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
     }),
   ],
   callbacks: {
-    async jwt({ token, user, account }) {
+    async jwt({ token, user, account, trigger, session }) {
       // Initial sign in
       if (user) {
         token.accessToken = user.accessToken
+        token.refreshToken = user.refreshToken
+        token.accessTokenExpires = user.accessTokenExpires
         token.roles = user.roles
         token.permissions = user.permissions
         token.provider = account?.provider
@@ -73,9 +286,21 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
             `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'}/api/v1/auth/${account.provider}/callback?code=${account.access_token}`
           )
           const data = await response.json()
-          
-          if (data.access_token) {
+
+          // Same second step as the credentials login: the account has TOTP
+          // enabled, so no backend tokens (and no access, see proxy.ts) until
+          // the login page verifies a code through `update({ twoFactor })`
+          if (data.two_factor_required) {
+            token.twoFactorChallenge = data.challenge_token
+            token.accessToken = undefined
+            token.refreshToken = undefined
+            token.roles = []
+            token.permissions = []
+          } else if (data.access_token) {
             token.accessToken = data.access_token
+            token.refreshToken = data.refresh_token
+            token.accessTokenExpires = getTokenExpiry(data.expires_in)
+            token.sub = String(data.user.id) // backend id, not the provider's
             token.roles = data.user.roles
             token.permissions = data.user.permissions
           }
@@ -84,8 +309,41 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
         }
       }
 
-      // Validate user is still active on every request (except initial login)
-      if (token.accessToken && !user) {
+      // Second factor for a social sign-in, from the login page
+      if (trigger === 'update' && token.twoFactorChallenge && session?.twoFactor) {
+        token = await completeTwoFactorChallenge(token, session.twoFactor)
+      }
+
+      // Start / stop impersonating from `useImpersonation()`
+      if (trigger === 'update' && session?.impersonate) {
+        token = await startImpersonation(token, String(session.impersonate))
+      } else if (trigger === 'update' && session?.stopImpersonating === true) {
+        token = await stopImpersonation(token)
+      }
+
+      // Rotate the access token only when the client asks for it
+      // (`update({ refresh: true })`, see lib/auth.ts). Every session read
+      // also runs this callback, and the refresh token is single-use: if
+      // plain reads rotated it, concurrent ones would race and the cookie
+      // written last could hold a dead refresh token.
+      const refreshRequested = trigger === 'update' && session?.refresh === true
+
+      // Impersonation tokens have no refresh token and are never swapped
+      // back silently: a request made as the user must not be replayed as
+      // the admin. The API client ends impersonation explicitly instead.
+      if (!user && token.refreshToken && refreshRequested) {
+        token = await refreshAccessToken(token)
+
+        // Surface the failure to the client, which signs out
+        if (token.error) {
+          return token
+        }
+      }
+
+      // Validate user is still active on every request (except initial login).
+      // An expiring token is left to the client to refresh first, otherwise
+      // the 401 from /auth/me would sign the user out.
+      if (token.accessToken && !user && !isTokenExpiring(token)) {
         try {
           const response = await fetch(
             `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'}/api/v1/auth/me`,
@@ -97,6 +355,13 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
             }
           )
 
+          // The impersonated user's token stopped working (revoked, user
+          // deactivated): keep the admin signed in. The next API call gets
+          // a 401 and the client ends impersonation.
+          if (token.impersonator && !response.ok) {
+            return token
+          }
+
           if (!response.ok) {
             // Token invalid or user deactivated - force logout
             console.error('User validation failed:', response.status)
@@ -104,7 +369,11 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
           }
 
           const data = await response.json()
-          
+
+          if (token.impersonator && !data.data.is_active) {
+            return token
+          }
+
           // Check if user is still active
           if (!data.data.is_active) {
             console.error('User account deactivated')
@@ -132,10 +401,22 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
         return null as any
       }
 
+      session.user.id = token.sub as string
       session.user.accessToken = token.accessToken as string
       session.user.roles = token.roles as string[]
       session.user.permissions = token.permissions as string[]
       session.user.provider = token.provider as string
+      session.error = token.error
+      session.accessTokenExpires = token.accessTokenExpires
+      session.twoFactorPending = !!token.twoFactorChallenge
+      // Only the admin's identity reaches the client, never their tokens
+      session.impersonator = token.impersonator
+        ? {
+            id: token.impersonator.sub as string,
+            name: token.impersonator.name,
+            email: token.impersonator.email,
+          }
+        : undefined
       return session
     },
   },
@@ -145,6 +426,6 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
   },
   session: {
     strategy: 'jwt',
-    maxAge: 60 * 60, // 60 minutes (match backend)
+    maxAge: 7 * 24 * 60 * 60, // 7 days (match backend refresh token); access tokens rotate within it
   },
 })
@@ -0,0 +1,108 @@
+"use client";
+
+import { ColumnDef } from "@tanstack/react-table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Eye } from "lucide-react";
+import { format } from "date-fns";
+import { formatSubjectType } from "@/lib/activity";
+import type { ActivityLog } from "@/types/activity";
+
+interface ActivityColumnsProps {
+  onView: (activity: ActivityLog) => void;
+  onFilterCauser?: (causerId: string) => void;
+  onFilterSubjectType?: (subjectType: string) => void;
+}
+
+export const createActivityColumns = ({
+  onView,
+  onFilterCauser,
+  onFilterSubjectType,
+}: ActivityColumnsProps): ColumnDef<ActivityLog>[] => [
+  {
+    accessorKey: "created_at",
+    header: "Date",
+    cell: ({ row }) => (
+      <div className="text-sm whitespace-nowrap">
+        {format(new Date(row.original.created_at), "dd MMM yyyy HH:mm")}
+      </div>
+    ),
+  },
+  {
+    accessorKey: "log_name",
+    header: "Log",
+    cell: ({ row }) => (
+      <Badge variant="outline">{row.original.log_name || "default"}</Badge>
+    ),
+  },
+  {
+    accessorKey: "description",
+    header: "Description",
+    enableSorting: false,
+    cell: ({ row }) => (
+      <div className="max-w-[320px] truncate">{row.original.description}</div>
+    ),
+  },
+  {
+    accessorKey: "subject_type",
+    header: "Subject",
+    enableSorting: false,
+    cell: ({ row }) => {
+      const { subject_type, subject_id } = row.original;
+      if (!subject_type) {
+        return <div className="text-sm text-muted-foreground">-</div>;
+      }
+      return (
+        <button
+          type="button"
+          className="text-sm hover:underline"
+          onClick={() => onFilterSubjectType?.(subject_type)}
+          title="Filter by this subject type"
+        >
+          {formatSubjectType(subject_type)}
+          <span className="ml-1 font-mono text-xs text-muted-foreground">
+            #{subject_id}
+          </span>
+        </button>
+      );
+    },
+  },
+  {
+    accessorKey: "causer",
+    header: "Causer",
+    enableSorting: false,
+    cell: ({ row }) => {
+      const { causer, causer_id } = row.original;
+      if (!causer_id) {
+        return <div className="text-sm text-muted-foreground">System</div>;
+      }
+      return (
+        <button
+          type="button"
+          className="text-left text-sm hover:underline"
+          onClick={() => onFilterCauser?.(String(causer_id))}
+          title="Filter by this causer"
+        >
+          <div className="font-medium">{causer?.name || `#${causer_id}`}</div>
+          {causer?.email && (
+            <div className="text-xs text-muted-foreground">{causer.email}</div>
+          )}
+        </button>
+      );
+    },
+  },
+  {
+    id: "actions",
+    header: "",
+    cell: ({ row }) => (
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => onView(row.original)}
+      >
+        <Eye className="h-4 w-4" />
+        <span className="sr-only">View details</span>
+      </Button>
+    ),
+  },
+];
@@ -0,0 +1,146 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { format } from "date-fns";
+import {
+  formatPropertyValue,
+  formatSubjectType,
+  getActivityChanges,
+  getActivityExtraProperties,
+} from "@/lib/activity";
+import type { ActivityLog } from "@/types/activity";
+
+interface ActivityDetailSheetProps {
+  activity: ActivityLog | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ActivityDetailSheet({
+  activity,
+  onOpenChange,
+}: ActivityDetailSheetProps) {
+  const changes = useMemo(
+    () => (activity ? getActivityChanges(activity) : []),
+    [activity]
+  );
+  const extra = useMemo(
+    () => (activity ? getActivityExtraProperties(activity) : {}),
+    [activity]
+  );
+
+  return (
+    <Sheet open={!!activity} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl">
+        {activity && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{activity.description}</SheetTitle>
+              <SheetDescription>
+                {format(new Date(activity.created_at), "PPpp")}
+              </SheetDescription>
+            </SheetHeader>
+
+            <ScrollArea className="h-[calc(100vh-8rem)] px-4">
+              <div className="space-y-6 pb-6">
+                {/* Summary */}
+                <dl className="grid grid-cols-3 gap-y-3 text-sm">
+                  <dt className="text-muted-foreground">Log</dt>
+                  <dd className="col-span-2">
+                    <Badge variant="outline">
+                      {activity.log_name || "default"}
+                    </Badge>
+                  </dd>
+
+                  <dt className="text-muted-foreground">Subject</dt>
+                  <dd className="col-span-2">
+                    {activity.subject_type ? (
+                      <>
+                        {formatSubjectType(activity.subject_type)}{" "}
+                        <span className="font-mono text-xs text-muted-foreground">
+                          #{activity.subject_id}
+                        </span>
+                      </>
+                    ) : (
+                      "-"
+                    )}
+                  </dd>
+
+                  <dt className="text-muted-foreground">Causer</dt>
+                  <dd className="col-span-2">
+                    {activity.causer_id
+                      ? activity.causer?.name || `#${activity.causer_id}`
+                      : "System"}
+                    {activity.causer?.email && (
+                      <div className="text-xs text-muted-foreground">
+                        {activity.causer.email}
+                      </div>
+                    )}
+                  </dd>
+                </dl>
+
+                <Separator />
+
+                {/* Changes */}
+                <div className="space-y-3">
+                  <h4 className="text-sm font-medium">Changes</h4>
+                  {changes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No attribute changes recorded.
+                    </p>
+                  ) : (
+                    <div className="rounded-md border divide-y text-sm">
+                      <div className="grid grid-cols-3 gap-2 bg-muted/50 px-3 py-2 font-medium">
+                        <span>Field</span>
+                        <span>Old</span>
+                        <span>New</span>
+                      </div>
+                      {changes.map((change) => (
+                        <div
+                          key={change.key}
+                          className="grid grid-cols-3 gap-2 px-3 py-2"
+                        >
+                          <span className="font-mono text-xs break-all">
+                            {change.key}
+                          </span>
+                          <span className="break-all text-red-600 dark:text-red-400 line-through decoration-red-600/40">
+                            {formatPropertyValue(change.old)}
+                          </span>
+                          <span className="break-all text-green-600 dark:text-green-400">
+                            {formatPropertyValue(change.new)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* Other properties */}
+                {Object.keys(extra).length > 0 && (
+                  <>
+                    <Separator />
+                    <div className="space-y-3">
+                      <h4 className="text-sm font-medium">Properties</h4>
+                      <pre className="rounded-md bg-muted p-3 text-xs overflow-x-auto">
+                        {JSON.stringify(extra, null, 2)}
+                      </pre>
+                    </div>
+                  </>
+                )}
+              </div>
+            </ScrollArea>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,315 @@
+"use client";
+
+import React, { useMemo } from "react";
+import {
+  getCoreRowModel,
+  getSortedRowModel,
+  useReactTable,
+} from "@tanstack/react-table";
+import { Button } from "@/components/ui/button";
+import {
+  Calendar as CalendarIcon,
+  Download,
+  RefreshCw,
+  X,
+  Loader2,
+} from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { LazyCalendar } from "@/lib/lazy-components";
+import {
+  useActivityLogs,
+  useActivityLogNames,
+  useActivitySubjectTypes,
+  useExportActivityLogs,
+} from "@/lib/hooks/use-activity-logs";
+import { useUsers } from "@/lib/hooks/use-users";
+import { formatSubjectType } from "@/lib/activity";
+import type { ActivityLog, ActivityLogFilters } from "@/types/activity";
+import { TableSkeleton } from "@/components/ui/skeleton-loaders";
+import { ErrorState } from "@/components/error-boundary";
+import { useDataTable } from "@/lib/hooks/use-data-table";
+import { DataTableShell } from "@/components/shared/data-table-shell";
+import { createActivityColumns } from "./activity-columns";
+import { format, parseISO } from "date-fns";
+import { cn } from "@/lib/utils";
+
+interface ActivityTableProps {
+  onView: (activity: ActivityLog) => void;
+}
+
+const INITIAL_FILTERS: ActivityLogFilters = {
+  page: 1,
+  per_page: 20,
+  sort_by: "created_at",
+  sort_order: "desc",
+};
+
+/**
+ * ActivityTable component.
+ * Uses useDataTable hook for state and DataTableShell for UI.
+ */
+export function ActivityTable({ onView }: ActivityTableProps) {
+  const {
+    filters,
+    setFilters,
+    searchValue,
+    setSearchValue,
+    sorting,
+    handleSortingChange,
+    handlePageChange,
+    updateFilter,
+    clearFilters,
+  } = useDataTable<ActivityLogFilters>({
+    initialFilters: INITIAL_FILTERS,
+  });
+
+  const { data, isLoading, isError, error, refetch } = useActivityLogs(filters);
+  const { data: logNames = [] } = useActivityLogNames();
+  const { data: subjectTypes = [] } = useActivitySubjectTypes();
+  const { data: usersData } = useUsers({ per_page: 100, sort_by: "name" });
+  const exportMutation = useExportActivityLogs();
+
+  const columns = useMemo(
+    () =>
+      createActivityColumns({
+        onView,
+        onFilterCauser: (causerId) =>
+          setFilters((prev) => ({ ...prev, causer_id: causerId, page: 1 })),
+        onFilterSubjectType: (subjectType) =>
+          setFilters((prev) => ({
+            ...prev,
+            subject_type: subjectType,
+            page: 1,
+          })),
+      }),
+    [onView, setFilters]
+  );
+
+  // eslint-disable-next-line react-hooks/incompatible-library
+  const table = useReactTable({
+    data: data?.data || [],
+    columns,
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    onSortingChange: handleSortingChange,
+    state: {
+      sorting,
+    },
+    manualPagination: true,
+  });
+
+  if (isLoading) return <TableSkeleton />;
+  if (isError)
+    return <ErrorState error={error as Error} onRetry={() => refetch()} />;
+
+  const hasActiveFilters =
+    !!filters.search ||
+    !!filters.log_name ||
+    !!filters.causer_id ||
+    !!filters.subject_type ||
+    !!filters.date_from ||
+    !!filters.date_to;
+
+  const dateRange = {
+    from: filters.date_from ? parseISO(filters.date_from) : undefined,
+    to: filters.date_to ? parseISO(filters.date_to) : undefined,
+  };
+
+  // Export everything matching the current filters, not just this page
+  const exportFilters: ActivityLogFilters = {
+    ...filters,
+    page: undefined,
+    per_page: undefined,
+  };
+
+  return (
+    <DataTableShell
+      table={table}
+      searchValue={searchValue}
+      onSearchChange={setSearchValue}
+      searchPlaceholder="Search activity..."
+      pagination={
+        data
+          ? {
+              from: data.meta?.from,
+              to: data.meta?.to,
+              total: data.meta?.total,
+              currentPage: filters.page || 1,
+              lastPage: data.meta?.last_page || 1,
+              resourceName: "entries",
+            }
+          : undefined
+      }
+      onPageChange={handlePageChange}
+      filters={
+        <>
+          <Select
+            value={filters.log_name || "all"}
+            onValueChange={(val) => updateFilter("log_name", val)}
+          >
+            <SelectTrigger className="w-[150px]">
+              <SelectValue placeholder="All Logs" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Logs</SelectItem>
+              {logNames.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={filters.subject_type || "all"}
+            onValueChange={(val) => updateFilter("subject_type", val)}
+          >
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="All Subjects" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Subjects</SelectItem>
+              {subjectTypes.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {formatSubjectType(type)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={filters.causer_id || "all"}
+            onValueChange={(val) => updateFilter("causer_id", val)}
+          >
+            <SelectTrigger className="w-[170px]">
+              <SelectValue placeholder="All Causers" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Causers</SelectItem>
+              {usersData?.data.map((user) => (
+                <SelectItem key={user.id} value={String(user.id)}>
+                  {user.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                className={cn(
+                  "justify-start text-left font-normal",
+                  !dateRange.from && "text-muted-foreground"
+                )}
+              >
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                {dateRange.from ? (
+                  dateRange.to ? (
+                    <>
+                      {format(dateRange.from, "dd MMM")} -{" "}
+                      {format(dateRange.to, "dd MMM yyyy")}
+                    </>
+                  ) : (
+                    format(dateRange.from, "dd MMM yyyy")
+                  )
+                ) : (
+                  <span>Date range</span>
+                )}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <LazyCalendar
+                initialFocus
+                mode="range"
+                defaultMonth={dateRange.from}
+                selected={dateRange}
+                onSelect={(range) =>
+                  setFilters((prev) => ({
+                    ...prev,
+                    date_from: range?.from
+                      ? format(range.from, "yyyy-MM-dd")
+                      : undefined,
+                    date_to: range?.to
+                      ? format(range.to, "yyyy-MM-dd")
+                      : undefined,
+                    page: 1,
+                  }))
+                }
+                numberOfMonths={2}
+              />
+            </PopoverContent>
+          </Popover>
+
+          {hasActiveFilters && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => clearFilters(INITIAL_FILTERS)}
+            >
+              <X className="h-4 w-4 mr-2" />
+              Clear
+            </Button>
+          )}
+        </>
+      }
+      actions={
+        <>
+          <Button variant="outline" size="sm" onClick={() => refetch()}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={exportMutation.isPending}
+              >
+                {exportMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Download className="h-4 w-4 mr-2" />
+                )}
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem
+                onClick={() =>
+                  exportMutation.mutate({ filters: exportFilters, format: "csv" })
+                }
+              >
+                Export as CSV
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() =>
+                  exportMutation.mutate({ filters: exportFilters, format: "json" })
+                }
+              >
+                Export as JSON
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </>
+      }
+    />
+  );
+}
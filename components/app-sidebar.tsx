@@ -13,6 +13,10 @@ import {
   Building,
   Briefcase,
   Users as UsersGroup,
+  Trash2,
+  Gauge,
+  GanttChart,
+  Coins,
 } from "lucide-react";
 import { useSession } from "next-auth/react";
 import NextImage from "next/image";
@@ -29,6 +33,7 @@ import {
   SidebarMenuButton,
   SidebarMenuItem,
 } from "@/components/ui/sidebar";
+import { canAccessRoute } from "@/lib/permissions/routes";
 
 export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
   const { data: session } = useSession();
@@ -38,29 +43,36 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
     setMounted(true);
   }, []);
 
-  const userRoles = session?.user?.roles || [];
+  // Visibility follows ROUTE_PERMISSIONS, the same map proxy.ts enforces
+  const canAccess = (url: string) =>
+    !!session && canAccessRoute(url, session.user);
 
-  const hasRole = (roles: string[]) => {
-    if (roles.includes("*")) return true;
-    return userRoles.some((role) => roles.includes(role));
-  };
+  type NavItem = React.ComponentProps<typeof NavMain>["items"][number];
+
+  // Groups ("#") stay visible while at least one child is
+  const visible = (items: NavItem[]) =>
+    items
+      .map((item) =>
+        item.items
+          ? { ...item, items: item.items.filter((subItem) => canAccess(subItem.url)) }
+          : item
+      )
+      .filter((item) => (item.items ? item.items.length > 0 : canAccess(item.url)));
 
-  const navMain = [
+  const navMain = visible([
     {
       title: "Dashboard",
       url: "/dashboard",
       icon: LayoutDashboard,
-      roles: ["*"],
     },
-  ].filter((item) => hasRole(item.roles));
+  ]);
 
   // User Management Section
-  const userManagement = [
+  const userManagement = visible([
     {
       title: "User Management",
       url: "#",
       icon: Users,
-      roles: ["Super Admin", "Admin"],
       items: [
         {
           title: "Users",
@@ -79,15 +91,14 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
         },
       ],
     },
-  ].filter((item) => hasRole(item.roles));
+  ]);
 
   // HRM Section
-  const hrmSection = [
+  const hrmSection = visible([
     {
       title: "HRM",
       url: "#",
       icon: UsersGroup,
-      roles: ["Super Admin", "Admin", "HR Manager"],
       items: [
         {
           title: "Departments",
@@ -99,30 +110,48 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
           url: "/dashboard/hrm/positions",
           icon: Briefcase,
         },
+        {
+          title: "Compensation",
+          url: "/dashboard/hrm/compensation",
+          icon: Coins,
+        },
         {
           title: "Teams",
           url: "/dashboard/hrm/teams",
           icon: UsersGroup,
         },
+        {
+          title: "Timeline",
+          url: "/dashboard/hrm/teams/timeline",
+          icon: GanttChart,
+        },
+        {
+          title: "Capacity",
+          url: "/dashboard/hrm/capacity",
+          icon: Gauge,
+        },
+        {
+          title: "Trash",
+          url: "/dashboard/hrm/trash",
+          icon: Trash2,
+        },
       ],
     },
-  ].filter((item) => hasRole(item.roles));
+  ]);
 
   // Content & Other
-  const contentSection = [
+  const contentSection = visible([
     {
       title: "Content",
       url: "/dashboard/content",
       icon: FileText,
-      roles: ["*"],
     },
     {
       title: "Activity Logs",
       url: "/dashboard/activity",
       icon: Activity,
-      roles: ["Super Admin", "Admin"],
     },
-  ].filter((item) => hasRole(item.roles));
+  ]);
 
   const navSecondary = [
     {
@@ -0,0 +1,53 @@
+"use client";
+
+import { usePermissions } from "@/hooks/use-permissions";
+import type {
+  AbilityAction,
+  AbilityRecord,
+  AbilitySubject,
+} from "@/lib/permissions/abilities";
+
+type PermissionCheck = {
+  /** Permission name, or a list where any one is enough */
+  permission: string | string[];
+  /** With a list, require every permission instead of any */
+  requireAll?: boolean;
+};
+
+type AbilityCheck<S extends AbilitySubject> = {
+  action: AbilityAction;
+  subject: S;
+  /** Include to apply record rules (own team, own department...) */
+  record?: AbilityRecord<S> | null;
+};
+
+type CanProps<S extends AbilitySubject> = (PermissionCheck | AbilityCheck<S>) & {
+  children: React.ReactNode;
+  fallback?: React.ReactNode;
+};
+
+/**
+ * Render children only when the user is allowed to
+ *
+ * @example
+ * <Can permission="hrm.teams.update">...</Can>
+ * <Can action="manage-members" subject="team" record={team}>...</Can>
+ */
+export function Can<S extends AbilitySubject>(props: CanProps<S>) {
+  const { can, hasAnyPermission, hasAllPermissions } = usePermissions();
+  const { children, fallback = null } = props;
+
+  let allowed: boolean;
+  if ("permission" in props) {
+    const permissions = Array.isArray(props.permission)
+      ? props.permission
+      : [props.permission];
+    allowed = props.requireAll
+      ? hasAllPermissions(permissions)
+      : hasAnyPermission(permissions);
+  } else {
+    allowed = can(props.action, props.subject, props.record);
+  }
+
+  return <>{allowed ? children : fallback}</>;
+}
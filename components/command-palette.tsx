@@ -0,0 +1,426 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { useTheme } from "next-themes";
+import {
+  Activity,
+  Briefcase,
+  Building,
+  Coins,
+  CornerDownLeft,
+  GanttChart,
+  Gauge,
+  Key,
+  LayoutDashboard,
+  Loader2,
+  type LucideIcon,
+  Moon,
+  Plus,
+  Search,
+  Shield,
+  Trash2,
+  User as UserIcon,
+  Users,
+  Users as UsersGroup,
+} from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { usePermissions } from "@/hooks/use-permissions";
+import { MIN_SEARCH_LENGTH, useGlobalSearch } from "@/hooks/use-global-search";
+import { HRM_PERMISSIONS } from "@/lib/permissions/hrm";
+import { canAccessRoute } from "@/lib/permissions/routes";
+import { useCommandStore, type CommandIntent } from "@/lib/store/command-store";
+import { cn } from "@/lib/utils";
+
+interface CommandItem {
+  id: string;
+  group: string;
+  label: string;
+  description?: string;
+  icon: LucideIcon;
+  /** Extra words matched against the query (actions only) */
+  keywords?: string;
+  onSelect: () => void;
+}
+
+interface StaticCommand {
+  label: string;
+  icon: LucideIcon;
+  permission?: string;
+  keywords?: string;
+}
+
+interface NavigationCommand extends StaticCommand {
+  href: string;
+}
+
+interface CreateCommand extends StaticCommand {
+  href: string;
+  intent: CommandIntent;
+}
+
+// Visibility comes from ROUTE_PERMISSIONS, like the sidebar
+const NAVIGATION: NavigationCommand[] = [
+  { label: "Go to Dashboard", href: "/dashboard", icon: LayoutDashboard, keywords: "home" },
+  { label: "Go to Users", href: "/dashboard/users", icon: Users },
+  { label: "Go to Roles", href: "/dashboard/roles", icon: Shield },
+  { label: "Go to Permissions", href: "/dashboard/permissions", icon: Key },
+  {
+    label: "Go to Departments",
+    href: "/dashboard/hrm/departments",
+    icon: Building,
+    keywords: "hrm",
+  },
+  {
+    label: "Go to Positions",
+    href: "/dashboard/hrm/positions",
+    icon: Briefcase,
+    keywords: "hrm jobs",
+  },
+  {
+    label: "Go to Compensation Bands",
+    href: "/dashboard/hrm/compensation",
+    icon: Coins,
+    keywords: "hrm salary pay currency",
+  },
+  {
+    label: "Go to Teams",
+    href: "/dashboard/hrm/teams",
+    icon: UsersGroup,
+    keywords: "hrm",
+  },
+  {
+    label: "Go to Team Timeline",
+    href: "/dashboard/hrm/teams/timeline",
+    icon: GanttChart,
+    keywords: "hrm gantt project lifecycle",
+  },
+  {
+    label: "Go to Team Capacity",
+    href: "/dashboard/hrm/capacity",
+    icon: Gauge,
+    keywords: "hrm utilisation allocation headcount",
+  },
+  {
+    label: "Go to Trash",
+    href: "/dashboard/hrm/trash",
+    icon: Trash2,
+    keywords: "hrm deleted restore",
+  },
+  {
+    label: "Go to Activity Logs",
+    href: "/dashboard/activity",
+    icon: Activity,
+    keywords: "audit",
+  },
+];
+
+const CREATE_ACTIONS: CreateCommand[] = [
+  {
+    label: "Create User",
+    href: "/dashboard/users",
+    intent: "users.create",
+    icon: Plus,
+    permission: "create_users",
+    keywords: "new add",
+  },
+  {
+    label: "Create Department",
+    href: "/dashboard/hrm/departments",
+    intent: "departments.create",
+    icon: Plus,
+    permission: HRM_PERMISSIONS.DEPARTMENTS_CREATE,
+    keywords: "new add",
+  },
+  {
+    label: "Create Position",
+    href: "/dashboard/hrm/positions",
+    intent: "positions.create",
+    icon: Plus,
+    permission: HRM_PERMISSIONS.POSITIONS_CREATE,
+    keywords: "new add",
+  },
+  {
+    label: "Create Team",
+    href: "/dashboard/hrm/teams",
+    intent: "teams.create",
+    icon: Plus,
+    permission: HRM_PERMISSIONS.TEAMS_CREATE,
+    keywords: "new add",
+  },
+];
+
+const matches = (query: string, ...values: (string | undefined)[]) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return values.some((value) => value?.toLowerCase().includes(needle));
+};
+
+/**
+ * Global command palette (Cmd+K / Ctrl+K)
+ * Searches records and exposes navigation and quick actions.
+ */
+export function CommandPalette() {
+  const isOpen = useCommandStore((state) => state.isOpen);
+  const setOpen = useCommandStore((state) => state.setOpen);
+  const toggle = useCommandStore((state) => state.toggle);
+
+  React.useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        toggle();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [toggle]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setOpen}>
+      <DialogContent
+        className="overflow-hidden p-0 sm:max-w-xl"
+        showCloseButton={false}
+      >
+        <DialogTitle className="sr-only">Command Palette</DialogTitle>
+        <DialogDescription className="sr-only">
+          Search users, departments, positions and teams, or run an action
+        </DialogDescription>
+        {/* Content unmounts on close, so the query resets every time */}
+        <CommandPaletteContent />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function CommandPaletteContent() {
+  const router = useRouter();
+  const { resolvedTheme, setTheme } = useTheme();
+  const { hasPermission, permissions, roles } = usePermissions();
+  const setOpen = useCommandStore((state) => state.setOpen);
+  const requestIntent = useCommandStore((state) => state.requestIntent);
+
+  const [query, setQuery] = React.useState("");
+  const [activeIndex, setActiveIndex] = React.useState(0);
+  const listRef = React.useRef<HTMLDivElement>(null);
+
+  const search = useGlobalSearch(query, {
+    users: hasPermission("view_users"),
+    departments: hasPermission(HRM_PERMISSIONS.DEPARTMENTS_VIEW),
+    positions: hasPermission(HRM_PERMISSIONS.POSITIONS_VIEW),
+    teams: hasPermission(HRM_PERMISSIONS.TEAMS_VIEW),
+  });
+
+  const navigate = (href: string) => {
+    setOpen(false);
+    router.push(href);
+  };
+
+  const allowed = (command: StaticCommand) =>
+    !command.permission || hasPermission(command.permission);
+
+  // Record results are already filtered server-side
+  const results: CommandItem[] = [
+    ...search.users.map((user) => ({
+      id: `user-${user.id}`,
+      group: "Users",
+      label: user.name,
+      description: user.email,
+      icon: UserIcon,
+      onSelect: () => navigate(`/dashboard/users/${user.id}`),
+    })),
+    ...search.departments.map((department) => ({
+      id: `department-${department.id}`,
+      group: "Departments",
+      label: department.name,
+      description: department.code,
+      icon: Building,
+      onSelect: () => navigate(`/dashboard/hrm/departments/${department.id}`),
+    })),
+    ...search.positions.map((position) => ({
+      id: `position-${position.id}`,
+      group: "Positions",
+      label: position.name,
+      description: [position.code, position.department?.name]
+        .filter(Boolean)
+        .join(" · "),
+      icon: Briefcase,
+      onSelect: () => navigate(`/dashboard/hrm/positions/${position.id}`),
+    })),
+    ...search.teams.map((team) => ({
+      id: `team-${team.id}`,
+      group: "Teams",
+      label: team.name,
+      description: team.code,
+      icon: UsersGroup,
+      onSelect: () => navigate(`/dashboard/hrm/teams/${team.id}`),
+    })),
+  ];
+
+  const commands: CommandItem[] = [
+    ...CREATE_ACTIONS.filter(allowed).map((action) => ({
+      id: `action-${action.intent}`,
+      group: "Actions",
+      label: action.label,
+      icon: action.icon,
+      keywords: action.keywords,
+      onSelect: () => {
+        requestIntent(action.intent);
+        router.push(action.href);
+      },
+    })),
+    {
+      id: "action-toggle-theme",
+      group: "Actions",
+      label: "Toggle Theme",
+      description: resolvedTheme === "dark" ? "Switch to light" : "Switch to dark",
+      icon: Moon,
+      keywords: "dark light mode appearance",
+      onSelect: () => {
+        setTheme(resolvedTheme === "dark" ? "light" : "dark");
+        setOpen(false);
+      },
+    },
+    ...NAVIGATION.filter((command) => canAccessRoute(command.href, { roles, permissions })).map((command) => ({
+      id: `nav-${command.href}`,
+      group: "Navigation",
+      label: command.label,
+      icon: command.icon,
+      keywords: command.keywords,
+      onSelect: () => navigate(command.href),
+    })),
+  ];
+
+  const items = [
+    ...results,
+    ...commands.filter((item) => matches(query, item.label, item.keywords)),
+  ];
+
+  const active = Math.min(activeIndex, Math.max(items.length - 1, 0));
+
+  // Keep the highlighted item visible while navigating with the keyboard
+  React.useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${active}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [active]);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (items.length === 0) return;
+
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setActiveIndex((active + 1) % items.length);
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setActiveIndex((active - 1 + items.length) % items.length);
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      items[active]?.onSelect();
+    }
+  };
+
+  const groups = items.reduce<{ name: string; items: CommandItem[] }[]>(
+    (acc, item) => {
+      const group = acc.find((g) => g.name === item.group);
+      if (group) group.items.push(item);
+      else acc.push({ name: item.group, items: [item] });
+      return acc;
+    },
+    []
+  );
+
+  const hasSearchTerm = query.trim().length >= MIN_SEARCH_LENGTH;
+
+  return (
+    <div className="flex flex-col">
+      <div className="flex items-center gap-2 border-b px-3">
+        {search.isSearching && hasSearchTerm ? (
+          <Loader2 className="h-4 w-4 shrink-0 animate-spin text-muted-foreground" />
+        ) : (
+          <Search className="h-4 w-4 shrink-0 text-muted-foreground" />
+        )}
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Search users, departments, positions, teams..."
+          className="flex h-12 w-full bg-transparent py-3 text-sm outline-none placeholder:text-muted-foreground"
+          role="combobox"
+          aria-expanded
+          aria-controls="command-palette-list"
+          aria-activedescendant={items[active]?.id}
+        />
+      </div>
+
+      <div
+        ref={listRef}
+        id="command-palette-list"
+        role="listbox"
+        className="max-h-[360px] overflow-y-auto p-2"
+      >
+        {items.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            {search.isSearching ? "Searching..." : "No results found."}
+          </p>
+        ) : (
+          groups.map((group) => (
+            <div key={group.name} className="mb-2 last:mb-0">
+              <p className="px-2 py-1.5 text-xs font-medium text-muted-foreground">
+                {group.name}
+              </p>
+              {group.items.map((item) => {
+                const index = items.indexOf(item);
+                const Icon = item.icon;
+                return (
+                  <div
+                    key={item.id}
+                    id={item.id}
+                    role="option"
+                    aria-selected={index === active}
+                    data-index={index}
+                    onMouseMove={() => {
+                      if (index !== active) setActiveIndex(index);
+                    }}
+                    onClick={item.onSelect}
+                    className={cn(
+                      "flex cursor-pointer items-center gap-3 rounded-sm px-2 py-2 text-sm",
+                      index === active && "bg-accent text-accent-foreground"
+                    )}
+                  >
+                    <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    <span className="truncate">{item.label}</span>
+                    {item.description && (
+                      <span className="truncate text-xs text-muted-foreground">
+                        {item.description}
+                      </span>
+                    )}
+                    {index === active && (
+                      <CornerDownLeft className="ml-auto h-3 w-3 shrink-0 text-muted-foreground" />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="flex items-center gap-4 border-t px-3 py-2 text-xs text-muted-foreground">
+        <span>↑↓ to navigate</span>
+        <span>↵ to select</span>
+        <span>esc to close</span>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { SidebarProvider, SidebarInset } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import { SiteHeader } from "@/components/site-header";
 import { ErrorBoundary } from "@/components/error-boundary";
+import { CommandPalette } from "@/components/command-palette";
 
 interface DashboardShellProps {
   children: React.ReactNode;
@@ -45,6 +46,7 @@ export function DashboardShell({ children }: DashboardShellProps) {
           </div>
         </div>
       </SidebarInset>
+      <CommandPalette />
     </SidebarProvider>
   );
 }
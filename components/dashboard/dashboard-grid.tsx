@@ -0,0 +1,276 @@
+"use client";
+
+import * as React from "react";
+import {
+  closestCenter,
+  DndContext,
+  KeyboardSensor,
+  MouseSensor,
+  TouchSensor,
+  useDraggable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type KeyboardCoordinateGetter,
+} from "@dnd-kit/core";
+import { restrictToHorizontalAxis } from "@dnd-kit/modifiers";
+import {
+  arrayMove,
+  rectSortingStrategy,
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { GripVertical, MoveHorizontal, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  clampWidgetWidth,
+  DASHBOARD_COLUMNS,
+  WIDGET_DEFINITIONS,
+} from "@/lib/dashboard-widgets";
+import { cn } from "@/lib/utils";
+import type { DashboardWidget, DashboardWidgetWidth } from "@/types/dashboard";
+
+// Spelled out so Tailwind keeps the classes
+const WIDTH_CLASSES: Record<DashboardWidgetWidth, string> = {
+  1: "lg:col-span-1",
+  2: "lg:col-span-2",
+  3: "lg:col-span-3",
+  4: "lg:col-span-4",
+};
+
+interface ResizeHandleProps {
+  widget: DashboardWidget;
+  getColumnWidth: () => number;
+  onResize: (width: DashboardWidgetWidth) => void;
+}
+
+function ResizeGrip({ id, title }: { id: string; title: string }) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: `resize-${id}`,
+  });
+
+  return (
+    <button
+      ref={setNodeRef}
+      type="button"
+      {...attributes}
+      {...listeners}
+      className={cn(
+        "absolute top-1/2 -right-2 z-10 flex h-10 w-4 -translate-y-1/2 cursor-ew-resize touch-none items-center justify-center rounded-sm border bg-background text-muted-foreground shadow-sm hover:text-foreground",
+        isDragging && "text-foreground ring-2 ring-ring"
+      )}
+    >
+      <MoveHorizontal className="size-3" />
+      <span className="sr-only">Resize {title}</span>
+    </button>
+  );
+}
+
+/**
+ * Drag handle on a widget's right edge that snaps its width to grid
+ * columns. Runs in its own DndContext so resizing doesn't trigger sorting.
+ */
+function ResizeHandle({ widget, getColumnWidth, onResize }: ResizeHandleProps) {
+  const startWidth = React.useRef(widget.width);
+  const contextId = React.useId();
+
+  // Arrow keys grow or shrink by one column
+  const columnCoordinates = React.useCallback<KeyboardCoordinateGetter>(
+    (event, { currentCoordinates }) => {
+      if (event.code === "ArrowRight") {
+        return { ...currentCoordinates, x: currentCoordinates.x + getColumnWidth() };
+      }
+      if (event.code === "ArrowLeft") {
+        return { ...currentCoordinates, x: currentCoordinates.x - getColumnWidth() };
+      }
+      return undefined;
+    },
+    [getColumnWidth]
+  );
+
+  const sensors = useSensors(
+    useSensor(MouseSensor, {}),
+    useSensor(TouchSensor, {}),
+    useSensor(KeyboardSensor, { coordinateGetter: columnCoordinates })
+  );
+
+  return (
+    <DndContext
+      id={contextId}
+      sensors={sensors}
+      modifiers={[restrictToHorizontalAxis]}
+      onDragStart={() => {
+        startWidth.current = widget.width;
+      }}
+      onDragMove={({ delta }) => {
+        onResize(
+          clampWidgetWidth(widget.type, startWidth.current + delta.x / getColumnWidth())
+        );
+      }}
+      onDragCancel={() => onResize(startWidth.current)}
+    >
+      <ResizeGrip id={widget.id} title={WIDGET_DEFINITIONS[widget.type].title} />
+    </DndContext>
+  );
+}
+
+interface SortableWidgetProps {
+  widget: DashboardWidget;
+  editing: boolean;
+  getColumnWidth: () => number;
+  onResize: (width: DashboardWidgetWidth) => void;
+  onRemove: () => void;
+  children: React.ReactNode;
+}
+
+function SortableWidget({
+  widget,
+  editing,
+  getColumnWidth,
+  onResize,
+  onRemove,
+  children,
+}: SortableWidgetProps) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    setActivatorNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: widget.id, disabled: !editing });
+  const { title } = WIDGET_DEFINITIONS[widget.type];
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{
+        // Translate only: widgets differ in width, scaling would distort them
+        transform: CSS.Translate.toString(transform),
+        transition,
+      }}
+      className={cn(
+        "relative min-w-0",
+        WIDTH_CLASSES[widget.width],
+        editing && "rounded-xl outline-2 outline-offset-4 outline-dashed outline-border",
+        isDragging && "z-20 opacity-80"
+      )}
+    >
+      {editing && (
+        <div className="absolute -top-3 left-4 z-10 flex items-center gap-1 rounded-md border bg-background px-1 shadow-sm">
+          <Button
+            ref={setActivatorNodeRef}
+            {...attributes}
+            {...listeners}
+            variant="ghost"
+            size="icon"
+            className="size-6 cursor-grab touch-none text-muted-foreground"
+          >
+            <GripVertical className="size-3.5" />
+            <span className="sr-only">Drag to reorder</span>
+          </Button>
+          <span className="px-1 text-xs font-medium">{title}</span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-6 text-muted-foreground hover:text-destructive"
+            onClick={onRemove}
+          >
+            <X className="size-3.5" />
+            <span className="sr-only">Remove {title}</span>
+          </Button>
+        </div>
+      )}
+      {children}
+      {editing && (
+        <ResizeHandle
+          widget={widget}
+          getColumnWidth={getColumnWidth}
+          onResize={onResize}
+        />
+      )}
+    </div>
+  );
+}
+
+interface DashboardGridProps {
+  widgets: DashboardWidget[];
+  editing: boolean;
+  onChange: (widgets: DashboardWidget[]) => void;
+  renderWidget: (widget: DashboardWidget) => React.ReactNode;
+}
+
+/**
+ * DashboardGrid Component
+ *
+ * Four-column widget grid (single column below lg). In edit mode widgets
+ * can be reordered by their grip, resized from their right edge and removed.
+ */
+export function DashboardGrid({
+  widgets,
+  editing,
+  onChange,
+  renderWidget,
+}: DashboardGridProps) {
+  const gridRef = React.useRef<HTMLDivElement>(null);
+  const sortableId = React.useId();
+  const sensors = useSensors(
+    useSensor(MouseSensor, {}),
+    useSensor(TouchSensor, {}),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  const getColumnWidth = React.useCallback(() => {
+    const grid = gridRef.current;
+    if (!grid) return 1;
+    const gap = parseFloat(getComputedStyle(grid).columnGap) || 0;
+    return Math.max(1, (grid.clientWidth - gap * (DASHBOARD_COLUMNS - 1)) / DASHBOARD_COLUMNS);
+  }, []);
+
+  function handleDragEnd({ active, over }: DragEndEvent) {
+    if (!over || active.id === over.id) return;
+    const oldIndex = widgets.findIndex((widget) => widget.id === active.id);
+    const newIndex = widgets.findIndex((widget) => widget.id === over.id);
+    onChange(arrayMove(widgets, oldIndex, newIndex));
+  }
+
+  function handleResize(id: string, width: DashboardWidgetWidth) {
+    if (widgets.find((widget) => widget.id === id)?.width === width) return;
+    onChange(widgets.map((widget) => (widget.id === id ? { ...widget, width } : widget)));
+  }
+
+  return (
+    <DndContext
+      id={sortableId}
+      sensors={sensors}
+      collisionDetection={closestCenter}
+      onDragEnd={handleDragEnd}
+    >
+      <SortableContext
+        items={widgets.map((widget) => widget.id)}
+        strategy={rectSortingStrategy}
+      >
+        <div
+          ref={gridRef}
+          className={cn("grid grid-cols-1 gap-4 lg:grid-cols-4", editing && "gap-6 pt-2")}
+        >
+          {widgets.map((widget) => (
+            <SortableWidget
+              key={widget.id}
+              widget={widget}
+              editing={editing}
+              getColumnWidth={getColumnWidth}
+              onResize={(width) => handleResize(widget.id, width)}
+              onRemove={() => onChange(widgets.filter(({ id }) => id !== widget.id))}
+            >
+              {renderWidget(widget)}
+            </SortableWidget>
+          ))}
+        </div>
+      </SortableContext>
+    </DndContext>
+  );
+}
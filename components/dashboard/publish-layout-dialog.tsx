@@ -0,0 +1,151 @@
+"use client";
+
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useRoles } from "@/lib/hooks/use-roles";
+import {
+  useDeleteRoleDashboardLayout,
+  usePublishRoleDashboardLayout,
+  useRoleDashboardLayouts,
+} from "@/lib/hooks/use-dashboard-layout";
+import type { DashboardWidget } from "@/types/dashboard";
+
+interface PublishLayoutDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  widgets: DashboardWidget[];
+}
+
+/**
+ * PublishLayoutDialog Component
+ *
+ * Lets admins publish the layout being edited as the default for a role.
+ * Users with that role see it until they save a layout of their own.
+ */
+export function PublishLayoutDialog({
+  open,
+  onOpenChange,
+  widgets,
+}: PublishLayoutDialogProps) {
+  const [role, setRole] = useState("");
+  const { data: roles, isLoading: isLoadingRoles } = useRoles();
+  const { data: roleLayouts = [], isLoading: isLoadingLayouts } =
+    useRoleDashboardLayouts({ enabled: open });
+  const publish = usePublishRoleDashboardLayout();
+  const deleteLayout = useDeleteRoleDashboardLayout();
+
+  const existing = roleLayouts.find((layout) => layout.role === role);
+
+  const handlePublish = () => {
+    publish.mutate(
+      { role, widgets },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Publish as role default</DialogTitle>
+          <DialogDescription>
+            Everyone with the role sees this layout until they customize
+            their own dashboard.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="publish-role">Role</Label>
+          <Select value={role} onValueChange={setRole} disabled={isLoadingRoles}>
+            <SelectTrigger id="publish-role" className="w-full">
+              <SelectValue placeholder="Select a role" />
+            </SelectTrigger>
+            <SelectContent>
+              {roles?.data.map((item) => (
+                <SelectItem key={item.id} value={item.name}>
+                  {item.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {existing && (
+            <p className="text-xs text-muted-foreground">
+              Replaces the default published{" "}
+              {formatDistanceToNow(new Date(existing.updated_at), { addSuffix: true })}
+              {existing.updated_by ? ` by ${existing.updated_by.name}` : ""}.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Published defaults</p>
+          {isLoadingLayouts ? (
+            <Skeleton className="h-9 w-full" />
+          ) : roleLayouts.length > 0 ? (
+            <div className="divide-y rounded-md border">
+              {roleLayouts.map((layout) => (
+                <div
+                  key={layout.role}
+                  className="flex items-center justify-between gap-2 px-3 py-2 text-sm"
+                >
+                  <span>
+                    {layout.role}
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {layout.widgets.length} widgets
+                    </span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-7 text-muted-foreground hover:text-destructive"
+                    disabled={deleteLayout.isPending}
+                    onClick={() => deleteLayout.mutate(layout.role)}
+                  >
+                    <Trash2 className="size-4" />
+                    <span className="sr-only">Remove default for {layout.role}</span>
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No role has a published default yet.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handlePublish}
+            disabled={!role || widgets.length === 0 || publish.isPending}
+          >
+            {publish.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Publish
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
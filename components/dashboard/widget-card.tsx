@@ -0,0 +1,40 @@
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+
+interface WidgetCardProps {
+  title: string;
+  description?: string;
+  action?: React.ReactNode;
+  className?: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Card shell shared by the dashboard widgets; fills its grid cell so
+ * widgets in the same row line up
+ */
+export function WidgetCard({
+  title,
+  description,
+  action,
+  className,
+  children,
+}: WidgetCardProps) {
+  return (
+    <Card className={cn("@container/card h-full gap-4", className)}>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        {description && <CardDescription>{description}</CardDescription>}
+        {action && <CardAction>{action}</CardAction>}
+      </CardHeader>
+      <CardContent className="flex-1">{children}</CardContent>
+    </Card>
+  );
+}
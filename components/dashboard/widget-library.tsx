@@ -0,0 +1,81 @@
+"use client";
+
+import { Plus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { WIDGET_DEFINITIONS, WIDGET_TYPES } from "@/lib/dashboard-widgets";
+import type { DashboardWidget, DashboardWidgetType } from "@/types/dashboard";
+
+interface WidgetLibraryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  widgets: DashboardWidget[];
+  onAdd: (type: DashboardWidgetType) => void;
+}
+
+/**
+ * Side sheet listing every widget; any widget can be added more than once
+ */
+export function WidgetLibrary({
+  open,
+  onOpenChange,
+  widgets,
+  onAdd,
+}: WidgetLibraryProps) {
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Add widgets</SheetTitle>
+          <SheetDescription>
+            New widgets are added to the end of your dashboard.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="h-[calc(100vh-8rem)] px-4">
+          <div className="space-y-3 pb-6">
+            {WIDGET_TYPES.map((type) => {
+              const { title, description } = WIDGET_DEFINITIONS[type];
+              const count = widgets.filter((widget) => widget.type === type).length;
+
+              return (
+                <div
+                  key={type}
+                  className="flex items-start justify-between gap-3 rounded-lg border p-3"
+                >
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium">{title}</p>
+                      {count > 0 && (
+                        <Badge variant="secondary" className="text-xs">
+                          On dashboard{count > 1 ? ` ×${count}` : ""}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{description}</p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onAdd(type)}
+                  >
+                    <Plus className="size-4" />
+                    Add
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
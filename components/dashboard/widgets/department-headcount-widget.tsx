@@ -0,0 +1,60 @@
+import Link from "next/link";
+import { cn } from "@/lib/utils";
+import { WidgetCard } from "@/components/dashboard/widget-card";
+import type { DepartmentHeadcount } from "@/types/dashboard";
+
+// Rows shown before collapsing the rest into "+N more"
+const MAX_DEPARTMENTS = 8;
+
+interface DepartmentHeadcountWidgetProps {
+  departments: DepartmentHeadcount[];
+}
+
+/**
+ * Departments by user count, largest first (sorted server-side)
+ */
+export function DepartmentHeadcountWidget({
+  departments,
+}: DepartmentHeadcountWidgetProps) {
+  const topDepartments = departments.slice(0, MAX_DEPARTMENTS);
+  const maxHeadcount = Math.max(1, ...topDepartments.map((department) => department.users_count));
+
+  return (
+    <WidgetCard title="Department Headcount">
+      <div className="space-y-3">
+        {topDepartments.map((department) => (
+          <div key={department.id} className="space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <Link
+                href={`/dashboard/hrm/departments/${department.id}`}
+                className={cn(
+                  "truncate text-sm hover:underline",
+                  department.is_active ? "text-muted-foreground" : "text-muted-foreground/60 line-through"
+                )}
+              >
+                {department.name}
+              </Link>
+              <span className="font-medium tabular-nums">{department.users_count}</span>
+            </div>
+            <div className="h-1.5 rounded-full bg-muted">
+              <div
+                className="h-full rounded-full bg-primary"
+                style={{ width: `${(department.users_count / maxHeadcount) * 100}%` }}
+              />
+            </div>
+          </div>
+        ))}
+        {departments.length > topDepartments.length && (
+          <p className="text-xs text-muted-foreground">
+            +{departments.length - topDepartments.length} more departments
+          </p>
+        )}
+        {departments.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No department data available
+          </p>
+        )}
+      </div>
+    </WidgetCard>
+  );
+}
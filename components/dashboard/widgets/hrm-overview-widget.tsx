@@ -0,0 +1,32 @@
+import { WidgetCard } from "@/components/dashboard/widget-card";
+
+interface HrmOverviewWidgetProps {
+  stats: {
+    total_departments: number;
+    active_departments: number;
+    total_positions: number;
+    total_teams: number;
+  };
+}
+
+export function HrmOverviewWidget({ stats }: HrmOverviewWidgetProps) {
+  const rows = [
+    { label: "Total Departments", value: stats.total_departments },
+    { label: "Active Departments", value: stats.active_departments },
+    { label: "Total Positions", value: stats.total_positions },
+    { label: "Total Teams", value: stats.total_teams },
+  ];
+
+  return (
+    <WidgetCard title="HRM Overview">
+      <div className="space-y-2">
+        {rows.map((row) => (
+          <div key={row.label} className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">{row.label}</span>
+            <span className="font-medium">{row.value}</span>
+          </div>
+        ))}
+      </div>
+    </WidgetCard>
+  );
+}
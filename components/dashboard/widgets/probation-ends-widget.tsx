@@ -0,0 +1,107 @@
+"use client";
+
+import Link from "next/link";
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { WidgetCard } from "@/components/dashboard/widget-card";
+import { useUsers } from "@/lib/hooks/use-users";
+import type { UserFilters } from "@/types/user";
+
+const PROBATION_WINDOW_DAYS = 30;
+
+const PROBATION_FILTERS: UserFilters = {
+  is_active: true,
+  probation_ending_within: PROBATION_WINDOW_DAYS,
+  sort_by: "probation_end_date",
+  sort_order: "asc",
+  per_page: 6,
+};
+
+const getInitials = (name: string) =>
+  name
+    .split(" ")
+    .map((part) => part[0])
+    .join("")
+    .slice(0, 2)
+    .toUpperCase();
+
+function describeDaysLeft(days: number) {
+  if (days <= 0) return "Today";
+  if (days === 1) return "Tomorrow";
+  return `In ${days} days`;
+}
+
+/**
+ * Employees whose probation ends soonest, within the next 30 days
+ */
+export function ProbationEndsWidget() {
+  const { data, isLoading, isError, refetch } = useUsers(PROBATION_FILTERS);
+  const users = (data?.data ?? []).filter((user) => user.probation_end_date);
+
+  return (
+    <WidgetCard
+      title="Upcoming Probation Ends"
+      description={`Next ${PROBATION_WINDOW_DAYS} days`}
+    >
+      {isLoading ? (
+        <div className="space-y-3">
+          {Array.from({ length: 3 }).map((_, index) => (
+            <Skeleton key={index} className="h-10 w-full" />
+          ))}
+        </div>
+      ) : isError ? (
+        <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+          Failed to load employees
+          <Button variant="outline" size="sm" onClick={() => refetch()}>
+            Retry
+          </Button>
+        </div>
+      ) : users.length > 0 ? (
+        <div className="space-y-3">
+          {users.map((user) => {
+            const endDate = parseISO(user.probation_end_date!);
+            const daysLeft = differenceInCalendarDays(endDate, new Date());
+
+            return (
+              <div key={user.id} className="flex items-center gap-3">
+                <Avatar className="size-8">
+                  <AvatarImage src={user.avatar_url} alt={user.name} />
+                  <AvatarFallback className="text-xs">
+                    {getInitials(user.name)}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="min-w-0 flex-1">
+                  <Link
+                    href={`/dashboard/users/${user.id}`}
+                    className="block truncate text-sm font-medium hover:underline"
+                  >
+                    {user.name}
+                  </Link>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {[user.position?.name, user.department?.name].filter(Boolean).join(" · ") ||
+                      user.email}
+                  </p>
+                </div>
+                <div className="shrink-0 text-right">
+                  <Badge variant={daysLeft <= 7 ? "secondary" : "outline"}>
+                    {describeDaysLeft(daysLeft)}
+                  </Badge>
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    {format(endDate, "MMM d")}
+                  </p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          No probation periods ending soon
+        </p>
+      )}
+    </WidgetCard>
+  );
+}
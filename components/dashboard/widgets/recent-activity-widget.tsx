@@ -0,0 +1,30 @@
+import { WidgetCard } from "@/components/dashboard/widget-card";
+import type { ActivityLog } from "@/types/user";
+
+interface RecentActivityWidgetProps {
+  activities: ActivityLog[];
+}
+
+export function RecentActivityWidget({ activities }: RecentActivityWidgetProps) {
+  return (
+    <WidgetCard title="Recent Activity">
+      {activities.length > 0 ? (
+        <div className="space-y-3">
+          {activities.map((activity) => (
+            <div
+              key={activity.id}
+              className="border-b last:border-0 pb-2 last:pb-0"
+            >
+              <p className="font-medium text-sm">{activity.description}</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                {activity.causer?.name || "System"} · {activity.log_name}
+              </p>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No recent activity</p>
+      )}
+    </WidgetCard>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { useMemo } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { WidgetCard } from "@/components/dashboard/widget-card";
+import { UtilisationBar } from "@/components/hrm/capacity/utilisation-bar";
+import { useTeams } from "@/hooks/use-teams";
+import { getTeamCapacities } from "@/lib/team-capacity";
+import type { TeamFilters } from "@/types/hrm";
+
+const MAX_TEAMS = 5;
+
+const ACTIVE_TEAM_FILTERS: TeamFilters = {
+  status: "active",
+  page: 1,
+  per_page: 100,
+  sort_by: "name",
+  sort_order: "asc",
+};
+
+/**
+ * Active teams closest to their max_members, from the member counts on the
+ * team list (the full capacity page loads membership history instead)
+ */
+export function TeamCapacityWidget() {
+  const { data, isLoading, isError, refetch } = useTeams(ACTIVE_TEAM_FILTERS);
+
+  const capacities = useMemo(
+    () =>
+      getTeamCapacities(data?.data ?? [], new Map())
+        .filter((capacity) => capacity.capacity !== null)
+        .slice(0, MAX_TEAMS),
+    [data]
+  );
+
+  return (
+    <WidgetCard
+      title="Team Capacity"
+      action={
+        <Button variant="link" size="sm" className="h-auto p-0" asChild>
+          <Link href="/dashboard/hrm/capacity">View all</Link>
+        </Button>
+      }
+    >
+      {isLoading ? (
+        <div className="space-y-3">
+          {Array.from({ length: 3 }).map((_, index) => (
+            <Skeleton key={index} className="h-8 w-full" />
+          ))}
+        </div>
+      ) : isError ? (
+        <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+          Failed to load teams
+          <Button variant="outline" size="sm" onClick={() => refetch()}>
+            Retry
+          </Button>
+        </div>
+      ) : capacities.length > 0 ? (
+        <div className="space-y-3">
+          {capacities.map(({ team, activeMembers, capacity, utilisation, status }) => (
+            <div key={team.id} className="space-y-1">
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <Link
+                  href={`/dashboard/hrm/teams/${team.id}`}
+                  className="truncate font-medium hover:underline"
+                >
+                  {team.name}
+                </Link>
+                <span className="shrink-0 text-muted-foreground tabular-nums">
+                  {activeMembers} / {capacity}
+                </span>
+              </div>
+              <UtilisationBar utilisation={utilisation} status={status} />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          No active teams with a member limit
+        </p>
+      )}
+    </WidgetCard>
+  );
+}
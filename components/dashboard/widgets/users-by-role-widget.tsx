@@ -0,0 +1,95 @@
+"use client";
+
+import { useMemo } from "react";
+import { Cell, Pie, PieChart } from "recharts";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { WidgetCard } from "@/components/dashboard/widget-card";
+import type { UserStats } from "@/types/user";
+
+const CHART_COLORS = [
+  "var(--chart-1)",
+  "var(--chart-2)",
+  "var(--chart-3)",
+  "var(--chart-4)",
+  "var(--chart-5)",
+];
+
+interface UsersByRoleWidgetProps {
+  roles: UserStats["users_by_role"];
+}
+
+/**
+ * Pie of users per role with a legend listing the counts
+ */
+export function UsersByRoleWidget({ roles }: UsersByRoleWidgetProps) {
+  const total = roles.reduce((sum, item) => sum + item.count, 0);
+
+  const chartConfig = useMemo(
+    () =>
+      Object.fromEntries(
+        roles.map((item, index) => [
+          item.role,
+          { label: item.role, color: CHART_COLORS[index % CHART_COLORS.length] },
+        ])
+      ) satisfies ChartConfig,
+    [roles]
+  );
+
+  return (
+    <WidgetCard title="Users by Role" description={`${total} role assignments`}>
+      {roles.length > 0 ? (
+        <div className="flex flex-col gap-4">
+          <ChartContainer
+            config={chartConfig}
+            className="mx-auto aspect-square h-[180px]"
+          >
+            <PieChart>
+              <ChartTooltip
+                cursor={false}
+                content={<ChartTooltipContent nameKey="role" hideLabel />}
+              />
+              <Pie
+                data={roles}
+                dataKey="count"
+                nameKey="role"
+                innerRadius={45}
+                strokeWidth={4}
+              >
+                {roles.map((item, index) => (
+                  <Cell
+                    key={item.role}
+                    fill={CHART_COLORS[index % CHART_COLORS.length]}
+                  />
+                ))}
+              </Pie>
+            </PieChart>
+          </ChartContainer>
+          <div className="space-y-2">
+            {roles.map((item, index) => (
+              <div
+                key={item.role}
+                className="flex items-center justify-between gap-2"
+              >
+                <span className="flex items-center gap-2 text-sm text-muted-foreground capitalize">
+                  <span
+                    className="size-2.5 shrink-0 rounded-[2px]"
+                    style={{ backgroundColor: CHART_COLORS[index % CHART_COLORS.length] }}
+                  />
+                  {item.role}
+                </span>
+                <span className="font-medium tabular-nums">{item.count}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No role data available</p>
+      )}
+    </WidgetCard>
+  );
+}
@@ -0,0 +1,28 @@
+import Link from "next/link";
+import { ShieldX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface ForbiddenProps {
+  title?: string;
+  description?: string;
+}
+
+/**
+ * 403 message shown in place of a page the user lacks permission for
+ */
+export function Forbidden({
+  title = "Access Denied",
+  description = "You don't have permission to access this page. Ask an administrator if you need access.",
+}: ForbiddenProps) {
+  return (
+    <div className="flex flex-1 flex-col items-center justify-center gap-2 p-8 text-center">
+      <ShieldX className="mb-2 h-12 w-12 text-muted-foreground" />
+      <p className="text-sm font-medium text-muted-foreground">403</p>
+      <h1 className="text-2xl font-bold">{title}</h1>
+      <p className="max-w-md text-muted-foreground">{description}</p>
+      <Button asChild variant="outline" className="mt-4">
+        <Link href="/dashboard">Back to dashboard</Link>
+      </Button>
+    </div>
+  );
+}
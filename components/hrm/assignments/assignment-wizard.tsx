@@ -0,0 +1,557 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { LazyCalendar } from "@/lib/lazy-components";
+import {
+  ArrowRight,
+  ArrowRightLeft,
+  Calendar as CalendarIcon,
+  Check,
+  Loader2,
+  TrendingUp,
+} from "lucide-react";
+import {
+  assignmentChangeSchema,
+  type AssignmentChangeFormData,
+} from "@/lib/validations/hrm";
+import { useDepartments } from "@/hooks/use-departments";
+import { usePosition, usePositionsByDepartment } from "@/hooks/use-positions";
+import { useTransferUser, usePromoteUser } from "@/hooks/use-hrm-assignments";
+import { TRANSFER_REASONS, type Position } from "@/types/hrm";
+import type { User } from "@/types/user";
+import { formatTransferReason } from "@/lib/assignment-history";
+import { cn } from "@/lib/utils";
+import { format, parseISO } from "date-fns";
+
+interface AssignmentWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  user: User;
+  defaultType?: AssignmentChangeFormData["type"];
+}
+
+const STEPS = [
+  { id: 1, title: "Change Type" },
+  { id: 2, title: "Target" },
+  { id: 3, title: "Details" },
+  { id: 4, title: "Review" },
+] as const;
+
+// Fields validated before leaving each step
+const STEP_FIELDS: Record<number, (keyof AssignmentChangeFormData)[]> = {
+  1: ["type"],
+  2: ["department_id", "position_id"],
+  3: ["reason", "effective_date"],
+};
+
+const formatSalaryBand = (position?: Position | null) => {
+  if (!position || (!position.salary_min && !position.salary_max)) return "-";
+  const formatter = new Intl.NumberFormat("id-ID", {
+    style: "currency",
+    currency: position.salary_currency || "IDR",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  });
+  const min = position.salary_min ? formatter.format(parseFloat(position.salary_min)) : "-";
+  const max = position.salary_max ? formatter.format(parseFloat(position.salary_max)) : "-";
+  return `${min} - ${max}`;
+};
+
+export function AssignmentWizard({
+  open,
+  onOpenChange,
+  user,
+  defaultType = "transfer",
+}: AssignmentWizardProps) {
+  const [step, setStep] = useState(1);
+
+  const userId = Number(user.id);
+  const currentDepartmentId = user.department_id ? Number(user.department_id) : null;
+  const currentPositionId = user.position_id ? Number(user.position_id) : null;
+  // Promotions keep the current department, so without one only a transfer
+  // can place the user
+  const canPromote = !!currentDepartmentId;
+  const initialType = canPromote ? defaultType : "transfer";
+
+  const transferMutation = useTransferUser();
+  const promoteMutation = usePromoteUser();
+  const isSubmitting = transferMutation.isPending || promoteMutation.isPending;
+
+  const form = useForm<AssignmentChangeFormData>({
+    resolver: zodResolver(assignmentChangeSchema),
+    defaultValues: {
+      type: initialType,
+      department_id: currentDepartmentId ?? undefined,
+      position_id: undefined,
+      reason: initialType,
+      effective_date: format(new Date(), "yyyy-MM-dd"),
+    },
+  });
+
+  const type = useWatch({ control: form.control, name: "type" });
+  const departmentId = useWatch({ control: form.control, name: "department_id" });
+  const positionId = useWatch({ control: form.control, name: "position_id" });
+  const reason = useWatch({ control: form.control, name: "reason" });
+  const effectiveDate = useWatch({ control: form.control, name: "effective_date" });
+
+  const { data: departmentsData } = useDepartments({
+    per_page: 100,
+    is_active: true,
+  });
+  const { data: positionsData, isLoading: loadingPositions } =
+    usePositionsByDepartment(departmentId || 0, 1, 100);
+  const { data: currentPosition } = usePosition(currentPositionId || 0);
+
+  const departments = departmentsData?.data || [];
+  const positions = (positionsData?.data || []).filter((p) => p.is_active);
+  const targetDepartment = departments.find((d) => d.id === departmentId);
+  const targetPosition = positions.find((p) => p.id === positionId);
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        type: initialType,
+        department_id: currentDepartmentId ?? undefined,
+        position_id: undefined,
+        reason: initialType,
+        effective_date: format(new Date(), "yyyy-MM-dd"),
+      });
+    }
+  }, [open, initialType, currentDepartmentId, form]);
+
+  // Always restart from the first step next time the wizard opens
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setStep(1);
+    onOpenChange(next);
+  };
+
+  const handleTypeChange = (value: AssignmentChangeFormData["type"]) => {
+    if (value === "promotion" && !canPromote) return;
+    form.setValue("type", value);
+    form.setValue("reason", value);
+    form.setValue("position_id", undefined);
+    // Promotions stay within the current department
+    if (value === "promotion" && currentDepartmentId) {
+      form.setValue("department_id", currentDepartmentId);
+    }
+  };
+
+  const handleNext = async () => {
+    const valid = await form.trigger(STEP_FIELDS[step]);
+    if (!valid) return;
+
+    if (step === 2) {
+      const samePlacement =
+        departmentId === currentDepartmentId &&
+        (positionId ?? null) === currentPositionId;
+      if (samePlacement) {
+        form.setError("department_id", {
+          message: "Select a different department or position",
+        });
+        return;
+      }
+    }
+
+    setStep((s) => Math.min(s + 1, STEPS.length));
+  };
+
+  const handleSubmit = async (data: AssignmentChangeFormData) => {
+    try {
+      if (data.type === "promotion") {
+        await promoteMutation.mutateAsync({
+          userId,
+          data: {
+            new_position_id: data.position_id!,
+            effective_date: data.effective_date,
+            reason: data.reason,
+          },
+        });
+      } else {
+        await transferMutation.mutateAsync({
+          userId,
+          data: {
+            new_department_id: data.department_id,
+            new_position_id: data.position_id ?? undefined,
+            effective_date: data.effective_date,
+            reason: data.reason,
+          },
+        });
+      }
+      handleOpenChange(false);
+    } catch (error) {
+      console.error("Assignment change error:", error);
+    }
+  };
+
+  const previewRows = [
+    {
+      label: "Department",
+      before: user.department?.name || "Unassigned",
+      after: targetDepartment?.name || "-",
+    },
+    {
+      label: "Position",
+      before: user.position?.name || "-",
+      after: targetPosition?.name || (type === "transfer" ? "Unchanged" : "-"),
+    },
+    {
+      label: "Level",
+      before: user.position?.level || "-",
+      after: targetPosition?.level || (type === "transfer" ? "Unchanged" : "-"),
+    },
+    {
+      label: "Salary Band",
+      before: formatSalaryBand(currentPosition),
+      after: targetPosition
+        ? formatSalaryBand(targetPosition)
+        : type === "transfer"
+          ? "Unchanged"
+          : "-",
+    },
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Transfer or Promote {user.name}</DialogTitle>
+          <DialogDescription>
+            Changes are recorded in the employee&apos;s assignment history.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Step indicator */}
+        <ol className="flex items-center gap-2 text-sm">
+          {STEPS.map((s, index) => (
+            <li key={s.id} className="flex items-center gap-2">
+              <span
+                className={cn(
+                  "flex h-6 w-6 items-center justify-center rounded-full border text-xs",
+                  step > s.id && "bg-primary text-primary-foreground border-primary",
+                  step === s.id && "border-primary text-primary"
+                )}
+              >
+                {step > s.id ? <Check className="h-3 w-3" /> : s.id}
+              </span>
+              <span
+                className={cn(
+                  step === s.id ? "font-medium" : "text-muted-foreground"
+                )}
+              >
+                {s.title}
+              </span>
+              {index < STEPS.length - 1 && (
+                <ArrowRight className="h-3 w-3 text-muted-foreground" />
+              )}
+            </li>
+          ))}
+        </ol>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-6"
+          >
+            {/* Step 1: Type */}
+            {step === 1 && (
+              <div className="grid grid-cols-2 gap-4">
+                {[
+                  {
+                    value: "transfer" as const,
+                    icon: ArrowRightLeft,
+                    title: "Transfer",
+                    description: "Move to another department, optionally with a new position.",
+                    disabled: false,
+                  },
+                  {
+                    value: "promotion" as const,
+                    icon: TrendingUp,
+                    title: "Promotion",
+                    description: "Move to a new position within the current department.",
+                    disabled: !canPromote,
+                  },
+                ].map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    disabled={option.disabled}
+                    onClick={() => handleTypeChange(option.value)}
+                    className={cn(
+                      "rounded-md border p-4 text-left transition-colors hover:bg-accent disabled:cursor-not-allowed disabled:opacity-50",
+                      type === option.value && "border-primary bg-accent"
+                    )}
+                  >
+                    <option.icon className="mb-2 h-5 w-5" />
+                    <div className="font-medium">{option.title}</div>
+                    <div className="text-sm text-muted-foreground">
+                      {option.disabled
+                        ? "User must belong to a department first."
+                        : option.description}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Step 2: Target */}
+            {step === 2 && (
+              <div className="space-y-4">
+                <FormField<AssignmentChangeFormData, "department_id">
+                  control={form.control}
+                  name="department_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Target Department *</FormLabel>
+                      <Select
+                        value={field.value ? String(field.value) : undefined}
+                        onValueChange={(val) => {
+                          field.onChange(Number(val));
+                          form.setValue("position_id", undefined);
+                        }}
+                        disabled={type === "promotion"}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue placeholder="Select department" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {departments.map((dept) => (
+                            <SelectItem key={dept.id} value={String(dept.id)}>
+                              {dept.name}
+                              {dept.id === currentDepartmentId && " (current)"}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {type === "promotion" && (
+                        <FormDescription>
+                          Promotions stay within the current department.
+                        </FormDescription>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField<AssignmentChangeFormData, "position_id">
+                  control={form.control}
+                  name="position_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        New Position {type === "promotion" && "*"}
+                      </FormLabel>
+                      <Select
+                        value={field.value ? String(field.value) : undefined}
+                        onValueChange={(val) => field.onChange(Number(val))}
+                        disabled={!departmentId || loadingPositions}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue
+                              placeholder={
+                                loadingPositions
+                                  ? "Loading positions..."
+                                  : "Select position"
+                              }
+                            />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {positions.map((position) => (
+                            <SelectItem
+                              key={position.id}
+                              value={String(position.id)}
+                              disabled={position.id === currentPositionId}
+                            >
+                              {position.name}
+                              {position.level && ` · ${position.level}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {type === "transfer" && (
+                        <FormDescription>
+                          Leave empty to keep the current position.
+                        </FormDescription>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            {/* Step 3: Details */}
+            {step === 3 && (
+              <div className="space-y-4">
+                <FormField<AssignmentChangeFormData, "reason">
+                  control={form.control}
+                  name="reason"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Reason *</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue placeholder="Select reason" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {TRANSFER_REASONS.map((r) => (
+                            <SelectItem key={r} value={r}>
+                              {formatTransferReason(r)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField<AssignmentChangeFormData, "effective_date">
+                  control={form.control}
+                  name="effective_date"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-col">
+                      <FormLabel>Effective Date *</FormLabel>
+                      <Popover>
+                        <PopoverTrigger asChild>
+                          <FormControl>
+                            <Button
+                              variant="outline"
+                              className={cn(
+                                "w-full justify-start text-left font-normal",
+                                !field.value && "text-muted-foreground"
+                              )}
+                            >
+                              <CalendarIcon className="mr-2 h-4 w-4" />
+                              {field.value
+                                ? format(parseISO(field.value), "PPP")
+                                : "Pick a date"}
+                            </Button>
+                          </FormControl>
+                        </PopoverTrigger>
+                        <PopoverContent className="w-auto p-0" align="start">
+                          <LazyCalendar
+                            mode="single"
+                            selected={field.value ? parseISO(field.value) : undefined}
+                            onSelect={(date) =>
+                              field.onChange(date ? format(date, "yyyy-MM-dd") : "")
+                            }
+                            initialFocus
+                          />
+                        </PopoverContent>
+                      </Popover>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            {/* Step 4: Review */}
+            {step === 4 && (
+              <div className="space-y-4">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <Badge>{type === "promotion" ? "Promotion" : "Transfer"}</Badge>
+                  <Badge variant="outline">{formatTransferReason(reason)}</Badge>
+                  <span className="text-muted-foreground">
+                    Effective{" "}
+                    {effectiveDate ? format(parseISO(effectiveDate), "PPP") : "-"}
+                  </span>
+                </div>
+
+                <div className="rounded-md border divide-y text-sm">
+                  <div className="grid grid-cols-[120px_1fr_24px_1fr] gap-2 bg-muted/50 px-3 py-2 font-medium">
+                    <span />
+                    <span>Before</span>
+                    <span />
+                    <span>After</span>
+                  </div>
+                  {previewRows.map((row) => {
+                    const changed =
+                      row.after !== "Unchanged" && row.before !== row.after;
+                    return (
+                      <div
+                        key={row.label}
+                        className="grid grid-cols-[120px_1fr_24px_1fr] items-center gap-2 px-3 py-2"
+                      >
+                        <span className="text-muted-foreground">{row.label}</span>
+                        <span>{row.before}</span>
+                        <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                        <span className={cn(changed && "font-medium text-primary")}>
+                          {row.after}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() =>
+                  step === 1 ? handleOpenChange(false) : setStep((s) => s - 1)
+                }
+                disabled={isSubmitting}
+              >
+                {step === 1 ? "Cancel" : "Back"}
+              </Button>
+              {step < STEPS.length ? (
+                <Button type="button" onClick={handleNext}>
+                  Next
+                </Button>
+              ) : (
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting && (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  )}
+                  Confirm {type === "promotion" ? "Promotion" : "Transfer"}
+                </Button>
+              )}
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
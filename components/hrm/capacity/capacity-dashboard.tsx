@@ -0,0 +1,454 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import {
+  AlertTriangle,
+  Gauge,
+  RefreshCw,
+  UserCog,
+  Users,
+} from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ErrorState, EmptyState } from "@/components/error-boundary";
+import { useTeamCapacityData } from "@/hooks/use-team-capacity";
+import {
+  getDepartmentCapacities,
+  getOverAllocatedUsers,
+  getTeamCapacities,
+  NEAR_CAPACITY_THRESHOLD,
+  OVER_ALLOCATION_THRESHOLD,
+  type CapacityStatus,
+} from "@/lib/team-capacity";
+import { TEAM_TYPE_OPTIONS, type TeamType } from "@/types/hrm";
+import { HeadcountChart } from "./headcount-chart";
+import { UtilisationBar } from "./utilisation-bar";
+
+const STATUS_BADGES: Record<
+  CapacityStatus,
+  { label: string; variant: "default" | "secondary" | "destructive" | "outline" }
+> = {
+  over: { label: "Over capacity", variant: "destructive" },
+  full: { label: "Full", variant: "default" },
+  near: { label: "Nearing", variant: "secondary" },
+  ok: { label: "Available", variant: "outline" },
+  unbounded: { label: "No limit", variant: "outline" },
+};
+
+const TEAM_TYPE_LABELS = Object.fromEntries(
+  TEAM_TYPE_OPTIONS.map((option) => [option.value, option.label])
+) as Record<TeamType, string>;
+
+const getInitials = (name: string) =>
+  name
+    .split(" ")
+    .map((part) => part[0])
+    .join("")
+    .slice(0, 2)
+    .toUpperCase();
+
+/**
+ * CapacityDashboard Component
+ *
+ * Team utilisation per team and department, teams nearing capacity,
+ * over-allocated people and headcount over time.
+ */
+export function CapacityDashboard() {
+  const [typeFilter, setTypeFilter] = useState<TeamType | "all">("all");
+  const {
+    teams,
+    membersByTeam,
+    isLoading,
+    isLoadingMembers,
+    isError,
+    error,
+    refetch,
+  } = useTeamCapacityData();
+
+  // Completed / inactive teams do not consume capacity
+  const activeTeams = useMemo(
+    () => teams.filter((team) => team.status === "active"),
+    [teams]
+  );
+  const teamCapacities = useMemo(
+    () => getTeamCapacities(activeTeams, membersByTeam),
+    [activeTeams, membersByTeam]
+  );
+  const departmentCapacities = useMemo(
+    () => getDepartmentCapacities(teamCapacities),
+    [teamCapacities]
+  );
+  const overAllocated = useMemo(
+    () => getOverAllocatedUsers(teams, membersByTeam),
+    [teams, membersByTeam]
+  );
+  const allMembers = useMemo(
+    () => [...membersByTeam.values()].flat(),
+    [membersByTeam]
+  );
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+          {Array.from({ length: 4 }).map((_, index) => (
+            <Skeleton key={index} className="h-28 w-full" />
+          ))}
+        </div>
+        <Skeleton className="h-[360px] w-full" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return <ErrorState error={error as Error} onRetry={() => refetch()} />;
+  }
+
+  if (teams.length === 0) {
+    return (
+      <EmptyState
+        title="No teams yet"
+        description="Capacity planning becomes available once teams are created"
+        icon={<Users className="h-12 w-12" />}
+      />
+    );
+  }
+
+  const nearCapacity = teamCapacities.filter(({ status }) =>
+    ["near", "full", "over"].includes(status)
+  );
+  const bounded = teamCapacities.filter(({ capacity }) => capacity);
+  const boundedSeats = bounded.reduce((sum, item) => sum + item.activeMembers, 0);
+  const totalCapacity = bounded.reduce((sum, item) => sum + (item.capacity ?? 0), 0);
+  const totalSeats = teamCapacities.reduce((sum, item) => sum + item.activeMembers, 0);
+  const overallUtilisation = totalCapacity ? boundedSeats / totalCapacity : null;
+
+  const visibleTeams =
+    typeFilter === "all"
+      ? teamCapacities
+      : teamCapacities.filter(({ team }) => team.team_type === typeFilter);
+
+  const summary = [
+    {
+      title: "Overall Utilisation",
+      value:
+        overallUtilisation === null
+          ? "—"
+          : `${Math.round(overallUtilisation * 100)}%`,
+      description: `${boundedSeats} of ${totalCapacity} seats in capped teams`,
+      icon: Gauge,
+    },
+    {
+      title: "Active Seats",
+      value: totalSeats,
+      description: `Across ${activeTeams.length} active teams`,
+      icon: Users,
+    },
+    {
+      title: "Nearing Capacity",
+      value: nearCapacity.length,
+      description: `Teams at ${Math.round(NEAR_CAPACITY_THRESHOLD * 100)}% or more`,
+      icon: AlertTriangle,
+    },
+    {
+      title: "Over-allocated People",
+      value: overAllocated.length,
+      description: `In ${OVER_ALLOCATION_THRESHOLD}+ project or cross-functional teams`,
+      icon: UserCog,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {isLoadingMembers
+            ? "Loading team members..."
+            : `${teams.length} teams`}
+        </p>
+        <Button variant="outline" size="sm" onClick={() => refetch()}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Summary */}
+      <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+        {summary.map((item) => (
+          <Card key={item.title}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">{item.title}</CardTitle>
+              <item.icon className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold tabular-nums">{item.value}</div>
+              <p className="text-xs text-muted-foreground">{item.description}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <HeadcountChart members={allMembers} />
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Nearing capacity */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Teams Nearing Capacity</CardTitle>
+            <CardDescription>
+              Active teams with few or no open slots
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {nearCapacity.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">
+                Every capped team has room to grow.
+              </p>
+            ) : (
+              nearCapacity.map(({ team, activeMembers, capacity, utilisation, status }) => (
+                <div key={team.id} className="space-y-1">
+                  <div className="flex items-center justify-between gap-2 text-sm">
+                    <Link
+                      href={`/dashboard/hrm/teams/${team.id}`}
+                      className="font-medium hover:underline"
+                    >
+                      {team.name}
+                    </Link>
+                    <span className="text-muted-foreground tabular-nums">
+                      {activeMembers} / {capacity}
+                    </span>
+                  </div>
+                  <UtilisationBar utilisation={utilisation} status={status} />
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Over-allocated people */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Over-allocated People</CardTitle>
+            <CardDescription>
+              Active in {OVER_ALLOCATION_THRESHOLD} or more project /
+              cross-functional teams at once
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {isLoadingMembers ? (
+              Array.from({ length: 3 }).map((_, index) => (
+                <Skeleton key={index} className="h-10 w-full" />
+              ))
+            ) : overAllocated.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">
+                Nobody is spread across too many teams.
+              </p>
+            ) : (
+              overAllocated.map(({ user, teams: userTeams }) => (
+                <div key={user.id} className="flex items-start gap-3">
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={user.avatar || ""} />
+                    <AvatarFallback>{getInitials(user.name)}</AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="truncate text-sm font-medium">
+                        {user.name}
+                      </span>
+                      <Badge variant="destructive">{userTeams.length} teams</Badge>
+                    </div>
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {userTeams.map((team) => (
+                        <Badge key={team.id} variant="outline" className="text-xs">
+                          {team.name}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Per department */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Utilisation by Department</CardTitle>
+          <CardDescription>
+            Capacity counts only teams with a member limit
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Department</TableHead>
+                  <TableHead className="text-right">Teams</TableHead>
+                  <TableHead className="text-right">Active Seats</TableHead>
+                  <TableHead className="text-right">Capacity</TableHead>
+                  <TableHead className="w-[240px]">Utilisation</TableHead>
+                  <TableHead className="text-right">Nearing</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {departmentCapacities.map((department) => (
+                  <TableRow key={department.departmentId ?? "none"}>
+                    <TableCell className="font-medium">
+                      {department.departmentId ? (
+                        <Link
+                          href={`/dashboard/hrm/departments/${department.departmentId}`}
+                          className="hover:underline"
+                        >
+                          {department.departmentName}
+                        </Link>
+                      ) : (
+                        department.departmentName
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {department.teams}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {department.activeMembers}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {department.capacity || "—"}
+                    </TableCell>
+                    <TableCell>
+                      <UtilisationBar
+                        utilisation={department.utilisation}
+                        status={
+                          department.utilisation === null
+                            ? "unbounded"
+                            : department.utilisation > 1
+                            ? "over"
+                            : department.utilisation >= NEAR_CAPACITY_THRESHOLD
+                            ? "near"
+                            : "ok"
+                        }
+                      />
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {department.nearCapacityTeams}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Per team */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle className="text-lg">Utilisation by Team</CardTitle>
+            <CardDescription>Active teams, fullest first</CardDescription>
+          </div>
+          <Select
+            value={typeFilter}
+            onValueChange={(value) => setTypeFilter(value as TeamType | "all")}
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="All Types" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Types</SelectItem>
+              {TEAM_TYPE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Team</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Department</TableHead>
+                  <TableHead className="text-right">Members</TableHead>
+                  <TableHead className="w-[240px]">Utilisation</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleTeams.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-24 text-center">
+                      No active teams of this type.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  visibleTeams.map(
+                    ({ team, activeMembers, capacity, utilisation, status }) => (
+                      <TableRow key={team.id}>
+                        <TableCell>
+                          <Link
+                            href={`/dashboard/hrm/teams/${team.id}`}
+                            className="font-medium hover:underline"
+                          >
+                            {team.name}
+                          </Link>
+                          <div className="font-mono text-xs text-muted-foreground">
+                            {team.code}
+                          </div>
+                        </TableCell>
+                        <TableCell>{TEAM_TYPE_LABELS[team.team_type]}</TableCell>
+                        <TableCell>{team.department?.name || "-"}</TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {activeMembers}
+                          {capacity ? ` / ${capacity}` : ""}
+                        </TableCell>
+                        <TableCell>
+                          <UtilisationBar utilisation={utilisation} status={status} />
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_BADGES[status].variant}>
+                            {STATUS_BADGES[status].label}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  )
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
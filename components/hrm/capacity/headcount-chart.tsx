@@ -0,0 +1,127 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { buildHeadcountSeries } from "@/lib/team-capacity";
+import type { TeamMember } from "@/types/hrm";
+
+const chartConfig = {
+  seats: {
+    label: "Team seats",
+    color: "var(--primary)",
+  },
+  people: {
+    label: "People",
+    color: "var(--chart-2)",
+  },
+  joined: {
+    label: "Joined",
+    color: "var(--chart-3)",
+  },
+  left: {
+    label: "Left",
+    color: "var(--chart-5)",
+  },
+} satisfies ChartConfig;
+
+const RANGES = [
+  { value: "6", label: "Last 6 months" },
+  { value: "12", label: "Last 12 months" },
+  { value: "24", label: "Last 24 months" },
+];
+
+interface HeadcountChartProps {
+  members: TeamMember[];
+}
+
+/**
+ * Month-end team headcount with joiners and leavers per month
+ */
+export function HeadcountChart({ members }: HeadcountChartProps) {
+  const [range, setRange] = useState("12");
+
+  const data = useMemo(
+    () => buildHeadcountSeries(members, Number(range)),
+    [members, range]
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Headcount Over Time</CardTitle>
+        <CardDescription>
+          Seats held and distinct people across all teams at each month end
+        </CardDescription>
+        <CardAction>
+          <Select value={range} onValueChange={setRange}>
+            <SelectTrigger className="w-40" size="sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGES.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardAction>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={chartConfig} className="aspect-auto h-[280px] w-full">
+          <ComposedChart data={data}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="label"
+              tickLine={false}
+              axisLine={false}
+              tickMargin={8}
+            />
+            <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+            <ChartTooltip content={<ChartTooltipContent indicator="dot" />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="joined" fill="var(--color-joined)" radius={2} />
+            <Bar dataKey="left" fill="var(--color-left)" radius={2} />
+            <Line
+              dataKey="seats"
+              type="monotone"
+              stroke="var(--color-seats)"
+              strokeWidth={2}
+              dot={false}
+            />
+            <Line
+              dataKey="people"
+              type="monotone"
+              stroke="var(--color-people)"
+              strokeWidth={2}
+              dot={false}
+            />
+          </ComposedChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import type { CapacityStatus } from "@/lib/team-capacity";
+
+const STATUS_COLORS: Record<CapacityStatus, string> = {
+  over: "bg-destructive",
+  full: "bg-orange-500",
+  near: "bg-amber-500",
+  ok: "bg-green-600",
+  unbounded: "bg-muted-foreground/40",
+};
+
+interface UtilisationBarProps {
+  utilisation: number | null;
+  status: CapacityStatus;
+  className?: string;
+}
+
+/**
+ * Horizontal utilisation meter; overflow beyond 100% is shown as a full bar
+ */
+export function UtilisationBar({
+  utilisation,
+  status,
+  className,
+}: UtilisationBarProps) {
+  const percent = utilisation === null ? null : Math.round(utilisation * 100);
+
+  return (
+    <div className={cn("flex items-center gap-2", className)}>
+      <div className="h-2 w-full min-w-16 overflow-hidden rounded-full bg-muted">
+        <div
+          className={cn("h-full transition-all", STATUS_COLORS[status])}
+          style={{ width: `${Math.min(percent ?? 0, 100)}%` }}
+        />
+      </div>
+      <span className="w-12 shrink-0 text-right text-sm tabular-nums">
+        {percent === null ? "—" : `${percent}%`}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from "recharts";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+} from "@/components/ui/chart";
+import { formatMoney } from "@/lib/compensation";
+
+export interface BandChartDatum {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  detail?: string;
+  tone?: "error" | "warning";
+}
+
+const chartConfig = {
+  range: {
+    label: "Salary band",
+    color: "var(--primary)",
+  },
+} satisfies ChartConfig;
+
+const TONE_FILLS = {
+  error: "var(--destructive)",
+  warning: "var(--chart-4)",
+};
+
+const ROW_HEIGHT = 32;
+
+interface BandChartProps {
+  data: BandChartDatum[];
+  currency: string;
+}
+
+const compactFormatter = new Intl.NumberFormat("en", { notation: "compact" });
+
+/**
+ * Horizontal floating bars from min to max, one row per band
+ */
+export function BandChart({ data, currency }: BandChartProps) {
+  // A transparent "offset" bar lifts the visible range bar to its minimum
+  const rows = data.map((datum) => ({
+    ...datum,
+    offset: Math.min(datum.min, datum.max),
+    range: Math.abs(datum.max - datum.min),
+  }));
+
+  return (
+    <ChartContainer
+      config={chartConfig}
+      className="aspect-auto w-full"
+      style={{ height: Math.max(rows.length * ROW_HEIGHT + 40, 120) }}
+    >
+      <BarChart data={rows} layout="vertical" barCategoryGap={6}>
+        <CartesianGrid horizontal={false} />
+        <XAxis
+          type="number"
+          tickLine={false}
+          axisLine={false}
+          tickFormatter={(value: number) => compactFormatter.format(value)}
+        />
+        <YAxis
+          type="category"
+          dataKey="label"
+          tickLine={false}
+          axisLine={false}
+          width={160}
+        />
+        <ChartTooltip
+          cursor={false}
+          content={({ active, payload }) => {
+            const datum = payload?.[0]?.payload as
+              | (BandChartDatum & { offset: number; range: number })
+              | undefined;
+            if (!active || !datum) return null;
+            return (
+              <div className="rounded-lg border bg-background px-2.5 py-1.5 text-xs shadow-xl">
+                <p className="font-medium">{datum.label}</p>
+                <p className="tabular-nums">
+                  {formatMoney(datum.min, currency)} –{" "}
+                  {formatMoney(datum.max, currency)}
+                </p>
+                {datum.detail && (
+                  <p className="text-muted-foreground">{datum.detail}</p>
+                )}
+              </div>
+            );
+          }}
+        />
+        <Bar dataKey="offset" stackId="band" fill="transparent" isAnimationActive={false} />
+        <Bar dataKey="range" stackId="band" radius={3}>
+          {rows.map((row) => (
+            <Cell
+              key={row.key}
+              fill={row.tone ? TONE_FILLS[row.tone] : "var(--color-range)"}
+            />
+          ))}
+        </Bar>
+      </BarChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,354 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import {
+  AlertTriangle,
+  Coins,
+  RefreshCw,
+  Settings2,
+  XCircle,
+} from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ErrorState, EmptyState } from "@/components/error-boundary";
+import { useAllPositions } from "@/hooks/use-positions";
+import {
+  findBandIssues,
+  formatMoney,
+  getLevelBands,
+  getSalaryBands,
+  type BandIssue,
+  type BandIssueType,
+} from "@/lib/compensation";
+import { useCurrencyStore } from "@/lib/store/currency-store";
+import { BandChart, type BandChartDatum } from "./band-chart";
+import { CurrencySettingsDialog } from "./currency-settings-dialog";
+
+// Every position, across all pages: an issue between two bands can only be
+// found when both are loaded
+const POSITION_FILTERS = {
+  sort_by: "level" as const,
+  sort_order: "asc" as const,
+};
+
+const ISSUE_LABELS: Record<BandIssueType, string> = {
+  inverted: "Inverted",
+  overlap: "Overlap",
+  level_order: "Level order",
+};
+
+/**
+ * CompensationBands Component
+ *
+ * Salary bands across positions by level and department, converted to a
+ * single display currency, with inverted / overlapping / out-of-order
+ * bands highlighted.
+ */
+export function CompensationBands() {
+  const [department, setDepartment] = useState("all");
+  const [ratesOpen, setRatesOpen] = useState(false);
+
+  const currency = useCurrencyStore((state) => state.displayCurrency);
+  const rates = useCurrencyStore((state) => state.rates);
+  const setDisplayCurrency = useCurrencyStore(
+    (state) => state.setDisplayCurrency
+  );
+
+  const { data, isLoading, isFetching, error, refetch } =
+    useAllPositions(POSITION_FILTERS);
+
+  const allBands = useMemo(
+    () => getSalaryBands(data || [], currency, rates),
+    [data, currency, rates]
+  );
+  const departments = useMemo(
+    () =>
+      [...new Set(allBands.map((band) => band.departmentName))].sort(),
+    [allBands]
+  );
+  const bands = useMemo(
+    () =>
+      department === "all"
+        ? allBands
+        : allBands.filter((band) => band.departmentName === department),
+    [allBands, department]
+  );
+  const issues = useMemo(() => findBandIssues(bands), [bands]);
+
+  const issuesByPosition = useMemo(() => {
+    const map = new Map<number, BandIssue[]>();
+    issues.forEach((issue) =>
+      issue.positionIds.forEach((id) =>
+        map.set(id, [...(map.get(id) || []), issue])
+      )
+    );
+    return map;
+  }, [issues]);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-[320px] w-full" />
+      </div>
+    );
+  }
+
+  if (error) return <ErrorState error={error} onRetry={() => refetch()} />;
+
+  if (allBands.length === 0) {
+    return (
+      <EmptyState
+        title="No salary bands"
+        description="Set a minimum or maximum salary on positions to compare bands"
+        icon={<Coins className="h-12 w-12" />}
+      />
+    );
+  }
+
+  const errors = issues.filter((issue) => issue.severity === "error");
+  const warnings = issues.filter((issue) => issue.severity === "warning");
+  const missingRates = [
+    ...new Set(
+      bands.filter((band) => band.missingRate).map((band) => band.sourceCurrency)
+    ),
+  ];
+
+  const levelData: BandChartDatum[] = getLevelBands(bands).map((band) => ({
+    key: band.level,
+    label: band.levelLabel,
+    min: band.min,
+    max: band.max,
+    detail: `${band.positions} position${band.positions === 1 ? "" : "s"}`,
+  }));
+
+  const positionData: BandChartDatum[] = bands
+    .filter((band) => band.min !== null && band.max !== null)
+    .map((band) => {
+      const positionIssues = issuesByPosition.get(band.position.id) || [];
+      return {
+        key: String(band.position.id),
+        label: band.position.name,
+        min: band.min as number,
+        max: band.max as number,
+        detail: [band.levelLabel, band.departmentName].join(" · "),
+        tone: positionIssues.some((issue) => issue.severity === "error")
+          ? "error"
+          : positionIssues.length
+          ? "warning"
+          : undefined,
+      };
+    });
+
+  return (
+    <div className="space-y-6">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={department} onValueChange={setDepartment}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue placeholder="All Departments" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Departments</SelectItem>
+              {departments.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={currency} onValueChange={setDisplayCurrency}>
+            <SelectTrigger className="w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.keys(rates).map((code) => (
+                <SelectItem key={code} value={code}>
+                  {code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setRatesOpen(true)}>
+            <Settings2 className="h-4 w-4 mr-2" />
+            Conversion Rates
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => refetch()}
+            disabled={isFetching}
+          >
+            <RefreshCw
+              className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`}
+            />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {missingRates.length > 0 && (
+        <div className="flex items-center gap-2 rounded-md border border-amber-500/50 bg-amber-500/5 p-3 text-sm">
+          <AlertTriangle className="h-4 w-4 shrink-0 text-amber-600" />
+          No conversion rate for {missingRates.join(", ")}; those bands are
+          left out of the charts.
+        </div>
+      )}
+
+      {/* Issues */}
+      {issues.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Band Issues</CardTitle>
+            <CardDescription>
+              {errors.length} error{errors.length === 1 ? "" : "s"},{" "}
+              {warnings.length} warning{warnings.length === 1 ? "" : "s"}.
+              Levels are compared within each department.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-2 text-sm">
+              {[...errors, ...warnings].map((issue) => (
+                <li
+                  key={`${issue.type}-${issue.positionIds.join("-")}`}
+                  className="flex items-start gap-2"
+                >
+                  {issue.severity === "error" ? (
+                    <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+                  ) : (
+                    <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-600" />
+                  )}
+                  <span>{issue.message}</span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-6 xl:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Bands by Level</CardTitle>
+            <CardDescription>
+              Lowest minimum to highest maximum per level, in {currency}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <BandChart data={levelData} currency={currency} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Bands by Position</CardTitle>
+            <CardDescription>
+              Red bands have errors, amber bands overlap an adjacent level
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <BandChart data={positionData} currency={currency} />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">All Bands</CardTitle>
+          <CardDescription>Most senior level first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Position</TableHead>
+                  <TableHead>Department</TableHead>
+                  <TableHead>Level</TableHead>
+                  <TableHead className="text-right">Minimum</TableHead>
+                  <TableHead className="text-right">Maximum</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Issues</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {bands.map((band) => {
+                  const positionIssues =
+                    issuesByPosition.get(band.position.id) || [];
+                  return (
+                    <TableRow key={band.position.id}>
+                      <TableCell>
+                        <Link
+                          href={`/dashboard/hrm/positions/${band.position.id}`}
+                          className="font-medium hover:underline"
+                        >
+                          {band.position.name}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{band.departmentName}</TableCell>
+                      <TableCell>{band.levelLabel}</TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {formatMoney(band.min, currency)}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {formatMoney(band.max, currency)}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {band.sourceCurrency}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {[...new Set(positionIssues.map((issue) => issue.type))].map(
+                            (type) => (
+                              <Badge
+                                key={type}
+                                variant={
+                                  type === "overlap" ? "secondary" : "destructive"
+                                }
+                              >
+                                {ISSUE_LABELS[type]}
+                              </Badge>
+                            )
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <CurrencySettingsDialog open={ratesOpen} onOpenChange={setRatesOpen} />
+    </div>
+  );
+}
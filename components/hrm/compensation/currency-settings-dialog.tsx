@@ -0,0 +1,159 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, RotateCcw, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { BASE_CURRENCY, useCurrencyStore } from "@/lib/store/currency-store";
+
+interface CurrencySettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Edit the conversion table used for multi-currency salary display.
+ * Rates are stored per browser.
+ */
+export function CurrencySettingsDialog({
+  open,
+  onOpenChange,
+}: CurrencySettingsDialogProps) {
+  const rates = useCurrencyStore((state) => state.rates);
+  const setRate = useCurrencyStore((state) => state.setRate);
+  const removeRate = useCurrencyStore((state) => state.removeRate);
+  const resetRates = useCurrencyStore((state) => state.resetRates);
+
+  const [code, setCode] = useState("");
+  const [rate, setRateValue] = useState("");
+
+  const newCode = code.trim().toUpperCase();
+  const newRate = Number(rate);
+  const canAdd = /^[A-Z]{3}$/.test(newCode) && newRate > 0;
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    setRate(newCode, newRate);
+    setCode("");
+    setRateValue("");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Currency Conversion</DialogTitle>
+          <DialogDescription>
+            Value of one unit of each currency in {BASE_CURRENCY}. Salary bands
+            are converted through {BASE_CURRENCY} for display.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Currency</TableHead>
+                <TableHead>Rate ({BASE_CURRENCY})</TableHead>
+                <TableHead className="w-[50px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {Object.entries(rates).map(([currency, value]) => (
+                // Remount on reset so the uncontrolled input picks up the rate
+                <TableRow key={`${currency}-${value}`}>
+                  <TableCell className="font-mono">{currency}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="any"
+                      defaultValue={value}
+                      disabled={currency === BASE_CURRENCY}
+                      onBlur={(e) => {
+                        const next = Number(e.target.value);
+                        if (next > 0) setRate(currency, next);
+                        else e.target.value = String(value);
+                      }}
+                      className="h-8"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    {currency !== BASE_CURRENCY && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeRate(currency)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Remove {currency}</span>
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell>
+                  <Input
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder="JPY"
+                    maxLength={3}
+                    className="h-8 w-20 font-mono uppercase"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={rate}
+                    onChange={(e) => setRateValue(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+                    placeholder="105"
+                    className="h-8"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={handleAdd}
+                    disabled={!canAdd}
+                  >
+                    <Plus className="h-4 w-4" />
+                    <span className="sr-only">Add currency</span>
+                  </Button>
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={resetRates}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to Defaults
+          </Button>
+          <Button onClick={() => onOpenChange(false)}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
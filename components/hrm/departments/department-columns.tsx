@@ -18,18 +18,14 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import type { CanFunction } from "@/lib/permissions/abilities";
 
 interface DepartmentColumnsProps {
   onView?: (dept: Department) => void;
   onEdit: (dept: Department) => void;
   onDelete: (dept: Department) => void;
   onRestore?: (dept: Department) => void;
-  hasPermission: (permission: string) => boolean;
-  permissions: {
-    update: string;
-    delete: string;
-    restore: string;
-  };
+  can: CanFunction;
 }
 
 export const createDepartmentColumns = ({
@@ -37,8 +33,7 @@ export const createDepartmentColumns = ({
   onEdit,
   onDelete,
   onRestore,
-  hasPermission,
-  permissions,
+  can,
 }: DepartmentColumnsProps): ColumnDef<Department>[] => [
   {
     accessorKey: "code",
@@ -110,19 +105,19 @@ export const createDepartmentColumns = ({
           <DropdownMenuContent align="end">
             {!isDeleted ? (
               <>
-                {onView && (
+                {onView && can("view", "department", dept) && (
                   <DropdownMenuItem onClick={() => onView(dept)}>
                     <Building2 className="h-4 w-4 mr-2" />
                     View Details
                   </DropdownMenuItem>
                 )}
-                {hasPermission(permissions.update) && (
+                {can("update", "department", dept) && (
                   <DropdownMenuItem onClick={() => onEdit(dept)}>
                     <Edit className="h-4 w-4 mr-2" />
                     Edit
                   </DropdownMenuItem>
                 )}
-                {hasPermission(permissions.delete) && (
+                {can("delete", "department", dept) && (
                   <>
                     <DropdownMenuSeparator />
                     <DropdownMenuItem
@@ -137,7 +132,7 @@ export const createDepartmentColumns = ({
               </>
             ) : (
               <>
-                {onRestore && hasPermission(permissions.restore) && (
+                {onRestore && can("restore", "department", dept) && (
                   <DropdownMenuItem onClick={() => onRestore(dept)}>
                     <RotateCcw className="h-4 w-4 mr-2" />
                     Restore
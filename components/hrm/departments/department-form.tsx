@@ -34,6 +34,7 @@ import { Separator } from "@/components/ui/separator";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Loader2 } from "lucide-react";
 import { departmentSchema } from "@/lib/validations/hrm";
+import { setServerErrors } from "@/lib/form-errors";
 import { useDepartments } from "@/hooks/use-departments";
 import { getAllUsersForAssignment } from "@/lib/api/hrm-assignments";
 import type { Department, DepartmentInput, User } from "@/types/hrm";
@@ -175,7 +176,10 @@ export function DepartmentForm({
       form.reset();
       onOpenChange(false);
     } catch (error) {
-      console.error("Form submission error:", error);
+      // Laravel validation messages go on their fields; the page toasts the rest
+      if (setServerErrors(form, error).length === 0) {
+        console.error("Form submission error:", error);
+      }
     }
   };
 
@@ -502,6 +506,12 @@ export function DepartmentForm({
               )}
             />
 
+            {form.formState.errors.root?.server && (
+              <p className="text-[0.8rem] font-medium text-destructive">
+                {form.formState.errors.root.server.message}
+              </p>
+            )}
+
             <DialogFooter>
               <Button
                 type="button"
@@ -0,0 +1,83 @@
+"use client";
+
+import { useCallback } from "react";
+import { SpreadsheetImportDialog } from "@/components/shared/spreadsheet-import-dialog";
+import type { ImportPreviewColumn } from "@/components/shared/spreadsheet-import";
+import { useAllDepartments } from "@/hooks/use-departments";
+import { useImportDepartments } from "@/hooks/use-hrm-import";
+import {
+  DEPARTMENT_IMPORT_FIELDS,
+  buildDepartmentImportRows,
+  type DepartmentImportField,
+  type DepartmentImportRow,
+} from "@/lib/hrm-import";
+import type { ImportMapping } from "@/lib/import";
+import type { SpreadsheetData } from "@/lib/spreadsheet";
+import type { DepartmentInput } from "@/types/hrm";
+
+interface DepartmentImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function DepartmentImportDialog({
+  open,
+  onOpenChange,
+}: DepartmentImportDialogProps) {
+  const importMutation = useImportDepartments();
+  const departmentsQuery = useAllDepartments(undefined, { enabled: open });
+  const departmentsData = departmentsQuery.data;
+
+  const buildRows = useCallback(
+    (data: SpreadsheetData, mapping: ImportMapping<DepartmentImportField>) =>
+      buildDepartmentImportRows(data.rows, mapping, departmentsData || []),
+    [departmentsData]
+  );
+
+  const previewColumns: ImportPreviewColumn<DepartmentInput>[] = [
+    {
+      header: "Code",
+      cell: (row) => (
+        <span className="font-mono text-sm">{row.input.code || "-"}</span>
+      ),
+    },
+    { header: "Name", cell: (row) => row.input.name || "-" },
+    {
+      header: "Parent",
+      cell: (row) => {
+        const { parentCode } = row as DepartmentImportRow;
+        const existingParent = departmentsData?.find(
+          (department) => department.id === row.input.parent_id
+        );
+        return (
+          <span className="font-mono text-sm">
+            {parentCode || existingParent?.code || "-"}
+          </span>
+        );
+      },
+    },
+    {
+      header: "Level",
+      cell: (row) => (row as DepartmentImportRow).level,
+    },
+  ];
+
+  return (
+    <SpreadsheetImportDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title="Import Departments"
+      description="Create departments in bulk from a CSV or XLSX file. Parents are resolved by code."
+      entityLabel="departments"
+      fields={DEPARTMENT_IMPORT_FIELDS}
+      buildRows={buildRows}
+      previewColumns={previewColumns}
+      onImport={importMutation.mutateAsync}
+      isImporting={importMutation.isPending}
+      lookupsReady={departmentsQuery.isSuccess}
+      lookupsFailed={departmentsQuery.isError}
+      onRetryLookups={() => departmentsQuery.refetch()}
+      validationHint="Rows are created level by level so parent departments always exist before their children."
+    />
+  );
+}
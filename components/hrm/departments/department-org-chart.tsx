@@ -0,0 +1,555 @@
+"use client"
+
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import {
+  ZoomIn,
+  ZoomOut,
+  Maximize,
+  Download,
+  Loader2,
+  Move,
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { useDepartmentTree, useUpdateDepartment } from '@/hooks/use-departments'
+import {
+  ORG_NODE_HEIGHT,
+  ORG_NODE_WIDTH,
+  canReparent,
+  exportOrgChartPng,
+  exportOrgChartSvg,
+  layoutOrgChart,
+  type OrgChartNode,
+} from '@/lib/org-chart'
+import { cn, getProxyImageUrl } from '@/lib/utils'
+import type { DepartmentTreeNode } from '@/types/hrm'
+
+interface DepartmentOrgChartProps {
+  onSelectDepartment?: (node: DepartmentTreeNode) => void
+  /** Allow dragging departments to a new parent */
+  editable?: boolean
+}
+
+interface Viewport {
+  x: number
+  y: number
+  k: number
+}
+
+interface DragState {
+  mode: 'pan' | 'node'
+  pointerId: number
+  startX: number
+  startY: number
+  origin: Viewport
+  nodeId?: number
+  moved: boolean
+}
+
+const MIN_ZOOM = 0.2
+const MAX_ZOOM = 2.5
+const DRAG_THRESHOLD = 4
+// Strip along the top of the canvas that makes a dropped department top-level
+const ROOT_DROP_ZONE_HEIGHT = 48
+
+const truncate = (text: string, max: number) =>
+  text.length > max ? `${text.slice(0, max - 1)}…` : text
+
+const initials = (name: string) =>
+  name
+    .split(' ')
+    .map((part) => part.charAt(0))
+    .join('')
+    .slice(0, 2)
+    .toUpperCase()
+
+export function DepartmentOrgChart({
+  onSelectDepartment,
+  editable = false,
+}: DepartmentOrgChartProps) {
+  const { data: treeData, isLoading } = useDepartmentTree()
+  const updateMutation = useUpdateDepartment()
+
+  const containerRef = useRef<HTMLDivElement>(null)
+  const svgRef = useRef<SVGSVGElement>(null)
+  const dragRef = useRef<DragState | null>(null)
+
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set())
+  const [viewport, setViewport] = useState<Viewport>({ x: 0, y: 0, k: 1 })
+  const [draggingId, setDraggingId] = useState<number | null>(null)
+  const [ghost, setGhost] = useState<{ x: number; y: number } | null>(null)
+  const [dropTargetId, setDropTargetId] = useState<number | null>(null)
+  const [overRootZone, setOverRootZone] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+
+  const roots = useMemo(() => treeData || [], [treeData])
+  const layout = useMemo(() => layoutOrgChart(roots, collapsed), [roots, collapsed])
+
+  const dropAllowed =
+    draggingId !== null &&
+    dropTargetId !== null &&
+    canReparent(roots, draggingId, dropTargetId)
+  const rootDropAllowed =
+    draggingId !== null && canReparent(roots, draggingId, null)
+
+  // Wheel zoom needs a non-passive listener to prevent page scroll
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      const rect = container.getBoundingClientRect()
+      const px = event.clientX - rect.left
+      const py = event.clientY - rect.top
+      setViewport((prev) => {
+        const k = Math.min(
+          MAX_ZOOM,
+          Math.max(MIN_ZOOM, prev.k * (event.deltaY < 0 ? 1.1 : 1 / 1.1))
+        )
+        // Keep the point under the cursor fixed
+        return {
+          k,
+          x: px - ((px - prev.x) / prev.k) * k,
+          y: py - ((py - prev.y) / prev.k) * k,
+        }
+      })
+    }
+
+    container.addEventListener('wheel', handleWheel, { passive: false })
+    return () => container.removeEventListener('wheel', handleWheel)
+  }, [isLoading])
+
+  const toChartPoint = (clientX: number, clientY: number) => {
+    const rect = containerRef.current!.getBoundingClientRect()
+    return {
+      x: (clientX - rect.left - viewport.x) / viewport.k,
+      y: (clientY - rect.top - viewport.y) / viewport.k,
+    }
+  }
+
+  const hitTest = (x: number, y: number): OrgChartNode | undefined =>
+    layout.nodes.find(
+      (n) =>
+        x >= n.x && x <= n.x + ORG_NODE_WIDTH && y >= n.y && y <= n.y + ORG_NODE_HEIGHT
+    )
+
+  const zoomBy = (factor: number) => {
+    const container = containerRef.current
+    if (!container) return
+    const cx = container.clientWidth / 2
+    const cy = container.clientHeight / 2
+    setViewport((prev) => {
+      const k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev.k * factor))
+      return {
+        k,
+        x: cx - ((cx - prev.x) / prev.k) * k,
+        y: cy - ((cy - prev.y) / prev.k) * k,
+      }
+    })
+  }
+
+  const fitToScreen = () => {
+    const container = containerRef.current
+    if (!container) return
+    const k = Math.min(
+      1,
+      container.clientWidth / layout.width,
+      container.clientHeight / layout.height
+    )
+    setViewport({
+      k,
+      x: (container.clientWidth - layout.width * k) / 2,
+      y: (container.clientHeight - layout.height * k) / 2,
+    })
+  }
+
+  const handlePointerDown = (event: React.PointerEvent, nodeId?: number) => {
+    if (event.button !== 0) return
+    event.stopPropagation()
+    containerRef.current?.setPointerCapture(event.pointerId)
+    dragRef.current = {
+      mode: nodeId !== undefined ? 'node' : 'pan',
+      pointerId: event.pointerId,
+      startX: event.clientX,
+      startY: event.clientY,
+      origin: viewport,
+      nodeId,
+      moved: false,
+    }
+  }
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current
+    if (!drag || drag.pointerId !== event.pointerId) return
+
+    const dx = event.clientX - drag.startX
+    const dy = event.clientY - drag.startY
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return
+    drag.moved = true
+
+    // Without update rights a department drag just pans the chart
+    if (drag.mode === 'pan' || !editable) {
+      setViewport({ ...drag.origin, x: drag.origin.x + dx, y: drag.origin.y + dy })
+      return
+    }
+
+    const point = toChartPoint(event.clientX, event.clientY)
+    setDraggingId(drag.nodeId!)
+    setGhost(point)
+
+    const rect = containerRef.current!.getBoundingClientRect()
+    if (event.clientY - rect.top <= ROOT_DROP_ZONE_HEIGHT) {
+      setOverRootZone(true)
+      setDropTargetId(null)
+      return
+    }
+    setOverRootZone(false)
+    const target = hitTest(point.x, point.y)
+    setDropTargetId(target && target.node.id !== drag.nodeId ? target.node.id : null)
+  }
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    const drag = dragRef.current
+    if (!drag || drag.pointerId !== event.pointerId) return
+    dragRef.current = null
+    containerRef.current?.releasePointerCapture(event.pointerId)
+
+    if (drag.mode === 'node' && drag.nodeId !== undefined) {
+      if (!drag.moved) {
+        const clicked = layout.nodes.find((n) => n.node.id === drag.nodeId)
+        if (clicked) onSelectDepartment?.(clicked.node)
+      } else if (editable && overRootZone) {
+        if (canReparent(roots, drag.nodeId, null)) {
+          updateMutation.mutate({
+            id: drag.nodeId,
+            data: { parent_id: null },
+          })
+        } else {
+          toast.error('Cannot move department', {
+            description: 'This department is already a top-level department.',
+          })
+        }
+      } else if (editable && dropTargetId !== null) {
+        if (canReparent(roots, drag.nodeId, dropTargetId)) {
+          updateMutation.mutate({
+            id: drag.nodeId,
+            data: { parent_id: dropTargetId },
+          })
+        } else {
+          toast.error('Cannot move department', {
+            description:
+              'A department cannot be moved under itself, one of its sub-departments, or its current parent.',
+          })
+        }
+      }
+    }
+
+    setDraggingId(null)
+    setGhost(null)
+    setDropTargetId(null)
+    setOverRootZone(false)
+  }
+
+  const toggleCollapse = (nodeId: number) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev)
+      if (next.has(nodeId)) {
+        next.delete(nodeId)
+      } else {
+        next.add(nodeId)
+      }
+      return next
+    })
+  }
+
+  const handleExport = async (format: 'png' | 'svg') => {
+    if (!svgRef.current) return
+    setIsExporting(true)
+    try {
+      const filename = `org-chart-${new Date().toISOString().split('T')[0]}`
+      if (format === 'svg') {
+        await exportOrgChartSvg(svgRef.current, layout, filename)
+      } else {
+        const background = containerRef.current
+          ? window.getComputedStyle(containerRef.current).backgroundColor
+          : '#ffffff'
+        await exportOrgChartPng(svgRef.current, layout, filename, background)
+      }
+      toast.success(`Org chart exported as ${format.toUpperCase()}`)
+    } catch (error) {
+      toast.error('Failed to export org chart', {
+        description: error instanceof Error ? error.message : 'Something went wrong',
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  if (isLoading) {
+    return <Skeleton className="h-[560px] w-full" />
+  }
+
+  if (roots.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No departments found. Create your first department to get started.
+      </div>
+    )
+  }
+
+  const draggingNode = layout.nodes.find((n) => n.node.id === draggingId)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Move className="h-4 w-4" />
+          {editable
+            ? 'Drag the background to pan, scroll to zoom, drag a department onto another to change its parent or to the top edge to make it top-level.'
+            : 'Drag to pan, scroll to zoom.'}
+        </p>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => zoomBy(1.2)}>
+            <ZoomIn className="h-4 w-4" />
+            <span className="sr-only">Zoom in</span>
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => zoomBy(1 / 1.2)}>
+            <ZoomOut className="h-4 w-4" />
+            <span className="sr-only">Zoom out</span>
+          </Button>
+          <Button variant="outline" size="sm" onClick={fitToScreen}>
+            <Maximize className="h-4 w-4 mr-2" />
+            Fit
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={isExporting}>
+                {isExporting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Download className="h-4 w-4 mr-2" />
+                )}
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExport('png')}>
+                Export as PNG
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('svg')}>
+                Export as SVG
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+
+      <div
+        ref={containerRef}
+        className={cn(
+          'relative h-[560px] overflow-hidden rounded-md border bg-background touch-none select-none',
+          draggingId !== null ? 'cursor-grabbing' : 'cursor-grab'
+        )}
+        onPointerDown={(e) => handlePointerDown(e)}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {/* Root drop zone, outside the SVG so exports never include it */}
+        {draggingId !== null && (
+          <div
+            className={cn(
+              'pointer-events-none absolute inset-x-0 top-0 z-10 flex items-center justify-center border-b border-dashed bg-muted/80 text-xs text-muted-foreground',
+              overRootZone && rootDropAllowed && 'border-primary text-primary',
+              overRootZone && !rootDropAllowed && 'border-destructive text-destructive'
+            )}
+            style={{ height: ROOT_DROP_ZONE_HEIGHT }}
+          >
+            Drop here to make it a top-level department
+          </div>
+        )}
+        <svg ref={svgRef} className="h-full w-full">
+          <defs>
+            {layout.nodes.map(({ node, x, y }) => (
+              <clipPath key={node.id} id={`org-avatar-${node.id}`}>
+                <circle cx={x + 34} cy={y + ORG_NODE_HEIGHT / 2} r={18} />
+              </clipPath>
+            ))}
+          </defs>
+
+          <g
+            data-viewport
+            transform={`translate(${viewport.x} ${viewport.y}) scale(${viewport.k})`}
+          >
+            {/* Connectors */}
+            {layout.edges.map(({ from, to }) => {
+              const startX = from.x + ORG_NODE_WIDTH / 2
+              const startY = from.y + ORG_NODE_HEIGHT
+              const endX = to.x + ORG_NODE_WIDTH / 2
+              const endY = to.y
+              const midY = (startY + endY) / 2
+              return (
+                <path
+                  key={`${from.node.id}-${to.node.id}`}
+                  d={`M ${startX} ${startY} V ${midY} H ${endX} V ${endY}`}
+                  className="fill-none stroke-border"
+                  strokeWidth={1.5}
+                />
+              )
+            })}
+
+            {/* Nodes */}
+            {layout.nodes.map((item) => {
+              const { node, x, y, hasChildren } = item
+              const isDragging = draggingId === node.id
+              const isTarget = dropTargetId === node.id
+              const avatar = node.manager?.avatar
+                ? getProxyImageUrl(node.manager.avatar)
+                : ''
+              const usersCount = node.users_count ?? node.employees_count ?? 0
+              const teamsCount = node.teams_count ?? 0
+
+              return (
+                <g
+                  key={node.id}
+                  className={cn('cursor-pointer', isDragging && 'opacity-40')}
+                  onPointerDown={(e) => handlePointerDown(e, node.id)}
+                >
+                  <rect
+                    x={x}
+                    y={y}
+                    width={ORG_NODE_WIDTH}
+                    height={ORG_NODE_HEIGHT}
+                    rx={8}
+                    className={cn(
+                      'fill-card stroke-border',
+                      isTarget && dropAllowed && 'stroke-primary',
+                      isTarget && !dropAllowed && 'stroke-destructive',
+                      !node.is_active && 'fill-muted'
+                    )}
+                    strokeWidth={isTarget ? 2.5 : 1}
+                    strokeDasharray={node.is_active ? undefined : '4 3'}
+                  />
+
+                  {/* Manager avatar */}
+                  <circle
+                    cx={x + 34}
+                    cy={y + ORG_NODE_HEIGHT / 2}
+                    r={18}
+                    className="fill-muted"
+                  />
+                  <text
+                    x={x + 34}
+                    y={y + ORG_NODE_HEIGHT / 2 + 4}
+                    textAnchor="middle"
+                    className="fill-muted-foreground text-[11px] font-medium"
+                  >
+                    {node.manager ? initials(node.manager.name) : '—'}
+                  </text>
+                  {avatar && (
+                    <image
+                      href={avatar}
+                      x={x + 16}
+                      y={y + ORG_NODE_HEIGHT / 2 - 18}
+                      width={36}
+                      height={36}
+                      preserveAspectRatio="xMidYMid slice"
+                      clipPath={`url(#org-avatar-${node.id})`}
+                    />
+                  )}
+
+                  {/* Details */}
+                  <text
+                    x={x + 62}
+                    y={y + 24}
+                    className="fill-foreground text-[13px] font-semibold"
+                  >
+                    {truncate(node.name, 20)}
+                  </text>
+                  <text
+                    x={x + 62}
+                    y={y + 40}
+                    className="fill-muted-foreground font-mono text-[10px]"
+                  >
+                    {node.code}
+                  </text>
+                  <text
+                    x={x + 62}
+                    y={y + 56}
+                    className="fill-muted-foreground text-[11px]"
+                  >
+                    {node.manager ? truncate(node.manager.name, 22) : 'No manager'}
+                  </text>
+                  <text
+                    x={x + 62}
+                    y={y + 72}
+                    className="fill-muted-foreground text-[11px]"
+                  >
+                    {usersCount} users · {teamsCount} teams
+                  </text>
+
+                  {/* Collapse toggle */}
+                  {hasChildren && (
+                    <g
+                      data-export-ignore
+                      onPointerDown={(e) => {
+                        e.stopPropagation()
+                        toggleCollapse(node.id)
+                      }}
+                    >
+                      <circle
+                        cx={x + ORG_NODE_WIDTH / 2}
+                        cy={y + ORG_NODE_HEIGHT}
+                        r={8}
+                        className="fill-background stroke-border"
+                      />
+                      <text
+                        x={x + ORG_NODE_WIDTH / 2}
+                        y={y + ORG_NODE_HEIGHT + 4}
+                        textAnchor="middle"
+                        className="fill-foreground text-[12px] font-medium"
+                      >
+                        {collapsed.has(node.id) ? '+' : '−'}
+                      </text>
+                    </g>
+                  )}
+                </g>
+              )
+            })}
+
+            {/* Drag ghost */}
+            {ghost && draggingNode && (
+              <g data-export-ignore pointerEvents="none" opacity={0.85}>
+                <rect
+                  x={ghost.x - ORG_NODE_WIDTH / 2}
+                  y={ghost.y - ORG_NODE_HEIGHT / 2}
+                  width={ORG_NODE_WIDTH}
+                  height={ORG_NODE_HEIGHT}
+                  rx={8}
+                  className="fill-card stroke-primary"
+                  strokeWidth={1.5}
+                />
+                <text
+                  x={ghost.x}
+                  y={ghost.y + 4}
+                  textAnchor="middle"
+                  className="fill-foreground text-[13px] font-semibold"
+                >
+                  {truncate(draggingNode.node.name, 24)}
+                </text>
+              </g>
+            )}
+          </g>
+        </svg>
+      </div>
+    </div>
+  )
+}
@@ -7,15 +7,17 @@ import {
   useReactTable,
 } from "@tanstack/react-table";
 import { Button } from "@/components/ui/button";
-import { Plus, RefreshCw, Building2 } from "lucide-react";
+import { Plus, RefreshCw, Upload, Building2 } from "lucide-react";
 import { useDepartments } from "@/hooks/use-departments";
 import { Department, DepartmentFilters } from "@/types/hrm";
+import { Can } from "@/components/can";
 import { usePermissions } from "@/hooks/use-permissions";
-import { HRM_PERMISSIONS } from "@/lib/permissions/hrm";
 import { TableSkeleton } from "@/components/ui/skeleton-loaders";
 import { ErrorState, EmptyState } from "@/components/error-boundary";
 import { useDataTable } from "@/lib/hooks/use-data-table";
 import { DataTableShell } from "@/components/shared/data-table-shell";
+import { DataTableSavedViews } from "@/components/shared/data-table-saved-views";
+import { DataTableViewOptions } from "@/components/ui/data-table-view-options";
 import { createDepartmentColumns } from "./department-columns";
 
 interface DepartmentTableProps {
@@ -24,6 +26,7 @@ interface DepartmentTableProps {
   onDelete: (dept: Department) => void;
   onRestore?: (dept: Department) => void;
   onCreate: () => void;
+  onImport?: () => void;
 }
 
 export function DepartmentTable({
@@ -32,6 +35,7 @@ export function DepartmentTable({
   onDelete,
   onRestore,
   onCreate,
+  onImport,
 }: DepartmentTableProps) {
   const {
     filters,
@@ -40,7 +44,13 @@ export function DepartmentTable({
     sorting,
     handleSortingChange,
     handlePageChange,
+    columnVisibility,
+    setColumnVisibility,
+    applyView,
+    getViewState,
+    activeViewId,
   } = useDataTable<DepartmentFilters>({
+    tableId: "departments",
     initialFilters: {
       page: 1,
       per_page: 10,
@@ -50,7 +60,7 @@ export function DepartmentTable({
   });
 
   const { data, isLoading, isError, error, refetch } = useDepartments(filters);
-  const { hasPermission } = usePermissions();
+  const { can } = usePermissions();
 
   const columns = useMemo(
     () =>
@@ -59,14 +69,9 @@ export function DepartmentTable({
         onEdit,
         onDelete,
         onRestore,
-        hasPermission,
-        permissions: {
-          update: HRM_PERMISSIONS.DEPARTMENTS_UPDATE,
-          delete: HRM_PERMISSIONS.DEPARTMENTS_DELETE,
-          restore: HRM_PERMISSIONS.DEPARTMENTS_RESTORE,
-        },
+        can,
       }),
-    [onView, onEdit, onDelete, onRestore, hasPermission]
+    [onView, onEdit, onDelete, onRestore, can]
   );
 
   // eslint-disable-next-line react-hooks/incompatible-library
@@ -76,8 +81,10 @@ export function DepartmentTable({
     getCoreRowModel: getCoreRowModel(),
     getSortedRowModel: getSortedRowModel(),
     onSortingChange: handleSortingChange,
+    onColumnVisibilityChange: setColumnVisibility,
     state: {
       sorting,
+      columnVisibility,
     },
     manualPagination: true,
   });
@@ -121,14 +128,29 @@ export function DepartmentTable({
       onPageChange={handlePageChange}
       actions={
         <>
+          <DataTableSavedViews
+            tableId="departments"
+            getViewState={getViewState}
+            onApplyView={applyView}
+            activeViewId={activeViewId}
+          />
+          <DataTableViewOptions table={table} />
           <Button variant="outline" size="sm" onClick={() => refetch()}>
             <RefreshCw className="h-4 w-4 mr-2" />
             Refresh
           </Button>
-          <Button size="sm" onClick={onCreate}>
-            <Plus className="h-4 w-4 mr-2" />
-            New Department
-          </Button>
+          {onImport && (
+            <Button variant="outline" size="sm" onClick={onImport}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+          )}
+          <Can action="create" subject="department">
+            <Button size="sm" onClick={onCreate}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Department
+            </Button>
+          </Can>
         </>
       }
     />
@@ -0,0 +1,188 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChevronLeft, ChevronRight, History } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { useDepartmentUserHistory } from "@/hooks/use-departments";
+import {
+  formatTenure,
+  formatTransferReason,
+  getReasonBadgeVariant,
+  isCurrentStint,
+} from "@/lib/assignment-history";
+
+interface DepartmentHistoryTabProps {
+  departmentId: number;
+}
+
+const PER_PAGE = 15;
+
+export function DepartmentHistoryTab({
+  departmentId,
+}: DepartmentHistoryTabProps) {
+  const [page, setPage] = useState(1);
+  const [onlyPast, setOnlyPast] = useState(true);
+  const { data, isLoading } = useDepartmentUserHistory(
+    departmentId,
+    page,
+    PER_PAGE,
+    onlyPast
+  );
+
+  const handleOnlyPastChange = (checked: boolean) => {
+    setOnlyPast(checked);
+    setPage(1);
+  };
+
+  const records = data?.data || [];
+  const lastPage = data?.last_page || 1;
+
+  return (
+    <div className="px-6 pb-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <History className="h-5 w-5" />
+            {onlyPast ? "Past Members" : "Membership History"} (
+            {data?.total ?? 0})
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="only-past-members"
+              checked={onlyPast}
+              onCheckedChange={handleOnlyPastChange}
+            />
+            <Label htmlFor="only-past-members" className="text-sm">
+              Past members only
+            </Label>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : records.length === 0 ? (
+            <div className="text-center py-8">
+              <History className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">
+                {onlyPast
+                  ? "No past members for this department"
+                  : "No membership history for this department"}
+              </p>
+            </div>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    <TableHead>Position</TableHead>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Tenure</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Recorded By</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {records.map((record) => (
+                    <TableRow key={record.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-3">
+                          <Avatar className="h-8 w-8">
+                            <AvatarImage src={record.user?.avatar || ""} />
+                            <AvatarFallback>
+                              {record.user?.name?.charAt(0) || "U"}
+                            </AvatarFallback>
+                          </Avatar>
+                          <span className="font-medium">
+                            {record.user?.name || `User #${record.user_id}`}
+                          </span>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-sm text-muted-foreground">
+                          {record.position?.name || "-"}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-sm">
+                          {format(parseISO(record.effective_date), "dd MMM yyyy")}
+                          {" – "}
+                          {record.end_date
+                            ? format(parseISO(record.end_date), "dd MMM yyyy")
+                            : "Present"}
+                        </span>
+                        {isCurrentStint(record) && (
+                          <Badge variant="outline" className="ml-2">
+                            Current
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-sm text-muted-foreground">
+                          {formatTenure(record.effective_date, record.end_date)}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={getReasonBadgeVariant(record.reason)}>
+                          {formatTransferReason(record.reason)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-sm text-muted-foreground">
+                          {record.creator?.name || "System"}
+                        </span>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {lastPage > 1 && (
+                <div className="flex items-center justify-end gap-2 pt-4">
+                  <span className="text-sm text-muted-foreground">
+                    Page {page} of {lastPage}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setPage((p) => Math.max(1, p - 1))}
+                    disabled={page <= 1}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setPage((p) => Math.min(lastPage, p + 1))}
+                    disabled={page >= lastPage}
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
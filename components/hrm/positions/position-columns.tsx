@@ -18,18 +18,14 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import type { CanFunction } from "@/lib/permissions/abilities";
 
 interface PositionColumnsProps {
   onView?: (position: Position) => void;
   onEdit: (position: Position) => void;
   onDelete: (position: Position) => void;
   onRestore?: (position: Position) => void;
-  hasPermission: (permission: string) => boolean;
-  permissions: {
-    update: string;
-    delete: string;
-    restore: string;
-  };
+  can: CanFunction;
 }
 
 export const createPositionColumns = ({
@@ -37,8 +33,7 @@ export const createPositionColumns = ({
   onEdit,
   onDelete,
   onRestore,
-  hasPermission,
-  permissions,
+  can,
 }: PositionColumnsProps): ColumnDef<Position>[] => [
   {
     accessorKey: "code",
@@ -139,19 +134,19 @@ export const createPositionColumns = ({
           <DropdownMenuContent align="end">
             {!isDeleted ? (
               <>
-                {onView && (
+                {onView && can("view", "position", position) && (
                   <DropdownMenuItem onClick={() => onView(position)}>
                     <Briefcase className="h-4 w-4 mr-2" />
                     View Details
                   </DropdownMenuItem>
                 )}
-                {hasPermission(permissions.update) && (
+                {can("update", "position", position) && (
                   <DropdownMenuItem onClick={() => onEdit(position)}>
                     <Edit className="h-4 w-4 mr-2" />
                     Edit
                   </DropdownMenuItem>
                 )}
-                {hasPermission(permissions.delete) && (
+                {can("delete", "position", position) && (
                   <>
                     <DropdownMenuSeparator />
                     <DropdownMenuItem
@@ -166,7 +161,7 @@ export const createPositionColumns = ({
               </>
             ) : (
               <>
-                {onRestore && hasPermission(permissions.restore) && (
+                {onRestore && can("restore", "position", position) && (
                   <DropdownMenuItem onClick={() => onRestore(position)}>
                     <RotateCcw className="h-4 w-4 mr-2" />
                     Restore
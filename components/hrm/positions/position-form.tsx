@@ -33,7 +33,9 @@ import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
 import { Loader2 } from "lucide-react";
 import { positionSchema } from "@/lib/validations/hrm";
+import { setServerErrors } from "@/lib/form-errors";
 import { useDepartments } from "@/hooks/use-departments";
+import { SkillTagsInput } from "@/components/hrm/skills/skill-combobox";
 import type { Position, PositionInput } from "@/types/hrm";
 import { POSITION_LEVEL_OPTIONS } from "@/types/hrm";
 import { z } from "zod";
@@ -138,7 +140,10 @@ export function PositionForm({
       form.reset();
       onOpenChange(false);
     } catch (error) {
-      console.error("Form submission error:", error);
+      // Laravel validation messages go on their fields; the page toasts the rest
+      if (setServerErrors(form, error).length === 0) {
+        console.error("Form submission error:", error);
+      }
     }
   };
 
@@ -413,21 +418,17 @@ export function PositionForm({
                   <FormItem>
                     <FormLabel>Skills</FormLabel>
                     <FormControl>
-                      <Input
-                        placeholder="Skills (comma separated)"
-                        {...field}
-                        value={(field.value || []).join(", ")}
-                        onChange={(e) => {
-                          const skills = e.target.value
-                            .split(",")
-                            .map((s) => s.trim())
-                            .filter((s) => s.length > 0);
-                          field.onChange(skills.length > 0 ? skills : null);
-                        }}
+                      <SkillTagsInput
+                        value={field.value || []}
+                        onChange={(skills) =>
+                          field.onChange(skills.length > 0 ? skills : null)
+                        }
+                        allowCreate
+                        disabled={isLoading}
                       />
                     </FormControl>
                     <FormDescription>
-                      Enter skills separated by commas
+                      Pick from the skills catalog or add a new skill
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -466,6 +467,12 @@ export function PositionForm({
               )}
             />
 
+            {form.formState.errors.root?.server && (
+              <p className="text-[0.8rem] font-medium text-destructive">
+                {form.formState.errors.root.server.message}
+              </p>
+            )}
+
             <DialogFooter>
               <Button
                 type="button"
@@ -0,0 +1,86 @@
+"use client";
+
+import { useCallback } from "react";
+import { SpreadsheetImportDialog } from "@/components/shared/spreadsheet-import-dialog";
+import type { ImportPreviewColumn } from "@/components/shared/spreadsheet-import";
+import { useAllDepartments } from "@/hooks/use-departments";
+import { useAllPositions } from "@/hooks/use-positions";
+import { useImportPositions } from "@/hooks/use-hrm-import";
+import {
+  POSITION_IMPORT_FIELDS,
+  buildPositionImportRows,
+  type PositionImportField,
+} from "@/lib/hrm-import";
+import type { ImportMapping } from "@/lib/import";
+import type { SpreadsheetData } from "@/lib/spreadsheet";
+import type { PositionInput } from "@/types/hrm";
+
+interface PositionImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const PREVIEW_COLUMNS: ImportPreviewColumn<PositionInput>[] = [
+  {
+    header: "Code",
+    cell: (row) => (
+      <span className="font-mono text-sm">{row.input.code || "-"}</span>
+    ),
+  },
+  { header: "Name", cell: (row) => row.input.name || "-" },
+  { header: "Level", cell: (row) => row.input.level || "-" },
+  {
+    header: "Salary Band",
+    cell: (row) =>
+      row.input.salary_min != null || row.input.salary_max != null
+        ? `${row.input.salary_currency} ${row.input.salary_min ?? "?"} – ${row.input.salary_max ?? "?"}`
+        : "-",
+  },
+  {
+    header: "Skills",
+    cell: (row) => (
+      <span className="text-xs">
+        {row.input.required_skills?.join(", ") || "-"}
+      </span>
+    ),
+  },
+];
+
+export function PositionImportDialog({
+  open,
+  onOpenChange,
+}: PositionImportDialogProps) {
+  const importMutation = useImportPositions();
+  const departmentsQuery = useAllDepartments(undefined, { enabled: open });
+  const positionsQuery = useAllPositions(undefined, { enabled: open });
+  const departmentsData = departmentsQuery.data;
+  const positionsData = positionsQuery.data;
+  const lookupQueries = [departmentsQuery, positionsQuery];
+
+  const buildRows = useCallback(
+    (data: SpreadsheetData, mapping: ImportMapping<PositionImportField>) =>
+      buildPositionImportRows(data.rows, mapping, {
+        departments: departmentsData || [],
+        existingCodes: (positionsData || []).map((p) => p.code),
+      }),
+    [departmentsData, positionsData]
+  );
+
+  return (
+    <SpreadsheetImportDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title="Import Positions"
+      description="Create positions with salary bands and required skills from a CSV or XLSX file. Departments are resolved by code."
+      entityLabel="positions"
+      fields={POSITION_IMPORT_FIELDS}
+      buildRows={buildRows}
+      previewColumns={PREVIEW_COLUMNS}
+      onImport={importMutation.mutateAsync}
+      isImporting={importMutation.isPending}
+      lookupsReady={lookupQueries.every((query) => query.isSuccess)}
+      lookupsFailed={lookupQueries.some((query) => query.isError)}
+      onRetryLookups={() => lookupQueries.forEach((query) => query.refetch())}
+    />
+  );
+}
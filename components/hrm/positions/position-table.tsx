@@ -7,7 +7,7 @@ import {
   useReactTable,
 } from "@tanstack/react-table";
 import { Button } from "@/components/ui/button";
-import { Plus, RefreshCw, Briefcase } from "lucide-react";
+import { Plus, RefreshCw, Upload, Briefcase } from "lucide-react";
 import {
   Select,
   SelectContent,
@@ -17,12 +17,14 @@ import {
 } from "@/components/ui/select";
 import { usePositions } from "@/hooks/use-positions";
 import { Position, PositionFilters, POSITION_LEVEL_OPTIONS } from "@/types/hrm";
+import { Can } from "@/components/can";
 import { usePermissions } from "@/hooks/use-permissions";
-import { HRM_PERMISSIONS } from "@/lib/permissions/hrm";
 import { TableSkeleton } from "@/components/ui/skeleton-loaders";
 import { ErrorState, EmptyState } from "@/components/error-boundary";
 import { useDataTable } from "@/lib/hooks/use-data-table";
 import { DataTableShell } from "@/components/shared/data-table-shell";
+import { DataTableSavedViews } from "@/components/shared/data-table-saved-views";
+import { DataTableViewOptions } from "@/components/ui/data-table-view-options";
 import { createPositionColumns } from "./position-columns";
 
 interface PositionTableProps {
@@ -31,6 +33,7 @@ interface PositionTableProps {
   onDelete: (position: Position) => void;
   onRestore?: (position: Position) => void;
   onCreate: () => void;
+  onImport?: () => void;
 }
 
 export function PositionTable({
@@ -39,6 +42,7 @@ export function PositionTable({
   onDelete,
   onRestore,
   onCreate,
+  onImport,
 }: PositionTableProps) {
   const {
     filters,
@@ -47,8 +51,15 @@ export function PositionTable({
     sorting,
     handleSortingChange,
     handlePageChange,
+    columnVisibility,
+    setColumnVisibility,
+    applyView,
+    getViewState,
+    activeViewId,
     updateFilter,
   } = useDataTable<PositionFilters>({
+    tableId: "positions",
+    filterKeys: ["level"],
     initialFilters: {
       page: 1,
       per_page: 10,
@@ -58,7 +69,7 @@ export function PositionTable({
   });
 
   const { data, isLoading, isError, error, refetch } = usePositions(filters);
-  const { hasPermission } = usePermissions();
+  const { can } = usePermissions();
 
   const columns = useMemo(
     () =>
@@ -67,14 +78,9 @@ export function PositionTable({
         onEdit,
         onDelete,
         onRestore,
-        hasPermission,
-        permissions: {
-          update: HRM_PERMISSIONS.POSITIONS_UPDATE,
-          delete: HRM_PERMISSIONS.POSITIONS_DELETE,
-          restore: HRM_PERMISSIONS.POSITIONS_RESTORE,
-        },
+        can,
       }),
-    [onView, onEdit, onDelete, onRestore, hasPermission]
+    [onView, onEdit, onDelete, onRestore, can]
   );
 
   // eslint-disable-next-line react-hooks/incompatible-library
@@ -84,8 +90,10 @@ export function PositionTable({
     getCoreRowModel: getCoreRowModel(),
     getSortedRowModel: getSortedRowModel(),
     onSortingChange: handleSortingChange,
+    onColumnVisibilityChange: setColumnVisibility,
     state: {
       sorting,
+      columnVisibility,
     },
     manualPagination: true,
   });
@@ -148,14 +156,29 @@ export function PositionTable({
       }
       actions={
         <>
+          <DataTableSavedViews
+            tableId="positions"
+            getViewState={getViewState}
+            onApplyView={applyView}
+            activeViewId={activeViewId}
+          />
+          <DataTableViewOptions table={table} />
           <Button variant="outline" size="sm" onClick={() => refetch()}>
             <RefreshCw className="h-4 w-4 mr-2" />
             Refresh
           </Button>
-          <Button size="sm" onClick={onCreate}>
-            <Plus className="h-4 w-4 mr-2" />
-            New Position
-          </Button>
+          {onImport && (
+            <Button variant="outline" size="sm" onClick={onImport}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+          )}
+          <Can action="create" subject="position">
+            <Button size="sm" onClick={onCreate}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Position
+            </Button>
+          </Can>
         </>
       }
     />
@@ -1,19 +1,116 @@
 "use client";
 
+import { useMemo, useState } from "react";
+import Link from "next/link";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Position } from "@/types/hrm";
-import { GraduationCap, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ErrorState } from "@/components/error-boundary";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Position, SKILL_PROFICIENCY_OPTIONS, SkillProficiency } from "@/types/hrm";
+import { usePositionUsers } from "@/hooks/use-positions";
+import { useUsersSkills } from "@/hooks/use-skills";
+import { buildSkillGapReport } from "@/lib/skill-gap";
+import { downloadFile, toCsv } from "@/lib/export";
+import { GraduationCap, AlertCircle, Download, Target } from "lucide-react";
 
 interface PositionSkillsTabProps {
   position: Position;
 }
 
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+function CoverageBar({ value }: { value: number }) {
+  return (
+    <div className="flex items-center gap-2">
+      <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+        <div
+          className={
+            value >= 0.8
+              ? "h-full bg-emerald-600"
+              : value >= 0.5
+              ? "h-full bg-amber-500"
+              : "h-full bg-destructive"
+          }
+          style={{ width: `${Math.round(value * 100)}%` }}
+        />
+      </div>
+      <span className="w-10 text-right text-xs tabular-nums text-muted-foreground">
+        {formatPercent(value)}
+      </span>
+    </div>
+  );
+}
+
 export function PositionSkillsTab({ position }: PositionSkillsTabProps) {
-  const skills = position.required_skills || [];
+  const skills = useMemo(
+    () => position.required_skills || [],
+    [position.required_skills]
+  );
+  const [minProficiency, setMinProficiency] =
+    useState<SkillProficiency>("beginner");
+
+  const {
+    data: usersData,
+    isLoading: isLoadingUsers,
+    isError: isUsersError,
+    refetch: refetchUsers,
+  } = usePositionUsers(
+    position.id,
+    1,
+    50
+  );
+  const users = useMemo(() => usersData?.data || [], [usersData]);
+  const {
+    skillsByUser,
+    isLoading: isLoadingSkills,
+    isError: isSkillsError,
+    refetchFailed: refetchSkills,
+  } = useUsersSkills(users);
+
+  const report = useMemo(
+    () => buildSkillGapReport(skills, users, skillsByUser, minProficiency),
+    [skills, users, skillsByUser, minProficiency]
+  );
+
+  const handleExport = () => {
+    const rows = report.users.flatMap(({ user, missing }) =>
+      missing.map((skill) => ({ user, skill }))
+    );
+    downloadFile(
+      toCsv(rows, [
+        { header: "User", value: (row) => row.user.name },
+        { header: "Email", value: (row) => row.user.email },
+        { header: "Missing Skill", value: (row) => row.skill },
+        { header: "Minimum Proficiency", value: () => minProficiency },
+      ]),
+      `skill-gap-${position.code}-${new Date().toISOString().split("T")[0]}.csv`,
+      "text/csv;charset=utf-8"
+    );
+  };
+
+  const isLoading = isLoadingUsers || isLoadingSkills;
+  // A user whose skills failed to load would count as missing every skill,
+  // so the report waits until every request has succeeded
+  const isError = isUsersError || isSkillsError;
 
   return (
-    <div className="px-6 pb-6">
+    <div className="px-6 pb-6 space-y-6">
       <Card>
         <CardHeader>
           <CardTitle className="text-lg flex items-center gap-2">
@@ -42,6 +139,183 @@ export function PositionSkillsTab({ position }: PositionSkillsTabProps) {
           )}
         </CardContent>
       </Card>
+
+      {skills.length > 0 && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Target className="h-5 w-5" />
+              Skill Gap
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              <Select
+                value={minProficiency}
+                onValueChange={(value) =>
+                  setMinProficiency(value as SkillProficiency)
+                }
+              >
+                <SelectTrigger className="w-[170px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SKILL_PROFICIENCY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      At least {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExport}
+                disabled={isLoading || isError || report.gaps === 0}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Export Gaps
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {isLoading ? (
+              <div className="space-y-2">
+                {[1, 2, 3].map((i) => (
+                  <Skeleton key={i} className="h-10 w-full" />
+                ))}
+              </div>
+            ) : isError ? (
+              <ErrorState
+                title="Failed to load skills"
+                description="Some holders of this position could not be loaded, so the skill gap cannot be calculated."
+                onRetry={() => (isUsersError ? refetchUsers() : refetchSkills())}
+              />
+            ) : users.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Nobody holds this position yet.
+              </div>
+            ) : (
+              <>
+                <div className="grid gap-4 sm:grid-cols-3">
+                  <div className="rounded-md border p-4">
+                    <p className="text-sm text-muted-foreground">Coverage</p>
+                    <p className="text-2xl font-bold tabular-nums">
+                      {formatPercent(report.coverage)}
+                    </p>
+                  </div>
+                  <div className="rounded-md border p-4">
+                    <p className="text-sm text-muted-foreground">
+                      Training Needs
+                    </p>
+                    <p className="text-2xl font-bold tabular-nums">
+                      {report.gaps}
+                    </p>
+                  </div>
+                  <div className="rounded-md border p-4">
+                    <p className="text-sm text-muted-foreground">
+                      Fully Qualified
+                    </p>
+                    <p className="text-2xl font-bold tabular-nums">
+                      {report.users.filter((entry) => !entry.missing.length).length}{" "}
+                      <span className="text-sm font-normal text-muted-foreground">
+                        of {users.length}
+                      </span>
+                    </p>
+                  </div>
+                </div>
+
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Skill</TableHead>
+                        <TableHead className="w-[220px]">Coverage</TableHead>
+                        <TableHead className="text-right">Holders</TableHead>
+                        <TableHead className="text-right">Below Level</TableHead>
+                        <TableHead className="text-right">Missing</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.skills.map((entry) => (
+                        <TableRow key={entry.skill}>
+                          <TableCell className="font-medium">
+                            {entry.skill}
+                          </TableCell>
+                          <TableCell>
+                            <CoverageBar value={entry.coverage} />
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {entry.holders.length}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {entry.belowMinimum.length}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {entry.missing.length}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>User</TableHead>
+                        <TableHead className="w-[220px]">Coverage</TableHead>
+                        <TableHead>Skills to Develop</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.users.map(({ user, missing, coverage }) => (
+                        <TableRow key={user.id}>
+                          <TableCell>
+                            <Link
+                              href={`/dashboard/users/${user.id}`}
+                              className="font-medium hover:underline"
+                            >
+                              {user.name}
+                            </Link>
+                            <div className="text-xs text-muted-foreground">
+                              {user.email}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <CoverageBar value={coverage} />
+                          </TableCell>
+                          <TableCell>
+                            {missing.length === 0 ? (
+                              <span className="text-sm text-muted-foreground">
+                                Fully qualified
+                              </span>
+                            ) : (
+                              <div className="flex flex-wrap gap-1">
+                                {missing.map((skill) => (
+                                  <Badge key={skill} variant="outline">
+                                    {skill}
+                                  </Badge>
+                                ))}
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {usersData && usersData.total > users.length && (
+                  <p className="text-xs text-muted-foreground">
+                    Based on the first {users.length} of {usersData.total}{" "}
+                    holders.
+                  </p>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -0,0 +1,216 @@
+"use client";
+
+import * as React from "react";
+import { Loader2, Plus, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { useCreateSkill, useSkills } from "@/hooks/use-skills";
+import { normalizeSkillName } from "@/lib/skill-gap";
+import { cn } from "@/lib/utils";
+import type { Skill } from "@/types/hrm";
+
+interface SkillComboboxProps {
+  onSelect: (skill: Skill) => void;
+  /** Skill names to hide from the suggestions */
+  exclude?: string[];
+  /** Offer "Add to catalog" when nothing matches */
+  allowCreate?: boolean;
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Autocomplete over the skill catalog
+ */
+export function SkillCombobox({
+  onSelect,
+  exclude = [],
+  allowCreate = false,
+  placeholder = "Search skills...",
+  disabled = false,
+  className,
+}: SkillComboboxProps) {
+  const [query, setQuery] = React.useState("");
+  const [open, setOpen] = React.useState(false);
+  const [activeIndex, setActiveIndex] = React.useState(0);
+  const search = useDebouncedValue(query.trim(), 250);
+
+  const { data, isFetching } = useSkills(
+    { search: search || undefined, per_page: 10 },
+    open
+  );
+  const createMutation = useCreateSkill();
+
+  const excluded = new Set(exclude.map(normalizeSkillName));
+  const suggestions = (data?.data || []).filter(
+    (skill) => !excluded.has(normalizeSkillName(skill.name))
+  );
+  const exactMatch = (data?.data || []).some(
+    (skill) => normalizeSkillName(skill.name) === normalizeSkillName(query)
+  );
+  const canCreate = allowCreate && !!query.trim() && !exactMatch;
+  const optionCount = suggestions.length + (canCreate ? 1 : 0);
+  const active = Math.min(activeIndex, Math.max(optionCount - 1, 0));
+
+  const select = (skill: Skill) => {
+    onSelect(skill);
+    setQuery("");
+    setActiveIndex(0);
+  };
+
+  const create = async () => {
+    try {
+      const skill = await createMutation.mutateAsync({
+        name: query.trim().replace(/\s+/g, " "),
+      });
+      select(skill);
+    } catch (error) {
+      console.error("Failed to add skill:", error);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Escape") {
+      setOpen(false);
+      return;
+    }
+    if (optionCount === 0) return;
+
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setOpen(true);
+      setActiveIndex((active + 1) % optionCount);
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setActiveIndex((active - 1 + optionCount) % optionCount);
+    } else if (event.key === "Enter") {
+      // Never submit the surrounding form from the autocomplete
+      event.preventDefault();
+      if (active < suggestions.length) select(suggestions[active]);
+      else if (canCreate) create();
+    }
+  };
+
+  return (
+    <div className={cn("relative", className)}>
+      <Input
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActiveIndex(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        disabled={disabled || createMutation.isPending}
+        role="combobox"
+        aria-expanded={open}
+        aria-autocomplete="list"
+      />
+      {(isFetching || createMutation.isPending) && (
+        <Loader2 className="absolute right-3 top-2.5 h-4 w-4 animate-spin text-muted-foreground" />
+      )}
+
+      {open && (query.trim() || suggestions.length > 0) && (
+        <div
+          role="listbox"
+          className="absolute z-50 mt-1 max-h-60 w-full overflow-y-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+          // Keep focus in the input while clicking an option
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {suggestions.map((skill, index) => (
+            <div
+              key={skill.id}
+              role="option"
+              aria-selected={index === active}
+              onMouseMove={() => setActiveIndex(index)}
+              onClick={() => select(skill)}
+              className={cn(
+                "flex cursor-pointer items-center justify-between rounded-sm px-2 py-1.5 text-sm",
+                index === active && "bg-accent text-accent-foreground"
+              )}
+            >
+              <span>{skill.name}</span>
+              {skill.category && (
+                <span className="text-xs text-muted-foreground">
+                  {skill.category}
+                </span>
+              )}
+            </div>
+          ))}
+          {canCreate && (
+            <div
+              role="option"
+              aria-selected={active === suggestions.length}
+              onMouseMove={() => setActiveIndex(suggestions.length)}
+              onClick={create}
+              className={cn(
+                "flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm",
+                active === suggestions.length && "bg-accent text-accent-foreground"
+              )}
+            >
+              <Plus className="h-4 w-4" />
+              Add &quot;{query.trim()}&quot; to catalog
+            </div>
+          )}
+          {optionCount === 0 && !isFetching && (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground">
+              No matching skills.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface SkillTagsInputProps {
+  value: string[];
+  onChange: (value: string[]) => void;
+  allowCreate?: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * Multi-skill input backed by the catalog; stores catalog names
+ */
+export function SkillTagsInput({
+  value,
+  onChange,
+  allowCreate,
+  disabled,
+}: SkillTagsInputProps) {
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {value.map((skill) => (
+            <Badge key={skill} variant="secondary" className="gap-1 pr-1">
+              {skill}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((item) => item !== skill))}
+                disabled={disabled}
+                className="rounded-sm opacity-70 hover:opacity-100"
+                aria-label={`Remove ${skill}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <SkillCombobox
+        onSelect={(skill) => onChange([...value, skill.name])}
+        exclude={value}
+        allowCreate={allowCreate}
+        placeholder="Add required skill..."
+        disabled={disabled}
+      />
+    </div>
+  );
+}
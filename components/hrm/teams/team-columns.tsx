@@ -12,6 +12,8 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { isTeamOverdue } from "@/lib/team-lifecycle";
+import type { CanFunction } from "@/lib/permissions/abilities";
 
 interface TeamColumnsProps {
   onView?: (team: Team) => void;
@@ -19,12 +21,8 @@ interface TeamColumnsProps {
   onDelete: (team: Team) => void;
   onRestore?: (team: Team) => void;
   onManageMembers?: (team: Team) => void;
-  hasPermission: (permission: string) => boolean;
-  permissions: {
-    update: string;
-    delete: string;
-    restore: string;
-  };
+  /** Bound ability check from `usePermissions()`; evaluated per row */
+  can: CanFunction;
 }
 
 export const createTeamColumns = ({
@@ -33,8 +31,7 @@ export const createTeamColumns = ({
   onDelete,
   onRestore,
   onManageMembers,
-  hasPermission,
-  permissions,
+  can,
 }: TeamColumnsProps): ColumnDef<Team>[] => [
   {
     accessorKey: "code",
@@ -114,9 +111,14 @@ export const createTeamColumns = ({
         archived: "outline",
       };
       return (
-        <Badge variant={variants[status] || "outline"}>
-          {status.charAt(0).toUpperCase() + status.slice(1)}
-        </Badge>
+        <div className="flex items-center gap-1">
+          <Badge variant={variants[status] || "outline"}>
+            {status.charAt(0).toUpperCase() + status.slice(1)}
+          </Badge>
+          {isTeamOverdue(row.original) && (
+            <Badge variant="destructive">Overdue</Badge>
+          )}
+        </div>
       );
     },
   },
@@ -138,25 +140,25 @@ export const createTeamColumns = ({
           <DropdownMenuContent align="end">
             {!isDeleted ? (
               <>
-                {onView && (
+                {onView && can("view", "team", team) && (
                   <DropdownMenuItem onClick={() => onView(team)}>
                     <Users className="h-4 w-4 mr-2" />
                     View Details
                   </DropdownMenuItem>
                 )}
-                {onManageMembers && (
+                {onManageMembers && can("manage-members", "team", team) && (
                   <DropdownMenuItem onClick={() => onManageMembers(team)}>
                     <Users className="h-4 w-4 mr-2" />
                     Manage Members
                   </DropdownMenuItem>
                 )}
-                {hasPermission(permissions.update) && (
+                {can("update", "team", team) && (
                   <DropdownMenuItem onClick={() => onEdit(team)}>
                     <Edit className="h-4 w-4 mr-2" />
                     Edit
                   </DropdownMenuItem>
                 )}
-                {hasPermission(permissions.delete) && (
+                {can("delete", "team", team) && (
                   <>
                     <DropdownMenuSeparator />
                     <DropdownMenuItem
@@ -171,7 +173,7 @@ export const createTeamColumns = ({
               </>
             ) : (
               <>
-                {onRestore && hasPermission(permissions.restore) && (
+                {onRestore && can("restore", "team", team) && (
                   <DropdownMenuItem onClick={() => onRestore(team)}>
                     <RotateCcw className="h-4 w-4 mr-2" />
                     Restore
@@ -28,6 +28,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Popover,
   PopoverContent,
@@ -38,6 +39,12 @@ import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Loader2, Calendar as CalendarIcon } from "lucide-react";
 import { teamSchema } from "@/lib/validations/hrm";
+import { setServerErrors } from "@/lib/form-errors";
+import {
+  canTransitionTo,
+  requiresTransitionReason,
+  validateStatusTransition,
+} from "@/lib/team-lifecycle";
 import { useDepartments } from "@/hooks/use-departments";
 import { departmentApi } from "@/lib/api/departments";
 import { getAllUsersForAssignment } from "@/lib/api/hrm-assignments";
@@ -125,9 +132,14 @@ export function TeamForm({
       status: "active",
       start_date: undefined,
       end_date: undefined,
+      status_reason: undefined,
     },
   });
 
+  const watchedStatus = form.watch("status");
+  const needsReason =
+    !!team && requiresTransitionReason(team.status, watchedStatus);
+
   useEffect(() => {
     if (open) {
       if (team) {
@@ -149,6 +161,7 @@ export function TeamForm({
               : (team.status as z.infer<typeof teamSchema>["status"]),
           start_date: team.start_date || undefined,
           end_date: team.end_date || undefined,
+          status_reason: undefined,
         });
 
         // Sync Date Range state
@@ -172,6 +185,7 @@ export function TeamForm({
           status: "active",
           start_date: undefined,
           end_date: undefined,
+          status_reason: undefined,
         });
         setDateRange(undefined);
       }
@@ -179,6 +193,20 @@ export function TeamForm({
   }, [team, open, form]);
 
   const handleSubmit = async (data: z.infer<typeof teamSchema>) => {
+    if (team) {
+      const transitionError = validateStatusTransition(
+        team.status,
+        data.status,
+        data.status_reason
+      );
+      if (transitionError) {
+        form.setError(needsReason ? "status_reason" : "status", {
+          message: transitionError,
+        });
+        return;
+      }
+    }
+
     try {
       // Filter out null values and ensure proper types for TeamInput
       const submitData: TeamInput = {
@@ -193,6 +221,7 @@ export function TeamForm({
             : data.end_date || undefined,
         description: data.description || undefined,
         status: data.status || "active",
+        status_reason: needsReason ? data.status_reason : undefined,
         team_type: data.team_type,
         department_id:
           data.department_id && String(data.department_id) === "none"
@@ -203,7 +232,10 @@ export function TeamForm({
       form.reset();
       onOpenChange(false);
     } catch (error) {
-      console.error("Form submission error:", error);
+      // Laravel validation messages go on their fields; the page toasts the rest
+      if (setServerErrors(form, error).length === 0) {
+        console.error("Form submission error:", error);
+      }
     }
   };
 
@@ -514,7 +546,13 @@ export function TeamForm({
                       </FormControl>
                       <SelectContent>
                         {TEAM_STATUS_OPTIONS.map((status) => (
-                          <SelectItem key={status.value} value={status.value}>
+                          <SelectItem
+                            key={status.value}
+                            value={status.value}
+                            disabled={
+                              !!team && !canTransitionTo(team.status, status.value)
+                            }
+                          >
                             {status.label}
                           </SelectItem>
                         ))}
@@ -526,6 +564,36 @@ export function TeamForm({
                 )}
               />
 
+              {needsReason && (
+                <FormField<z.infer<typeof teamSchema>, "status_reason">
+                  control={form.control}
+                  name="status_reason"
+                  render={({
+                    field,
+                  }: {
+                    field: ControllerRenderProps<
+                      z.infer<typeof teamSchema>,
+                      "status_reason"
+                    >;
+                  }) => (
+                    <FormItem>
+                      <FormLabel>Reason for Reopening *</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder="Why is this completed team being reopened?"
+                          {...field}
+                          value={field.value || ""}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Recorded in the team&apos;s activity log
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
               <div className="space-y-2">
                 <FormLabel>Duration</FormLabel>
                 <Popover>
@@ -608,6 +676,12 @@ export function TeamForm({
               </div>
             </div>
 
+            {form.formState.errors.root?.server && (
+              <p className="text-[0.8rem] font-medium text-destructive">
+                {form.formState.errors.root.server.message}
+              </p>
+            )}
+
             <DialogFooter>
               <Button
                 type="button"
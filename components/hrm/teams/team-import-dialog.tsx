@@ -0,0 +1,70 @@
+"use client";
+
+import { useCallback } from "react";
+import { SpreadsheetImportDialog } from "@/components/shared/spreadsheet-import-dialog";
+import type { ImportPreviewColumn } from "@/components/shared/spreadsheet-import";
+import { useAllDepartments } from "@/hooks/use-departments";
+import { useAllTeams } from "@/hooks/use-teams";
+import { useImportTeams } from "@/hooks/use-hrm-import";
+import {
+  TEAM_IMPORT_FIELDS,
+  buildTeamImportRows,
+  type TeamImportField,
+} from "@/lib/hrm-import";
+import type { ImportMapping } from "@/lib/import";
+import type { SpreadsheetData } from "@/lib/spreadsheet";
+import type { TeamInput } from "@/types/hrm";
+
+interface TeamImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const PREVIEW_COLUMNS: ImportPreviewColumn<TeamInput>[] = [
+  {
+    header: "Code",
+    cell: (row) => (
+      <span className="font-mono text-sm">{row.input.code || "-"}</span>
+    ),
+  },
+  { header: "Name", cell: (row) => row.input.name || "-" },
+  { header: "Type", cell: (row) => row.input.team_type || "-" },
+  { header: "Status", cell: (row) => row.input.status || "-" },
+  { header: "Max Members", cell: (row) => row.input.max_members ?? "-" },
+];
+
+export function TeamImportDialog({ open, onOpenChange }: TeamImportDialogProps) {
+  const importMutation = useImportTeams();
+  const departmentsQuery = useAllDepartments(undefined, { enabled: open });
+  const teamsQuery = useAllTeams(undefined, { enabled: open });
+  const departmentsData = departmentsQuery.data;
+  const teamsData = teamsQuery.data;
+  const lookupQueries = [departmentsQuery, teamsQuery];
+
+  const buildRows = useCallback(
+    (data: SpreadsheetData, mapping: ImportMapping<TeamImportField>) =>
+      buildTeamImportRows(data.rows, mapping, {
+        departments: departmentsData || [],
+        existingCodes: (teamsData || []).map((t) => t.code),
+      }),
+    [departmentsData, teamsData]
+  );
+
+  return (
+    <SpreadsheetImportDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title="Import Teams"
+      description="Create teams in bulk from a CSV or XLSX file. Departments are resolved by code."
+      entityLabel="teams"
+      fields={TEAM_IMPORT_FIELDS}
+      buildRows={buildRows}
+      previewColumns={PREVIEW_COLUMNS}
+      onImport={importMutation.mutateAsync}
+      isImporting={importMutation.isPending}
+      lookupsReady={lookupQueries.every((query) => query.isSuccess)}
+      lookupsFailed={lookupQueries.some((query) => query.isError)}
+      onRetryLookups={() => lookupQueries.forEach((query) => query.refetch())}
+    />
+  );
+}
@@ -7,7 +7,7 @@ import {
   useReactTable,
 } from "@tanstack/react-table";
 import { Button } from "@/components/ui/button";
-import { Plus, RefreshCw } from "lucide-react";
+import { Plus, RefreshCw, Upload } from "lucide-react";
 import {
   Select,
   SelectContent,
@@ -22,12 +22,14 @@ import {
   TEAM_TYPE_OPTIONS,
   TEAM_STATUS_OPTIONS,
 } from "@/types/hrm";
+import { Can } from "@/components/can";
 import { usePermissions } from "@/hooks/use-permissions";
-import { HRM_PERMISSIONS } from "@/lib/permissions/hrm";
 import { TableSkeleton } from "@/components/ui/skeleton-loaders";
 import { ErrorState, EmptyState } from "@/components/error-boundary";
 import { useDataTable } from "@/lib/hooks/use-data-table";
 import { DataTableShell } from "@/components/shared/data-table-shell";
+import { DataTableSavedViews } from "@/components/shared/data-table-saved-views";
+import { DataTableViewOptions } from "@/components/ui/data-table-view-options";
 import { createTeamColumns } from "./team-columns";
 
 interface TeamTableProps {
@@ -37,6 +39,7 @@ interface TeamTableProps {
   onRestore?: (team: Team) => void;
   onManageMembers?: (team: Team) => void;
   onCreate: () => void;
+  onImport?: () => void;
 }
 
 /**
@@ -50,6 +53,7 @@ export function TeamTable({
   onRestore,
   onManageMembers,
   onCreate,
+  onImport,
 }: TeamTableProps) {
   // 1. Use the generic data table hook
   const {
@@ -59,8 +63,15 @@ export function TeamTable({
     sorting,
     handleSortingChange,
     handlePageChange,
+    columnVisibility,
+    setColumnVisibility,
+    applyView,
+    getViewState,
+    activeViewId,
     updateFilter,
   } = useDataTable<TeamFilters>({
+    tableId: "teams",
+    filterKeys: ["team_type", "status"],
     initialFilters: {
       page: 1,
       per_page: 10,
@@ -71,7 +82,7 @@ export function TeamTable({
 
   // 2. Data fetching
   const { data, isLoading, isError, error, refetch } = useTeams(filters);
-  const { hasPermission } = usePermissions();
+  const { can } = usePermissions();
 
   // 3. Define columns (memoized)
   const columns = useMemo(
@@ -82,14 +93,9 @@ export function TeamTable({
         onDelete,
         onRestore,
         onManageMembers,
-        hasPermission,
-        permissions: {
-          update: HRM_PERMISSIONS.TEAMS_UPDATE,
-          delete: HRM_PERMISSIONS.TEAMS_DELETE,
-          restore: HRM_PERMISSIONS.TEAMS_RESTORE,
-        },
+        can,
       }),
-    [onView, onEdit, onDelete, onRestore, onManageMembers, hasPermission]
+    [onView, onEdit, onDelete, onRestore, onManageMembers, can]
   );
 
   // 4. Setup TanStack Table
@@ -100,8 +106,10 @@ export function TeamTable({
     getCoreRowModel: getCoreRowModel(),
     getSortedRowModel: getSortedRowModel(),
     onSortingChange: handleSortingChange,
+    onColumnVisibilityChange: setColumnVisibility,
     state: {
       sorting,
+      columnVisibility,
     },
     manualPagination: true,
   });
@@ -187,14 +195,29 @@ export function TeamTable({
       }
       actions={
         <>
+          <DataTableSavedViews
+            tableId="teams"
+            getViewState={getViewState}
+            onApplyView={applyView}
+            activeViewId={activeViewId}
+          />
+          <DataTableViewOptions table={table} />
           <Button variant="outline" size="sm" onClick={() => refetch()}>
             <RefreshCw className="h-4 w-4 mr-2" />
             Refresh
           </Button>
-          <Button size="sm" onClick={onCreate}>
-            <Plus className="h-4 w-4 mr-2" />
-            New Team
-          </Button>
+          {onImport && (
+            <Button variant="outline" size="sm" onClick={onImport}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+          )}
+          <Can action="create" subject="team">
+            <Button size="sm" onClick={onCreate}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Team
+            </Button>
+          </Can>
         </>
       }
     />
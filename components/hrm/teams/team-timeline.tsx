@@ -0,0 +1,341 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { format, parseISO } from "date-fns";
+import { AlertTriangle, CheckCircle2, GanttChart, RefreshCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ErrorState, EmptyState } from "@/components/error-boundary";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useCompleteTeam, useTeams } from "@/hooks/use-teams";
+import { HRM_PERMISSIONS } from "@/lib/permissions/hrm";
+import {
+  getTimelineBar,
+  getTimelineOffset,
+  getTimelineRange,
+  isTeamOverdue,
+} from "@/lib/team-lifecycle";
+import { cn } from "@/lib/utils";
+import { TEAM_STATUS_OPTIONS, type Team, type TeamStatus } from "@/types/hrm";
+
+const TIMELINE_FILTERS = {
+  team_type: "project" as const,
+  page: 1,
+  per_page: 100,
+  sort_by: "name" as const,
+  sort_order: "asc" as const,
+};
+
+const STATUS_BAR_CLASSES: Record<TeamStatus, string> = {
+  active: "bg-primary",
+  on_hold: "bg-amber-500",
+  inactive: "bg-muted-foreground/40",
+  completed: "bg-emerald-600",
+};
+
+const STATUS_LABELS = Object.fromEntries(
+  TEAM_STATUS_OPTIONS.map((option) => [option.value, option.label])
+) as Record<TeamStatus, string>;
+
+const formatDate = (date?: string | null) =>
+  date ? format(parseISO(date), "MMM d, yyyy") : "Open";
+
+/**
+ * TeamTimeline Component
+ *
+ * Gantt-style view of project teams grouped by department. Active teams
+ * past their end_date are flagged and can be completed in one click.
+ */
+export function TeamTimeline() {
+  const [statusFilter, setStatusFilter] = useState<TeamStatus | "all">("all");
+  const [completeTarget, setCompleteTarget] = useState<Team | null>(null);
+
+  const { hasPermission } = usePermissions();
+  const canComplete = hasPermission(HRM_PERMISSIONS.TEAMS_UPDATE);
+
+  const { data, isLoading, isFetching, error, refetch } =
+    useTeams(TIMELINE_FILTERS);
+  const completeMutation = useCompleteTeam();
+
+  const teams = useMemo(
+    () =>
+      (data?.data || []).filter(
+        (team) => statusFilter === "all" || team.status === statusFilter
+      ),
+    [data, statusFilter]
+  );
+
+  const groups = useMemo(() => {
+    const byDepartment = new Map<string, Team[]>();
+    teams.forEach((team) => {
+      const name = team.department?.name || "No Department";
+      byDepartment.set(name, [...(byDepartment.get(name) || []), team]);
+    });
+    return [...byDepartment.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }, [teams]);
+
+  const range = useMemo(() => getTimelineRange(teams), [teams]);
+  const overdueTeams = (data?.data || []).filter((team) => isTeamOverdue(team));
+  const todayOffset = getTimelineOffset(new Date(), range);
+
+  const handleCompleteConfirm = async () => {
+    if (!completeTarget) return;
+    try {
+      await completeMutation.mutateAsync({ id: completeTarget.id });
+      setCompleteTarget(null);
+    } catch (error) {
+      console.error("Failed to complete team:", error);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {Array.from({ length: 6 }).map((_, index) => (
+          <Skeleton key={index} className="h-10 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error) return <ErrorState error={error} onRetry={() => refetch()} />;
+
+  if (!data?.data.length) {
+    return (
+      <EmptyState
+        title="No project teams"
+        description="Project teams with start and end dates appear on the timeline"
+        icon={<GanttChart className="h-12 w-12" />}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Select
+          value={statusFilter}
+          onValueChange={(value) => setStatusFilter(value as TeamStatus | "all")}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="All Statuses" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Statuses</SelectItem>
+            {TEAM_STATUS_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => refetch()}
+          disabled={isFetching}
+        >
+          <RefreshCw
+            className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`}
+          />
+          Refresh
+        </Button>
+      </div>
+
+      {overdueTeams.length > 0 && (
+        <div className="flex items-start gap-3 rounded-md border border-destructive/50 bg-destructive/5 p-4 text-sm">
+          <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+          <div>
+            <p className="font-medium">
+              {overdueTeams.length === 1
+                ? "1 team is past its end date but still active"
+                : `${overdueTeams.length} teams are past their end date but still active`}
+            </p>
+            <p className="text-muted-foreground">
+              {overdueTeams.map((team) => team.name).join(", ")}
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-md border">
+        <div className="min-w-[900px]">
+          {/* Month header */}
+          <div className="flex border-b bg-muted/50 text-xs text-muted-foreground">
+            <div className="w-64 shrink-0 px-3 py-2 font-medium">Team</div>
+            <div className="relative flex flex-1">
+              {range.months.map((month) => (
+                <div
+                  key={month.toISOString()}
+                  className="flex-1 border-l px-1 py-2 text-center"
+                >
+                  {format(month, "MMM yy")}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {teams.length === 0 ? (
+            <p className="py-10 text-center text-sm text-muted-foreground">
+              No teams with this status.
+            </p>
+          ) : (
+            groups.map(([department, departmentTeams]) => (
+              <div key={department}>
+                <div className="border-b bg-muted/20 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                  {department}
+                </div>
+                {departmentTeams.map((team) => {
+                  const bar = getTimelineBar(team, range);
+                  const overdue = isTeamOverdue(team);
+
+                  return (
+                    <div key={team.id} className="flex border-b last:border-b-0">
+                      <div className="flex w-64 shrink-0 items-center justify-between gap-2 px-3 py-2">
+                        <div className="min-w-0">
+                          <Link
+                            href={`/dashboard/hrm/teams/${team.id}`}
+                            className="block truncate text-sm font-medium hover:underline"
+                          >
+                            {team.name}
+                          </Link>
+                          <span className="text-xs text-muted-foreground">
+                            {STATUS_LABELS[team.status] || team.status}
+                          </span>
+                        </div>
+                        {overdue && canComplete && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-7 shrink-0 px-2 text-xs"
+                            onClick={() => setCompleteTarget(team)}
+                          >
+                            <CheckCircle2 className="h-3 w-3 mr-1" />
+                            Complete
+                          </Button>
+                        )}
+                      </div>
+                      <div className="relative flex-1">
+                        {/* Month grid */}
+                        <div className="absolute inset-0 flex">
+                          {range.months.map((month) => (
+                            <div
+                              key={month.toISOString()}
+                              className="flex-1 border-l"
+                            />
+                          ))}
+                        </div>
+                        <div
+                          className="absolute inset-y-0 w-px bg-destructive/60"
+                          style={{ left: `${todayOffset}%` }}
+                        />
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <div
+                              className={cn(
+                                "absolute top-1/2 h-5 -translate-y-1/2 rounded-sm",
+                                overdue
+                                  ? "bg-destructive"
+                                  : STATUS_BAR_CLASSES[team.status] || "bg-muted",
+                                bar.openStart && "rounded-l-none",
+                                bar.openEnd && "rounded-r-none opacity-70"
+                              )}
+                              style={{
+                                left: `${bar.offset}%`,
+                                width: `${bar.width}%`,
+                              }}
+                            />
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <p className="font-medium">{team.name}</p>
+                            <p>
+                              {formatDate(team.start_date)} –{" "}
+                              {formatDate(team.end_date)}
+                            </p>
+                            {overdue && <p>Past end date, still active</p>}
+                          </TooltipContent>
+                        </Tooltip>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+        {TEAM_STATUS_OPTIONS.map((option) => (
+          <span key={option.value} className="flex items-center gap-1.5">
+            <span
+              className={cn("h-2.5 w-2.5 rounded-sm", STATUS_BAR_CLASSES[option.value])}
+            />
+            {option.label}
+          </span>
+        ))}
+        <span className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-sm bg-destructive" />
+          Overdue
+        </span>
+        <Badge variant="outline" className="font-normal">
+          Faded bars have no end date
+        </Badge>
+      </div>
+
+      <AlertDialog
+        open={!!completeTarget}
+        onOpenChange={(open) => !open && setCompleteTarget(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Complete Team</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{completeTarget?.name}&quot; will be marked as completed and
+              every active member will be released from the team. Reopening it
+              later requires a reason.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={completeMutation.isPending}>
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleCompleteConfirm();
+              }}
+              disabled={completeMutation.isPending}
+            >
+              {completeMutation.isPending ? "Completing..." : "Complete Team"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
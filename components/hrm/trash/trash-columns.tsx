@@ -0,0 +1,143 @@
+"use client";
+
+import { ColumnDef } from "@tanstack/react-table";
+import { format, formatDistanceToNow, parseISO } from "date-fns";
+import { Briefcase, Building2, RotateCcw, Trash2, Users } from "lucide-react";
+import { TrashItem, TrashEntityType } from "@/types/hrm";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { TRASH_ENTITY_LABELS } from "@/hooks/use-trash";
+
+const ENTITY_ICONS: Record<TrashEntityType, typeof Building2> = {
+  department: Building2,
+  position: Briefcase,
+  team: Users,
+};
+
+interface TrashColumnsProps {
+  onRestore: (item: TrashItem) => void;
+  onPurge: (item: TrashItem) => void;
+  canRestore: (item: TrashItem) => boolean;
+  canPurge: boolean;
+}
+
+export const createTrashColumns = ({
+  onRestore,
+  onPurge,
+  canRestore,
+  canPurge,
+}: TrashColumnsProps): ColumnDef<TrashItem>[] => [
+  {
+    id: "select",
+    header: ({ table }) => (
+      <Checkbox
+        checked={
+          table.getIsAllPageRowsSelected() ||
+          (table.getIsSomePageRowsSelected() && "indeterminate")
+        }
+        onCheckedChange={(value) => table.toggleAllPageRowsSelected(!!value)}
+        aria-label="Select all"
+      />
+    ),
+    cell: ({ row }) => (
+      <Checkbox
+        checked={row.getIsSelected()}
+        onCheckedChange={(value) => row.toggleSelected(!!value)}
+        disabled={!row.getCanSelect()}
+        aria-label="Select row"
+      />
+    ),
+    enableSorting: false,
+  },
+  {
+    accessorKey: "name",
+    header: "Name",
+    cell: ({ row }) => {
+      const Icon = ENTITY_ICONS[row.original.type];
+      return (
+        <div className="flex items-center gap-2">
+          <Icon className="h-4 w-4 text-muted-foreground" />
+          <div>
+            <div className="font-medium">{row.original.name}</div>
+            <div className="font-mono text-xs text-muted-foreground">
+              {row.original.code}
+            </div>
+          </div>
+        </div>
+      );
+    },
+  },
+  {
+    accessorKey: "type",
+    header: "Type",
+    cell: ({ row }) => (
+      <Badge variant="outline">{TRASH_ENTITY_LABELS[row.original.type]}</Badge>
+    ),
+  },
+  {
+    accessorKey: "context",
+    header: "Belonged To",
+    cell: ({ row }) => (
+      <span className="text-sm">{row.original.context || "-"}</span>
+    ),
+  },
+  {
+    accessorKey: "deleted_at",
+    header: "Deleted",
+    cell: ({ row }) => {
+      const deletedAt = parseISO(row.original.deleted_at);
+      return (
+        <div>
+          <div className="text-sm">{format(deletedAt, "dd MMM yyyy HH:mm")}</div>
+          <div className="text-xs text-muted-foreground">
+            {formatDistanceToNow(deletedAt, { addSuffix: true })}
+          </div>
+        </div>
+      );
+    },
+  },
+  {
+    id: "deleted_by",
+    header: "Deleted By",
+    cell: ({ row }) =>
+      row.original.deleter ? (
+        <div>
+          <div className="text-sm">{row.original.deleter.name}</div>
+          <div className="text-xs text-muted-foreground">
+            {row.original.deleter.email}
+          </div>
+        </div>
+      ) : (
+        <span className="text-sm text-muted-foreground">Unknown</span>
+      ),
+  },
+  {
+    id: "actions",
+    cell: ({ row }) => (
+      <div className="flex justify-end gap-2">
+        {canRestore(row.original) && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onRestore(row.original)}
+          >
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Restore
+          </Button>
+        )}
+        {canPurge && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-destructive hover:text-destructive"
+            onClick={() => onPurge(row.original)}
+          >
+            <Trash2 className="h-4 w-4" />
+            <span className="sr-only">Delete permanently</span>
+          </Button>
+        )}
+      </div>
+    ),
+  },
+];
@@ -0,0 +1,290 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  getCoreRowModel,
+  getPaginationRowModel,
+  RowSelectionState,
+  useReactTable,
+} from "@tanstack/react-table";
+import { RefreshCw, RotateCcw, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { TableSkeleton } from "@/components/ui/skeleton-loaders";
+import { ErrorState, EmptyState } from "@/components/error-boundary";
+import { DataTableShell } from "@/components/shared/data-table-shell";
+import { usePermissions } from "@/hooks/use-permissions";
+import {
+  TRASH_ENTITY_LABELS,
+  usePurgeTrashItems,
+  useRestoreTrashItems,
+  useTrash,
+} from "@/hooks/use-trash";
+import { HRM_PERMISSIONS } from "@/lib/permissions/hrm";
+import type { TrashEntityType, TrashItem } from "@/types/hrm";
+import { createTrashColumns } from "./trash-columns";
+
+const PAGE_SIZE = 15;
+
+const VIEW_PERMISSIONS: Record<TrashEntityType, string> = {
+  department: HRM_PERMISSIONS.DEPARTMENTS_VIEW,
+  position: HRM_PERMISSIONS.POSITIONS_VIEW,
+  team: HRM_PERMISSIONS.TEAMS_VIEW,
+};
+
+const RESTORE_PERMISSIONS: Record<TrashEntityType, string> = {
+  department: HRM_PERMISSIONS.DEPARTMENTS_RESTORE,
+  position: HRM_PERMISSIONS.POSITIONS_RESTORE,
+  team: HRM_PERMISSIONS.TEAMS_RESTORE,
+};
+
+/**
+ * TrashTable Component
+ *
+ * Unified list of soft-deleted departments, positions and teams.
+ * Restore is gated per entity by the *.restore permissions;
+ * permanent deletion is reserved for super admins.
+ */
+export function TrashTable() {
+  const [typeFilter, setTypeFilter] = useState<TrashEntityType | "all">("all");
+  const [searchValue, setSearchValue] = useState("");
+  const [rowSelection, setRowSelection] = useState<RowSelectionState>({});
+  const [purgeTarget, setPurgeTarget] = useState<TrashItem[] | null>(null);
+
+  const { hasPermission, isSuperAdmin } = usePermissions();
+  const canPurge = isSuperAdmin();
+
+  const canView = (type: TrashEntityType) =>
+    hasPermission(VIEW_PERMISSIONS[type]) &&
+    (typeFilter === "all" || typeFilter === type);
+
+  const { items, isLoading, isFetching, error, refetch } = useTrash({
+    department: canView("department"),
+    position: canView("position"),
+    team: canView("team"),
+  });
+  const restoreMutation = useRestoreTrashItems();
+  const purgeMutation = usePurgeTrashItems();
+
+  const filteredItems = useMemo(() => {
+    const needle = searchValue.trim().toLowerCase();
+    if (!needle) return items;
+    return items.filter(
+      (item) =>
+        item.name.toLowerCase().includes(needle) ||
+        item.code.toLowerCase().includes(needle)
+    );
+  }, [items, searchValue]);
+
+  const canRestore = React.useCallback(
+    (item: TrashItem) => hasPermission(RESTORE_PERMISSIONS[item.type]),
+    [hasPermission]
+  );
+
+  const handleRestore = React.useCallback(
+    async (targets: TrashItem[]) => {
+      await restoreMutation.mutateAsync(targets);
+      setRowSelection({});
+    },
+    [restoreMutation]
+  );
+
+  const columns = useMemo(
+    () =>
+      createTrashColumns({
+        onRestore: (item) => handleRestore([item]),
+        onPurge: (item) => setPurgeTarget([item]),
+        canRestore,
+        canPurge,
+      }),
+    [handleRestore, canRestore, canPurge]
+  );
+
+  // eslint-disable-next-line react-hooks/incompatible-library
+  const table = useReactTable({
+    data: filteredItems,
+    columns,
+    getRowId: (item) => item.key,
+    getCoreRowModel: getCoreRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+    enableRowSelection: (row) => canRestore(row.original) || canPurge,
+    onRowSelectionChange: setRowSelection,
+    state: {
+      rowSelection,
+    },
+    initialState: {
+      pagination: { pageIndex: 0, pageSize: PAGE_SIZE },
+    },
+  });
+
+  const handlePurgeConfirm = async () => {
+    if (!purgeTarget) return;
+    try {
+      await purgeMutation.mutateAsync(purgeTarget);
+      setRowSelection({});
+      setPurgeTarget(null);
+    } catch (error) {
+      console.error("Failed to purge records:", error);
+    }
+  };
+
+  if (isLoading) return <TableSkeleton />;
+  if (error) return <ErrorState error={error} onRetry={() => refetch()} />;
+
+  if (items.length === 0 && typeFilter === "all") {
+    return (
+      <EmptyState
+        title="Trash is empty"
+        description="Deleted departments, positions and teams will appear here"
+        icon={<Trash2 className="h-12 w-12" />}
+      />
+    );
+  }
+
+  const selectedItems = table
+    .getSelectedRowModel()
+    .rows.map((row) => row.original);
+  const restorableSelection = selectedItems.filter(canRestore);
+  const { pageIndex, pageSize } = table.getState().pagination;
+  const total = filteredItems.length;
+
+  return (
+    <>
+      <DataTableShell
+        table={table}
+        searchValue={searchValue}
+        onSearchChange={(value) => {
+          setSearchValue(value);
+          table.setPageIndex(0);
+        }}
+        searchPlaceholder="Search by name or code..."
+        filters={
+          <Select
+            value={typeFilter}
+            onValueChange={(value) => {
+              setTypeFilter(value as TrashEntityType | "all");
+              setRowSelection({});
+            }}
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="All Types" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Types</SelectItem>
+              {(Object.keys(TRASH_ENTITY_LABELS) as TrashEntityType[])
+                .filter((type) => hasPermission(VIEW_PERMISSIONS[type]))
+                .map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {TRASH_ENTITY_LABELS[type]}s
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        }
+        actions={
+          <>
+            {selectedItems.length > 0 && (
+              <>
+                <Badge variant="secondary">
+                  {selectedItems.length} selected
+                </Badge>
+                {restorableSelection.length > 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRestore(restorableSelection)}
+                    disabled={restoreMutation.isPending}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    {restoreMutation.isPending
+                      ? "Restoring..."
+                      : `Restore (${restorableSelection.length})`}
+                  </Button>
+                )}
+                {canPurge && (
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => setPurgeTarget(selectedItems)}
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete Permanently
+                  </Button>
+                )}
+              </>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => refetch()}
+              disabled={isFetching}
+            >
+              <RefreshCw
+                className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`}
+              />
+              Refresh
+            </Button>
+          </>
+        }
+        pagination={{
+          from: total ? pageIndex * pageSize + 1 : 0,
+          to: Math.min((pageIndex + 1) * pageSize, total),
+          total,
+          currentPage: pageIndex + 1,
+          lastPage: Math.max(table.getPageCount(), 1),
+          resourceName: "records",
+        }}
+        onPageChange={(page) => table.setPageIndex(page - 1)}
+      />
+
+      <AlertDialog
+        open={!!purgeTarget}
+        onOpenChange={(open) => !open && setPurgeTarget(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Permanently</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeTarget?.length === 1
+                ? `"${purgeTarget[0].name}" will be permanently deleted.`
+                : `${purgeTarget?.length} records will be permanently deleted.`}{" "}
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={purgeMutation.isPending}>
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handlePurgeConfirm();
+              }}
+              disabled={purgeMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {purgeMutation.isPending ? "Deleting..." : "Delete Permanently"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
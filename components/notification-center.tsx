@@ -0,0 +1,205 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { useRouter } from "next/navigation";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, CheckCheck, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Separator } from "@/components/ui/separator";
+import {
+  useMarkAllNotificationsRead,
+  useMarkNotificationRead,
+  useNotifications,
+  useNotificationStream,
+  useUnreadNotificationCount,
+} from "@/lib/hooks/use-notifications";
+import {
+  createDefaultNotificationTransport,
+  type NotificationTransport,
+} from "@/lib/notifications";
+import { cn } from "@/lib/utils";
+import type {
+  AppNotification,
+  NotificationTransportStatus,
+} from "@/types/notification";
+
+const STATUS_LABELS: Record<NotificationTransportStatus, string> = {
+  connecting: "Connecting...",
+  live: "Live",
+  polling: "Checking every 30s",
+  offline: "Offline",
+};
+
+const STATUS_DOT: Record<NotificationTransportStatus, string> = {
+  connecting: "bg-amber-500",
+  live: "bg-green-500",
+  polling: "bg-blue-500",
+  offline: "bg-muted-foreground",
+};
+
+interface NotificationCenterProps {
+  /** Defaults to SSE with polling fallback; pass a memory transport for mocks */
+  transport?: NotificationTransport;
+}
+
+export function NotificationCenter({ transport }: NotificationCenterProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [defaultTransport] = useState(createDefaultNotificationTransport);
+
+  const { data: unreadCount = 0 } = useUnreadNotificationCount();
+  const {
+    data,
+    isLoading,
+    isError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useNotifications(open);
+  const { mutate: markAsRead } = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+
+  const openNotification = useCallback(
+    (notification: AppNotification) => {
+      if (!notification.read_at) {
+        markAsRead(notification);
+      }
+      if (notification.url) {
+        setOpen(false);
+        router.push(notification.url);
+      }
+    },
+    [markAsRead, router]
+  );
+
+  const status = useNotificationStream(
+    transport ?? defaultTransport,
+    openNotification
+  );
+
+  const notifications = data?.pages.flatMap((page) => page.data) ?? [];
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative w-9 px-0"
+          aria-label={
+            unreadCount > 0
+              ? `Notifications (${unreadCount} unread)`
+              : "Notifications"
+          }
+        >
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="bg-destructive text-destructive-foreground absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full px-1 text-[10px] font-medium">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0 sm:w-96">
+        <div className="flex items-center justify-between px-4 py-3">
+          <div>
+            <p className="text-sm font-semibold">Notifications</p>
+            <p className="text-muted-foreground flex items-center gap-1.5 text-xs">
+              <span className={cn("h-1.5 w-1.5 rounded-full", STATUS_DOT[status])} />
+              {STATUS_LABELS[status]}
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => markAllRead.mutate()}
+            disabled={unreadCount === 0 || markAllRead.isPending}
+          >
+            <CheckCheck className="mr-1 h-4 w-4" />
+            Mark all as read
+          </Button>
+        </div>
+        <Separator />
+        <ScrollArea className="h-96">
+          {isLoading ? (
+            <div className="flex h-32 items-center justify-center">
+              <Loader2 className="text-muted-foreground h-5 w-5 animate-spin" />
+            </div>
+          ) : isError ? (
+            <p className="text-muted-foreground p-6 text-center text-sm">
+              Failed to load notifications
+            </p>
+          ) : notifications.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 p-8 text-center">
+              <Bell className="text-muted-foreground h-8 w-8" />
+              <p className="text-muted-foreground text-sm">
+                You&apos;re all caught up
+              </p>
+            </div>
+          ) : (
+            <div className="divide-y">
+              {notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  type="button"
+                  onClick={() => openNotification(notification)}
+                  className={cn(
+                    "hover:bg-muted/50 flex w-full gap-3 px-4 py-3 text-left transition-colors",
+                    !notification.read_at && "bg-primary/5"
+                  )}
+                >
+                  <span
+                    className={cn(
+                      "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+                      notification.read_at ? "bg-transparent" : "bg-primary"
+                    )}
+                  />
+                  <span className="min-w-0 flex-1 space-y-0.5">
+                    <span
+                      className={cn(
+                        "block truncate text-sm",
+                        !notification.read_at && "font-medium"
+                      )}
+                    >
+                      {notification.title}
+                    </span>
+                    <span className="text-muted-foreground line-clamp-2 block text-xs">
+                      {notification.message}
+                    </span>
+                    <span className="text-muted-foreground block text-[11px]">
+                      {formatDistanceToNow(new Date(notification.created_at), {
+                        addSuffix: true,
+                      })}
+                    </span>
+                  </span>
+                </button>
+              ))}
+              {hasNextPage && (
+                <div className="p-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                  >
+                    {isFetchingNextPage && (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    )}
+                    Load more
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { useEffect } from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2 } from "lucide-react";
+import {
+  permissionSchema,
+  type PermissionFormData,
+} from "@/lib/validations/permission.schema";
+import {
+  formatPermissionModule,
+  parsePermissionName,
+} from "@/lib/permissions/modules";
+import type { CreatePermissionInput } from "@/types/permission";
+
+interface PermissionFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: CreatePermissionInput) => Promise<void>;
+  isLoading?: boolean;
+}
+
+export function PermissionFormDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  isLoading = false,
+}: PermissionFormDialogProps) {
+  const form = useForm<PermissionFormData>({
+    resolver: zodResolver(permissionSchema),
+    defaultValues: { name: "" },
+  });
+
+  const name = useWatch({ control: form.control, name: "name" });
+  const preview = permissionSchema.safeParse({ name }).success
+    ? parsePermissionName(name.trim())
+    : null;
+
+  useEffect(() => {
+    if (open) {
+      form.reset({ name: "" });
+    }
+  }, [open, form]);
+
+  const handleSubmit = async (data: PermissionFormData) => {
+    try {
+      await onSubmit({ name: data.name });
+      form.reset();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Form submission error:", error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Create Custom Permission</DialogTitle>
+          <DialogDescription>
+            New permissions can be assigned to roles from the Roles page.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-4"
+          >
+            <FormField<PermissionFormData, "name">
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Permission Name *</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="hrm.payroll.view"
+                      className="font-mono"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Use <code>module.action</code> (e.g. hrm.payroll.view) or{" "}
+                    <code>action_module</code> (e.g. export_reports).
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {preview && (
+              <div className="flex items-center gap-2 text-sm">
+                <span className="text-muted-foreground">Module:</span>
+                <Badge variant="secondary">
+                  {formatPermissionModule(preview.module)}
+                </Badge>
+                <span className="text-muted-foreground">Action:</span>
+                <Badge variant="outline">{preview.action}</Badge>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isLoading}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading}>
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
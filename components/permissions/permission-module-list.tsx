@@ -0,0 +1,157 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Users } from "lucide-react";
+import {
+  formatPermissionAction,
+  formatPermissionModule,
+  parsePermissionName,
+  sortPermissionActions,
+} from "@/lib/permissions/modules";
+import { isHrmPermission } from "@/lib/permissions/hrm";
+import type { Permission, PermissionsByModule } from "@/types/permission";
+
+interface PermissionModuleListProps {
+  groupedPermissions: PermissionsByModule;
+  search?: string;
+}
+
+export function PermissionModuleList({
+  groupedPermissions,
+  search = "",
+}: PermissionModuleListProps) {
+  const modules = useMemo(() => {
+    const query = search.trim().toLowerCase();
+
+    return Object.keys(groupedPermissions)
+      .sort()
+      .map((module) => {
+        const permissions = groupedPermissions[module].filter(
+          (p) =>
+            !query ||
+            p.name.toLowerCase().includes(query) ||
+            p.roles?.some((r) => r.name.toLowerCase().includes(query))
+        );
+
+        // Sort rows by action order (view, create, update, ...)
+        const order = sortPermissionActions(
+          permissions.map((p) => parsePermissionName(p.name).action)
+        );
+        const sorted = [...permissions].sort(
+          (a, b) =>
+            order.indexOf(parsePermissionName(a.name).action) -
+            order.indexOf(parsePermissionName(b.name).action)
+        );
+
+        return { module, permissions: sorted };
+      })
+      .filter((group) => group.permissions.length > 0);
+  }, [groupedPermissions, search]);
+
+  if (modules.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No permissions match your search.
+      </div>
+    );
+  }
+
+  return (
+    <Accordion
+      type="multiple"
+      defaultValue={modules.map((m) => m.module)}
+      className="rounded-md border"
+    >
+      {modules.map(({ module, permissions }) => (
+        <AccordionItem key={module} value={module} className="px-4">
+          <AccordionTrigger>
+            <div className="flex items-center gap-2">
+              <span className="font-medium">
+                {formatPermissionModule(module)}
+              </span>
+              <span className="font-mono text-xs text-muted-foreground">
+                {module.includes(".") ? `${module}.*` : `*_${module}`}
+              </span>
+              <Badge variant="secondary">{permissions.length}</Badge>
+            </div>
+          </AccordionTrigger>
+          <AccordionContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Permission</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Roles</TableHead>
+                  <TableHead className="text-right">Users</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {permissions.map((permission) => (
+                  <PermissionRow key={permission.id} permission={permission} />
+                ))}
+              </TableBody>
+            </Table>
+          </AccordionContent>
+        </AccordionItem>
+      ))}
+    </Accordion>
+  );
+}
+
+function PermissionRow({ permission }: { permission: Permission }) {
+  const { action } = parsePermissionName(permission.name);
+  const isCustom =
+    permission.name.startsWith("hrm.") && !isHrmPermission(permission.name);
+
+  return (
+    <TableRow>
+      <TableCell>
+        <div className="flex items-center gap-2">
+          <span className="font-mono text-sm">{permission.name}</span>
+          {isCustom && (
+            <Badge variant="outline" className="text-xs">
+              Custom
+            </Badge>
+          )}
+        </div>
+      </TableCell>
+      <TableCell>
+        <Badge variant="outline">{formatPermissionAction(action)}</Badge>
+      </TableCell>
+      <TableCell>
+        {permission.roles && permission.roles.length > 0 ? (
+          <div className="flex flex-wrap gap-1">
+            {permission.roles.map((role) => (
+              <Badge key={role.id} variant="secondary">
+                {role.name}
+              </Badge>
+            ))}
+          </div>
+        ) : (
+          <span className="text-sm text-muted-foreground">No roles</span>
+        )}
+      </TableCell>
+      <TableCell className="text-right">
+        <span className="inline-flex items-center gap-1 text-sm">
+          <Users className="h-3 w-3 text-muted-foreground" />
+          {permission.users_count ?? "-"}
+        </span>
+      </TableCell>
+    </TableRow>
+  );
+}
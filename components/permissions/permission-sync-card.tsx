@@ -0,0 +1,94 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+import { diffHrmPermissions } from "@/lib/permissions/hrm";
+
+interface PermissionSyncCardProps {
+  backendPermissions: string[];
+}
+
+/**
+ * Flags drift between lib/permissions/hrm.ts and the permissions seeded on the backend
+ */
+export function PermissionSyncCard({
+  backendPermissions,
+}: PermissionSyncCardProps) {
+  const { missingInBackend, missingInFrontend } = useMemo(
+    () => diffHrmPermissions(backendPermissions),
+    [backendPermissions]
+  );
+
+  const inSync = missingInBackend.length === 0 && missingInFrontend.length === 0;
+
+  if (inSync) {
+    return (
+      <div className="flex items-center gap-2 rounded-md border px-4 py-3 text-sm text-muted-foreground">
+        <CheckCircle2 className="h-4 w-4 text-green-600" />
+        HRM permissions are in sync with the backend.
+      </div>
+    );
+  }
+
+  return (
+    <Card className="border-amber-500/50 bg-amber-500/5">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <AlertTriangle className="h-4 w-4 text-amber-600" />
+          HRM permissions out of sync
+        </CardTitle>
+        <CardDescription>
+          The frontend definitions in lib/permissions/hrm.ts do not match the
+          permissions returned by the backend.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {missingInBackend.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">
+              Missing on backend ({missingInBackend.length})
+            </p>
+            <p className="text-xs text-muted-foreground">
+              UI checks for these will always fail for non super admins until
+              they are seeded.
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {missingInBackend.map((name) => (
+                <Badge key={name} variant="outline" className="font-mono">
+                  {name}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {missingInFrontend.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">
+              Not defined in frontend ({missingInFrontend.length})
+            </p>
+            <p className="text-xs text-muted-foreground">
+              These exist on the backend but are not referenced by
+              HRM_PERMISSIONS.
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {missingInFrontend.map((name) => (
+                <Badge key={name} variant="outline" className="font-mono">
+                  {name}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
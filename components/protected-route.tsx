@@ -1,44 +1,37 @@
 "use client";
 
 import { useSession } from "next-auth/react";
-import { useRouter } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
 import { useEffect } from "react";
+import { Forbidden } from "@/components/forbidden";
+import { canAccessRoute } from "@/lib/permissions/routes";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  allowedRoles?: string[];
   requireAuth?: boolean;
 }
 
+/**
+ * Permission yang dibutuhkan diambil dari ROUTE_PERMISSIONS berdasarkan URL,
+ * sama seperti yang dicek `proxy.ts` di server
+ */
 export function ProtectedRoute({
   children,
-  allowedRoles = [],
   requireAuth = true,
 }: ProtectedRouteProps) {
   const { data: session, status } = useSession();
   const router = useRouter();
+  const pathname = usePathname();
+
+  // Login sosial yang masih menunggu kode 2FA diperlakukan seperti belum login
+  const twoFactorPending = !!session?.twoFactorPending;
 
   useEffect(() => {
     // Jika require auth dan tidak ada session, redirect ke login
-    if (requireAuth && status === "unauthenticated") {
-      router.push("/login");
-      return;
-    }
-
-    // Jika ada allowedRoles, cek apakah user punya role yang diizinkan
-    if (allowedRoles.length > 0 && session?.user?.roles) {
-      const userRoles = session.user.roles;
-      const hasAllowedRole = allowedRoles.some((role) =>
-        userRoles.includes(role)
-      );
-
-      if (!hasAllowedRole) {
-        // Redirect ke dashboard jika tidak punya akses
-        router.push("/dashboard");
-        return;
-      }
+    if (requireAuth && (status === "unauthenticated" || twoFactorPending)) {
+      router.push(`/login?callbackUrl=${encodeURIComponent(pathname)}`);
     }
-  }, [session, status, requireAuth, allowedRoles, router]);
+  }, [status, twoFactorPending, requireAuth, router, pathname]);
 
   // Loading state
   if (status === "loading") {
@@ -53,29 +46,14 @@ export function ProtectedRoute({
   }
 
   // Jika tidak authenticated dan require auth
-  if (requireAuth && !session) {
+  if (requireAuth && (!session || twoFactorPending)) {
     return null;
   }
 
-  // Jika ada allowedRoles dan user tidak punya role yang sesuai
-  if (allowedRoles.length > 0 && session?.user?.roles) {
-    const userRoles = session.user.roles;
-    const hasAllowedRole = allowedRoles.some((role) =>
-      userRoles.includes(role)
-    );
-
-    if (!hasAllowedRole) {
-      return (
-        <div className="flex items-center justify-center min-h-screen">
-          <div className="text-center">
-            <h1 className="text-2xl font-bold mb-2">Access Denied</h1>
-            <p className="text-muted-foreground">
-              You don&apos;t have permission to access this page
-            </p>
-          </div>
-        </div>
-      );
-    }
+  // Jika user tidak punya permission untuk route ini. Biasanya sudah
+  // ditolak proxy; ini untuk navigasi client-side dengan session lama
+  if (session && !canAccessRoute(pathname, session.user)) {
+    return <Forbidden />;
   }
 
   return <>{children}</>;
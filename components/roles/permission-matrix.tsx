@@ -0,0 +1,218 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  formatPermissionAction,
+  formatPermissionModule,
+  parsePermissionName,
+  sortPermissionActions,
+} from "@/lib/permissions/modules";
+import type { PermissionsByModule } from "@/types/permission";
+
+interface PermissionMatrixProps {
+  groupedPermissions?: PermissionsByModule;
+  value: string[];
+  onChange: (permissions: string[]) => void;
+  isLoading?: boolean;
+  disabled?: boolean;
+}
+
+interface MatrixRow {
+  module: string;
+  // action -> permission name
+  cells: Record<string, string>;
+}
+
+/**
+ * Module-by-action grid of permission checkboxes.
+ * Rows are permission modules, columns are the union of all actions.
+ */
+export function PermissionMatrix({
+  groupedPermissions,
+  value,
+  onChange,
+  isLoading = false,
+  disabled = false,
+}: PermissionMatrixProps) {
+  const { rows, actions } = useMemo(() => {
+    const actionSet = new Set<string>();
+    const matrixRows: MatrixRow[] = Object.keys(groupedPermissions || {})
+      .sort()
+      .map((module) => {
+        const cells: Record<string, string> = {};
+        groupedPermissions![module].forEach((permission) => {
+          const { action } = parsePermissionName(permission.name);
+          cells[action] = permission.name;
+          actionSet.add(action);
+        });
+        return { module, cells };
+      });
+
+    return {
+      rows: matrixRows,
+      actions: sortPermissionActions(Array.from(actionSet)),
+    };
+  }, [groupedPermissions]);
+
+  const selected = useMemo(() => new Set(value), [value]);
+
+  const allNames = useMemo(
+    () => rows.flatMap((row) => Object.values(row.cells)),
+    [rows]
+  );
+
+  const getState = (names: string[]): boolean | "indeterminate" => {
+    const count = names.filter((name) => selected.has(name)).length;
+    if (count === 0) return false;
+    if (count === names.length) return true;
+    return "indeterminate";
+  };
+
+  const toggle = (names: string[], checked: boolean) => {
+    const next = new Set(selected);
+    names.forEach((name) => {
+      if (checked) {
+        next.add(name);
+      } else {
+        next.delete(name);
+      }
+    });
+    onChange(Array.from(next));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {[1, 2, 3, 4].map((i) => (
+          <Skeleton key={i} className="h-10 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (rows.length === 0) {
+    return (
+      <div className="rounded-md border py-8 text-center text-sm text-muted-foreground">
+        No permissions available.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {value.length} of {allNames.length} permissions selected
+        </p>
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            disabled={disabled}
+            onClick={() => onChange(allNames)}
+          >
+            Select All
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            disabled={disabled}
+            onClick={() => onChange([])}
+          >
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Module</TableHead>
+              {actions.map((action) => {
+                const names = rows
+                  .map((row) => row.cells[action])
+                  .filter(Boolean);
+                return (
+                  <TableHead key={action} className="text-center">
+                    <div className="flex flex-col items-center gap-1 py-1">
+                      <span>{formatPermissionAction(action)}</span>
+                      <Checkbox
+                        checked={getState(names)}
+                        disabled={disabled}
+                        onCheckedChange={(checked) =>
+                          toggle(names, checked === true)
+                        }
+                        aria-label={`Toggle ${action} for all modules`}
+                      />
+                    </div>
+                  </TableHead>
+                );
+              })}
+              <TableHead className="text-center">All</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => {
+              const rowNames = Object.values(row.cells);
+              return (
+                <TableRow key={row.module}>
+                  <TableCell>
+                    <div className="font-medium">
+                      {formatPermissionModule(row.module)}
+                    </div>
+                    <div className="font-mono text-xs text-muted-foreground">
+                      {row.module}
+                    </div>
+                  </TableCell>
+                  {actions.map((action) => {
+                    const name = row.cells[action];
+                    return (
+                      <TableCell key={action} className="text-center">
+                        {name ? (
+                          <Checkbox
+                            checked={selected.has(name)}
+                            disabled={disabled}
+                            onCheckedChange={(checked) =>
+                              toggle([name], checked === true)
+                            }
+                            aria-label={name}
+                          />
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                  <TableCell className="text-center">
+                    <Checkbox
+                      checked={getState(rowNames)}
+                      disabled={disabled}
+                      onCheckedChange={(checked) =>
+                        toggle(rowNames, checked === true)
+                      }
+                      aria-label={`Toggle all ${row.module} permissions`}
+                    />
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { ColumnDef } from "@tanstack/react-table";
+import { Role } from "@/types/role";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Shield, Users, Key, Edit, Trash2, MoreHorizontal } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { format } from "date-fns";
+
+/**
+ * Roles that must never be deleted or renamed from the UI
+ */
+export const PROTECTED_ROLES = ["Super Admin"];
+
+interface RoleColumnsProps {
+  onEdit: (role: Role) => void;
+  onDelete: (role: Role) => void;
+}
+
+export const createRoleColumns = ({
+  onEdit,
+  onDelete,
+}: RoleColumnsProps): ColumnDef<Role>[] => [
+  {
+    accessorKey: "name",
+    header: "Role",
+    cell: ({ row }) => (
+      <div className="flex items-center gap-2">
+        <Shield className="h-4 w-4 text-muted-foreground" />
+        <div>
+          <div className="font-medium">{row.original.name}</div>
+          <div className="text-xs text-muted-foreground font-mono">
+            {row.original.guard_name}
+          </div>
+        </div>
+      </div>
+    ),
+  },
+  {
+    accessorKey: "users_count",
+    header: "Users",
+    enableSorting: false,
+    cell: ({ row }) => (
+      <Badge variant="secondary">
+        <Users className="h-3 w-3 mr-1" />
+        {row.original.users_count ?? 0}
+      </Badge>
+    ),
+  },
+  {
+    accessorKey: "permissions_count",
+    header: "Permissions",
+    enableSorting: false,
+    cell: ({ row }) => (
+      <Badge variant="outline">
+        <Key className="h-3 w-3 mr-1" />
+        {row.original.permissions_count ??
+          row.original.permissions?.length ??
+          0}
+      </Badge>
+    ),
+  },
+  {
+    accessorKey: "created_at",
+    header: "Created",
+    cell: ({ row }) => (
+      <div className="text-sm text-muted-foreground">
+        {row.original.created_at
+          ? format(new Date(row.original.created_at), "dd MMM yyyy")
+          : "-"}
+      </div>
+    ),
+  },
+  {
+    id: "actions",
+    header: "Actions",
+    cell: ({ row }) => {
+      const role = row.original;
+      const isProtected = PROTECTED_ROLES.includes(role.name);
+
+      return (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon">
+              <MoreHorizontal className="h-4 w-4" />
+              <span className="sr-only">Actions</span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => onEdit(role)}>
+              <Edit className="h-4 w-4 mr-2" />
+              Edit
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onClick={() => onDelete(role)}
+              disabled={isProtected}
+              className="text-destructive"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      );
+    },
+  },
+];
@@ -0,0 +1,176 @@
+"use client";
+
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { Loader2 } from "lucide-react";
+import { roleSchema, type RoleFormData } from "@/lib/validations/role.schema";
+import { useRole } from "@/lib/hooks/use-roles";
+import { usePermissionsByModule } from "@/lib/hooks/use-permissions";
+import { PermissionMatrix } from "./permission-matrix";
+import { PROTECTED_ROLES } from "./role-columns";
+import type { Role, CreateRoleInput } from "@/types/role";
+
+interface RoleFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: CreateRoleInput) => Promise<void>;
+  role?: Role | null;
+  isLoading?: boolean;
+}
+
+export function RoleFormDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  role,
+  isLoading = false,
+}: RoleFormDialogProps) {
+  const isEditMode = !!role;
+  // Other code looks protected roles up by name, so they keep it
+  const isNameLocked = !!role && PROTECTED_ROLES.includes(role.name);
+
+  // The list endpoint may omit permissions, so load the full role when editing
+  const { data: roleDetail, isLoading: loadingRole } = useRole(
+    open && role ? role.id : ""
+  );
+  const { data: groupedPermissions, isLoading: loadingPermissions } =
+    usePermissionsByModule();
+
+  const form = useForm<RoleFormData>({
+    resolver: zodResolver(roleSchema),
+    defaultValues: {
+      name: "",
+      permissions: [],
+    },
+  });
+
+  useEffect(() => {
+    if (open) {
+      const source = roleDetail ?? role;
+      form.reset({
+        name: source?.name ?? "",
+        permissions: source?.permissions?.map((p) => p.name) ?? [],
+      });
+    }
+  }, [role, roleDetail, open, form]);
+
+  const handleSubmit = async (data: RoleFormData) => {
+    try {
+      await onSubmit({
+        name: isNameLocked && role ? role.name : data.name,
+        permissions: data.permissions,
+      });
+      form.reset();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Form submission error:", error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditMode ? "Edit Role" : "Create New Role"}</DialogTitle>
+          <DialogDescription>
+            {isEditMode
+              ? "Update the role name and the permissions it grants."
+              : "Define a new role and choose which permissions it grants."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-6"
+          >
+            <FormField<RoleFormData, "name">
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Role Name *</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="e.g. HR Manager"
+                      {...field}
+                      disabled={isNameLocked}
+                    />
+                  </FormControl>
+                  {isNameLocked && (
+                    <FormDescription>
+                      This is a system role and cannot be renamed.
+                    </FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Separator />
+
+            <FormField<RoleFormData, "permissions">
+              control={form.control}
+              name="permissions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Permissions</FormLabel>
+                  <FormDescription>
+                    Toggle grants per module and action. Use the row and column
+                    checkboxes to grant a whole module or action at once.
+                  </FormDescription>
+                  <FormControl>
+                    <PermissionMatrix
+                      groupedPermissions={groupedPermissions}
+                      value={field.value}
+                      onChange={field.onChange}
+                      isLoading={loadingPermissions || (isEditMode && loadingRole)}
+                      disabled={isLoading}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isLoading}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading}>
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isEditMode ? "Update" : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import React, { useMemo } from "react";
+import {
+  getCoreRowModel,
+  getSortedRowModel,
+  useReactTable,
+} from "@tanstack/react-table";
+import { Button } from "@/components/ui/button";
+import { Plus, RefreshCw } from "lucide-react";
+import { useRoles } from "@/lib/hooks/use-roles";
+import type { Role } from "@/types/role";
+import { TableSkeleton } from "@/components/ui/skeleton-loaders";
+import { ErrorState, EmptyState } from "@/components/error-boundary";
+import { useDataTable, type BaseFilters } from "@/lib/hooks/use-data-table";
+import { DataTableShell } from "@/components/shared/data-table-shell";
+import { createRoleColumns } from "./role-columns";
+
+interface RoleTableProps {
+  onEdit: (role: Role) => void;
+  onDelete: (role: Role) => void;
+  onCreate: () => void;
+}
+
+/**
+ * RoleTable component.
+ * Uses useDataTable hook for state and DataTableShell for UI.
+ */
+export function RoleTable({ onEdit, onDelete, onCreate }: RoleTableProps) {
+  const {
+    filters,
+    searchValue,
+    setSearchValue,
+    sorting,
+    handleSortingChange,
+    handlePageChange,
+  } = useDataTable<BaseFilters>({
+    initialFilters: {
+      page: 1,
+      per_page: 15,
+      sort_by: "name",
+      sort_order: "asc",
+    },
+  });
+
+  // Map table filters to Spatie QueryBuilder params
+  const { data, isLoading, isError, error, refetch } = useRoles({
+    page: filters.page,
+    per_page: filters.per_page,
+    "filter[name]": filters.search,
+    sort: filters.sort_by
+      ? `${filters.sort_order === "desc" ? "-" : ""}${filters.sort_by}`
+      : undefined,
+  });
+
+  const columns = useMemo(
+    () => createRoleColumns({ onEdit, onDelete }),
+    [onEdit, onDelete]
+  );
+
+  // eslint-disable-next-line react-hooks/incompatible-library
+  const table = useReactTable({
+    data: data?.data || [],
+    columns,
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    onSortingChange: handleSortingChange,
+    state: {
+      sorting,
+    },
+    manualPagination: true,
+  });
+
+  if (isLoading) return <TableSkeleton />;
+  if (isError)
+    return <ErrorState error={error as Error} onRetry={() => refetch()} />;
+
+  const roles = data?.data || [];
+  if (roles.length === 0 && !filters.search) {
+    return (
+      <EmptyState
+        title="No roles yet"
+        description="Get started by creating your first role"
+        action={{ label: "Create Role", onClick: onCreate }}
+      />
+    );
+  }
+
+  return (
+    <DataTableShell
+      table={table}
+      searchValue={searchValue}
+      onSearchChange={setSearchValue}
+      searchPlaceholder="Search roles..."
+      pagination={
+        data
+          ? {
+              from: data.meta.from ?? undefined,
+              to: data.meta.to ?? undefined,
+              total: data.meta.total,
+              currentPage: filters.page || 1,
+              lastPage: data.meta.last_page || 1,
+              resourceName: "roles",
+            }
+          : undefined
+      }
+      onPageChange={handlePageChange}
+      actions={
+        <>
+          <Button variant="outline" size="sm" onClick={() => refetch()}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          <Button size="sm" onClick={onCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Role
+          </Button>
+        </>
+      }
+    />
+  );
+}
@@ -1,4 +1,4 @@
-import { TrendingDown, TrendingUp } from "lucide-react"
+import { Minus, TrendingDown, TrendingUp } from "lucide-react"
 
 import { Badge } from "@/components/ui/badge"
 import {
@@ -9,94 +9,65 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card"
+import { formatChange } from "@/lib/dashboard-metrics"
 
-export function SectionCards() {
+export interface SectionCard {
+  title: string
+  value: string
+  /** Percent change vs the previous period; null when there's no baseline */
+  change?: number | null
+  /** Bold footer line; defaults to a sentence built from `change` */
+  summary?: string
+  description: string
+}
+
+function TrendIcon({ change, className }: { change: number | null; className?: string }) {
+  if (change === null || change > 0) return <TrendingUp className={className} />
+  if (change < 0) return <TrendingDown className={className} />
+  return <Minus className={className} />
+}
+
+function describeChange(change: number | null) {
+  if (change === null) return "No activity in the previous period"
+  if (change === 0) return "Unchanged from the previous period"
+  const percent = Math.round(Math.abs(change) * 10) / 10
+  return `${change > 0 ? "Up" : "Down"} ${percent}% from the previous period`
+}
+
+export function SectionCards({ cards }: { cards: SectionCard[] }) {
   return (
-    <div className="*:data-[slot=card]:from-primary/5 *:data-[slot=card]:to-card dark:*:data-[slot=card]:bg-card grid grid-cols-1 gap-4 px-4 *:data-[slot=card]:bg-linear-to-t *:data-[slot=card]:shadow-xs lg:px-6 @xl/main:grid-cols-2 @5xl/main:grid-cols-4">
-      <Card className="@container/card">
-        <CardHeader>
-          <CardDescription>Total Revenue</CardDescription>
-          <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
-            $1,250.00
-          </CardTitle>
-          <CardAction>
-            <Badge variant="outline">
-              <TrendingUp />
-              +12.5%
-            </Badge>
-          </CardAction>
-        </CardHeader>
-        <CardFooter className="flex-col items-start gap-1.5 text-sm">
-          <div className="line-clamp-1 flex gap-2 font-medium">
-            Trending up this month <TrendingUp className="size-4" />
-          </div>
-          <div className="text-muted-foreground">
-            Visitors for the last 6 months
-          </div>
-        </CardFooter>
-      </Card>
-      <Card className="@container/card">
-        <CardHeader>
-          <CardDescription>New Customers</CardDescription>
-          <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
-            1,234
-          </CardTitle>
-          <CardAction>
-            <Badge variant="outline">
-              <TrendingDown />
-              -20%
-            </Badge>
-          </CardAction>
-        </CardHeader>
-        <CardFooter className="flex-col items-start gap-1.5 text-sm">
-          <div className="line-clamp-1 flex gap-2 font-medium">
-            Down 20% this period <TrendingDown className="size-4" />
-          </div>
-          <div className="text-muted-foreground">
-            Acquisition needs attention
-          </div>
-        </CardFooter>
-      </Card>
-      <Card className="@container/card">
-        <CardHeader>
-          <CardDescription>Active Accounts</CardDescription>
-          <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
-            45,678
-          </CardTitle>
-          <CardAction>
-            <Badge variant="outline">
-              <TrendingUp />
-              +12.5%
-            </Badge>
-          </CardAction>
-        </CardHeader>
-        <CardFooter className="flex-col items-start gap-1.5 text-sm">
-          <div className="line-clamp-1 flex gap-2 font-medium">
-            Strong user retention <TrendingUp className="size-4" />
-          </div>
-          <div className="text-muted-foreground">Engagement exceed targets</div>
-        </CardFooter>
-      </Card>
-      <Card className="@container/card">
-        <CardHeader>
-          <CardDescription>Growth Rate</CardDescription>
-          <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
-            4.5%
-          </CardTitle>
-          <CardAction>
-            <Badge variant="outline">
-              <TrendingUp />
-              +4.5%
-            </Badge>
-          </CardAction>
-        </CardHeader>
-        <CardFooter className="flex-col items-start gap-1.5 text-sm">
-          <div className="line-clamp-1 flex gap-2 font-medium">
-            Steady performance increase <TrendingUp className="size-4" />
-          </div>
-          <div className="text-muted-foreground">Meets growth projections</div>
-        </CardFooter>
-      </Card>
+    // Sized by its own container: on the dashboard it sits in a resizable widget
+    <div className="@container/cards">
+      <div className="*:data-[slot=card]:from-primary/5 *:data-[slot=card]:to-card dark:*:data-[slot=card]:bg-card grid grid-cols-1 gap-4 *:data-[slot=card]:bg-linear-to-t *:data-[slot=card]:shadow-xs @xl/cards:grid-cols-2 @5xl/cards:grid-cols-4">
+        {cards.map((card) => (
+          <Card key={card.title} className="@container/card">
+            <CardHeader>
+              <CardDescription>{card.title}</CardDescription>
+              <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
+                {card.value}
+              </CardTitle>
+              {card.change !== undefined && (
+                <CardAction>
+                  <Badge variant="outline">
+                    <TrendIcon change={card.change} />
+                    {formatChange(card.change)}
+                  </Badge>
+                </CardAction>
+              )}
+            </CardHeader>
+            <CardFooter className="flex-col items-start gap-1.5 text-sm">
+              <div className="line-clamp-1 flex gap-2 font-medium">
+                {card.summary ??
+                  (card.change !== undefined ? describeChange(card.change) : null)}
+                {card.change !== undefined && (
+                  <TrendIcon change={card.change} className="size-4" />
+                )}
+              </div>
+              <div className="text-muted-foreground">{card.description}</div>
+            </CardFooter>
+          </Card>
+        ))}
+      </div>
     </div>
   )
 }
@@ -0,0 +1,331 @@
+"use client";
+
+import * as React from "react";
+import {
+  Bookmark,
+  Check,
+  Link2,
+  Loader2,
+  Plus,
+  RotateCcw,
+  Save,
+  Star,
+  Trash2,
+  Users,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  useCreateTableView,
+  useDeleteTableView,
+  useSetDefaultTableView,
+  useTableViews,
+  useUpdateTableView,
+} from "@/lib/hooks/use-table-views";
+import type { DataTableViewState } from "@/lib/hooks/use-data-table";
+import type { TableView } from "@/types/table-view";
+
+interface DataTableSavedViewsProps {
+  /** Same id passed to useDataTable */
+  tableId: string;
+  getViewState: () => DataTableViewState;
+  onApplyView: (view: DataTableViewState) => void;
+  activeViewId: string | null;
+}
+
+const EMPTY_VIEW: DataTableViewState = { filters: {}, column_visibility: {} };
+
+/**
+ * "Views" menu for data tables: apply, save, share and set default views
+ */
+export function DataTableSavedViews({
+  tableId,
+  getViewState,
+  onApplyView,
+  activeViewId,
+}: DataTableSavedViewsProps) {
+  const { data: views = [] } = useTableViews(tableId);
+  const createMutation = useCreateTableView();
+  const updateMutation = useUpdateTableView();
+  const setDefaultMutation = useSetDefaultTableView();
+  const deleteMutation = useDeleteTableView();
+
+  const [saveDialogOpen, setSaveDialogOpen] = React.useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = React.useState(false);
+  const [name, setName] = React.useState("");
+  const [isShared, setIsShared] = React.useState(false);
+  const [isDefault, setIsDefault] = React.useState(false);
+
+  const myViews = views.filter((view) => view.is_owner);
+  const sharedViews = views.filter((view) => !view.is_owner);
+  const selectedView = views.find((view) => view.id === activeViewId);
+
+  const openSaveDialog = () => {
+    setName("");
+    setIsShared(false);
+    setIsDefault(false);
+    setSaveDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const state = getViewState();
+    try {
+      const view = await createMutation.mutateAsync({
+        table: tableId,
+        name: name.trim(),
+        filters: state.filters,
+        column_visibility: state.column_visibility,
+        is_shared: isShared,
+        is_default: isDefault,
+      });
+      onApplyView(view);
+      setSaveDialogOpen(false);
+    } catch (error) {
+      console.error("Failed to save view:", error);
+    }
+  };
+
+  const handleUpdate = () => {
+    if (!selectedView) return;
+    const state = getViewState();
+    updateMutation.mutate({
+      id: selectedView.id,
+      data: {
+        filters: state.filters,
+        column_visibility: state.column_visibility,
+      },
+    });
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!selectedView) return;
+    try {
+      await deleteMutation.mutateAsync(selectedView);
+      onApplyView({ ...selectedView, id: undefined });
+      setDeleteDialogOpen(false);
+    } catch (error) {
+      console.error("Failed to delete view:", error);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success("Link copied to clipboard");
+    } catch {
+      toast.error("Failed to copy link");
+    }
+  };
+
+  const renderViewItem = (view: TableView) => (
+    <DropdownMenuItem key={view.id} onSelect={() => onApplyView(view)}>
+      <Check
+        className={
+          view.id === activeViewId ? "h-4 w-4" : "h-4 w-4 opacity-0"
+        }
+      />
+      <span className="flex-1 truncate">{view.name}</span>
+      {view.is_default && (
+        <Star className="h-3 w-3 fill-current text-amber-500" />
+      )}
+      {!view.is_owner && view.user && (
+        <span className="text-xs text-muted-foreground truncate max-w-24">
+          {view.user.name}
+        </span>
+      )}
+    </DropdownMenuItem>
+  );
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <Bookmark className="h-4 w-4 mr-2" />
+            <span className="max-w-32 truncate">
+              {selectedView?.name || "Views"}
+            </span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>My Views</DropdownMenuLabel>
+          {myViews.length > 0 ? (
+            myViews.map(renderViewItem)
+          ) : (
+            <DropdownMenuItem disabled>No saved views yet</DropdownMenuItem>
+          )}
+
+          {sharedViews.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="flex items-center gap-2">
+                <Users className="h-3 w-3" />
+                Shared Views
+              </DropdownMenuLabel>
+              {sharedViews.map(renderViewItem)}
+            </>
+          )}
+
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={openSaveDialog}>
+            <Plus className="h-4 w-4" />
+            Save current view...
+          </DropdownMenuItem>
+          {selectedView?.is_owner && (
+            <>
+              <DropdownMenuItem onSelect={handleUpdate}>
+                <Save className="h-4 w-4" />
+                Update &quot;{selectedView.name}&quot;
+              </DropdownMenuItem>
+              {!selectedView.is_default && (
+                <DropdownMenuItem
+                  onSelect={() => setDefaultMutation.mutate(selectedView.id)}
+                >
+                  <Star className="h-4 w-4" />
+                  Set as default
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem
+                variant="destructive"
+                onSelect={() => setDeleteDialogOpen(true)}
+              >
+                <Trash2 className="h-4 w-4" />
+                Delete view
+              </DropdownMenuItem>
+            </>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={handleCopyLink}>
+            <Link2 className="h-4 w-4" />
+            Copy link
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => onApplyView(EMPTY_VIEW)}>
+            <RotateCcw className="h-4 w-4" />
+            Reset to defaults
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>
+              Saves the current search, filters, sorting and visible columns.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-1.5">
+              <Label htmlFor={`${tableId}-view-name`}>Name</Label>
+              <Input
+                id={`${tableId}-view-name`}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Inactive admins"
+                maxLength={100}
+                autoFocus
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor={`${tableId}-view-shared`}>
+                Share with everyone
+              </Label>
+              <Switch
+                id={`${tableId}-view-shared`}
+                checked={isShared}
+                onCheckedChange={setIsShared}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor={`${tableId}-view-default`}>
+                Use as my default view
+              </Label>
+              <Switch
+                id={`${tableId}-view-default`}
+                checked={isDefault}
+                onCheckedChange={setIsDefault}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setSaveDialogOpen(false)}
+              disabled={createMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!name.trim() || createMutation.isPending}
+            >
+              {createMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Save View
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete View</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete &quot;{selectedView?.name}&quot;?
+              {selectedView?.is_shared &&
+                " It will also disappear for everyone it was shared with."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteMutation.isPending}>
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDeleteConfirm();
+              }}
+              disabled={deleteMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
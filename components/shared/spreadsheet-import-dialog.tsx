@@ -0,0 +1,341 @@
+"use client";
+
+import * as React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertCircle, Download, FileSpreadsheet, Loader2 } from "lucide-react";
+import {
+  ImportColumnMapping,
+  ImportPreviewTable,
+  ImportProgress,
+  ImportStepIndicator,
+  SpreadsheetDropzone,
+  getMissingRequiredFields,
+  type ImportPreviewColumn,
+} from "@/components/shared/spreadsheet-import";
+import {
+  buildImportErrorReport,
+  guessImportMapping,
+  type ImportFieldDef,
+  type ImportMapping,
+  type ImportProgressHandler,
+  type ImportResult,
+  type ImportRow,
+} from "@/lib/import";
+import type { SpreadsheetData } from "@/lib/spreadsheet";
+import { downloadFile } from "@/lib/export";
+
+const STEPS = [
+  { id: 1, title: "Upload" },
+  { id: 2, title: "Map Columns" },
+  { id: 3, title: "Validate" },
+  { id: 4, title: "Import" },
+] as const;
+
+interface SpreadsheetImportDialogProps<K extends string, T, TRow extends ImportRow<T>> {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  /** Plural entity name used in labels and the error report file name */
+  entityLabel: string;
+  fields: ImportFieldDef<K>[];
+  /** Must be memoized by the caller; rebuilt whenever its lookups change */
+  buildRows: (data: SpreadsheetData, mapping: ImportMapping<K>) => TRow[];
+  previewColumns: ImportPreviewColumn<T>[];
+  onImport: (variables: {
+    rows: TRow[];
+    onProgress: ImportProgressHandler;
+  }) => Promise<ImportResult<T, unknown>>;
+  isImporting: boolean;
+  /** Extra hint shown on the validation step */
+  validationHint?: React.ReactNode;
+  /** Whether the lookups `buildRows` resolves codes against have loaded */
+  lookupsReady?: boolean;
+  lookupsFailed?: boolean;
+  onRetryLookups?: () => void;
+}
+
+/**
+ * Generic Upload -> Map -> Validate -> Import wizard
+ */
+export function SpreadsheetImportDialog<K extends string, T, TRow extends ImportRow<T>>({
+  open,
+  onOpenChange,
+  title,
+  description,
+  entityLabel,
+  fields,
+  buildRows,
+  previewColumns,
+  onImport,
+  isImporting,
+  validationHint,
+  lookupsReady = true,
+  lookupsFailed = false,
+  onRetryLookups,
+}: SpreadsheetImportDialogProps<K, T, TRow>) {
+  const [step, setStep] = React.useState(1);
+  const [fileName, setFileName] = React.useState("");
+  const [sheet, setSheet] = React.useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = React.useState<ImportMapping<K>>({});
+  const [showErrorsOnly, setShowErrorsOnly] = React.useState(false);
+  const [progress, setProgress] = React.useState({ processed: 0, total: 0 });
+  const [result, setResult] = React.useState<ImportResult<T, unknown> | null>(
+    null
+  );
+
+  const rows = React.useMemo(
+    () => (sheet ? buildRows(sheet, mapping) : []),
+    [sheet, mapping, buildRows]
+  );
+
+  const validRows = rows.filter((row) => row.errors.length === 0);
+  const invalidRows = rows.filter((row) => row.errors.length > 0);
+  const missingRequired = getMissingRequiredFields(fields, mapping);
+
+  const handleLoaded = (data: SpreadsheetData, name: string) => {
+    setFileName(name);
+    setSheet(data);
+    setMapping(guessImportMapping(fields, data.headers));
+    setStep(2);
+  };
+
+  const reset = () => {
+    setStep(1);
+    setFileName("");
+    setSheet(null);
+    setMapping({});
+    setShowErrorsOnly(false);
+    setProgress({ processed: 0, total: 0 });
+    setResult(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (isImporting) return;
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleImport = async () => {
+    setStep(4);
+    setProgress({ processed: 0, total: validRows.length });
+    try {
+      const importResult = await onImport({
+        rows: validRows,
+        onProgress: (processed, total) => setProgress({ processed, total }),
+      });
+      setResult(importResult);
+    } catch (error) {
+      console.error(`Failed to import ${entityLabel}:`, error);
+      setStep(3);
+    }
+  };
+
+  const handleDownloadErrors = () => {
+    if (!sheet) return;
+    const failures = [
+      ...invalidRows,
+      ...(result?.failed || []).map(({ row, message }) => ({
+        ...row,
+        errors: [message],
+      })),
+    ].sort((a, b) => a.rowNumber - b.rowNumber);
+
+    downloadFile(
+      buildImportErrorReport(sheet.headers, failures),
+      `${entityLabel}-import-errors-${new Date().toISOString().split("T")[0]}.csv`,
+      "text/csv;charset=utf-8"
+    );
+  };
+
+  const errorCount = invalidRows.length + (result?.failed.length || 0);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <ImportStepIndicator steps={STEPS} current={step} />
+
+        {/* Step 1: Upload */}
+        {step === 1 && <SpreadsheetDropzone onLoaded={handleLoaded} />}
+
+        {/* Step 2: Column mapping */}
+        {step === 2 && sheet && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <FileSpreadsheet className="h-4 w-4" />
+              <span>
+                {fileName} · {sheet.rows.length} rows
+              </span>
+            </div>
+
+            <ScrollArea className="h-[360px] pr-4">
+              <ImportColumnMapping
+                fields={fields}
+                headers={sheet.headers}
+                mapping={mapping}
+                onChange={setMapping}
+              />
+            </ScrollArea>
+
+            {missingRequired.length > 0 && (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                Map the required fields:{" "}
+                {missingRequired.map((field) => field.label).join(", ")}
+              </div>
+            )}
+
+            {lookupsFailed ? (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                Existing records could not be loaded to check the codes against.
+                {onRetryLookups && (
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0"
+                    onClick={onRetryLookups}
+                  >
+                    Retry
+                  </Button>
+                )}
+              </div>
+            ) : (
+              !lookupsReady && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading existing records to check the codes against...
+                </div>
+              )
+            )}
+          </div>
+        )}
+
+        {/* Step 3: Validation preview */}
+        {step === 3 && sheet && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-sm">
+                <Badge variant="default">{validRows.length} valid</Badge>
+                <Badge
+                  variant={invalidRows.length ? "destructive" : "secondary"}
+                >
+                  {invalidRows.length} with errors
+                </Badge>
+              </div>
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`${entityLabel}-import-errors-only`}
+                    checked={showErrorsOnly}
+                    onCheckedChange={setShowErrorsOnly}
+                  />
+                  <Label
+                    htmlFor={`${entityLabel}-import-errors-only`}
+                    className="text-sm"
+                  >
+                    Errors only
+                  </Label>
+                </div>
+                {invalidRows.length > 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleDownloadErrors}
+                  >
+                    <Download className="mr-2 h-4 w-4" />
+                    Error Report
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {validationHint && (
+              <p className="text-sm text-muted-foreground">{validationHint}</p>
+            )}
+
+            <ImportPreviewTable
+              rows={showErrorsOnly ? invalidRows : rows}
+              columns={previewColumns}
+            />
+          </div>
+        )}
+
+        {/* Step 4: Import progress / summary */}
+        {step === 4 && (
+          <ImportProgress
+            processed={progress.processed}
+            total={progress.total}
+            finished={!!result}
+            label={entityLabel}
+            stats={[
+              { label: "Created", value: result?.created.length || 0 },
+              { label: "Failed", value: result?.failed.length || 0 },
+              { label: "Skipped (invalid)", value: invalidRows.length },
+            ]}
+          />
+        )}
+
+        <DialogFooter>
+          {step === 2 && (
+            <>
+              <Button variant="outline" onClick={() => setStep(1)}>
+                Back
+              </Button>
+              <Button
+                onClick={() => setStep(3)}
+                disabled={missingRequired.length > 0 || !lookupsReady}
+              >
+                Validate
+              </Button>
+            </>
+          )}
+          {step === 3 && (
+            <>
+              <Button variant="outline" onClick={() => setStep(2)}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={validRows.length === 0}>
+                Import {validRows.length} Rows
+              </Button>
+            </>
+          )}
+          {step === 4 && (
+            <>
+              {result && errorCount > 0 && (
+                <Button variant="outline" onClick={handleDownloadErrors}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Error Report
+                </Button>
+              )}
+              <Button
+                onClick={() => handleOpenChange(false)}
+                disabled={isImporting}
+              >
+                {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isImporting ? "Importing..." : "Done"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,337 @@
+"use client";
+
+import * as React from "react";
+import { useDropzone } from "react-dropzone";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Label } from "@/components/ui/label";
+import {
+  AlertCircle,
+  ArrowRight,
+  Check,
+  CheckCircle2,
+  Loader2,
+  Upload,
+} from "lucide-react";
+import {
+  readSpreadsheet,
+  SPREADSHEET_ACCEPT,
+  type SpreadsheetData,
+} from "@/lib/spreadsheet";
+import type { ImportFieldDef, ImportMapping, ImportRow } from "@/lib/import";
+import { cn } from "@/lib/utils";
+
+/**
+ * Building blocks shared by the bulk import wizards
+ * (users, departments, positions, teams).
+ */
+
+export const SKIP_COLUMN = "__skip__";
+const PREVIEW_LIMIT = 200;
+
+// ============================================================================
+// Step indicator
+// ============================================================================
+
+interface ImportStepIndicatorProps {
+  steps: readonly { id: number; title: string }[];
+  current: number;
+}
+
+export function ImportStepIndicator({ steps, current }: ImportStepIndicatorProps) {
+  return (
+    <ol className="flex items-center gap-2 text-sm">
+      {steps.map((s, index) => (
+        <li key={s.id} className="flex items-center gap-2">
+          <span
+            className={cn(
+              "flex h-6 w-6 items-center justify-center rounded-full border text-xs",
+              current > s.id && "bg-primary text-primary-foreground border-primary",
+              current === s.id && "border-primary text-primary"
+            )}
+          >
+            {current > s.id ? <Check className="h-3 w-3" /> : s.id}
+          </span>
+          <span
+            className={cn(current === s.id ? "font-medium" : "text-muted-foreground")}
+          >
+            {s.title}
+          </span>
+          {index < steps.length - 1 && (
+            <ArrowRight className="h-3 w-3 text-muted-foreground" />
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+// ============================================================================
+// File upload
+// ============================================================================
+
+interface SpreadsheetDropzoneProps {
+  onLoaded: (data: SpreadsheetData, fileName: string) => void;
+}
+
+export function SpreadsheetDropzone({ onLoaded }: SpreadsheetDropzoneProps) {
+  const [isParsing, setIsParsing] = React.useState(false);
+  const [parseError, setParseError] = React.useState<string | null>(null);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    accept: SPREADSHEET_ACCEPT,
+    maxFiles: 1,
+    multiple: false,
+    onDrop: async (files) => {
+      const file = files[0];
+      if (!file) return;
+
+      setIsParsing(true);
+      setParseError(null);
+      try {
+        const data = await readSpreadsheet(file);
+        if (data.rows.length === 0) {
+          setParseError("The file has no data rows.");
+          return;
+        }
+        onLoaded(data, file.name);
+      } catch (error) {
+        setParseError(
+          error instanceof Error ? error.message : "Failed to read the file."
+        );
+      } finally {
+        setIsParsing(false);
+      }
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div
+        {...getRootProps()}
+        className={cn(
+          "flex flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed p-10 text-center cursor-pointer transition-colors",
+          isDragActive
+            ? "border-primary bg-primary/5"
+            : "border-border hover:border-primary/50"
+        )}
+      >
+        <input {...getInputProps()} />
+        {isParsing ? (
+          <Loader2 className="h-10 w-10 animate-spin text-muted-foreground" />
+        ) : (
+          <Upload className="h-10 w-10 text-muted-foreground" />
+        )}
+        <div>
+          <p className="font-medium">
+            {isDragActive
+              ? "Drop the file here"
+              : "Drag & drop a file, or click to browse"}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            CSV or XLSX. The first row must contain column headers.
+          </p>
+        </div>
+      </div>
+      {parseError && (
+        <div className="flex items-center gap-2 text-sm text-destructive">
+          <AlertCircle className="h-4 w-4" />
+          {parseError}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Column mapping
+// ============================================================================
+
+interface ImportColumnMappingProps<K extends string> {
+  fields: ImportFieldDef<K>[];
+  headers: string[];
+  mapping: ImportMapping<K>;
+  onChange: (mapping: ImportMapping<K>) => void;
+}
+
+export function ImportColumnMapping<K extends string>({
+  fields,
+  headers,
+  mapping,
+  onChange,
+}: ImportColumnMappingProps<K>) {
+  return (
+    <div className="grid gap-3 md:grid-cols-2">
+      {fields.map((field) => (
+        <div key={field.key} className="space-y-1.5">
+          <Label>
+            {field.label}
+            {field.required && " *"}
+          </Label>
+          <Select
+            value={mapping[field.key] || SKIP_COLUMN}
+            onValueChange={(value) =>
+              onChange({
+                ...mapping,
+                [field.key]: value === SKIP_COLUMN ? undefined : value,
+              })
+            }
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={SKIP_COLUMN}>— Skip —</SelectItem>
+              {headers.map((header) => (
+                <SelectItem key={header} value={header}>
+                  {header}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {field.description && (
+            <p className="text-xs text-muted-foreground">{field.description}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Required fields that have no source column yet
+ */
+export function getMissingRequiredFields<K extends string>(
+  fields: ImportFieldDef<K>[],
+  mapping: ImportMapping<K>
+) {
+  return fields.filter((field) => field.required && !mapping[field.key]);
+}
+
+// ============================================================================
+// Validation preview
+// ============================================================================
+
+export interface ImportPreviewColumn<T> {
+  header: string;
+  cell: (row: ImportRow<T>) => React.ReactNode;
+}
+
+interface ImportPreviewTableProps<T> {
+  rows: ImportRow<T>[];
+  columns: ImportPreviewColumn<T>[];
+}
+
+export function ImportPreviewTable<T>({ rows, columns }: ImportPreviewTableProps<T>) {
+  return (
+    <>
+      <div className="h-[360px] overflow-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-16">Row</TableHead>
+              {columns.map((column) => (
+                <TableHead key={column.header}>{column.header}</TableHead>
+              ))}
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.slice(0, PREVIEW_LIMIT).map((row) => (
+              <TableRow key={row.rowNumber}>
+                <TableCell className="font-mono text-xs">{row.rowNumber}</TableCell>
+                {columns.map((column) => (
+                  <TableCell key={column.header}>{column.cell(row)}</TableCell>
+                ))}
+                <TableCell>
+                  {row.errors.length === 0 ? (
+                    <span className="flex items-center gap-1 text-sm text-green-600">
+                      <CheckCircle2 className="h-4 w-4" />
+                      Valid
+                    </span>
+                  ) : (
+                    <ul className="space-y-0.5 text-xs text-destructive">
+                      {row.errors.map((error, index) => (
+                        <li key={index}>{error}</li>
+                      ))}
+                    </ul>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {rows.length > PREVIEW_LIMIT && (
+        <p className="text-xs text-muted-foreground">
+          Showing the first {PREVIEW_LIMIT} of {rows.length} rows.
+        </p>
+      )}
+    </>
+  );
+}
+
+// ============================================================================
+// Progress / summary
+// ============================================================================
+
+interface ImportProgressProps {
+  processed: number;
+  total: number;
+  finished: boolean;
+  label: string;
+  stats?: { label: string; value: number }[];
+}
+
+export function ImportProgress({
+  processed,
+  total,
+  finished,
+  label,
+  stats,
+}: ImportProgressProps) {
+  const percent = total ? Math.round((processed / total) * 100) : 0;
+
+  return (
+    <div className="space-y-4 py-4">
+      <div className="flex items-center justify-between text-sm">
+        <span>
+          {finished
+            ? "Import finished"
+            : `Importing ${processed} of ${total} ${label}...`}
+        </span>
+        <span className="font-medium">{percent}%</span>
+      </div>
+      <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+        <div
+          className="h-full bg-primary transition-all"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+
+      {finished && stats && (
+        <div className="grid gap-3 sm:grid-cols-3">
+          {stats.map((stat) => (
+            <div key={stat.label} className="rounded-lg border p-4">
+              <p className="text-sm text-muted-foreground">{stat.label}</p>
+              <p className="text-2xl font-semibold">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
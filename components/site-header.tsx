@@ -1,30 +1,89 @@
+"use client"
+
+import { Loader2, Search, UserRoundCog } from "lucide-react"
+import { useSession } from "next-auth/react"
+import { NotificationCenter } from "@/components/notification-center"
 import { Button } from "@/components/ui/button"
 import { Separator } from "@/components/ui/separator"
 import { SidebarTrigger } from "@/components/ui/sidebar"
+import { useImpersonation } from "@/lib/hooks/use-impersonation"
+import { useCommandStore } from "@/lib/store/command-store"
+
+// Stays on every dashboard page until the admin switches back
+function ImpersonationBanner() {
+  const { data: session } = useSession()
+  const { impersonator, stopImpersonating, isStopping } = useImpersonation()
+
+  if (!impersonator) return null
+
+  return (
+    <div
+      role="status"
+      className="flex flex-wrap items-center justify-between gap-2 border-b border-amber-300 bg-amber-50 px-4 py-2 text-sm text-amber-900 lg:px-6 dark:border-amber-800 dark:bg-amber-950 dark:text-amber-100"
+    >
+      <div className="flex items-center gap-2">
+        <UserRoundCog className="h-4 w-4 shrink-0" />
+        <span>
+          Viewing as{" "}
+          <strong>{session?.user?.name || session?.user?.email}</strong>.
+          Changes to their account are disabled.
+        </span>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-7 border-amber-400 bg-transparent hover:bg-amber-100 dark:border-amber-700 dark:hover:bg-amber-900"
+        onClick={stopImpersonating}
+        disabled={isStopping}
+      >
+        {isStopping && <Loader2 className="h-4 w-4 animate-spin" />}
+        Stop impersonating
+      </Button>
+    </div>
+  )
+}
 
 export function SiteHeader() {
+  const openCommandPalette = useCommandStore((state) => state.setOpen)
+
   return (
-    <header className="flex h-(--header-height) shrink-0 items-center gap-2 border-b transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-(--header-height)">
-      <div className="flex w-full items-center gap-1 px-4 lg:gap-2 lg:px-6">
-        <SidebarTrigger className="-ml-1" />
-        <Separator
-          orientation="vertical"
-          className="mx-2 data-[orientation=vertical]:h-4"
-        />
-        <h1 className="text-base font-medium">Documents</h1>
-        <div className="ml-auto flex items-center gap-2">
-          <Button variant="ghost" asChild size="sm" className="hidden sm:flex">
-            <a
-              href="https://github.com/shadcn-ui/ui/tree/main/apps/v4/app/(examples)/dashboard"
-              rel="noopener noreferrer"
-              target="_blank"
-              className="dark:text-foreground"
+    <>
+      <ImpersonationBanner />
+      <header className="flex h-(--header-height) shrink-0 items-center gap-2 border-b transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-(--header-height)">
+        <div className="flex w-full items-center gap-1 px-4 lg:gap-2 lg:px-6">
+          <SidebarTrigger className="-ml-1" />
+          <Separator
+            orientation="vertical"
+            className="mx-2 data-[orientation=vertical]:h-4"
+          />
+          <h1 className="text-base font-medium">Documents</h1>
+          <div className="ml-auto flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-muted-foreground w-9 px-0 sm:w-56 sm:justify-start sm:px-3"
+              onClick={() => openCommandPalette(true)}
             >
-              GitHub
-            </a>
-          </Button>
+              <Search className="h-4 w-4" />
+              <span className="hidden sm:inline">Search...</span>
+              <kbd className="bg-muted pointer-events-none ml-auto hidden rounded border px-1.5 font-mono text-[10px] font-medium sm:inline">
+                ⌘K
+              </kbd>
+            </Button>
+            <NotificationCenter />
+            <Button variant="ghost" asChild size="sm" className="hidden sm:flex">
+              <a
+                href="https://github.com/shadcn-ui/ui/tree/main/apps/v4/app/(examples)/dashboard"
+                rel="noopener noreferrer"
+                target="_blank"
+                className="dark:text-foreground"
+              >
+                GitHub
+              </a>
+            </Button>
+          </div>
         </div>
-      </div>
-    </header>
+      </header>
+    </>
   )
 }
@@ -0,0 +1,135 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Building, Briefcase, Clock, UserCheck } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { useUserAssignmentHistory } from "@/hooks/use-hrm-assignments";
+import {
+  formatTenure,
+  formatTransferReason,
+  getReasonBadgeVariant,
+  isCurrentStint,
+} from "@/lib/assignment-history";
+import { cn } from "@/lib/utils";
+
+interface CareerHistoryTabProps {
+  userId: string;
+}
+
+export function CareerHistoryTab({ userId }: CareerHistoryTabProps) {
+  const { data: history = [], isLoading } = useUserAssignmentHistory(
+    Number(userId)
+  );
+
+  // Most recent stint first
+  const stints = [...history].sort(
+    (a, b) =>
+      parseISO(b.effective_date).getTime() - parseISO(a.effective_date).getTime()
+  );
+
+  const firstStart = stints.length
+    ? stints[stints.length - 1].effective_date
+    : null;
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-24 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle className="text-base">Career History</CardTitle>
+            {firstStart && (
+              <div className="text-sm text-muted-foreground">
+                Total tenure:{" "}
+                <span className="font-medium text-foreground">
+                  {formatTenure(firstStart)}
+                </span>
+              </div>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {stints.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No assignment history recorded for this user.
+            </div>
+          ) : (
+            <ol className="relative ml-3 border-l">
+              {stints.map((stint) => {
+                const current = isCurrentStint(stint);
+                return (
+                  <li key={stint.id} className="mb-8 ml-6 last:mb-0">
+                    <span
+                      className={cn(
+                        "absolute -left-[7px] mt-1.5 h-3.5 w-3.5 rounded-full border-2 border-background",
+                        current ? "bg-primary" : "bg-muted-foreground/40"
+                      )}
+                    />
+
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-medium">
+                        {format(parseISO(stint.effective_date), "dd MMM yyyy")}
+                        {" – "}
+                        {stint.end_date
+                          ? format(parseISO(stint.end_date), "dd MMM yyyy")
+                          : "Present"}
+                      </span>
+                      <Badge variant={getReasonBadgeVariant(stint.reason)}>
+                        {formatTransferReason(stint.reason)}
+                      </Badge>
+                      {current && <Badge variant="outline">Current</Badge>}
+                    </div>
+
+                    <div className="mt-2 grid gap-1 text-sm">
+                      <div className="flex items-center gap-2">
+                        <Building className="h-4 w-4 text-muted-foreground" />
+                        <span>{stint.department?.name || "-"}</span>
+                        {stint.department?.code && (
+                          <span className="font-mono text-xs text-muted-foreground">
+                            {stint.department.code}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Briefcase className="h-4 w-4 text-muted-foreground" />
+                        <span>{stint.position?.name || "No position"}</span>
+                        {stint.position?.level && (
+                          <span className="text-xs text-muted-foreground">
+                            {stint.position.level}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 text-muted-foreground">
+                        <Clock className="h-4 w-4" />
+                        <span>
+                          {formatTenure(stint.effective_date, stint.end_date)}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-2 text-muted-foreground">
+                        <UserCheck className="h-4 w-4" />
+                        <span>
+                          Recorded by {stint.creator?.name || "System"}
+                        </span>
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+"use client";
+
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Laptop,
+  LogOut,
+  MonitorSmartphone,
+  Smartphone,
+  Tablet,
+} from "lucide-react";
+import { ErrorState } from "@/components/error-boundary";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useImpersonation } from "@/lib/hooks/use-impersonation";
+import {
+  useRevokeAllSessions,
+  useRevokeOtherSessions,
+  useRevokeSession,
+  useUserSessions,
+} from "@/lib/hooks/use-user-sessions";
+import type { UserSession } from "@/types/user";
+
+interface SessionsCardProps {
+  userId: string;
+  isOwnAccount: boolean;
+}
+
+type PendingAction = "others" | "all" | null;
+
+function DeviceIcon({ type }: { type: UserSession["device_type"] }) {
+  const Icon =
+    type === "mobile" ? Smartphone : type === "tablet" ? Tablet : Laptop;
+  return <Icon className="h-5 w-5 text-muted-foreground" />;
+}
+
+export function SessionsCard({ userId, isOwnAccount }: SessionsCardProps) {
+  const { hasAnyRole } = usePermissions();
+  const isAdmin = hasAnyRole(["Super Admin", "Admin"]);
+  const canView = isOwnAccount || isAdmin;
+  // Signing devices out would end the real user's sessions
+  const { isImpersonating } = useImpersonation();
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+
+  const { data: sessions = [], isLoading, error, refetch } = useUserSessions(
+    userId,
+    canView
+  );
+  const revokeMutation = useRevokeSession(userId);
+  const revokeOthersMutation = useRevokeOtherSessions(userId);
+  const revokeAllMutation = useRevokeAllSessions(userId);
+
+  if (!canView) return null;
+
+  const hasOtherSessions = sessions.some((session) => !session.is_current);
+
+  const handleConfirm = () => {
+    const mutation =
+      pendingAction === "all" ? revokeAllMutation : revokeOthersMutation;
+    mutation.mutate(undefined, { onSettled: () => setPendingAction(null) });
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <MonitorSmartphone className="h-5 w-5 text-primary" />
+              <CardTitle>Sessions &amp; Devices</CardTitle>
+            </div>
+            <div className="flex gap-2">
+              {isOwnAccount ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPendingAction("others")}
+                  disabled={!hasOtherSessions || isImpersonating}
+                >
+                  <LogOut className="mr-2 h-4 w-4" />
+                  Sign out other sessions
+                </Button>
+              ) : (
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => setPendingAction("all")}
+                  disabled={sessions.length === 0 || isImpersonating}
+                >
+                  <LogOut className="mr-2 h-4 w-4" />
+                  Force sign-out everywhere
+                </Button>
+              )}
+            </div>
+          </div>
+          <CardDescription>
+            {isOwnAccount
+              ? "Devices currently signed in to your account"
+              : "Devices currently signed in to this account"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 3 }).map((_, index) => (
+                <Skeleton key={index} className="h-14 w-full" />
+              ))}
+            </div>
+          ) : error ? (
+            <ErrorState
+              title="Failed to load sessions"
+              error={error}
+              onRetry={() => refetch()}
+            />
+          ) : sessions.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              No active sessions
+            </p>
+          ) : (
+            <div className="divide-y rounded-md border">
+              {sessions.map((session) => (
+                <div
+                  key={session.id}
+                  className="flex items-center gap-4 px-4 py-3"
+                >
+                  <DeviceIcon type={session.device_type} />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <p className="truncate text-sm font-medium">
+                        {session.device || "Unknown device"}
+                      </p>
+                      {session.is_current && (
+                        <Badge variant="secondary">This device</Badge>
+                      )}
+                    </div>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {[session.ip_address, session.location]
+                        .filter(Boolean)
+                        .join(" · ") || "Unknown location"}
+                      {" · "}
+                      {session.last_active_at
+                        ? `Active ${formatDistanceToNow(
+                            new Date(session.last_active_at),
+                            { addSuffix: true }
+                          )}`
+                        : `Signed in ${formatDistanceToNow(
+                            new Date(session.created_at),
+                            { addSuffix: true }
+                          )}`}
+                    </p>
+                  </div>
+                  {!session.is_current && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(session.id)}
+                      disabled={
+                        isImpersonating ||
+                        (revokeMutation.isPending &&
+                          revokeMutation.variables === session.id)
+                      }
+                    >
+                      Revoke
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog
+        open={!!pendingAction}
+        onOpenChange={(open) => !open && setPendingAction(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction === "all"
+                ? "Force sign-out everywhere?"
+                : "Sign out other sessions?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction === "all"
+                ? "Every active session for this user will be revoked. They will need to sign in again on all devices."
+                : "Every device except this one will be signed out of your account."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-white hover:bg-destructive/90"
+              disabled={
+                revokeOthersMutation.isPending || revokeAllMutation.isPending
+              }
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirm();
+              }}
+            >
+              Sign out
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
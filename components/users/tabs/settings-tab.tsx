@@ -16,9 +16,16 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Lock, Eye, EyeOff, Check, X } from "lucide-react";
 import { useChangePassword } from "@/lib/hooks/use-user-password";
+import { useImpersonation } from "@/lib/hooks/use-impersonation";
+import { IMPERSONATION_BLOCKED_MESSAGE } from "@/lib/impersonation";
+import { TwoFactorCard } from "./two-factor-card";
+import { SessionsCard } from "./sessions-card";
 
 interface SettingsTabProps {
   userId: string;
+  email: string;
+  twoFactorEnabled: boolean;
+  isOwnAccount: boolean;
 }
 
 // Password validation schema
@@ -46,10 +53,16 @@ const passwordSchema = z
 
 type PasswordFormData = z.infer<typeof passwordSchema>;
 
-export function SettingsTab({ userId }: SettingsTabProps) {
+export function SettingsTab({
+  userId,
+  email,
+  twoFactorEnabled,
+  isOwnAccount,
+}: SettingsTabProps) {
   const [showCurrentPassword, setShowCurrentPassword] = useState(false);
   const [showNewPassword, setShowNewPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
+  const { isImpersonating } = useImpersonation();
 
   const {
     register,
@@ -246,14 +259,30 @@ export function SettingsTab({ userId }: SettingsTabProps) {
             )}
 
             {/* Submit Button */}
-            <div className="flex justify-end">
-              <Button type="submit" disabled={isSubmitting}>
+            <div className="flex items-center justify-end gap-4">
+              {isImpersonating && (
+                <p className="text-sm text-muted-foreground">
+                  {IMPERSONATION_BLOCKED_MESSAGE}
+                </p>
+              )}
+              <Button type="submit" disabled={isSubmitting || isImpersonating}>
                 {isSubmitting ? "Updating..." : "Update Password"}
               </Button>
             </div>
           </form>
         </CardContent>
       </Card>
+
+      {/* Two-Factor Authentication Section */}
+      <TwoFactorCard
+        userId={userId}
+        email={email}
+        enabled={twoFactorEnabled}
+        isOwnAccount={isOwnAccount}
+      />
+
+      {/* Sessions & Devices Section */}
+      <SessionsCard userId={userId} isOwnAccount={isOwnAccount} />
     </div>
   );
 }
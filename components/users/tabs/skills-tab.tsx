@@ -0,0 +1,216 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GraduationCap, Plus, Trash2 } from "lucide-react";
+import { SkillCombobox } from "@/components/hrm/skills/skill-combobox";
+import {
+  useAddUserSkill,
+  useRemoveUserSkill,
+  useUpdateUserSkill,
+  useUserSkills,
+} from "@/hooks/use-skills";
+import { compareProficiency } from "@/lib/skill-gap";
+import {
+  SKILL_PROFICIENCY_OPTIONS,
+  type Skill,
+  type SkillProficiency,
+} from "@/types/hrm";
+
+interface SkillsTabProps {
+  userId: string;
+  canEdit: boolean;
+}
+
+const PROFICIENCY_BADGES: Record<
+  SkillProficiency,
+  "default" | "secondary" | "outline"
+> = {
+  expert: "default",
+  advanced: "default",
+  intermediate: "secondary",
+  beginner: "outline",
+};
+
+const PROFICIENCY_LABELS = Object.fromEntries(
+  SKILL_PROFICIENCY_OPTIONS.map((option) => [option.value, option.label])
+) as Record<SkillProficiency, string>;
+
+export function SkillsTab({ userId, canEdit }: SkillsTabProps) {
+  const id = Number(userId);
+  const { data: userSkills = [], isLoading } = useUserSkills(id);
+  const addMutation = useAddUserSkill(id);
+  const updateMutation = useUpdateUserSkill(id);
+  const removeMutation = useRemoveUserSkill(id);
+
+  const [newSkill, setNewSkill] = useState<Skill | null>(null);
+  const [newProficiency, setNewProficiency] =
+    useState<SkillProficiency>("intermediate");
+
+  // Strongest skills first
+  const sorted = [...userSkills].sort(
+    (a, b) =>
+      compareProficiency(b.proficiency, a.proficiency) ||
+      (a.skill?.name || "").localeCompare(b.skill?.name || "")
+  );
+
+  const handleAdd = async () => {
+    if (!newSkill) return;
+    try {
+      await addMutation.mutateAsync({
+        skill_id: newSkill.id,
+        proficiency: newProficiency,
+      });
+      setNewSkill(null);
+    } catch (error) {
+      console.error("Failed to add skill:", error);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-12 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <GraduationCap className="h-4 w-4" />
+            Skills
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {canEdit && (
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+              {newSkill ? (
+                <div className="flex flex-1 items-center gap-2">
+                  <Badge variant="secondary" className="px-3 py-1 text-sm">
+                    {newSkill.name}
+                  </Badge>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setNewSkill(null)}
+                  >
+                    Change
+                  </Button>
+                </div>
+              ) : (
+                <SkillCombobox
+                  className="flex-1"
+                  onSelect={setNewSkill}
+                  exclude={userSkills.map((item) => item.skill?.name || "")}
+                  placeholder="Search the skills catalog..."
+                />
+              )}
+              <Select
+                value={newProficiency}
+                onValueChange={(value) =>
+                  setNewProficiency(value as SkillProficiency)
+                }
+              >
+                <SelectTrigger className="w-full sm:w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SKILL_PROFICIENCY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={handleAdd}
+                disabled={!newSkill || addMutation.isPending}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Skill
+              </Button>
+            </div>
+          )}
+
+          {sorted.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No skills recorded for this user.
+            </div>
+          ) : (
+            <div className="divide-y rounded-md border">
+              {sorted.map((item) => (
+                <div
+                  key={item.id}
+                  className="flex items-center justify-between gap-4 px-4 py-3"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium">{item.skill?.name}</p>
+                    {item.skill?.category && (
+                      <p className="text-xs text-muted-foreground">
+                        {item.skill.category}
+                      </p>
+                    )}
+                  </div>
+                  {canEdit ? (
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={item.proficiency}
+                        onValueChange={(value) =>
+                          updateMutation.mutate({
+                            skillId: item.skill_id,
+                            proficiency: value as SkillProficiency,
+                            yearsExperience: item.years_experience,
+                          })
+                        }
+                        disabled={updateMutation.isPending}
+                      >
+                        <SelectTrigger className="h-8 w-[150px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SKILL_PROFICIENCY_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeMutation.mutate(item.skill_id)}
+                        disabled={removeMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Remove skill</span>
+                      </Button>
+                    </div>
+                  ) : (
+                    <Badge variant={PROFICIENCY_BADGES[item.proficiency]}>
+                      {PROFICIENCY_LABELS[item.proficiency]}
+                    </Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { OTPInput } from "@/components/ui/otp-input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Copy, Download, KeyRound, RefreshCw, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import {
+  useConfirmTwoFactor,
+  useDisableTwoFactor,
+  useEnableTwoFactor,
+  useRegenerateRecoveryCodes,
+} from "@/lib/hooks/use-two-factor";
+import {
+  TOTP_CODE_LENGTH,
+  downloadRecoveryCodes,
+  formatTotpSecret,
+  toSvgDataUrl,
+} from "@/lib/two-factor";
+import { useImpersonation } from "@/lib/hooks/use-impersonation";
+import { IMPERSONATION_BLOCKED_MESSAGE } from "@/lib/impersonation";
+import type { TwoFactorSetup } from "@/types/user";
+
+interface TwoFactorCardProps {
+  userId: string;
+  email: string;
+  enabled: boolean;
+  /** Enrollment is only possible on the signed-in user's own account */
+  isOwnAccount: boolean;
+}
+
+export function TwoFactorCard({
+  userId,
+  email,
+  enabled,
+  isOwnAccount,
+}: TwoFactorCardProps) {
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [setupCode, setSetupCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [disableOpen, setDisableOpen] = useState(false);
+  const [disableCode, setDisableCode] = useState("");
+  const { isImpersonating } = useImpersonation();
+
+  const enableMutation = useEnableTwoFactor();
+  const confirmMutation = useConfirmTwoFactor();
+  const regenerateMutation = useRegenerateRecoveryCodes();
+  const disableMutation = useDisableTwoFactor();
+
+  const handleEnable = () => {
+    enableMutation.mutate(userId, {
+      onSuccess: (data) => {
+        setSetup(data);
+        setSetupCode("");
+      },
+    });
+  };
+
+  const handleConfirm = () => {
+    confirmMutation.mutate(
+      { userId, code: setupCode },
+      {
+        onSuccess: (data) => {
+          setSetup(null);
+          setRecoveryCodes(data.recovery_codes);
+        },
+      }
+    );
+  };
+
+  const handleRegenerate = () => {
+    regenerateMutation.mutate(userId, {
+      onSuccess: (data) => setRecoveryCodes(data.recovery_codes),
+    });
+  };
+
+  const handleDisable = () => {
+    disableMutation.mutate(
+      { userId, code: disableCode },
+      {
+        onSuccess: () => {
+          setDisableOpen(false);
+          setDisableCode("");
+        },
+      }
+    );
+  };
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast.success("Recovery codes copied");
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            <CardTitle>Two-Factor Authentication</CardTitle>
+            <Badge variant={enabled ? "default" : "secondary"}>
+              {enabled ? "Enabled" : "Disabled"}
+            </Badge>
+          </div>
+          <CardDescription>
+            Require a code from an authenticator app in addition to the
+            password when signing in
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isImpersonating ? (
+            <p className="text-sm text-muted-foreground">
+              {IMPERSONATION_BLOCKED_MESSAGE}.
+            </p>
+          ) : !isOwnAccount ? (
+            <p className="text-sm text-muted-foreground">
+              {enabled
+                ? "This user signs in with an authenticator app. Administrators can reset it from the user table if the device is lost."
+                : "Only the account owner can enable two-factor authentication."}
+            </p>
+          ) : setup ? (
+            <div className="space-y-4">
+              <div className="grid gap-6 sm:grid-cols-[auto_1fr]">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={toSvgDataUrl(setup.qr_code_svg)}
+                  alt="Two-factor QR code"
+                  className="h-44 w-44 rounded-md border bg-white p-2"
+                />
+                <div className="space-y-3 text-sm">
+                  <p>
+                    1. Scan the QR code with Google Authenticator, 1Password,
+                    Authy or another authenticator app.
+                  </p>
+                  <div className="space-y-1">
+                    <p className="text-muted-foreground">
+                      Can&apos;t scan it? Enter this key instead:
+                    </p>
+                    <code className="block rounded bg-muted px-2 py-1 font-mono text-xs break-all">
+                      {formatTotpSecret(setup.secret)}
+                    </code>
+                  </div>
+                  <p>2. Enter the 6-digit code the app shows.</p>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label className="block">Authentication code</Label>
+                <OTPInput
+                  length={TOTP_CODE_LENGTH}
+                  value={setupCode}
+                  onChange={setSetupCode}
+                  disabled={confirmMutation.isPending}
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setSetup(null)}
+                  disabled={confirmMutation.isPending}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleConfirm}
+                  disabled={
+                    confirmMutation.isPending ||
+                    setupCode.length !== TOTP_CODE_LENGTH
+                  }
+                >
+                  {confirmMutation.isPending ? "Verifying..." : "Confirm & Enable"}
+                </Button>
+              </div>
+            </div>
+          ) : enabled ? (
+            <div className="flex flex-wrap justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={handleRegenerate}
+                disabled={regenerateMutation.isPending}
+              >
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Regenerate Recovery Codes
+              </Button>
+              <Button variant="destructive" onClick={() => setDisableOpen(true)}>
+                Disable
+              </Button>
+            </div>
+          ) : (
+            <div className="flex justify-end">
+              <Button onClick={handleEnable} disabled={enableMutation.isPending}>
+                <KeyRound className="mr-2 h-4 w-4" />
+                {enableMutation.isPending ? "Preparing..." : "Enable Two-Factor"}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Recovery codes are only shown once */}
+      <Dialog
+        open={!!recoveryCodes}
+        onOpenChange={(open) => !open && setRecoveryCodes(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save your recovery codes</DialogTitle>
+            <DialogDescription>
+              Each code signs you in once if you lose access to your
+              authenticator app. They won&apos;t be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted/50 p-4 font-mono text-sm">
+            {recoveryCodes?.map((code) => (
+              <span key={code}>{code}</span>
+            ))}
+          </div>
+          <DialogFooter className="gap-2 sm:justify-between">
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={copyRecoveryCodes}>
+                <Copy className="mr-2 h-4 w-4" />
+                Copy
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  recoveryCodes && downloadRecoveryCodes(recoveryCodes, email)
+                }
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Download
+              </Button>
+            </div>
+            <Button onClick={() => setRecoveryCodes(null)}>
+              I&apos;ve saved them
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={disableOpen}
+        onOpenChange={(open) => {
+          setDisableOpen(open);
+          if (!open) setDisableCode("");
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Disable two-factor authentication</DialogTitle>
+            <DialogDescription>
+              Enter a current code from your authenticator app to confirm.
+            </DialogDescription>
+          </DialogHeader>
+          <OTPInput
+            length={TOTP_CODE_LENGTH}
+            value={disableCode}
+            onChange={setDisableCode}
+            disabled={disableMutation.isPending}
+          />
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDisableOpen(false)}
+              disabled={disableMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDisable}
+              disabled={
+                disableMutation.isPending ||
+                disableCode.length !== TOTP_CODE_LENGTH
+              }
+            >
+              {disableMutation.isPending ? "Disabling..." : "Disable"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
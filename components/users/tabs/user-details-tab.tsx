@@ -88,7 +88,7 @@ export function UserDetailsTab({ user, userId }: UserDetailsTabProps) {
   const updateMutation = useUpdateUser();
   const uploadAvatarMutation = useUploadAvatar();
   const deleteAvatarMutation = useDeleteAvatar();
-  const { hasPermission, isSuperAdmin } = usePermissions();
+  const { can } = usePermissions();
 
   const { data: departmentsData } = useDepartments(
     { per_page: 100, is_active: true },
@@ -253,8 +253,8 @@ export function UserDetailsTab({ user, userId }: UserDetailsTabProps) {
     }
   };
 
-  const canEditEmployment = isSuperAdmin() || hasPermission("users.edit");
-  const canEditContact = isSuperAdmin() || hasPermission("users.edit");
+  const canEditEmployment = can("update", "user", user);
+  const canEditContact = can("update", "user", user);
 
   return (
     <form onSubmit={handleSubmit(onSubmit)} className="space-y-6 px-4 pb-4">
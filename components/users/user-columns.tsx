@@ -19,10 +19,13 @@ import {
   UserX,
   Mail,
   Key,
+  ShieldOff,
   ArrowUpDown,
+  UserRoundCog,
 } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { formatDistanceToNow } from "date-fns";
+import { SUPER_ADMIN_ROLE, type CanFunction } from "@/lib/permissions/abilities";
 
 export function createUserColumns(
   onView: (user: User) => void,
@@ -31,7 +34,11 @@ export function createUserColumns(
   onActivate: (user: User) => void,
   onDeactivate: (user: User) => void,
   onVerifyEmail: (user: User) => void,
-  onResetPassword: (user: User) => void
+  onResetPassword: (user: User) => void,
+  onResetTwoFactor: (user: User) => void,
+  can: CanFunction,
+  // Only passed for super admins who aren't already impersonating
+  onImpersonate?: (user: User) => void
 ): ColumnDef<User>[] {
   return [
     {
@@ -255,6 +262,15 @@ export function createUserColumns(
       id: "actions",
       cell: ({ row }) => {
         const user = row.original;
+        // Account actions stay with user admins; a direct manager's record
+        // access only covers viewing and editing the profile
+        const canManageAccount = can("update", "user");
+        const canDelete = can("delete", "user", user);
+        // Inactive users can't sign in, and super admins aren't impersonated
+        const canImpersonate =
+          !!onImpersonate &&
+          user.is_active &&
+          !user.roles?.some((role) => role.name === SUPER_ADMIN_ROLE);
         return (
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -265,40 +281,65 @@ export function createUserColumns(
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
               <DropdownMenuLabel>Actions</DropdownMenuLabel>
-              <DropdownMenuItem onClick={() => onView(user)}>
-                <Eye className="mr-2 h-4 w-4" />
-                View Details
-              </DropdownMenuItem>
-              <DropdownMenuSeparator />
-              {user.is_active ? (
-                <DropdownMenuItem onClick={() => onDeactivate(user)}>
-                  <UserX className="mr-2 h-4 w-4" />
-                  Deactivate
-                </DropdownMenuItem>
-              ) : (
-                <DropdownMenuItem onClick={() => onActivate(user)}>
-                  <UserCheck className="mr-2 h-4 w-4" />
-                  Activate
+              {can("view", "user", user) && (
+                <DropdownMenuItem onClick={() => onView(user)}>
+                  <Eye className="mr-2 h-4 w-4" />
+                  View Details
                 </DropdownMenuItem>
               )}
-              {!user.email_verified_at && (
-                <DropdownMenuItem onClick={() => onVerifyEmail(user)}>
-                  <Mail className="mr-2 h-4 w-4" />
-                  Verify Email
-                </DropdownMenuItem>
+              {canManageAccount && (
+                <>
+                  <DropdownMenuSeparator />
+                  {user.is_active ? (
+                    <DropdownMenuItem onClick={() => onDeactivate(user)}>
+                      <UserX className="mr-2 h-4 w-4" />
+                      Deactivate
+                    </DropdownMenuItem>
+                  ) : (
+                    <DropdownMenuItem onClick={() => onActivate(user)}>
+                      <UserCheck className="mr-2 h-4 w-4" />
+                      Activate
+                    </DropdownMenuItem>
+                  )}
+                  {!user.email_verified_at && (
+                    <DropdownMenuItem onClick={() => onVerifyEmail(user)}>
+                      <Mail className="mr-2 h-4 w-4" />
+                      Verify Email
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem onClick={() => onResetPassword(user)}>
+                    <Key className="mr-2 h-4 w-4" />
+                    Reset Password
+                  </DropdownMenuItem>
+                  {user.two_factor_enabled && (
+                    <DropdownMenuItem onClick={() => onResetTwoFactor(user)}>
+                      <ShieldOff className="mr-2 h-4 w-4" />
+                      Reset 2FA
+                    </DropdownMenuItem>
+                  )}
+                </>
+              )}
+              {canImpersonate && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => onImpersonate(user)}>
+                    <UserRoundCog className="mr-2 h-4 w-4" />
+                    Log in as User
+                  </DropdownMenuItem>
+                </>
+              )}
+              {canDelete && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onClick={() => onDelete(user)}
+                    className="text-destructive"
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete User
+                  </DropdownMenuItem>
+                </>
               )}
-              <DropdownMenuItem onClick={() => onResetPassword(user)}>
-                <Key className="mr-2 h-4 w-4" />
-                Reset Password
-              </DropdownMenuItem>
-              <DropdownMenuSeparator />
-              <DropdownMenuItem
-                onClick={() => onDelete(user)}
-                className="text-destructive"
-              >
-                <Trash2 className="mr-2 h-4 w-4" />
-                Delete User
-              </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
         );
@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useForm, useWatch, type Resolver } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import {
@@ -53,6 +53,7 @@ import {
 } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { cn } from "@/lib/utils";
+import { setServerErrors } from "@/lib/form-errors";
 import { format } from "date-fns";
 
 interface UserFormDialogProps {
@@ -90,6 +91,22 @@ type UserFormData = {
   direct_manager_id?: string | number | null;
 };
 
+type UserFormTab = "basic" | "organization" | "security" | "roles";
+
+// Tab holding each field, to reveal server-side validation errors
+const FIELD_TABS: Partial<Record<keyof UserFormData, UserFormTab>> = {
+  department_id: "organization",
+  position_id: "organization",
+  employee_number: "organization",
+  join_date: "organization",
+  probation_end_date: "organization",
+  direct_manager_id: "organization",
+  password: "security",
+  password_confirmation: "security",
+  avatar: "roles",
+  roles: "roles",
+};
+
 export function UserFormDialog({
   open,
   onOpenChange,
@@ -98,6 +115,7 @@ export function UserFormDialog({
   isLoading = false,
 }: UserFormDialogProps) {
   const isEditMode = !!user;
+  const [activeTab, setActiveTab] = useState<UserFormTab>("basic");
 
   // Use a unified form type
   const form = useForm<UserFormData>({
@@ -223,12 +241,23 @@ export function UserFormDialog({
       submitData,
     });
 
-    await onSubmit(submitData as CreateUserFormData | UpdateUserFormData);
-    form.reset();
+    try {
+      await onSubmit(submitData as CreateUserFormData | UpdateUserFormData);
+      form.reset();
+      setActiveTab("basic");
+    } catch (error) {
+      // Show Laravel validation errors on their fields, starting on the
+      // tab that holds the first one
+      const [firstField] = setServerErrors(form, error);
+      if (firstField) {
+        setActiveTab(FIELD_TABS[firstField as keyof UserFormData] ?? "basic");
+      }
+    }
   };
 
   const handleClose = () => {
     form.reset();
+    setActiveTab("basic");
     onOpenChange(false);
   };
 
@@ -251,7 +280,11 @@ export function UserFormDialog({
             onSubmit={form.handleSubmit(handleSubmit)}
             className="flex flex-col h-full"
           >
-            <Tabs defaultValue="basic" className="flex-1 px-6">
+            <Tabs
+              value={activeTab}
+              onValueChange={(value) => setActiveTab(value as UserFormTab)}
+              className="flex-1 px-6"
+            >
               <TabsList className="grid w-full grid-cols-4 mb-6">
                 <TabsTrigger value="basic">Basic Info</TabsTrigger>
                 <TabsTrigger value="organization">Organization</TabsTrigger>
@@ -789,6 +822,12 @@ export function UserFormDialog({
               </TabsContent>
             </Tabs>
 
+            {form.formState.errors.root?.server && (
+              <p className="px-6 pt-4 text-[0.8rem] font-medium text-destructive">
+                {form.formState.errors.root.server.message}
+              </p>
+            )}
+
             <Separator className="mt-6" />
 
             <DialogFooter className="px-6 py-4">
@@ -0,0 +1,412 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertCircle, Download, FileSpreadsheet, Loader2 } from "lucide-react";
+import {
+  ImportColumnMapping,
+  ImportPreviewTable,
+  ImportProgress,
+  ImportStepIndicator,
+  SKIP_COLUMN,
+  SpreadsheetDropzone,
+  getMissingRequiredFields,
+  type ImportPreviewColumn,
+} from "@/components/shared/spreadsheet-import";
+import { useAllDepartments } from "@/hooks/use-departments";
+import { useAllPositions } from "@/hooks/use-positions";
+import { useRoles } from "@/lib/hooks/use-roles";
+import { useImportUsers, type ImportUsersResult } from "@/lib/hooks/use-users";
+import type { SpreadsheetData } from "@/lib/spreadsheet";
+import { buildImportErrorReport } from "@/lib/import";
+import {
+  USER_IMPORT_FIELDS,
+  buildUserImportRows,
+  guessUserImportMapping,
+  type UserImportDefaults,
+  type UserImportMapping,
+} from "@/lib/user-import";
+import { downloadFile } from "@/lib/export";
+import type { CreateUserInput } from "@/types/user";
+
+interface UserImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STEPS = [
+  { id: 1, title: "Upload" },
+  { id: 2, title: "Map Columns" },
+  { id: 3, title: "Validate" },
+  { id: 4, title: "Import" },
+] as const;
+
+const DEFAULT_IMPORT_DEFAULTS: UserImportDefaults = {
+  password: "",
+  role: "",
+  isActive: true,
+};
+
+const PREVIEW_COLUMNS: ImportPreviewColumn<CreateUserInput>[] = [
+  { header: "Username", cell: (row) => row.input.username || "-" },
+  { header: "Name", cell: (row) => row.input.name || "-" },
+  { header: "Email", cell: (row) => row.input.email || "-" },
+  {
+    header: "Roles",
+    cell: (row) => (
+      <span className="text-xs">{row.input.roles?.join(", ") || "-"}</span>
+    ),
+  },
+];
+
+export function UserImportDialog({ open, onOpenChange }: UserImportDialogProps) {
+  const [step, setStep] = useState(1);
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<UserImportMapping>({});
+  const [defaults, setDefaults] = useState<UserImportDefaults>(
+    DEFAULT_IMPORT_DEFAULTS
+  );
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [progress, setProgress] = useState({ processed: 0, total: 0 });
+  const [result, setResult] = useState<ImportUsersResult | null>(null);
+
+  const importMutation = useImportUsers();
+
+  // Lookups for department/position codes and role names; rows are only
+  // validated once all of them are in, or every coded row reads as unknown
+  const departmentsQuery = useAllDepartments(undefined, { enabled: open });
+  const positionsQuery = useAllPositions(undefined, { enabled: open });
+  const rolesQuery = useRoles();
+  const departmentsData = departmentsQuery.data;
+  const positionsData = positionsQuery.data;
+  const rolesData = rolesQuery.data;
+  const lookupQueries = [departmentsQuery, positionsQuery, rolesQuery];
+  const lookupsFailed = lookupQueries.some((query) => query.isError);
+  const lookupsReady = lookupQueries.every((query) => query.isSuccess);
+  const roleNames = useMemo(
+    () => (rolesData?.data || []).map((role) => role.name),
+    [rolesData]
+  );
+
+  const rows = useMemo(
+    () =>
+      sheet
+        ? buildUserImportRows(sheet.rows, mapping, defaults, {
+            departments: departmentsData || [],
+            positions: positionsData || [],
+            roles: roleNames,
+          })
+        : [],
+    [sheet, mapping, defaults, departmentsData, positionsData, roleNames]
+  );
+
+  const validRows = rows.filter((row) => row.errors.length === 0);
+  const invalidRows = rows.filter((row) => row.errors.length > 0);
+  const missingRequired = getMissingRequiredFields(USER_IMPORT_FIELDS, mapping);
+
+  const handleLoaded = (data: SpreadsheetData, name: string) => {
+    setFileName(name);
+    setSheet(data);
+    setMapping(guessUserImportMapping(data.headers));
+    setStep(2);
+  };
+
+  const reset = () => {
+    setStep(1);
+    setFileName("");
+    setSheet(null);
+    setMapping({});
+    setDefaults(DEFAULT_IMPORT_DEFAULTS);
+    setShowErrorsOnly(false);
+    setProgress({ processed: 0, total: 0 });
+    setResult(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (importMutation.isPending) return;
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleImport = async () => {
+    setStep(4);
+    setProgress({ processed: 0, total: validRows.length });
+    try {
+      const importResult = await importMutation.mutateAsync({
+        rows: validRows,
+        onProgress: (processed, total) => setProgress({ processed, total }),
+      });
+      setResult(importResult);
+    } catch (error) {
+      console.error("Failed to import users:", error);
+      setStep(3);
+    }
+  };
+
+  const handleDownloadErrors = () => {
+    if (!sheet) return;
+    const failures = [
+      ...invalidRows,
+      ...(result?.failed || []).map(({ row, message }) => ({
+        ...row,
+        errors: [message],
+      })),
+    ].sort((a, b) => a.rowNumber - b.rowNumber);
+
+    downloadFile(
+      buildImportErrorReport(sheet.headers, failures),
+      `users-import-errors-${new Date().toISOString().split("T")[0]}.csv`,
+      "text/csv;charset=utf-8"
+    );
+  };
+
+  const errorCount = invalidRows.length + (result?.failed.length || 0);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import Users</DialogTitle>
+          <DialogDescription>
+            Create users in bulk from a CSV or XLSX file. Every row is validated
+            before anything is sent.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ImportStepIndicator steps={STEPS} current={step} />
+
+        {/* Step 1: Upload */}
+        {step === 1 && <SpreadsheetDropzone onLoaded={handleLoaded} />}
+
+        {/* Step 2: Column mapping */}
+        {step === 2 && sheet && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <FileSpreadsheet className="h-4 w-4" />
+              <span>
+                {fileName} · {sheet.rows.length} rows
+              </span>
+            </div>
+
+            <ScrollArea className="h-[360px] pr-4">
+              <ImportColumnMapping
+                fields={USER_IMPORT_FIELDS}
+                headers={sheet.headers}
+                mapping={mapping}
+                onChange={setMapping}
+              />
+
+              <div className="mt-6 grid gap-3 rounded-lg border p-4 md:grid-cols-3">
+                <div className="space-y-1.5">
+                  <Label htmlFor="import-default-password">
+                    Default Password
+                  </Label>
+                  <Input
+                    id="import-default-password"
+                    type="password"
+                    value={defaults.password}
+                    onChange={(e) =>
+                      setDefaults((prev) => ({
+                        ...prev,
+                        password: e.target.value,
+                      }))
+                    }
+                    placeholder="Used when a row has none"
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label>Default Role</Label>
+                  <Select
+                    value={defaults.role || SKIP_COLUMN}
+                    onValueChange={(value) =>
+                      setDefaults((prev) => ({
+                        ...prev,
+                        role: value === SKIP_COLUMN ? "" : value,
+                      }))
+                    }
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SKIP_COLUMN}>— None —</SelectItem>
+                      {roleNames.map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {role}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-2 pt-6">
+                  <Switch
+                    id="import-default-active"
+                    checked={defaults.isActive}
+                    onCheckedChange={(checked) =>
+                      setDefaults((prev) => ({ ...prev, isActive: checked }))
+                    }
+                  />
+                  <Label htmlFor="import-default-active">Active by default</Label>
+                </div>
+              </div>
+            </ScrollArea>
+
+            {missingRequired.length > 0 && (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                Map the required fields:{" "}
+                {missingRequired.map((field) => field.label).join(", ")}
+              </div>
+            )}
+
+            {lookupsFailed ? (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                Departments, positions or roles could not be loaded.
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0"
+                  onClick={() => lookupQueries.forEach((query) => query.refetch())}
+                >
+                  Retry
+                </Button>
+              </div>
+            ) : (
+              !lookupsReady && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading departments, positions and roles...
+                </div>
+              )
+            )}
+          </div>
+        )}
+
+        {/* Step 3: Validation preview */}
+        {step === 3 && sheet && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-sm">
+                <Badge variant="default">{validRows.length} valid</Badge>
+                <Badge
+                  variant={invalidRows.length ? "destructive" : "secondary"}
+                >
+                  {invalidRows.length} with errors
+                </Badge>
+              </div>
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="import-errors-only"
+                    checked={showErrorsOnly}
+                    onCheckedChange={setShowErrorsOnly}
+                  />
+                  <Label htmlFor="import-errors-only" className="text-sm">
+                    Errors only
+                  </Label>
+                </div>
+                {invalidRows.length > 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleDownloadErrors}
+                  >
+                    <Download className="mr-2 h-4 w-4" />
+                    Error Report
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <ImportPreviewTable
+              rows={showErrorsOnly ? invalidRows : rows}
+              columns={PREVIEW_COLUMNS}
+            />
+          </div>
+        )}
+
+        {/* Step 4: Import progress / summary */}
+        {step === 4 && (
+          <ImportProgress
+            processed={progress.processed}
+            total={progress.total}
+            finished={!!result}
+            label="users"
+            stats={[
+              { label: "Created", value: result?.created.length || 0 },
+              { label: "Failed", value: result?.failed.length || 0 },
+              { label: "Skipped (invalid)", value: invalidRows.length },
+            ]}
+          />
+        )}
+
+        <DialogFooter>
+          {step === 2 && (
+            <>
+              <Button variant="outline" onClick={() => setStep(1)}>
+                Back
+              </Button>
+              <Button
+                onClick={() => setStep(3)}
+                disabled={missingRequired.length > 0 || !lookupsReady}
+              >
+                Validate
+              </Button>
+            </>
+          )}
+          {step === 3 && (
+            <>
+              <Button variant="outline" onClick={() => setStep(2)}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={validRows.length === 0}>
+                Import {validRows.length} Users
+              </Button>
+            </>
+          )}
+          {step === 4 && (
+            <>
+              {result && errorCount > 0 && (
+                <Button variant="outline" onClick={handleDownloadErrors}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Error Report
+                </Button>
+              )}
+              <Button
+                onClick={() => handleOpenChange(false)}
+                disabled={importMutation.isPending}
+              >
+                {importMutation.isPending && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                {importMutation.isPending ? "Importing..." : "Done"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,12 +1,11 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { useSession } from "next-auth/react";
 import {
   flexRender,
   getCoreRowModel,
   getSortedRowModel,
-  SortingState,
   useReactTable,
   RowSelectionState,
 } from "@tanstack/react-table";
@@ -35,10 +34,14 @@ import {
   UserCheck,
   UserX,
   Download,
+  Upload,
   RefreshCw,
 } from "lucide-react";
 import { createUserColumns } from "./user-columns";
+import { usePermissions } from "@/hooks/use-permissions";
 import { DataTableViewOptions } from "@/components/ui/data-table-view-options";
+import { DataTableSavedViews } from "@/components/shared/data-table-saved-views";
+import { useDataTable } from "@/lib/hooks/use-data-table";
 import {
   useUsers,
   useExportUsers,
@@ -56,8 +59,11 @@ interface UserTableProps {
   onDeactivate: (user: User) => void;
   onVerifyEmail: (user: User) => void;
   onResetPassword: (user: User) => void;
+  onResetTwoFactor: (user: User) => void;
+  onImpersonate?: (user: User) => void;
   onBulkDelete: (ids: string[]) => void;
   onCreateNew: () => void;
+  onImport?: () => void;
   initialRoles?: { id: string; name: string }[];
 }
 
@@ -69,61 +75,41 @@ export function UserTable({
   onDeactivate,
   onVerifyEmail,
   onResetPassword,
+  onResetTwoFactor,
+  onImpersonate,
   onBulkDelete,
   onCreateNew,
+  onImport,
   initialRoles,
 }: UserTableProps) {
   const { data: session, status } = useSession();
-  const [sorting, setSorting] = useState<SortingState>([]);
   const [rowSelection, setRowSelection] = useState<RowSelectionState>({});
-  const [searchValue, setSearchValue] = useState("");
-  const [filters, setFilters] = useState<UserFilters>({
-    page: 1,
-    per_page: 10,
-    sort_by: "created_at",
-    sort_order: "desc",
+  const {
+    filters,
+    searchValue,
+    setSearchValue,
+    sorting,
+    handleSortingChange,
+    handlePageChange,
+    handlePerPageChange,
+    updateFilter,
+    clearFilters,
+    columnVisibility,
+    setColumnVisibility,
+    applyView,
+    getViewState,
+    activeViewId,
+  } = useDataTable<UserFilters>({
+    tableId: "users",
+    filterKeys: ["role", "is_active"],
+    initialFilters: {
+      page: 1,
+      per_page: 10,
+      sort_by: "created_at",
+      sort_order: "desc",
+    },
   });
 
-  // Debounce search with 600ms delay for better UX
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      // ... (search logic remains same)
-      if (searchValue) {
-        setFilters((prev) => {
-          return { ...prev, search: searchValue, page: 1 };
-        });
-      } else {
-        setFilters((prev) => {
-          if (!prev.search) return prev;
-          const newState = { ...prev };
-          delete newState.search;
-          return { ...newState, page: 1 };
-        });
-      }
-    }, 600);
-
-    return () => clearTimeout(timer);
-  }, [searchValue]);
-
-  // Sync sorting state with filters
-  useEffect(() => {
-    if (sorting.length > 0) {
-      const sort = sorting[0];
-      setFilters((prev) => ({
-        ...prev,
-        sort_by: sort.id as UserFilters["sort_by"],
-        sort_order: sort.desc ? "desc" : "asc",
-      }));
-    } else {
-      // Default sorting if none selected
-      setFilters((prev) => ({
-        ...prev,
-        sort_by: "created_at",
-        sort_order: "desc",
-      }));
-    }
-  }, [sorting]);
-
   // Fetch users dengan React Query - hanya jika authenticated
   const { data, isLoading, error, refetch } = useUsers(filters, {
     enabled: status === "authenticated" && !!session?.user?.accessToken,
@@ -131,6 +117,7 @@ export function UserTable({
   const exportMutation = useExportUsers();
   const bulkActivateMutation = useBulkActivateUsers();
   const bulkDeactivateMutation = useBulkDeactivateUsers();
+  const { can } = usePermissions();
 
   // Create columns
   const columns = React.useMemo(() => {
@@ -141,7 +128,10 @@ export function UserTable({
       onActivate,
       onDeactivate,
       onVerifyEmail,
-      onResetPassword
+      onResetPassword,
+      onResetTwoFactor,
+      can,
+      onImpersonate
     );
   }, [
     onView,
@@ -151,6 +141,9 @@ export function UserTable({
     onDeactivate,
     onVerifyEmail,
     onResetPassword,
+    onResetTwoFactor,
+    can,
+    onImpersonate,
   ]);
 
   // Setup table
@@ -160,11 +153,13 @@ export function UserTable({
     columns,
     getCoreRowModel: getCoreRowModel(),
     getSortedRowModel: getSortedRowModel(),
-    onSortingChange: setSorting,
+    onSortingChange: handleSortingChange,
     onRowSelectionChange: setRowSelection,
+    onColumnVisibilityChange: setColumnVisibility,
     state: {
       sorting,
       rowSelection,
+      columnVisibility,
     },
     manualPagination: true,
     pageCount: data?.meta.last_page || 1,
@@ -176,55 +171,21 @@ export function UserTable({
   };
 
   const handleRoleFilter = (value: string) => {
-    if (value === "all") {
-      setFilters((prev) => {
-        const newState = { ...prev };
-        delete newState.role;
-        return { ...newState, page: 1 };
-      });
-    } else {
-      setFilters((prev) => ({ ...prev, role: value, page: 1 }));
-    }
+    updateFilter("role", value);
   };
 
   const handleStatusFilter = (value: string) => {
-    if (value === "all") {
-      setFilters((prev) => {
-        const newState = { ...prev };
-        delete newState.is_active;
-        return { ...newState, page: 1 };
-      });
-    } else {
-      setFilters((prev) => ({
-        ...prev,
-        is_active: value === "active",
-        page: 1,
-      }));
-    }
+    updateFilter("is_active", value === "all" ? "all" : value === "active");
   };
 
   const handleClearFilters = () => {
-    setSearchValue("");
-    setFilters({
-      page: 1,
-      per_page: filters.per_page,
-      sort_by: "created_at",
-      sort_order: "desc",
-    });
+    clearFilters({ per_page: filters.per_page });
   };
 
   // Check if any filters are active
   const hasActiveFilters =
     searchValue || filters.role || filters.is_active !== undefined;
 
-  const handlePageChange = (page: number) => {
-    setFilters((prev) => ({ ...prev, page }));
-  };
-
-  const handlePerPageChange = (perPage: number) => {
-    setFilters((prev) => ({ ...prev, per_page: perPage, page: 1 }));
-  };
-
   // Handle bulk actions
   const selectedRows = table.getFilteredSelectedRowModel().rows;
   const selectedIds = selectedRows.map((row) => row.original.id);
@@ -343,6 +304,12 @@ export function UserTable({
             <RefreshCw className="h-4 w-4" />
           </Button>
 
+          <DataTableSavedViews
+            tableId="users"
+            getViewState={getViewState}
+            onApplyView={applyView}
+            activeViewId={activeViewId}
+          />
           <DataTableViewOptions table={table} />
         </div>
 
@@ -355,6 +322,12 @@ export function UserTable({
             <Download className="mr-2 h-4 w-4" />
             Export
           </Button>
+          {onImport && (
+            <Button variant="outline" onClick={onImport}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+          )}
           <Button onClick={onCreateNew}>
             <Plus className="mr-2 h-4 w-4" />
             Add User
@@ -9,6 +9,8 @@
 
 import { useQuery, useMutation, useQueryClient, type UseQueryOptions } from '@tanstack/react-query';
 import { departmentApi } from '@/lib/api/departments';
+import { fetchAllPages, MAX_PER_PAGE } from '@/lib/api/pagination';
+import { getErrorMessage } from '@/lib/api/errors';
 import type {
   Department,
   DepartmentInput,
@@ -18,6 +20,7 @@ import type {
   User,
   Team,
   Position,
+  DepartmentUserHistory,
 } from '@/types/hrm';
 import { toast } from 'sonner';
 
@@ -29,12 +32,16 @@ export const departmentKeys = {
   all: ['departments'] as const,
   lists: () => [...departmentKeys.all, 'list'] as const,
   list: (filters?: DepartmentFilters) => [...departmentKeys.lists(), filters] as const,
+  listAll: (filters?: DepartmentFilters) => [...departmentKeys.lists(), 'all', filters] as const,
+  // Under lists() so delete/restore invalidation refreshes the trash too
+  trashed: () => [...departmentKeys.lists(), 'trashed'] as const,
   details: () => [...departmentKeys.all, 'detail'] as const,
   detail: (id: number) => [...departmentKeys.details(), id] as const,
   tree: () => [...departmentKeys.all, 'tree'] as const,
   users: (id: number) => [...departmentKeys.detail(id), 'users'] as const,
   teams: (id: number) => [...departmentKeys.detail(id), 'teams'] as const,
   positions: (id: number) => [...departmentKeys.detail(id), 'positions'] as const,
+  userHistory: (id: number) => [...departmentKeys.detail(id), 'user-history'] as const,
 };
 
 // ============================================================================
@@ -56,6 +63,22 @@ export function useDepartments(
   });
 }
 
+/**
+ * Fetch every department matching the filters, page by page (lookups, imports)
+ */
+export function useAllDepartments(
+  filters?: Omit<DepartmentFilters, 'page' | 'per_page'>,
+  options?: Omit<UseQueryOptions<Department[]>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: departmentKeys.listAll(filters),
+    queryFn: () =>
+      fetchAllPages((page) => departmentApi.list({ ...filters, page, per_page: MAX_PER_PAGE })),
+    staleTime: 5 * 60 * 1000,
+    ...options,
+  });
+}
+
 /**
  * Fetch single department by ID
  */
@@ -140,6 +163,25 @@ export function useDepartmentPositions(
   });
 }
 
+/**
+ * Fetch membership history of a department (optionally past members only)
+ */
+export function useDepartmentUserHistory(
+  departmentId: number,
+  page = 1,
+  perPage = 15,
+  onlyPast = false,
+  options?: Omit<UseQueryOptions<PaginatedResponse<DepartmentUserHistory>>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: [...departmentKeys.userHistory(departmentId), page, perPage, onlyPast],
+    queryFn: () => departmentApi.getUserHistory(departmentId, page, perPage, onlyPast),
+    enabled: !!departmentId,
+    staleTime: 5 * 60 * 1000,
+    ...options,
+  });
+}
+
 // ============================================================================
 // Mutation Hooks
 // ============================================================================
@@ -162,20 +204,7 @@ export function useCreateDepartment() {
       });
     },
     onError: (error: unknown) => {
-      const message =
-        error &&
-        typeof error === "object" &&
-        "response" in error &&
-        error.response &&
-        typeof error.response === "object" &&
-        "data" in error.response &&
-        error.response.data &&
-        typeof error.response.data === "object"
-          ? (error.response.data as { message?: string }).message ||
-            "Failed to create department"
-          : error instanceof Error
-            ? error.message
-            : "Failed to create department";
+      const message = getErrorMessage(error, "Failed to create department");
       toast.error("Error", { description: message });
     },
   });
@@ -206,20 +235,7 @@ export function useUpdateDepartment() {
       });
     },
     onError: (error: unknown) => {
-      const message =
-        error &&
-        typeof error === "object" &&
-        "response" in error &&
-        error.response &&
-        typeof error.response === "object" &&
-        "data" in error.response &&
-        error.response.data &&
-        typeof error.response.data === "object"
-          ? (error.response.data as { message?: string }).message ||
-            "Failed to update department"
-          : error instanceof Error
-            ? error.message
-            : "Failed to update department";
+      const message = getErrorMessage(error, "Failed to update department");
       toast.error("Error", { description: message });
     },
   });
@@ -244,20 +260,7 @@ export function useDeleteDepartment() {
       });
     },
     onError: (error: unknown) => {
-      const message =
-        error &&
-        typeof error === "object" &&
-        "response" in error &&
-        error.response &&
-        typeof error.response === "object" &&
-        "data" in error.response &&
-        error.response.data &&
-        typeof error.response.data === "object"
-          ? (error.response.data as { message?: string }).message ||
-            "Failed to delete department"
-          : error instanceof Error
-            ? error.message
-            : "Failed to delete department";
+      const message = getErrorMessage(error, "Failed to delete department");
       toast.error("Error", { description: message });
     },
   });
@@ -281,20 +284,7 @@ export function useRestoreDepartment() {
       });
     },
     onError: (error: unknown) => {
-      const message =
-        error &&
-        typeof error === "object" &&
-        "response" in error &&
-        error.response &&
-        typeof error.response === "object" &&
-        "data" in error.response &&
-        error.response.data &&
-        typeof error.response.data === "object"
-          ? (error.response.data as { message?: string }).message ||
-            "Failed to restore department"
-          : error instanceof Error
-            ? error.message
-            : "Failed to restore department";
+      const message = getErrorMessage(error, "Failed to restore department");
       toast.error("Error", { description: message });
     },
   });
@@ -341,20 +331,7 @@ export function useOptimisticUpdateDepartment() {
         );
       }
 
-      const message =
-        error &&
-        typeof error === "object" &&
-        "response" in error &&
-        error.response &&
-        typeof error.response === "object" &&
-        "data" in error.response &&
-        error.response.data &&
-        typeof error.response.data === "object"
-          ? (error.response.data as { message?: string }).message ||
-            "Failed to update department"
-          : error instanceof Error
-            ? error.message
-            : "Failed to update department";
+      const message = getErrorMessage(error, "Failed to update department");
       toast.error("Error", { description: message });
     },
     onSuccess: () => {
@@ -0,0 +1,83 @@
+/**
+ * Global Search Hook
+ *
+ * Searches users, departments, positions and teams in parallel
+ * for the command palette. Each entity is only queried when the
+ * caller is allowed to see it.
+ *
+ * @see panel-admin/components/command-palette.tsx
+ */
+
+import { useQueries } from '@tanstack/react-query';
+import { userService } from '@/lib/api/services/user.service';
+import { departmentApi } from '@/lib/api/departments';
+import { positionApi } from '@/lib/api/positions';
+import { teamApi } from '@/lib/api/teams';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+
+export type GlobalSearchEntity = 'users' | 'departments' | 'positions' | 'teams';
+
+// Results per entity shown in the palette
+const RESULT_LIMIT = 5;
+export const MIN_SEARCH_LENGTH = 2;
+
+export const globalSearchKeys = {
+  all: ['global-search'] as const,
+  entity: (entity: GlobalSearchEntity, term: string) =>
+    [...globalSearchKeys.all, entity, term] as const,
+};
+
+/**
+ * Debounced parallel search across entities
+ */
+export function useGlobalSearch(
+  term: string,
+  scopes: Record<GlobalSearchEntity, boolean>,
+  debounceMs = 300
+) {
+  const debouncedTerm = useDebouncedValue(term.trim(), debounceMs);
+  const enabled = debouncedTerm.length >= MIN_SEARCH_LENGTH;
+  const staleTime = 30 * 1000;
+  const filters = { search: debouncedTerm, page: 1, per_page: RESULT_LIMIT };
+
+  const [users, departments, positions, teams] = useQueries({
+    queries: [
+      {
+        queryKey: globalSearchKeys.entity('users', debouncedTerm),
+        queryFn: async () => (await userService.getUsers(filters)).data,
+        enabled: enabled && scopes.users,
+        staleTime,
+      },
+      {
+        queryKey: globalSearchKeys.entity('departments', debouncedTerm),
+        queryFn: async () => (await departmentApi.list(filters)).data,
+        enabled: enabled && scopes.departments,
+        staleTime,
+      },
+      {
+        queryKey: globalSearchKeys.entity('positions', debouncedTerm),
+        queryFn: async () => (await positionApi.list(filters)).data,
+        enabled: enabled && scopes.positions,
+        staleTime,
+      },
+      {
+        queryKey: globalSearchKeys.entity('teams', debouncedTerm),
+        queryFn: async () => (await teamApi.list(filters)).data,
+        enabled: enabled && scopes.teams,
+        staleTime,
+      },
+    ],
+  });
+
+  return {
+    term: debouncedTerm,
+    // True while the user is still typing or any request is in flight
+    isSearching:
+      debouncedTerm !== term.trim() ||
+      [users, departments, positions, teams].some((query) => query.isFetching),
+    users: enabled ? users.data || [] : [],
+    departments: enabled ? departments.data || [] : [],
+    positions: enabled ? positions.data || [] : [],
+    teams: enabled ? teams.data || [] : [],
+  };
+}
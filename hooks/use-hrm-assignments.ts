@@ -0,0 +1,112 @@
+/**
+ * HRM Assignment React Query Hooks
+ *
+ * Custom hooks for assignment history, transfers and promotions
+ * Every mutation is recorded server-side in DepartmentUserHistory
+ *
+ * @see panel-admin/lib/api/hrm-assignments.ts
+ */
+
+import { useQuery, useMutation, useQueryClient, type UseQueryOptions } from '@tanstack/react-query';
+import {
+  hrmAssignmentApi,
+  type TransferInput,
+  type PromoteInput,
+} from '@/lib/api/hrm-assignments';
+import { getErrorMessage } from '@/lib/api/errors';
+import { departmentKeys } from '@/hooks/use-departments';
+import { positionKeys } from '@/hooks/use-positions';
+import { userKeys } from '@/lib/hooks/use-users';
+import type { DepartmentUserHistory } from '@/types/hrm';
+import { toast } from 'sonner';
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const assignmentKeys = {
+  all: ['hrm-assignments'] as const,
+  history: (userId: number) => [...assignmentKeys.all, 'history', userId] as const,
+  current: (userId: number) => [...assignmentKeys.all, 'current', userId] as const,
+};
+
+/**
+ * Assignment changes touch users, departments (headcount) and positions (holders)
+ */
+function useInvalidateAssignment() {
+  const queryClient = useQueryClient();
+
+  return (userId: number) => {
+    queryClient.invalidateQueries({ queryKey: assignmentKeys.history(userId) });
+    queryClient.invalidateQueries({ queryKey: assignmentKeys.current(userId) });
+    queryClient.invalidateQueries({ queryKey: userKeys.all });
+    queryClient.invalidateQueries({ queryKey: departmentKeys.all });
+    queryClient.invalidateQueries({ queryKey: positionKeys.all });
+  };
+}
+
+// ============================================================================
+// Query Hooks
+// ============================================================================
+
+/**
+ * Fetch every department/position stint of a user
+ */
+export function useUserAssignmentHistory(
+  userId: number,
+  options?: Omit<UseQueryOptions<DepartmentUserHistory[]>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: assignmentKeys.history(userId),
+    queryFn: () => hrmAssignmentApi.getHistory(userId),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+    ...options,
+  });
+}
+
+// ============================================================================
+// Mutation Hooks
+// ============================================================================
+
+/**
+ * Transfer user to another department (optionally with a new position)
+ */
+export function useTransferUser() {
+  const invalidate = useInvalidateAssignment();
+
+  return useMutation({
+    mutationFn: ({ userId, data }: { userId: number; data: TransferInput }) =>
+      hrmAssignmentApi.transfer(userId, data),
+    onSuccess: (_, { userId }) => {
+      invalidate(userId);
+      toast.success('User transferred successfully');
+    },
+    onError: (error: unknown) => {
+      toast.error("Error", {
+        description: getErrorMessage(error, "Failed to transfer user"),
+      });
+    },
+  });
+}
+
+/**
+ * Promote user to a new position
+ */
+export function usePromoteUser() {
+  const invalidate = useInvalidateAssignment();
+
+  return useMutation({
+    mutationFn: ({ userId, data }: { userId: number; data: PromoteInput }) =>
+      hrmAssignmentApi.promote(userId, data),
+    onSuccess: (_, { userId }) => {
+      invalidate(userId);
+      toast.success('User promoted successfully');
+    },
+    onError: (error: unknown) => {
+      toast.error("Error", {
+        description: getErrorMessage(error, "Failed to promote user"),
+      });
+    },
+  });
+}
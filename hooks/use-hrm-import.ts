@@ -0,0 +1,155 @@
+/**
+ * HRM Import React Query Hooks
+ *
+ * Bulk creation of departments, positions and teams from spreadsheet rows
+ * Rows are created in batches; failures are reported per row
+ *
+ * @see panel-admin/lib/hrm-import.ts
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { departmentApi } from '@/lib/api/departments';
+import { positionApi } from '@/lib/api/positions';
+import { teamApi } from '@/lib/api/teams';
+import { departmentKeys } from '@/hooks/use-departments';
+import { positionKeys } from '@/hooks/use-positions';
+import { teamKeys } from '@/hooks/use-teams';
+import {
+  runImportBatches,
+  type ImportFailure,
+  type ImportProgressHandler,
+  type ImportResult,
+} from '@/lib/import';
+import type {
+  DepartmentImportRow,
+  PositionImportRow,
+  TeamImportRow,
+} from '@/lib/hrm-import';
+import type {
+  Department,
+  DepartmentInput,
+  Position,
+  PositionInput,
+  Team,
+  TeamInput,
+} from '@/types/hrm';
+import { toast } from 'sonner';
+
+interface ImportVariables<TRow> {
+  rows: TRow[];
+  onProgress?: ImportProgressHandler;
+}
+
+export type DepartmentImportResult = ImportResult<DepartmentInput, Department>;
+export type PositionImportResult = ImportResult<PositionInput, Position>;
+export type TeamImportResult = ImportResult<TeamInput, Team>;
+
+const notifyResult = (entity: string, created: number, failed: number) => {
+  if (failed === 0) {
+    toast.success(`${created} ${entity} imported successfully`);
+  } else {
+    toast.warning('Import finished with errors', {
+      description: `${created} created, ${failed} failed`,
+    });
+  }
+};
+
+const notifyError = (entity: string) => (error: Error) => {
+  toast.error('Error', {
+    description: error.message || `Failed to import ${entity}`,
+  });
+};
+
+/**
+ * Import departments level by level so every parent exists before its
+ * children. Children of a failed parent are reported as failed too.
+ */
+export function useImportDepartments() {
+  const queryClient = useQueryClient();
+
+  return useMutation<DepartmentImportResult, Error, ImportVariables<DepartmentImportRow>>({
+    mutationFn: async ({ rows, onProgress }) => {
+      const createdByCode = new Map<string, Department>();
+      const created: Department[] = [];
+      const failed: ImportFailure<DepartmentInput>[] = [];
+      const levels = [...new Set(rows.map((row) => row.level))].sort((a, b) => a - b);
+      let processed = 0;
+
+      for (const level of levels) {
+        const levelRows: DepartmentImportRow[] = [];
+
+        for (const row of rows.filter((r) => r.level === level)) {
+          if (!row.parentCode) {
+            levelRows.push(row);
+            continue;
+          }
+
+          const parent = createdByCode.get(row.parentCode);
+          if (parent) {
+            levelRows.push({ ...row, input: { ...row.input, parent_id: parent.id } });
+          } else {
+            failed.push({ row, message: `Parent "${row.parentCode}" was not created` });
+            processed++;
+          }
+        }
+
+        const result = await runImportBatches(
+          levelRows,
+          (row) => departmentApi.create(row.input),
+          { onProgress, offset: processed, total: rows.length }
+        );
+
+        result.created.forEach((department) => {
+          createdByCode.set(department.code.toUpperCase(), department);
+        });
+        created.push(...result.created);
+        failed.push(...result.failed);
+        processed += levelRows.length;
+        onProgress?.(processed, rows.length);
+      }
+
+      return { created, failed };
+    },
+    onSuccess: ({ created, failed }) => {
+      queryClient.invalidateQueries({ queryKey: departmentKeys.all });
+      notifyResult('departments', created.length, failed.length);
+    },
+    onError: notifyError('departments'),
+  });
+}
+
+/**
+ * Import positions in parallel batches
+ */
+export function useImportPositions() {
+  const queryClient = useQueryClient();
+
+  return useMutation<PositionImportResult, Error, ImportVariables<PositionImportRow>>({
+    mutationFn: ({ rows, onProgress }) =>
+      runImportBatches(rows, (row) => positionApi.create(row.input), { onProgress }),
+    onSuccess: ({ created, failed }) => {
+      queryClient.invalidateQueries({ queryKey: positionKeys.all });
+      queryClient.invalidateQueries({ queryKey: departmentKeys.all });
+      notifyResult('positions', created.length, failed.length);
+    },
+    onError: notifyError('positions'),
+  });
+}
+
+/**
+ * Import teams in parallel batches
+ */
+export function useImportTeams() {
+  const queryClient = useQueryClient();
+
+  return useMutation<TeamImportResult, Error, ImportVariables<TeamImportRow>>({
+    mutationFn: ({ rows, onProgress }) =>
+      runImportBatches(rows, (row) => teamApi.create(row.input), { onProgress }),
+    onSuccess: ({ created, failed }) => {
+      queryClient.invalidateQueries({ queryKey: teamKeys.all });
+      queryClient.invalidateQueries({ queryKey: departmentKeys.all });
+      notifyResult('teams', created.length, failed.length);
+    },
+    onError: notifyError('teams'),
+  });
+}
@@ -1,5 +1,13 @@
 import { useSession } from "next-auth/react";
-import { useMemo } from "react";
+import { useCallback, useMemo } from "react";
+import {
+  can as canFor,
+  hasAllPermissions as hasAllPermissionsFor,
+  hasAnyPermission as hasAnyPermissionFor,
+  SUPER_ADMIN_ROLE,
+  type AccessSubject,
+  type CanFunction,
+} from "@/lib/permissions/abilities";
 
 /**
  * Hook to check user permissions
@@ -10,8 +18,6 @@ export function usePermissions() {
   const { data: session } = useSession();
 
   const permissions = useMemo(() => {
-    // Extract permissions from session
-    // Assuming session.user has a permissions array
     return session?.user?.permissions || [];
   }, [session]);
 
@@ -19,42 +25,44 @@ export function usePermissions() {
     return session?.user?.roles || [];
   }, [session]);
 
+  // Stable for the lifetime of the session, so callers can memoize on it
+  const subject = useMemo<AccessSubject>(
+    () => ({ id: session?.user?.id, roles, permissions }),
+    [session?.user?.id, roles, permissions]
+  );
+
   /**
-   * Check if user has a specific permission
+   * Check if user has a specific permission (Super Admin has all)
    */
-  const hasPermission = (permission: string): boolean => {
-    // Super Admin has all permissions
-    if (roles.includes("Super Admin")) return true;
-
-    // Check if user has the specific permission
-    return permissions.includes(permission);
-  };
+  const hasPermission = useCallback(
+    (permission: string): boolean => hasAnyPermissionFor(subject, permission),
+    [subject]
+  );
 
   /**
    * Check if user has any of the given permissions
    */
-  const hasAnyPermission = (permissionList: string[]): boolean => {
-    // Super Admin has all permissions
-    if (roles.includes("Super Admin")) return true;
-
-    // Check if user has at least one of the permissions
-    return permissionList.some((permission) =>
-      permissions.includes(permission)
-    );
-  };
+  const hasAnyPermission = useCallback(
+    (permissionList: string[]): boolean => hasAnyPermissionFor(subject, permissionList),
+    [subject]
+  );
 
   /**
    * Check if user has all of the given permissions
    */
-  const hasAllPermissions = (permissionList: string[]): boolean => {
-    // Super Admin has all permissions
-    if (roles.includes("Super Admin")) return true;
-
-    // Check if user has all permissions
-    return permissionList.every((permission) =>
-      permissions.includes(permission)
-    );
-  };
+  const hasAllPermissions = useCallback(
+    (permissionList: string[]): boolean => hasAllPermissionsFor(subject, permissionList),
+    [subject]
+  );
+
+  /**
+   * Check an action on a kind of record, or on one record including the
+   * ownership rules (see lib/permissions/abilities.ts)
+   */
+  const can = useCallback<CanFunction>(
+    (action, type, record) => canFor(subject, action, type, record),
+    [subject]
+  );
 
   /**
    * Check if user has a specific role
@@ -74,7 +82,7 @@ export function usePermissions() {
    * Check if user is Super Admin
    */
   const isSuperAdmin = (): boolean => {
-    return roles.includes("Super Admin");
+    return roles.includes(SUPER_ADMIN_ROLE);
   };
 
   return {
@@ -83,6 +91,7 @@ export function usePermissions() {
     hasPermission,
     hasAnyPermission,
     hasAllPermissions,
+    can,
     hasRole,
     hasAnyRole,
     isSuperAdmin,
@@ -115,39 +124,3 @@ export function withPermission<P extends object>(
 
   return PermissionComponent;
 }
-
-/**
- * Component to conditionally render children based on permissions
- */
-interface PermissionGateProps {
-  permission: string | string[];
-  children: React.ReactNode;
-  fallback?: React.ReactNode;
-  requireAll?: boolean;
-}
-
-export function PermissionGate({
-  permission,
-  children,
-  fallback = null,
-  requireAll = false,
-}: PermissionGateProps) {
-  const { hasPermission, hasAnyPermission, hasAllPermissions } =
-    usePermissions();
-
-  let isAuthorized = false;
-
-  if (Array.isArray(permission)) {
-    isAuthorized = requireAll
-      ? hasAllPermissions(permission)
-      : hasAnyPermission(permission);
-  } else {
-    isAuthorized = hasPermission(permission);
-  }
-
-  if (!isAuthorized) {
-    return <>{fallback}</>;
-  }
-
-  return <>{children}</>;
-}
@@ -9,6 +9,8 @@
 
 import { useQuery, useMutation, useQueryClient, type UseQueryOptions } from '@tanstack/react-query';
 import { positionApi } from '@/lib/api/positions';
+import { fetchAllPages, MAX_PER_PAGE } from '@/lib/api/pagination';
+import { getErrorMessage } from '@/lib/api/errors';
 import type {
   Position,
   PositionInput,
@@ -26,6 +28,8 @@ export const positionKeys = {
   all: ['positions'] as const,
   lists: () => [...positionKeys.all, 'list'] as const,
   list: (filters?: PositionFilters) => [...positionKeys.lists(), filters] as const,
+  listAll: (filters?: PositionFilters) => [...positionKeys.lists(), 'all', filters] as const,
+  trashed: () => [...positionKeys.lists(), 'trashed'] as const,
   details: () => [...positionKeys.all, 'detail'] as const,
   detail: (id: number) => [...positionKeys.details(), id] as const,
   byDepartment: (departmentId: number) => [...positionKeys.all, 'by-department', departmentId] as const,
@@ -51,6 +55,22 @@ export function usePositions(
   });
 }
 
+/**
+ * Fetch every position matching the filters, page by page (lookups, imports)
+ */
+export function useAllPositions(
+  filters?: Omit<PositionFilters, 'page' | 'per_page'>,
+  options?: Omit<UseQueryOptions<Position[]>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: positionKeys.listAll(filters),
+    queryFn: () =>
+      fetchAllPages((page) => positionApi.list({ ...filters, page, per_page: MAX_PER_PAGE })),
+    staleTime: 5 * 60 * 1000,
+    ...options,
+  });
+}
+
 /**
  * Fetch single position by ID
  */
@@ -131,20 +151,7 @@ export function useCreatePosition() {
       });
     },
     onError: (error: unknown) => {
-      const message =
-        error &&
-        typeof error === "object" &&
-        "response" in error &&
-        error.response &&
-        typeof error.response === "object" &&
-        "data" in error.response &&
-        error.response.data &&
-        typeof error.response.data === "object"
-          ? (error.response.data as { message?: string }).message ||
-            "Failed to create position"
-          : error instanceof Error
-            ? error.message
-            : "Failed to create position";
+      const message = getErrorMessage(error, "Failed to create position");
       toast.error("Error", { description: message });
     },
   });
@@ -181,20 +188,7 @@ export function useUpdatePosition() {
       });
     },
     onError: (error: unknown) => {
-      const message =
-        error &&
-        typeof error === "object" &&
-        "response" in error &&
-        error.response &&
-        typeof error.response === "object" &&
-        "data" in error.response &&
-        error.response.data &&
-        typeof error.response.data === "object"
-          ? (error.response.data as { message?: string }).message ||
-            "Failed to update position"
-          : error instanceof Error
-            ? error.message
-            : "Failed to update position";
+      const message = getErrorMessage(error, "Failed to update position");
       toast.error("Error", { description: message });
     },
   });
@@ -218,20 +212,7 @@ export function useDeletePosition() {
       });
     },
     onError: (error: unknown) => {
-      const message =
-        error &&
-        typeof error === "object" &&
-        "response" in error &&
-        error.response &&
-        typeof error.response === "object" &&
-        "data" in error.response &&
-        error.response.data &&
-        typeof error.response.data === "object"
-          ? (error.response.data as { message?: string }).message ||
-            "Failed to delete position"
-          : error instanceof Error
-            ? error.message
-            : "Failed to delete position";
+      const message = getErrorMessage(error, "Failed to delete position");
       toast.error("Error", { description: message });
     },
   });
@@ -254,20 +235,7 @@ export function useRestorePosition() {
       });
     },
     onError: (error: unknown) => {
-      const message =
-        error &&
-        typeof error === "object" &&
-        "response" in error &&
-        error.response &&
-        typeof error.response === "object" &&
-        "data" in error.response &&
-        error.response.data &&
-        typeof error.response.data === "object"
-          ? (error.response.data as { message?: string }).message ||
-            "Failed to restore position"
-          : error instanceof Error
-            ? error.message
-            : "Failed to restore position";
+      const message = getErrorMessage(error, "Failed to restore position");
       toast.error("Error", { description: message });
     },
   });
@@ -314,20 +282,7 @@ export function useOptimisticUpdatePosition() {
         );
       }
 
-      const message =
-        error &&
-        typeof error === "object" &&
-        "response" in error &&
-        error.response &&
-        typeof error.response === "object" &&
-        "data" in error.response &&
-        error.response.data &&
-        typeof error.response.data === "object"
-          ? (error.response.data as { message?: string }).message ||
-            "Failed to update position"
-          : error instanceof Error
-            ? error.message
-            : "Failed to update position";
+      const message = getErrorMessage(error, "Failed to update position");
       toast.error("Error", { description: message });
     },
     onSuccess: (updatedPosition) => {
@@ -0,0 +1,201 @@
+/**
+ * Skill React Query Hooks
+ *
+ * Custom hooks for the skill catalog, user skills and the
+ * position skill-gap report
+ *
+ * @see panel-admin/lib/api/skills.ts
+ */
+
+import { useCallback } from 'react';
+import {
+  useMutation,
+  useQueries,
+  useQuery,
+  useQueryClient,
+  type UseQueryResult,
+} from '@tanstack/react-query';
+import { skillApi } from '@/lib/api/skills';
+import { getErrorMessage } from '@/lib/api/errors';
+import type {
+  SkillFilters,
+  SkillInput,
+  SkillProficiency,
+  User,
+  UserSkill,
+  UserSkillInput,
+} from '@/types/hrm';
+import { toast } from 'sonner';
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const skillKeys = {
+  all: ['skills'] as const,
+  lists: () => [...skillKeys.all, 'list'] as const,
+  list: (filters?: SkillFilters) => [...skillKeys.lists(), filters] as const,
+  user: (userId: number) => [...skillKeys.all, 'user', userId] as const,
+};
+
+// ============================================================================
+// Query Hooks
+// ============================================================================
+
+/**
+ * Search the skill catalog (used for autocomplete)
+ */
+export function useSkills(filters?: SkillFilters, enabled = true) {
+  return useQuery({
+    queryKey: skillKeys.list(filters),
+    queryFn: () => skillApi.list(filters),
+    staleTime: 10 * 60 * 1000, // 10 minutes, the catalog rarely changes
+    placeholderData: (previous) => previous,
+    enabled,
+  });
+}
+
+/**
+ * Fetch skills recorded on a user
+ */
+export function useUserSkills(userId: number) {
+  return useQuery({
+    queryKey: skillKeys.user(userId),
+    queryFn: () => skillApi.getUserSkills(userId),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Fetch skills for every given user, keyed by user id
+ */
+export function useUsersSkills(users: User[]) {
+  const combine = useCallback(
+    (results: UseQueryResult<UserSkill[]>[]) => {
+      const skillsByUser = new Map<number, UserSkill[]>();
+      users.forEach((user, index) => {
+        const data = results[index]?.data;
+        if (data) skillsByUser.set(user.id, data);
+      });
+
+      return {
+        skillsByUser,
+        isLoading: results.some((result) => result.isLoading),
+        isError: results.some((result) => result.isError),
+        refetchFailed: () =>
+          results.forEach((result) => {
+            if (result.isError) result.refetch();
+          }),
+      };
+    },
+    [users]
+  );
+
+  return useQueries({
+    queries: users.map((user) => ({
+      queryKey: skillKeys.user(user.id),
+      queryFn: () => skillApi.getUserSkills(user.id),
+      staleTime: 5 * 60 * 1000,
+    })),
+    combine,
+  });
+}
+
+// ============================================================================
+// Mutation Hooks
+// ============================================================================
+
+/**
+ * Add a skill to the catalog
+ */
+export function useCreateSkill() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: SkillInput) => skillApi.create(data),
+    onSuccess: (skill) => {
+      queryClient.invalidateQueries({ queryKey: skillKeys.lists() });
+      toast.success('Skill added to catalog', {
+        description: `${skill.name} is now available.`,
+      });
+    },
+    onError: (error: unknown) => {
+      toast.error("Error", {
+        description: getErrorMessage(error, "Failed to add skill"),
+      });
+    },
+  });
+}
+
+/**
+ * Record a skill on a user
+ */
+export function useAddUserSkill(userId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: UserSkillInput) => skillApi.addUserSkill(userId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: skillKeys.user(userId) });
+      toast.success('Skill added');
+    },
+    onError: (error: unknown) => {
+      toast.error("Error", {
+        description: getErrorMessage(error, "Failed to add skill"),
+      });
+    },
+  });
+}
+
+/**
+ * Change the proficiency of a user skill
+ */
+export function useUpdateUserSkill(userId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      skillId,
+      proficiency,
+      yearsExperience,
+    }: {
+      skillId: number;
+      proficiency: SkillProficiency;
+      yearsExperience?: number | null;
+    }) =>
+      skillApi.updateUserSkill(userId, skillId, {
+        proficiency,
+        years_experience: yearsExperience,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: skillKeys.user(userId) });
+      toast.success('Skill updated');
+    },
+    onError: (error: unknown) => {
+      toast.error("Error", {
+        description: getErrorMessage(error, "Failed to update skill"),
+      });
+    },
+  });
+}
+
+/**
+ * Remove a skill from a user
+ */
+export function useRemoveUserSkill(userId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (skillId: number) => skillApi.removeUserSkill(userId, skillId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: skillKeys.user(userId) });
+      toast.success('Skill removed');
+    },
+    onError: (error: unknown) => {
+      toast.error("Error", {
+        description: getErrorMessage(error, "Failed to remove skill"),
+      });
+    },
+  });
+}
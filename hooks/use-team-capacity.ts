@@ -0,0 +1,113 @@
+/**
+ * Team Capacity React Query Hook
+ *
+ * Loads every team plus its full membership history (active and past)
+ * so capacity, allocation and headcount can be aggregated client-side
+ *
+ * @see panel-admin/lib/team-capacity.ts
+ */
+
+import { useCallback } from 'react';
+import { useQueries, useQuery, type UseQueryResult } from '@tanstack/react-query';
+import { teamApi } from '@/lib/api/teams';
+import { fetchAllPages, MAX_PER_PAGE } from '@/lib/api/pagination';
+import { teamKeys } from '@/hooks/use-teams';
+import type { TeamFilters, TeamMember } from '@/types/hrm';
+
+// Team and member requests in flight at once, however many teams there are
+const MAX_CONCURRENT_REQUESTS = 4;
+
+let activeRequests = 0;
+const waitingRequests: (() => void)[] = [];
+
+/**
+ * Run `task` once one of the request slots is free. A finished task hands
+ * its slot straight to the next waiting one.
+ */
+const withRequestSlot = async <T>(task: () => Promise<T>): Promise<T> => {
+  if (activeRequests < MAX_CONCURRENT_REQUESTS) {
+    activeRequests++;
+  } else {
+    await new Promise<void>((resolve) => waitingRequests.push(resolve));
+  }
+
+  try {
+    return await task();
+  } finally {
+    const next = waitingRequests.shift();
+    if (next) next();
+    else activeRequests--;
+  }
+};
+
+/**
+ * Every member of a team, past and present, across all pages
+ */
+const fetchAllMembers = (teamId: number): Promise<TeamMember[]> =>
+  fetchAllPages((page) =>
+    withRequestSlot(() => teamApi.getMembers(teamId, false, page, MAX_PER_PAGE))
+  );
+
+const CAPACITY_FILTERS: TeamFilters = {
+  sort_by: 'name',
+  sort_order: 'asc',
+};
+
+/**
+ * Fetch all teams with their members for capacity planning
+ */
+export function useTeamCapacityData() {
+  const teamsQuery = useQuery({
+    queryKey: teamKeys.listAll(CAPACITY_FILTERS),
+    // Capacity planning needs the whole set, so every page of teams too
+    queryFn: () =>
+      fetchAllPages((page) =>
+        withRequestSlot(() =>
+          teamApi.list({ ...CAPACITY_FILTERS, page, per_page: MAX_PER_PAGE })
+        )
+      ),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const teams = teamsQuery.data;
+
+  // Stable per teams list so the combined result is only rebuilt on new data
+  const combineMembers = useCallback(
+    (results: UseQueryResult<TeamMember[]>[]) => {
+      const membersByTeam = new Map<number, TeamMember[]>();
+      (teams || []).forEach((team, index) => {
+        const data = results[index]?.data;
+        if (data) membersByTeam.set(team.id, data);
+      });
+
+      return {
+        membersByTeam,
+        isLoadingMembers: results.some((result) => result.isLoading),
+        refetchMembers: () => results.forEach((result) => result.refetch()),
+      };
+    },
+    [teams]
+  );
+
+  const { membersByTeam, isLoadingMembers, refetchMembers } = useQueries({
+    queries: (teams || []).map((team) => ({
+      queryKey: [...teamKeys.members(team.id), 'all'],
+      queryFn: () => fetchAllMembers(team.id),
+      staleTime: 3 * 60 * 1000,
+    })),
+    combine: combineMembers,
+  });
+
+  return {
+    teams: teams || [],
+    membersByTeam,
+    isLoading: teamsQuery.isLoading,
+    isLoadingMembers,
+    isError: teamsQuery.isError,
+    error: teamsQuery.error,
+    refetch: () => {
+      teamsQuery.refetch();
+      refetchMembers();
+    },
+  };
+}
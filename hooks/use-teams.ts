@@ -9,9 +9,12 @@
 
 import { useQuery, useMutation, useQueryClient, type UseQueryOptions } from '@tanstack/react-query';
 import { teamApi } from '@/lib/api/teams';
+import { fetchAllPages, MAX_PER_PAGE } from '@/lib/api/pagination';
+import { getErrorMessage } from '@/lib/api/errors';
 import type {
   Team,
   TeamInput,
+  TeamCompleteInput,
   TeamFilters,
   TeamMember,
   TeamMemberInput,
@@ -27,6 +30,8 @@ export const teamKeys = {
   all: ['teams'] as const,
   lists: () => [...teamKeys.all, 'list'] as const,
   list: (filters?: TeamFilters) => [...teamKeys.lists(), filters] as const,
+  listAll: (filters?: TeamFilters) => [...teamKeys.lists(), 'all', filters] as const,
+  trashed: () => [...teamKeys.lists(), 'trashed'] as const,
   details: () => [...teamKeys.all, 'detail'] as const,
   detail: (id: number) => [...teamKeys.details(), id] as const,
   byDepartment: (departmentId: number) => [...teamKeys.all, 'by-department', departmentId] as const,
@@ -54,6 +59,22 @@ export function useTeams(
   });
 }
 
+/**
+ * Fetch every team matching the filters, page by page (lookups, imports)
+ */
+export function useAllTeams(
+  filters?: Omit<TeamFilters, 'page' | 'per_page'>,
+  options?: Omit<UseQueryOptions<Team[]>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: teamKeys.listAll(filters),
+    queryFn: () =>
+      fetchAllPages((page) => teamApi.list({ ...filters, page, per_page: MAX_PER_PAGE })),
+    staleTime: 5 * 60 * 1000,
+    ...options,
+  });
+}
+
 /**
  * Fetch single team by ID
  */
@@ -173,20 +194,7 @@ export function useCreateTeam() {
       });
     },
     onError: (error: unknown) => {
-      const message =
-        error &&
-        typeof error === "object" &&
-        "response" in error &&
-        error.response &&
-        typeof error.response === "object" &&
-        "data" in error.response &&
-        error.response.data &&
-        typeof error.response.data === "object"
-          ? (error.response.data as { message?: string }).message ||
-            "Failed to perform action"
-          : error instanceof Error
-            ? error.message
-            : "Failed to perform action";
+      const message = getErrorMessage(error, "Failed to perform action");
       toast.error("Error", { description: message });
     },
   });
@@ -228,20 +236,7 @@ export function useUpdateTeam() {
       });
     },
     onError: (error: unknown) => {
-      const message =
-        error &&
-        typeof error === "object" &&
-        "response" in error &&
-        error.response &&
-        typeof error.response === "object" &&
-        "data" in error.response &&
-        error.response.data &&
-        typeof error.response.data === "object"
-          ? (error.response.data as { message?: string }).message ||
-            "Failed to update team"
-          : error instanceof Error
-            ? error.message
-            : "Failed to update team";
+      const message = getErrorMessage(error, "Failed to update team");
       toast.error("Error", { description: message });
     },
   });
@@ -265,20 +260,7 @@ export function useDeleteTeam() {
       });
     },
     onError: (error: unknown) => {
-      const message =
-        error &&
-        typeof error === "object" &&
-        "response" in error &&
-        error.response &&
-        typeof error.response === "object" &&
-        "data" in error.response &&
-        error.response.data &&
-        typeof error.response.data === "object"
-          ? (error.response.data as { message?: string }).message ||
-            "Failed to delete team"
-          : error instanceof Error
-            ? error.message
-            : "Failed to delete team";
+      const message = getErrorMessage(error, "Failed to delete team");
       toast.error("Error", { description: message });
     },
   });
@@ -301,20 +283,33 @@ export function useRestoreTeam() {
       });
     },
     onError: (error: unknown) => {
-      const message =
-        error &&
-        typeof error === "object" &&
-        "response" in error &&
-        error.response &&
-        typeof error.response === "object" &&
-        "data" in error.response &&
-        error.response.data &&
-        typeof error.response.data === "object"
-          ? (error.response.data as { message?: string }).message ||
-            "Failed to restore team"
-          : error instanceof Error
-            ? error.message
-            : "Failed to restore team";
+      const message = getErrorMessage(error, "Failed to restore team");
+      toast.error("Error", { description: message });
+    },
+  });
+}
+
+/**
+ * Complete team (status completed, left_at set for all active members)
+ */
+export function useCompleteTeam() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data?: TeamCompleteInput }) =>
+      teamApi.complete(id, data),
+    onSuccess: (completedTeam, variables) => {
+      queryClient.setQueryData(teamKeys.detail(variables.id), completedTeam);
+
+      // Members, lists and capacity figures all change
+      queryClient.invalidateQueries({ queryKey: teamKeys.all });
+
+      toast.success('Team completed', {
+        description: `${completedTeam.name} has been closed and its members released.`,
+      });
+    },
+    onError: (error: unknown) => {
+      const message = getErrorMessage(error, "Failed to complete team");
       toast.error("Error", { description: message });
     },
   });
@@ -344,20 +339,7 @@ export function useAddTeamMember(teamId: number) {
       });
     },
     onError: (error: unknown) => {
-      const message =
-        error &&
-        typeof error === "object" &&
-        "response" in error &&
-        error.response &&
-        typeof error.response === "object" &&
-        "data" in error.response &&
-        error.response.data &&
-        typeof error.response.data === "object"
-          ? (error.response.data as { message?: string }).message ||
-            "Failed to add team member"
-          : error instanceof Error
-            ? error.message
-            : "Failed to add team member";
+      const message = getErrorMessage(error, "Failed to add team member");
       toast.error("Error", { description: message });
     },
   });
@@ -385,20 +367,7 @@ export function useUpdateTeamMember(teamId: number) {
       toast.success('Member role updated successfully');
     },
     onError: (error: unknown) => {
-      const message =
-        error &&
-        typeof error === "object" &&
-        "response" in error &&
-        error.response &&
-        typeof error.response === "object" &&
-        "data" in error.response &&
-        error.response.data &&
-        typeof error.response.data === "object"
-          ? (error.response.data as { message?: string }).message ||
-            "Failed to update team member"
-          : error instanceof Error
-            ? error.message
-            : "Failed to update team member";
+      const message = getErrorMessage(error, "Failed to update team member");
       toast.error("Error", { description: message });
     },
   });
@@ -424,20 +393,7 @@ export function useRemoveTeamMember(teamId: number) {
       });
     },
     onError: (error: unknown) => {
-      const message =
-        error &&
-        typeof error === "object" &&
-        "response" in error &&
-        error.response &&
-        typeof error.response === "object" &&
-        "data" in error.response &&
-        error.response.data &&
-        typeof error.response.data === "object"
-          ? (error.response.data as { message?: string }).message ||
-            "Failed to remove team member"
-          : error instanceof Error
-            ? error.message
-            : "Failed to remove team member";
+      const message = getErrorMessage(error, "Failed to remove team member");
       toast.error("Error", { description: message });
     },
   });
@@ -484,20 +440,7 @@ export function useOptimisticUpdateTeam() {
         );
       }
 
-      const message =
-        error &&
-        typeof error === "object" &&
-        "response" in error &&
-        error.response &&
-        typeof error.response === "object" &&
-        "data" in error.response &&
-        error.response.data &&
-        typeof error.response.data === "object"
-          ? (error.response.data as { message?: string }).message ||
-            "Failed to update team"
-          : error instanceof Error
-            ? error.message
-            : "Failed to update team";
+      const message = getErrorMessage(error, "Failed to update team");
       toast.error("Error", { description: message });
     },
     onSuccess: (updatedTeam) => {
@@ -0,0 +1,220 @@
+/**
+ * Trash React Query Hooks
+ *
+ * Lists soft-deleted departments, positions and teams in one view
+ * and restores or permanently deletes them in bulk
+ *
+ * @see panel-admin/app/dashboard/hrm/trash/page.tsx
+ */
+
+import { useMemo } from 'react';
+import { useMutation, useQueries, useQueryClient } from '@tanstack/react-query';
+import { departmentApi } from '@/lib/api/departments';
+import { positionApi } from '@/lib/api/positions';
+import { teamApi } from '@/lib/api/teams';
+import { fetchAllPages } from '@/lib/api/pagination';
+import { departmentKeys } from '@/hooks/use-departments';
+import { positionKeys } from '@/hooks/use-positions';
+import { teamKeys } from '@/hooks/use-teams';
+import type {
+  Department,
+  Position,
+  Team,
+  TrashEntityType,
+  TrashItem,
+} from '@/types/hrm';
+import { toast } from 'sonner';
+
+export const TRASH_ENTITY_LABELS: Record<TrashEntityType, string> = {
+  department: 'Department',
+  position: 'Position',
+  team: 'Team',
+};
+
+const entityApis = {
+  department: departmentApi,
+  position: positionApi,
+  team: teamApi,
+};
+
+const entityKeys = {
+  department: departmentKeys,
+  position: positionKeys,
+  team: teamKeys,
+};
+
+const fromDepartment = (department: Department): TrashItem => ({
+  key: `department-${department.id}`,
+  type: 'department',
+  id: department.id,
+  name: department.name,
+  code: department.code,
+  context: department.parent?.name,
+  deleted_at: department.deleted_at || department.updated_at,
+  deleter: department.deleter,
+});
+
+const fromPosition = (position: Position): TrashItem => ({
+  key: `position-${position.id}`,
+  type: 'position',
+  id: position.id,
+  name: position.name,
+  code: position.code,
+  context: position.department?.name,
+  deleted_at: position.deleted_at || position.updated_at,
+  deleter: position.deleter,
+});
+
+const fromTeam = (team: Team): TrashItem => ({
+  key: `team-${team.id}`,
+  type: 'team',
+  id: team.id,
+  name: team.name,
+  code: team.code,
+  context: team.department?.name,
+  deleted_at: team.deleted_at || team.updated_at,
+  deleter: team.deleter,
+});
+
+export interface TrashBulkResult {
+  succeeded: TrashItem[];
+  failed: TrashItem[];
+}
+
+// ============================================================================
+// Query Hooks
+// ============================================================================
+
+/**
+ * Fetch trashed records for the given entity types, newest deletion first.
+ * Every page of each type is fetched, so nothing older drops off the list.
+ */
+export function useTrash(types: Record<TrashEntityType, boolean>) {
+  const [departments, positions, teams] = useQueries({
+    queries: [
+      {
+        queryKey: departmentKeys.trashed(),
+        queryFn: () => fetchAllPages((page) => departmentApi.trashed(page)),
+        enabled: types.department,
+      },
+      {
+        queryKey: positionKeys.trashed(),
+        queryFn: () => fetchAllPages((page) => positionApi.trashed(page)),
+        enabled: types.position,
+      },
+      {
+        queryKey: teamKeys.trashed(),
+        queryFn: () => fetchAllPages((page) => teamApi.trashed(page)),
+        enabled: types.team,
+      },
+    ],
+  });
+
+  const departmentsData = departments.data;
+  const positionsData = positions.data;
+  const teamsData = teams.data;
+
+  // Memoized so table state (pagination, selection) survives re-renders
+  const items = useMemo(
+    () =>
+      [
+        ...(types.department ? departmentsData || [] : []).map(fromDepartment),
+        ...(types.position ? positionsData || [] : []).map(fromPosition),
+        ...(types.team ? teamsData || [] : []).map(fromTeam),
+      ].sort((a, b) => b.deleted_at.localeCompare(a.deleted_at)),
+    [types.department, types.position, types.team, departmentsData, positionsData, teamsData]
+  );
+
+  const queries = [departments, positions, teams];
+  const failedQuery = queries.find((query) => query.isError);
+
+  return {
+    items,
+    isLoading: queries.some((query) => query.isLoading),
+    isFetching: queries.some((query) => query.isFetching),
+    error: failedQuery?.error ?? null,
+    refetch: () => Promise.all(queries.map((query) => query.refetch())),
+  };
+}
+
+// ============================================================================
+// Mutation Hooks
+// ============================================================================
+
+const runBulk = async (
+  items: TrashItem[],
+  action: (item: TrashItem) => Promise<unknown>
+): Promise<TrashBulkResult> => {
+  const results = await Promise.allSettled(items.map(action));
+  return {
+    succeeded: items.filter((_, index) => results[index].status === 'fulfilled'),
+    failed: items.filter((_, index) => results[index].status === 'rejected'),
+  };
+};
+
+const useInvalidateTrash = () => {
+  const queryClient = useQueryClient();
+
+  return (items: TrashItem[]) => {
+    const types = new Set(items.map((item) => item.type));
+    types.forEach((type) => {
+      queryClient.invalidateQueries({ queryKey: entityKeys[type].lists() });
+    });
+    if (types.has('department')) {
+      queryClient.invalidateQueries({ queryKey: departmentKeys.tree() });
+    }
+  };
+};
+
+const notifyBulk = (verb: string, { succeeded, failed }: TrashBulkResult) => {
+  if (failed.length === 0) {
+    toast.success(
+      succeeded.length === 1
+        ? `${succeeded[0].name} has been ${verb}.`
+        : `${succeeded.length} records have been ${verb}.`
+    );
+  } else {
+    toast.warning(`Some records could not be ${verb}`, {
+      description: `${succeeded.length} ${verb}, ${failed.length} failed: ${failed
+        .map((item) => item.name)
+        .join(', ')}`,
+    });
+  }
+};
+
+/**
+ * Restore one or more trashed records
+ */
+export function useRestoreTrashItems() {
+  const invalidate = useInvalidateTrash();
+
+  return useMutation<TrashBulkResult, Error, TrashItem[]>({
+    mutationFn: (items) => runBulk(items, (item) => entityApis[item.type].restore(item.id)),
+    onSuccess: (result, items) => {
+      invalidate(items);
+      notifyBulk('restored', result);
+    },
+    onError: (error) => {
+      toast.error('Error', { description: error.message || 'Failed to restore records' });
+    },
+  });
+}
+
+/**
+ * Permanently delete one or more trashed records (super admin only)
+ */
+export function usePurgeTrashItems() {
+  const invalidate = useInvalidateTrash();
+
+  return useMutation<TrashBulkResult, Error, TrashItem[]>({
+    mutationFn: (items) =>
+      runBulk(items, (item) => entityApis[item.type].forceDelete(item.id)),
+    onSuccess: (result, items) => {
+      invalidate(items);
+      notifyBulk('permanently deleted', result);
+    },
+    onError: (error) => {
+      toast.error('Error', { description: error.message || 'Failed to delete records' });
+    },
+  });
+}
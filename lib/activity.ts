@@ -0,0 +1,57 @@
+/**
+ * Activity Log Helpers
+ *
+ * Formatting and diffing utilities for spatie/laravel-activitylog entries.
+ */
+
+import type {
+  ActivityLog,
+  ActivityLogProperties,
+  ActivityPropertyChange,
+} from '@/types/activity'
+
+/**
+ * Strip the PHP namespace from a model class
+ * Example: "App\\Models\\User" -> "User"
+ */
+export function formatSubjectType(subjectType?: string | null): string {
+  if (!subjectType) return '-'
+  const parts = subjectType.split('\\')
+  return parts[parts.length - 1]
+}
+
+/**
+ * Build a key-by-key diff from the `attributes` / `old` properties.
+ * Keys present on either side are included; unchanged keys are skipped.
+ */
+export function getActivityChanges(activity: ActivityLog): ActivityPropertyChange[] {
+  const properties = (activity.properties || {}) as ActivityLogProperties
+  const attributes = properties.attributes || {}
+  const old = properties.old || {}
+
+  const keys = Array.from(new Set([...Object.keys(old), ...Object.keys(attributes)]))
+
+  return keys
+    .map((key) => ({ key, old: old[key], new: attributes[key] }))
+    .filter((change) => JSON.stringify(change.old) !== JSON.stringify(change.new))
+}
+
+/**
+ * Properties other than the attributes/old change set (e.g. ip, user_agent)
+ */
+export function getActivityExtraProperties(activity: ActivityLog): Record<string, unknown> {
+  const rest: Record<string, unknown> = { ...(activity.properties || {}) }
+  delete rest.attributes
+  delete rest.old
+  return rest
+}
+
+/**
+ * Render an arbitrary property value as display text
+ */
+export function formatPropertyValue(value: unknown): string {
+  if (value === undefined) return '—'
+  if (value === null) return 'null'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
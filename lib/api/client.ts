@@ -1,8 +1,16 @@
 import axios, { AxiosError, AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
-import { getAccessToken } from '@/lib/auth';
+import { endImpersonation, getRequestAuth, refreshAccessToken, signOutToLogin } from '@/lib/auth';
+import { IMPERSONATION_BLOCKED_MESSAGE, isBlockedWhileImpersonating } from '@/lib/impersonation';
+import { ForbiddenError, ImpersonationEndedError, normalizeApiError } from './errors';
 
 const API_VERSION = 'v1';
 
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  _retry?: boolean;
+  // Sent with an impersonation token: never replayed with another one
+  _impersonating?: boolean;
+}
+
 // Create axios instance
 const apiClient = axios.create({
   baseURL: `${process.env.NEXT_PUBLIC_API_URL || 'http://127.0.0.1:8000'}/api/${API_VERSION}`,
@@ -17,7 +25,22 @@ const apiClient = axios.create({
 apiClient.interceptors.request.use(
   async (config: InternalAxiosRequestConfig) => {
     // Get token from NextAuth session
-    const token = await getAccessToken();
+    const { accessToken: token, userId, impersonating, impersonationExpired } = await getRequestAuth();
+    (config as RetriableRequestConfig)._impersonating = impersonating;
+
+    if (impersonationExpired) {
+      void endImpersonation();
+      return Promise.reject(new ImpersonationEndedError());
+    }
+
+    // The backend refuses these for impersonation tokens too; failing here
+    // gives the same typed error without the round trip. `data.message` is
+    // what getErrorMessage() shows, so toasts give the reason.
+    if (impersonating && isBlockedWhileImpersonating(config.method, config.url, userId)) {
+      return Promise.reject(
+        new ForbiddenError(IMPERSONATION_BLOCKED_MESSAGE, { message: IMPERSONATION_BLOCKED_MESSAGE })
+      );
+    }
     
     if (token && config.headers) {
       config.headers.Authorization = `Bearer ${token}`;
@@ -30,6 +53,9 @@ apiClient.interceptors.request.use(
   }
 );
 
+let signingOut = false;
+
+
 interface ApiErrorData {
   error?: string;
   message?: string;
@@ -42,14 +68,53 @@ apiClient.interceptors.response.use(
     // Return full response for access to headers, status, etc
     return response;
   },
-  (error: AxiosError<ApiErrorData>) => {
+  async (error: AxiosError<ApiErrorData>) => {
     // Handle errors
     if (error.response) {
       // The request was made and the server responded with a status code
       // that falls out of the range of 2xx
       
+      const originalRequest = error.config as RetriableRequestConfig | undefined;
+
+      // The impersonation token lapsed or was revoked. Replaying would run
+      // the request as the admin while the UI still shows the user.
+      if (error.response.status === 401 && originalRequest?._impersonating) {
+        void endImpersonation();
+        return Promise.reject(new ImpersonationEndedError());
+      }
+
+      if (
+        error.response.status === 401 &&
+        originalRequest &&
+        !originalRequest._retry &&
+        typeof window !== 'undefined'
+      ) {
+        // Access token expired or rotated elsewhere: refresh once, then
+        // replay. Requests failing meanwhile wait for the same refresh.
+        originalRequest._retry = true;
+
+        // Sent with a token the session has since replaced (a refresh that
+        // finished meanwhile): replay with the current one. Otherwise the
+        // current token is the one rejected, so rotate it.
+        const { accessToken: current } = await getRequestAuth();
+        const sentWithStaleToken =
+          !!current && originalRequest.headers.Authorization !== `Bearer ${current}`;
+        const token = sentWithStaleToken ? current : await refreshAccessToken();
+
+        if (token) {
+          originalRequest.headers.Authorization = `Bearer ${token}`;
+          return apiClient(originalRequest);
+        }
+
+        // Refresh token rejected - the session is really over
+        if (!signingOut) {
+          signingOut = true;
+          await signOutToLogin();
+        }
+        return Promise.reject(normalizeApiError(error));
+      }
+
       if (error.response.status === 401) {
-        // Unauthorized - NextAuth will handle redirect
         console.error('Unauthorized: Please log in again');
       }
       
@@ -72,7 +137,7 @@ apiClient.interceptors.response.use(
           }
           
           // Don't proceed with normal error handling
-          return Promise.reject(new Error('Account Inactive'));
+          return Promise.reject(normalizeApiError(error));
         }
         
         // Forbidden - user doesn't have permission (other 403 cases)
@@ -101,7 +166,8 @@ apiClient.interceptors.response.use(
       console.error('Error setting up request:', error.message);
     }
     
-    return Promise.reject(error);
+    // Callers get a typed ApiError (see ./errors) instead of the AxiosError
+    return Promise.reject(normalizeApiError(error));
   }
 );
 
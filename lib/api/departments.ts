@@ -16,6 +16,7 @@ import type {
   User,
   Position,
   Team,
+  DepartmentUserHistory,
   PaginatedResponse,
   SingleResponse,
   SuccessResponse,
@@ -123,6 +124,28 @@ export const departmentApi = {
     return response.data.data;
   },
 
+  /**
+   * Get soft deleted departments (trash)
+   * GET /api/v1/departments?filter[trashed]=only
+   */
+  trashed: async (page = 1, perPage = 100) => {
+    const response = await apiClient.get<PaginatedResponse<Department>>(
+      `${BASE_PATH}?filter[trashed]=only&sort=-deleted_at&page=${page}&per_page=${perPage}&include=parent,deleter`
+    );
+    return response.data;
+  },
+
+  /**
+   * Permanently delete a soft deleted department
+   * DELETE /api/v1/departments/{id}/force
+   */
+  forceDelete: async (id: number) => {
+    const response = await apiClient.delete<SuccessResponse>(
+      `${BASE_PATH}/${id}/force`
+    );
+    return response.data;
+  },
+
   /**
    * Get department hierarchy tree
    * GET /api/v1/departments/tree
@@ -166,6 +189,27 @@ export const departmentApi = {
     );
     return response.data;
   },
+
+  /**
+   * Get membership history (current and past members) of a department
+   * GET /api/v1/departments/{id}/user-history
+   */
+  getUserHistory: async (id: number, page = 1, perPage = 15, onlyPast = false) => {
+    const params = new URLSearchParams({
+      page: String(page),
+      per_page: String(perPage),
+      include: 'user,position,creator',
+      sort: '-effective_date',
+    });
+    if (onlyPast) {
+      params.append('filter[is_current]', '0');
+    }
+
+    const response = await apiClient.get<PaginatedResponse<DepartmentUserHistory>>(
+      `${BASE_PATH}/${id}/user-history?${params.toString()}`
+    );
+    return response.data;
+  },
 };
 
 /**
@@ -0,0 +1,170 @@
+/**
+ * API Errors
+ *
+ * The response interceptor in `client.ts` turns every failed request into
+ * one of these classes, so callers can branch with `instanceof` instead of
+ * digging through `error.response.data`.
+ */
+
+import { isAxiosError, type AxiosError } from 'axios';
+import type { ApiErrorResponse } from '@/types/hrm';
+
+export class ApiError extends Error {
+  readonly status: number | null;
+  readonly data: ApiErrorResponse | null;
+
+  constructor(message: string, status: number | null = null, data: ApiErrorResponse | null = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+  }
+}
+
+/** 422 - Laravel validation failure with per-field messages */
+export class ValidationError extends ApiError {
+  readonly errors: Record<string, string[]>;
+
+  constructor(message: string, data: ApiErrorResponse | null) {
+    super(message, 422, data);
+    this.name = 'ValidationError';
+    this.errors = data?.errors ?? {};
+  }
+
+  /** First message per field, e.g. `{ email: 'The email has already been taken.' }` */
+  get fieldErrors(): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(this.errors)
+        .filter(([, messages]) => messages.length > 0)
+        .map(([field, messages]) => [field, messages[0]])
+    );
+  }
+}
+
+/** 401 - missing or expired token that could not be refreshed */
+export class UnauthorizedError extends ApiError {
+  constructor(message: string, data: ApiErrorResponse | null) {
+    super(message, 401, data);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/** 403 */
+export class ForbiddenError extends ApiError {
+  constructor(message: string, data: ApiErrorResponse | null) {
+    super(message, 403, data);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * The impersonation token expired or was revoked. Never replayed with the
+ * admin's own token; the client switches back and reloads instead.
+ */
+export class ImpersonationEndedError extends UnauthorizedError {
+  constructor(message = 'Your impersonation session has ended') {
+    super(message, { message });
+    this.name = 'ImpersonationEndedError';
+  }
+}
+
+/** 404 */
+export class NotFoundError extends ApiError {
+  constructor(message: string, data: ApiErrorResponse | null) {
+    super(message, 404, data);
+    this.name = 'NotFoundError';
+  }
+}
+
+/** 429 - `retryAfter` in seconds when the server sent Retry-After */
+export class RateLimitError extends ApiError {
+  readonly retryAfter: number | null;
+
+  constructor(message: string, data: ApiErrorResponse | null, retryAfter: number | null) {
+    super(message, 429, data);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/** 5xx */
+export class ServerError extends ApiError {
+  constructor(message: string, status: number, data: ApiErrorResponse | null) {
+    super(message, status, data);
+    this.name = 'ServerError';
+  }
+}
+
+/** No response at all: offline, CORS, timeout */
+export class NetworkError extends ApiError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Retry-After is either delay-seconds or an HTTP date
+ */
+export function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Convert an axios error (or anything thrown) into an ApiError
+ */
+export function normalizeApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+
+  if (!isAxiosError(error)) {
+    return new ApiError(error instanceof Error ? error.message : 'Something went wrong');
+  }
+
+  const { response } = error as AxiosError<ApiErrorResponse>;
+
+  if (!response) {
+    return new NetworkError(
+      error.code === 'ECONNABORTED'
+        ? 'The server took too long to respond'
+        : 'Unable to reach the server. Check your connection.'
+    );
+  }
+
+  // Blob/text responses (exports) carry no JSON body
+  const data = response.data && typeof response.data === 'object' && 'message' in response.data
+    ? response.data
+    : null;
+  const message = data?.message || data?.error || error.message;
+  const { status } = response;
+
+  if (status === 401) return new UnauthorizedError(message, data);
+  if (status === 403) return new ForbiddenError(message, data);
+  if (status === 404) return new NotFoundError(message, data);
+  if (status === 422) return new ValidationError(message, data);
+  if (status === 429) {
+    return new RateLimitError(message, data, parseRetryAfter(response.headers['retry-after']));
+  }
+  if (status >= 500) return new ServerError(message, status, data);
+
+  return new ApiError(message, status, data);
+}
+
+/**
+ * Message to show for a failed request: the server's message when it sent
+ * one, otherwise `fallback` (which names the action that failed)
+ */
+export function getErrorMessage(error: unknown, fallback = 'Something went wrong'): string {
+  if (error instanceof RateLimitError) {
+    const message = error.data?.message || 'Too many requests';
+    return error.retryAfter ? `${message}. Try again in ${error.retryAfter}s.` : message;
+  }
+  if (error instanceof NetworkError) return error.message;
+  if (error instanceof ApiError) return error.data?.message || fallback;
+  return error instanceof Error && error.message ? error.message : fallback;
+}
@@ -8,7 +8,12 @@
  */
 
 import apiClient from './client';
-import type { User, SuccessResponse } from '@/types/hrm';
+import type {
+  User,
+  SuccessResponse,
+  SingleResponse,
+  DepartmentUserHistory,
+} from '@/types/hrm';
 
 const BASE_PATH = '/hrm/users';
 
@@ -115,8 +120,10 @@ export const hrmAssignmentApi = {
    * GET /api/v1/hrm/users/{userId}/assignment-history
    */
   getHistory: async (userId: number) => {
-    const response = await apiClient.get(`${BASE_PATH}/${userId}/assignment-history`);
-    return response.data;
+    const response = await apiClient.get<SingleResponse<DepartmentUserHistory[]>>(
+      `${BASE_PATH}/${userId}/assignment-history`
+    );
+    return response.data.data || [];
   },
 
   /**
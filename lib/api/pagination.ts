@@ -0,0 +1,31 @@
+/**
+ * Pagination helpers for the HRM list endpoints
+ *
+ * Lookups, imports and reports need the whole set, but the backend caps
+ * `per_page`, so these walk every page instead of trusting the first one.
+ */
+
+import type { PaginatedResponse } from '@/types/hrm';
+
+// Largest page the backend serves
+export const MAX_PER_PAGE = 100;
+
+/**
+ * Request page 1, 2, ... until `last_page` and return every record
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (page: number) => Promise<PaginatedResponse<T>>
+): Promise<T[]> {
+  const records: T[] = [];
+  let page = 1;
+  let lastPage = 1;
+
+  do {
+    const response = await fetchPage(page);
+    records.push(...response.data);
+    lastPage = response.last_page || 1;
+    page++;
+  } while (page <= lastPage);
+
+  return records;
+}
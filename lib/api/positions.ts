@@ -120,6 +120,28 @@ export const positionApi = {
     return response.data.data;
   },
 
+  /**
+   * Get soft deleted positions (trash)
+   * GET /api/v1/positions?filter[trashed]=only
+   */
+  trashed: async (page = 1, perPage = 100) => {
+    const response = await apiClient.get<PaginatedResponse<Position>>(
+      `${BASE_PATH}?filter[trashed]=only&sort=-deleted_at&page=${page}&per_page=${perPage}&include=department,deleter`
+    );
+    return response.data;
+  },
+
+  /**
+   * Permanently delete a soft deleted position
+   * DELETE /api/v1/positions/{id}/force
+   */
+  forceDelete: async (id: number) => {
+    const response = await apiClient.delete<SuccessResponse>(
+      `${BASE_PATH}/${id}/force`
+    );
+    return response.data;
+  },
+
   /**
    * Get positions by department
    * GET /api/v1/positions/by-department/{departmentId}
@@ -0,0 +1,100 @@
+import { api } from '../client'
+import type { PaginatedResponse } from '@/types/user'
+import type { ActivityLog, ActivityLogFilters } from '@/types/activity'
+
+interface ApiResponse<T> {
+  data: T
+}
+
+const ACTIVITY_ENDPOINT = '/activity-logs'
+
+// Page size when exporting the filtered set; every page is fetched
+const EXPORT_PER_PAGE = 100
+
+/**
+ * Map frontend filters to Spatie QueryBuilder params
+ */
+function buildParams(filters?: ActivityLogFilters): URLSearchParams {
+  const params = new URLSearchParams()
+
+  if (filters) {
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value === undefined || value === null || value === '') return
+
+      if (key === 'sort_by') {
+        const sortOrder = filters.sort_order || 'desc'
+        params.append('sort', sortOrder === 'desc' ? `-${value}` : String(value))
+      } else if (key === 'page' || key === 'per_page') {
+        params.append(key, String(value))
+      } else if (key !== 'sort_order') {
+        params.append(`filter[${key}]`, String(value))
+      }
+    })
+  }
+
+  params.append('include', 'causer')
+  return params
+}
+
+export const activityService = {
+  /**
+   * Get paginated activity logs with filters
+   */
+  getActivities: async (filters?: ActivityLogFilters): Promise<PaginatedResponse<ActivityLog>> => {
+    const response = await api.get<PaginatedResponse<ActivityLog>>(
+      `${ACTIVITY_ENDPOINT}?${buildParams(filters).toString()}`
+    )
+    return response.data
+  },
+
+  /**
+   * Get single activity log entry
+   */
+  getActivity: async (id: string): Promise<ActivityLog> => {
+    const response = await api.get<ApiResponse<ActivityLog>>(
+      `${ACTIVITY_ENDPOINT}/${id}?include=causer`
+    )
+    return response.data.data
+  },
+
+  /**
+   * Get distinct log names for the filter dropdown
+   */
+  getLogNames: async (): Promise<string[]> => {
+    const response = await api.get<ApiResponse<string[]>>(`${ACTIVITY_ENDPOINT}/log-names`)
+    return response.data.data || []
+  },
+
+  /**
+   * Get distinct subject types for the filter dropdown
+   */
+  getSubjectTypes: async (): Promise<string[]> => {
+    const response = await api.get<ApiResponse<string[]>>(`${ACTIVITY_ENDPOINT}/subject-types`)
+    return response.data.data || []
+  },
+
+  /**
+   * Fetch every page of the filtered set (used for export). An audit export
+   * must be complete, so there is no page cap; narrow the filters instead.
+   */
+  getAllActivities: async (filters?: ActivityLogFilters): Promise<ActivityLog[]> => {
+    const rows: ActivityLog[] = []
+    let page = 1
+    let lastPage = 1
+
+    do {
+      const response = await activityService.getActivities({
+        ...filters,
+        page,
+        per_page: EXPORT_PER_PAGE,
+      })
+      rows.push(...response.data)
+      lastPage = response.meta?.last_page || 1
+      page++
+    } while (page <= lastPage)
+
+    return rows
+  },
+}
+
+export default activityService
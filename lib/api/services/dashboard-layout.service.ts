@@ -0,0 +1,67 @@
+import { api } from '../client'
+import type { ApiResponse } from '@/types/user'
+import type {
+  DashboardLayout,
+  DashboardWidget,
+  RoleDashboardLayout,
+} from '@/types/dashboard'
+
+const LAYOUT_ENDPOINT = '/dashboard/layout'
+const ROLE_LAYOUTS_ENDPOINT = '/dashboard/layouts/roles'
+
+export const dashboardLayoutService = {
+  /**
+   * Get the layout in effect for the current user: their own, else the
+   * default published for one of their roles. Null when neither exists.
+   */
+  getLayout: async (): Promise<DashboardLayout | null> => {
+    const response = await api.get<ApiResponse<DashboardLayout | null>>(LAYOUT_ENDPOINT)
+    return response.data.data ?? null
+  },
+
+  /**
+   * Save the current user's own layout
+   */
+  saveLayout: async (widgets: DashboardWidget[]): Promise<DashboardLayout> => {
+    const response = await api.put<ApiResponse<DashboardLayout>>(LAYOUT_ENDPOINT, { widgets })
+    return response.data.data
+  },
+
+  /**
+   * Delete the current user's own layout, falling back to their role default
+   */
+  resetLayout: async (): Promise<void> => {
+    await api.delete(LAYOUT_ENDPOINT)
+  },
+
+  /**
+   * Get the default layouts published per role (admin only)
+   */
+  getRoleLayouts: async (): Promise<RoleDashboardLayout[]> => {
+    const response = await api.get<ApiResponse<RoleDashboardLayout[]>>(ROLE_LAYOUTS_ENDPOINT)
+    return response.data.data || []
+  },
+
+  /**
+   * Publish a layout as the default for everyone with a role (admin only)
+   */
+  publishRoleLayout: async (
+    role: string,
+    widgets: DashboardWidget[]
+  ): Promise<RoleDashboardLayout> => {
+    const response = await api.put<ApiResponse<RoleDashboardLayout>>(
+      `${ROLE_LAYOUTS_ENDPOINT}/${encodeURIComponent(role)}`,
+      { widgets }
+    )
+    return response.data.data
+  },
+
+  /**
+   * Remove a role's published default (admin only)
+   */
+  deleteRoleLayout: async (role: string): Promise<void> => {
+    await api.delete(`${ROLE_LAYOUTS_ENDPOINT}/${encodeURIComponent(role)}`)
+  },
+}
+
+export default dashboardLayoutService
@@ -0,0 +1,68 @@
+import { api } from '../client'
+import type { ApiResponse } from '@/types/user'
+import type { AppNotification, NotificationPage } from '@/types/notification'
+
+const NOTIFICATIONS_ENDPOINT = '/notifications'
+
+export const notificationService = {
+  /**
+   * Get the current user's notifications, newest first
+   */
+  getNotifications: async (
+    page = 1,
+    perPage = 15,
+    unreadOnly = false
+  ): Promise<NotificationPage> => {
+    const params = new URLSearchParams({
+      page: page.toString(),
+      per_page: perPage.toString(),
+    })
+    if (unreadOnly) {
+      params.append('filter[unread]', '1')
+    }
+    const response = await api.get<NotificationPage>(
+      `${NOTIFICATIONS_ENDPOINT}?${params.toString()}`
+    )
+    return response.data
+  },
+
+  /**
+   * Get notifications created after a timestamp (polling fallback)
+   */
+  getSince: async (since: string): Promise<AppNotification[]> => {
+    const params = new URLSearchParams({ 'filter[since]': since, per_page: '50' })
+    const response = await api.get<NotificationPage>(
+      `${NOTIFICATIONS_ENDPOINT}?${params.toString()}`
+    )
+    return response.data.data
+  },
+
+  /**
+   * Get the unread badge count
+   */
+  getUnreadCount: async (): Promise<number> => {
+    const response = await api.get<ApiResponse<{ count: number }>>(
+      `${NOTIFICATIONS_ENDPOINT}/unread-count`
+    )
+    return response.data.data.count
+  },
+
+  /**
+   * Mark a single notification as read
+   */
+  markAsRead: async (id: string): Promise<AppNotification> => {
+    const response = await api.post<ApiResponse<AppNotification>>(
+      `${NOTIFICATIONS_ENDPOINT}/${id}/read`
+    )
+    return response.data.data
+  },
+
+  /**
+   * Mark every notification as read
+   */
+  markAllAsRead: async (): Promise<void> => {
+    await api.post(`${NOTIFICATIONS_ENDPOINT}/read-all`)
+  },
+}
+
+export default notificationService
@@ -1,5 +1,6 @@
 import { api } from '@/lib/api/client'
-import { Permission, PermissionsByModule } from '@/types/permission'
+import { Permission, PermissionsByModule, CreatePermissionInput } from '@/types/permission'
+import { parsePermissionName } from '@/lib/permissions/modules'
 
 interface ApiResponse<T> {
   data: T
@@ -13,7 +14,7 @@ export const permissionService = {
    */
   getPermissions: async (): Promise<Permission[]> => {
     const response = await api.get<ApiResponse<Permission[]>>(PERMISSIONS_ENDPOINT, {
-      params: { per_page: 1000 } // Get all permissions
+      params: { per_page: 1000, include: 'roles' } // Get all permissions
     })
     return response.data.data || []
   },
@@ -21,6 +22,7 @@ export const permissionService = {
   /**
    * Group permissions by module (extracted from permission name)
    * Example: "view_users" -> module: "users"
+   * Example: "hrm.departments.view" -> module: "hrm.departments"
    */
   getPermissionsGroupedByModule: async (): Promise<PermissionsByModule> => {
     const permissions = await permissionService.getPermissions()
@@ -28,9 +30,7 @@ export const permissionService = {
     const grouped: PermissionsByModule = {}
     
     permissions.forEach(permission => {
-      // Extract module from permission name (format: action_module)
-      const parts = permission.name.split('_')
-      const moduleName = parts.length > 1 ? parts.slice(1).join('_') : 'other'
+      const { module: moduleName } = parsePermissionName(permission.name)
       
       if (!grouped[moduleName]) {
         grouped[moduleName] = []
@@ -40,4 +40,12 @@ export const permissionService = {
     
     return grouped
   },
+
+  /**
+   * Create a custom permission
+   */
+  createPermission: async (data: CreatePermissionInput): Promise<Permission> => {
+    const response = await api.post<ApiResponse<Permission>>(PERMISSIONS_ENDPOINT, data)
+    return response.data.data
+  },
 }
@@ -0,0 +1,60 @@
+import { api } from '../client'
+import type { ApiResponse } from '@/types/user'
+import type {
+  TableView,
+  CreateTableViewInput,
+  UpdateTableViewInput,
+} from '@/types/table-view'
+
+const TABLE_VIEWS_ENDPOINT = '/table-views'
+
+export const tableViewService = {
+  /**
+   * Get the current user's views plus views shared by teammates for a table
+   */
+  getViews: async (table: string): Promise<TableView[]> => {
+    const params = new URLSearchParams({ 'filter[table]': table, include: 'user' })
+    const response = await api.get<ApiResponse<TableView[]>>(
+      `${TABLE_VIEWS_ENDPOINT}?${params.toString()}`
+    )
+    return response.data.data || []
+  },
+
+  /**
+   * Save a new view
+   */
+  createView: async (data: CreateTableViewInput): Promise<TableView> => {
+    const response = await api.post<ApiResponse<TableView>>(TABLE_VIEWS_ENDPOINT, data)
+    return response.data.data
+  },
+
+  /**
+   * Update name, snapshot or sharing of a view
+   */
+  updateView: async (id: string, data: UpdateTableViewInput): Promise<TableView> => {
+    const response = await api.put<ApiResponse<TableView>>(
+      `${TABLE_VIEWS_ENDPOINT}/${id}`,
+      data
+    )
+    return response.data.data
+  },
+
+  /**
+   * Delete a view
+   */
+  deleteView: async (id: string): Promise<void> => {
+    await api.delete(`${TABLE_VIEWS_ENDPOINT}/${id}`)
+  },
+
+  /**
+   * Make a view the user's default for its table (unsets the previous one)
+   */
+  setDefaultView: async (id: string): Promise<TableView> => {
+    const response = await api.post<ApiResponse<TableView>>(
+      `${TABLE_VIEWS_ENDPOINT}/${id}/default`
+    )
+    return response.data.data
+  },
+}
+
+export default tableViewService
@@ -9,6 +9,9 @@ import type {
   ActivityLog,
   UserStats,
   ChangePasswordInput,
+  TwoFactorSetup,
+  TwoFactorRecoveryCodes,
+  UserSession,
 } from '@/types/user'
 import type { Permission } from '@/types/permission'
 
@@ -26,7 +29,13 @@ export const userService = {
       Object.entries(filters).forEach(([key, value]) => {
         if (value !== undefined && value !== null && value !== '') {
           // Map filter parameters to Spatie QueryBuilder format
-          if (key === 'search' || key === 'role' || key === 'is_active' || key === 'email_verified') {
+          if (
+            key === 'search' ||
+            key === 'role' ||
+            key === 'is_active' ||
+            key === 'email_verified' ||
+            key === 'probation_ending_within'
+          ) {
             params.append(`filter[${key}]`, String(value))
           } else if (key === 'sort_by') {
             // Map sort_by to Spatie's sort parameter
@@ -236,6 +245,85 @@ export const userService = {
     )
     return response.data.data
   },
+
+  /**
+   * Start TOTP enrollment; 2FA stays inactive until confirmed
+   */
+  enableTwoFactor: async (id: string): Promise<TwoFactorSetup> => {
+    const response = await api.post<ApiResponse<TwoFactorSetup>>(
+      `${USERS_ENDPOINT}/${id}/two-factor`
+    )
+    return response.data.data
+  },
+
+  /**
+   * Confirm enrollment with a code from the authenticator app
+   */
+  confirmTwoFactor: async (id: string, code: string): Promise<TwoFactorRecoveryCodes> => {
+    const response = await api.post<ApiResponse<TwoFactorRecoveryCodes>>(
+      `${USERS_ENDPOINT}/${id}/two-factor/confirm`,
+      { code }
+    )
+    return response.data.data
+  },
+
+  /**
+   * Replace the recovery codes; the old ones stop working
+   */
+  regenerateRecoveryCodes: async (id: string): Promise<TwoFactorRecoveryCodes> => {
+    const response = await api.post<ApiResponse<TwoFactorRecoveryCodes>>(
+      `${USERS_ENDPOINT}/${id}/two-factor/recovery-codes`
+    )
+    return response.data.data
+  },
+
+  /**
+   * Turn off 2FA for the signed-in user (requires a current code)
+   */
+  disableTwoFactor: async (id: string, code: string): Promise<void> => {
+    await api.delete(`${USERS_ENDPOINT}/${id}/two-factor`, { data: { code } })
+  },
+
+  /**
+   * Admin reset of another user's 2FA (lost device)
+   */
+  resetTwoFactor: async (id: string): Promise<User> => {
+    const response = await api.post<ApiResponse<User>>(
+      `${USERS_ENDPOINT}/${id}/two-factor/reset`
+    )
+    return response.data.data
+  },
+
+  /**
+   * Get the user's active sessions (API tokens)
+   */
+  getSessions: async (id: string): Promise<UserSession[]> => {
+    const response = await api.get<ApiResponse<UserSession[]>>(
+      `${USERS_ENDPOINT}/${id}/sessions`
+    )
+    return response.data.data
+  },
+
+  /**
+   * Revoke a single session
+   */
+  revokeSession: async (id: string, sessionId: string): Promise<void> => {
+    await api.delete(`${USERS_ENDPOINT}/${id}/sessions/${sessionId}`)
+  },
+
+  /**
+   * Revoke every session except the one making the request
+   */
+  revokeOtherSessions: async (id: string): Promise<void> => {
+    await api.delete(`${USERS_ENDPOINT}/${id}/sessions/others`)
+  },
+
+  /**
+   * Revoke every session, signing the user out on all devices
+   */
+  revokeAllSessions: async (id: string): Promise<void> => {
+    await api.delete(`${USERS_ENDPOINT}/${id}/sessions`)
+  },
 }
 
 export default userService
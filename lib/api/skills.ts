@@ -0,0 +1,119 @@
+/**
+ * Skill API Service
+ *
+ * Handles the skill catalog and the skills recorded on users
+ * Synced with: SkillController.php & UserSkillController.php
+ *
+ * @see lara12-rest-api/app/Http/Controllers/Api/V1/HRM/SkillController.php
+ * @see lara12-rest-api/app/Http/Controllers/Api/V1/HRM/UserSkillController.php
+ */
+
+import apiClient from './client';
+import type {
+  Skill,
+  SkillFilters,
+  SkillInput,
+  UserSkill,
+  UserSkillInput,
+  PaginatedResponse,
+  SingleResponse,
+  SuccessResponse,
+} from '@/types/hrm';
+
+const BASE_PATH = '/hrm/skills';
+const USERS_PATH = '/hrm/users';
+
+/**
+ * Skill API endpoints
+ */
+export const skillApi = {
+  /**
+   * Get paginated skill catalog
+   * GET /api/v1/hrm/skills
+   */
+  list: async (filters?: SkillFilters) => {
+    const params = new URLSearchParams();
+
+    if (filters?.search) {
+      params.append('filter[search]', filters.search);
+    }
+    if (filters?.category) {
+      params.append('filter[category]', filters.category);
+    }
+    params.append('page', (filters?.page || 1).toString());
+    params.append('per_page', (filters?.per_page || 20).toString());
+    params.append('sort', 'name');
+
+    const response = await apiClient.get<PaginatedResponse<Skill>>(
+      `${BASE_PATH}?${params.toString()}`
+    );
+    return response.data;
+  },
+
+  /**
+   * Add skill to the catalog
+   * POST /api/v1/hrm/skills
+   */
+  create: async (data: SkillInput) => {
+    const response = await apiClient.post<SingleResponse<Skill>>(
+      BASE_PATH,
+      data
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Get skills recorded on a user
+   * GET /api/v1/hrm/users/{userId}/skills
+   */
+  getUserSkills: async (userId: number) => {
+    const response = await apiClient.get<{ data: UserSkill[] }>(
+      `${USERS_PATH}/${userId}/skills?include=skill`
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Record a skill on a user
+   * POST /api/v1/hrm/users/{userId}/skills
+   */
+  addUserSkill: async (userId: number, data: UserSkillInput) => {
+    const response = await apiClient.post<SingleResponse<UserSkill>>(
+      `${USERS_PATH}/${userId}/skills`,
+      data
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Update proficiency / experience of a user skill
+   * PUT /api/v1/hrm/users/{userId}/skills/{skillId}
+   */
+  updateUserSkill: async (
+    userId: number,
+    skillId: number,
+    data: Omit<UserSkillInput, 'skill_id'>
+  ) => {
+    const response = await apiClient.put<SingleResponse<UserSkill>>(
+      `${USERS_PATH}/${userId}/skills/${skillId}`,
+      data
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Remove a skill from a user
+   * DELETE /api/v1/hrm/users/{userId}/skills/{skillId}
+   */
+  removeUserSkill: async (userId: number, skillId: number) => {
+    const response = await apiClient.delete<SuccessResponse>(
+      `${USERS_PATH}/${userId}/skills/${skillId}`
+    );
+    return response.data;
+  },
+};
+
+/**
+ * Export default for convenient import
+ */
+export default skillApi;
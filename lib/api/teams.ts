@@ -12,6 +12,7 @@ import apiClient from "./client";
 import type {
   Team,
   TeamInput,
+  TeamCompleteInput,
   TeamFilters,
   TeamRole,
   TeamMember,
@@ -126,6 +127,40 @@ export const teamApi = {
     return response.data.data;
   },
 
+  /**
+   * Complete team and end all active memberships (sets left_at)
+   * POST /api/v1/teams/{id}/complete
+   */
+  complete: async (id: number, data: TeamCompleteInput = {}) => {
+    const response = await apiClient.post<SingleResponse<Team>>(
+      `${BASE_PATH}/${id}/complete`,
+      data
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Get soft deleted teams (trash)
+   * GET /api/v1/teams?filter[trashed]=only
+   */
+  trashed: async (page = 1, perPage = 100) => {
+    const response = await apiClient.get<PaginatedResponse<Team>>(
+      `${BASE_PATH}?filter[trashed]=only&sort=-deleted_at&page=${page}&per_page=${perPage}&include=department,deleter`
+    );
+    return response.data;
+  },
+
+  /**
+   * Permanently delete a soft deleted team
+   * DELETE /api/v1/teams/{id}/force
+   */
+  forceDelete: async (id: number) => {
+    const response = await apiClient.delete<SuccessResponse>(
+      `${BASE_PATH}/${id}/force`
+    );
+    return response.data;
+  },
+
   /**
    * Get teams by department
    * GET /api/v1/teams/by-department/{departmentId}
@@ -0,0 +1,59 @@
+/**
+ * Assignment History Helpers
+ *
+ * Formatting for DepartmentUserHistory records (reasons, tenure, status).
+ */
+
+import { formatDuration, intervalToDuration, parseISO } from 'date-fns'
+import type { DepartmentUserHistory } from '@/types/hrm'
+
+type BadgeVariant = 'default' | 'secondary' | 'destructive' | 'outline'
+
+const REASON_VARIANTS: Record<string, BadgeVariant> = {
+  new_hire: 'secondary',
+  promotion: 'default',
+  transfer: 'outline',
+  restructure: 'outline',
+  demotion: 'destructive',
+}
+
+/**
+ * Human readable label for a TRANSFER_REASONS value
+ * Example: "new_hire" -> "New Hire"
+ */
+export function formatTransferReason(reason?: string | null): string {
+  if (!reason) return 'Other'
+  return reason
+    .split('_')
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(' ')
+}
+
+/**
+ * Badge variant for a transfer reason
+ */
+export function getReasonBadgeVariant(reason?: string | null): BadgeVariant {
+  return (reason && REASON_VARIANTS[reason]) || 'secondary'
+}
+
+/**
+ * Whether the stint is still ongoing
+ */
+export function isCurrentStint(history: DepartmentUserHistory): boolean {
+  return history.is_current ?? !history.end_date
+}
+
+/**
+ * Tenure of a stint, e.g. "2 years 3 months". Ongoing stints run until today.
+ */
+export function formatTenure(startDate: string, endDate?: string | null): string {
+  const start = parseISO(startDate)
+  const end = endDate ? parseISO(endDate) : new Date()
+  if (end <= start) return 'Less than a day'
+
+  const duration = intervalToDuration({ start, end })
+  const formatted = formatDuration(duration, {
+    format: duration.years || duration.months ? ['years', 'months'] : ['days'],
+  })
+  return formatted || 'Less than a day'
+}
@@ -1,16 +1,56 @@
-import { getSession } from 'next-auth/react';
+import { getCsrfToken, getSession, signOut } from 'next-auth/react';
+
+// Same margin as auth.ts: refresh before requests in flight can race the expiry
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// A single refresh shared by every caller while it runs
+let refreshPromise: Promise<string | null> | null = null;
 
 /**
  * Get the current access token from NextAuth session
  * This should be used in client components
  */
 export async function getAccessToken(): Promise<string | null> {
+  const { accessToken } = await getRequestAuth();
+  return accessToken;
+}
+
+/**
+ * Token plus whether it belongs to an impersonation, read from a single
+ * session fetch - the API client needs both for every request
+ */
+export async function getRequestAuth(): Promise<{
+  accessToken: string | null;
+  /** The signed-in user - the target user while impersonating */
+  userId: string | null;
+  impersonating: boolean;
+  /** Impersonating, but the token is about to lapse; see `endImpersonation` */
+  impersonationExpired: boolean;
+}> {
   if (typeof window === 'undefined') {
-    return null;
+    return { accessToken: null, userId: null, impersonating: false, impersonationExpired: false };
   }
 
   const session = await getSession();
-  return session?.user?.accessToken || null;
+  const impersonating = !!session?.impersonator;
+  let accessToken = session?.user?.accessToken || null;
+
+  const expires = session?.accessTokenExpires;
+  const expiring = !!accessToken && !!expires && Date.now() > expires - REFRESH_MARGIN_MS;
+
+  // Rotate ahead of expiry here rather than in the `jwt` callback, so one
+  // refresh serves every request that notices it. Impersonation tokens
+  // are not refreshable.
+  if (expiring && !impersonating) {
+    accessToken = await refreshAccessToken();
+  }
+
+  return {
+    accessToken,
+    userId: session?.user?.id || null,
+    impersonating,
+    impersonationExpired: expiring && impersonating,
+  };
 }
 
 /**
@@ -20,3 +60,76 @@ export async function isAuthenticated(): Promise<boolean> {
   const token = await getAccessToken();
   return !!token;
 }
+
+/**
+ * Ask NextAuth to rotate the access token (the `jwt` callback handles
+ * `update({ refresh: true })`). This is what `useSession().update` does,
+ * but usable outside React. Concurrent callers share one request, since
+ * the refresh token only works once. Returns the new token, or null when
+ * the refresh token was rejected.
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  if (typeof window === 'undefined') {
+    return Promise.resolve(null);
+  }
+
+  if (!refreshPromise) {
+    refreshPromise = requestRefresh()
+      .catch(() => null)
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+}
+
+async function requestRefresh(): Promise<string | null> {
+  const csrfToken = await getCsrfToken();
+  const response = await fetch('/api/auth/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ csrfToken, data: { refresh: true } }),
+  });
+
+  if (!response.ok) {
+    return null;
+  }
+
+  const session = await response.json();
+  if (!session || session.error) {
+    return null;
+  }
+  return session.user?.accessToken || null;
+}
+
+let endingImpersonation: Promise<void> | null = null;
+
+/**
+ * Switch back to the admin's own session after the impersonation token
+ * lapsed, then reload so nothing rendered as the user stays on screen.
+ * Shared by every request that notices it.
+ */
+export function endImpersonation(): Promise<void> {
+  if (!endingImpersonation) {
+    endingImpersonation = (async () => {
+      const csrfToken = await getCsrfToken();
+      await fetch('/api/auth/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csrfToken, data: { stopImpersonating: true } }),
+      }).catch(() => null);
+      window.location.assign('/dashboard/users');
+    })();
+  }
+  return endingImpersonation;
+}
+
+/**
+ * Sign out and come back to the current page after logging in again
+ */
+export async function signOutToLogin(): Promise<void> {
+  const callbackUrl = `${window.location.pathname}${window.location.search}`;
+  await signOut({
+    redirectTo: `/login?callbackUrl=${encodeURIComponent(callbackUrl)}`,
+  });
+}
@@ -0,0 +1,235 @@
+/**
+ * Compensation Band Helpers
+ *
+ * Converts position salary bands into a single display currency and checks
+ * them for inverted ranges, overlaps between adjacent levels and bands that
+ * break level ordering (e.g. a Junior max above a Senior min).
+ */
+
+import { POSITION_LEVELS, POSITION_LEVEL_OPTIONS } from '@/types/hrm'
+import type { Position } from '@/types/hrm'
+
+export type BandIssueType = 'inverted' | 'overlap' | 'level_order'
+
+export interface BandIssue {
+  type: BandIssueType
+  severity: 'error' | 'warning'
+  positionIds: number[]
+  message: string
+}
+
+export interface SalaryBand {
+  position: Position
+  departmentName: string
+  level: string | null
+  levelLabel: string
+  rank: number | null // higher is more senior, null for unknown levels
+  min: number | null // in the display currency
+  max: number | null
+  sourceCurrency: string
+  missingRate: boolean
+}
+
+interface RankedBand {
+  band: SalaryBand
+  rank: number
+  min: number
+  max: number
+}
+
+export interface LevelBand {
+  level: string
+  levelLabel: string
+  min: number
+  max: number
+  positions: number
+}
+
+const LEVEL_LABELS: Record<string, string> = Object.fromEntries(
+  POSITION_LEVEL_OPTIONS.map((option) => [option.value, option.label])
+)
+
+/**
+ * POSITION_LEVELS is ordered most senior first
+ */
+export function getLevelRank(level?: string | null): number | null {
+  if (!level) return null
+  const index = (POSITION_LEVELS as readonly string[]).indexOf(level.toLowerCase())
+  return index === -1 ? null : POSITION_LEVELS.length - index
+}
+
+export function getLevelLabel(level?: string | null): string {
+  if (!level) return 'No Level'
+  return LEVEL_LABELS[level.toLowerCase()] ?? level
+}
+
+/**
+ * Convert through the base currency; null when a rate is missing
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  rates: Record<string, number>
+): number | null {
+  if (from === to) return amount
+  const fromRate = rates[from]
+  const toRate = rates[to]
+  if (!fromRate || !toRate) return null
+  return (amount * fromRate) / toRate
+}
+
+export function formatMoney(amount: number | null, currency: string): string {
+  if (amount === null) return '-'
+  try {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency,
+      maximumFractionDigits: 0,
+    }).format(amount)
+  } catch {
+    // Unknown ISO code in the conversion table
+    return `${currency} ${Math.round(amount).toLocaleString('id-ID')}`
+  }
+}
+
+function parseSalary(value?: string | null): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const amount = Number(value)
+  return Number.isFinite(amount) ? amount : null
+}
+
+/**
+ * Normalise positions with at least one salary bound into bands
+ */
+export function getSalaryBands(
+  positions: Position[],
+  currency: string,
+  rates: Record<string, number>
+): SalaryBand[] {
+  return positions
+    .map((position) => {
+      const sourceCurrency = (position.salary_currency || 'IDR').toUpperCase()
+      const rawMin = parseSalary(position.salary_min)
+      const rawMax = parseSalary(position.salary_max)
+      const convert = (amount: number | null) =>
+        amount === null ? null : convertAmount(amount, sourceCurrency, currency, rates)
+      const min = convert(rawMin)
+      const max = convert(rawMax)
+
+      return {
+        position,
+        departmentName: position.department?.name ?? 'No Department',
+        level: position.level ?? null,
+        levelLabel: getLevelLabel(position.level),
+        rank: getLevelRank(position.level),
+        min,
+        max,
+        sourceCurrency,
+        missingRate: (rawMin !== null && min === null) || (rawMax !== null && max === null),
+      }
+    })
+    .filter((band) => band.position.salary_min || band.position.salary_max)
+    .sort(
+      (a, b) =>
+        (b.rank ?? -1) - (a.rank ?? -1) ||
+        a.position.name.localeCompare(b.position.name)
+    )
+}
+
+/**
+ * Widest band per level (most senior first)
+ */
+export function getLevelBands(bands: SalaryBand[]): LevelBand[] {
+  const byLevel = new Map<string, LevelBand>()
+
+  bands.forEach((band) => {
+    if (band.min === null || band.max === null) return
+    const level = band.level?.toLowerCase() ?? 'none'
+    const entry = byLevel.get(level)
+    if (entry) {
+      entry.min = Math.min(entry.min, band.min)
+      entry.max = Math.max(entry.max, band.max)
+      entry.positions++
+    } else {
+      byLevel.set(level, {
+        level,
+        levelLabel: band.levelLabel,
+        min: band.min,
+        max: band.max,
+        positions: 1,
+      })
+    }
+  })
+
+  return [...byLevel.values()].sort(
+    (a, b) => (getLevelRank(b.level) ?? -1) - (getLevelRank(a.level) ?? -1)
+  )
+}
+
+/**
+ * Check bands for problems; levels are only compared within a department
+ */
+export function findBandIssues(bands: SalaryBand[]): BandIssue[] {
+  const issues: BandIssue[] = []
+
+  bands.forEach(({ position, min, max }) => {
+    if (min !== null && max !== null && min > max) {
+      issues.push({
+        type: 'inverted',
+        severity: 'error',
+        positionIds: [position.id],
+        message: `${position.name}: minimum is above maximum`,
+      })
+    }
+  })
+
+  // Only ranked bands with both bounds take part in level comparisons
+  const byDepartment = new Map<string, RankedBand[]>()
+  bands.forEach((band) => {
+    const { rank, min, max } = band
+    if (rank === null || min === null || max === null) return
+    byDepartment.set(band.departmentName, [
+      ...(byDepartment.get(band.departmentName) ?? []),
+      { band, rank, min, max },
+    ])
+  })
+
+  byDepartment.forEach((ranked) => {
+    ranked.forEach((low) => {
+      ranked.forEach((high) => {
+        if (low.rank >= high.rank) return
+
+        const startsAbove = low.min > high.min
+        const skipsLevel = high.rank - low.rank > 1
+        const overlaps = low.max > high.min
+        if (!startsAbove && !overlaps) return
+
+        const lowLabel = low.band.levelLabel
+        const highLabel = high.band.levelLabel
+        const pair = `${low.band.position.name} (${lowLabel}) / ${high.band.position.name} (${highLabel})`
+        const positionIds = [low.band.position.id, high.band.position.id]
+
+        if (startsAbove || skipsLevel) {
+          issues.push({
+            type: 'level_order',
+            severity: 'error',
+            positionIds,
+            message: startsAbove
+              ? `${pair}: ${lowLabel} starts above ${highLabel}`
+              : `${pair}: ${lowLabel} max is above ${highLabel} min`,
+          })
+        } else {
+          issues.push({
+            type: 'overlap',
+            severity: 'warning',
+            positionIds,
+            message: `${pair}: adjacent levels overlap`,
+          })
+        }
+      })
+    })
+  })
+
+  return issues
+}
@@ -0,0 +1,95 @@
+/**
+ * Dashboard Metrics Helpers
+ *
+ * Turns the backend's daily sign-up / login counts into chart series and
+ * period-over-period changes for the dashboard cards.
+ */
+
+import { addDays, format, parseISO, subDays } from 'date-fns'
+
+export const DASHBOARD_RANGES = {
+  '7d': { days: 7, label: 'Last 7 days' },
+  '30d': { days: 30, label: 'Last 30 days' },
+  '90d': { days: 90, label: 'Last 3 months' },
+} as const
+
+export type DashboardRange = keyof typeof DASHBOARD_RANGES
+
+export const DEFAULT_DASHBOARD_RANGE: DashboardRange = '30d'
+
+export function isDashboardRange(value: unknown): value is DashboardRange {
+  return typeof value === 'string' && Object.hasOwn(DASHBOARD_RANGES, value)
+}
+
+export interface DailyUserActivity {
+  date: string // YYYY-MM-DD
+  signups: number
+  logins: number
+}
+
+export interface PeriodTotals {
+  signups: number
+  logins: number
+}
+
+/**
+ * First day of the current and previous periods. Both cover `days` days,
+ * the current one ending today.
+ */
+export function getPeriodBounds(range: DashboardRange, today = new Date()) {
+  const { days } = DASHBOARD_RANGES[range]
+  const currentStart = subDays(today, days - 1)
+  return {
+    previousStart: format(subDays(currentStart, days), 'yyyy-MM-dd'),
+    currentStart: format(currentStart, 'yyyy-MM-dd'),
+    end: format(today, 'yyyy-MM-dd'),
+  }
+}
+
+/**
+ * One row per day from `from` to `to` inclusive; days missing from the
+ * API response (no sign-ups, no logins) become zeros
+ */
+export function fillDailySeries(
+  rows: DailyUserActivity[],
+  from: string,
+  to: string
+): DailyUserActivity[] {
+  const byDate = new Map(rows.map((row) => [row.date.slice(0, 10), row]))
+  const series: DailyUserActivity[] = []
+
+  for (let day = parseISO(from); format(day, 'yyyy-MM-dd') <= to; day = addDays(day, 1)) {
+    const date = format(day, 'yyyy-MM-dd')
+    const row = byDate.get(date)
+    series.push({ date, signups: row?.signups ?? 0, logins: row?.logins ?? 0 })
+  }
+
+  return series
+}
+
+export function sumPeriod(series: DailyUserActivity[], from: string, to?: string): PeriodTotals {
+  return series
+    .filter((row) => row.date >= from && (!to || row.date < to))
+    .reduce(
+      (totals, row) => ({
+        signups: totals.signups + row.signups,
+        logins: totals.logins + row.logins,
+      }),
+      { signups: 0, logins: 0 }
+    )
+}
+
+/**
+ * Percentage change from `previous` to `current`; null when there is no
+ * baseline to compare against
+ */
+export function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) return current === 0 ? 0 : null
+  return ((current - previous) / previous) * 100
+}
+
+export function formatChange(change: number | null): string {
+  if (change === null) return 'New'
+  const rounded = Math.round(change * 10) / 10
+  return `${rounded > 0 ? '+' : ''}${rounded}%`
+}
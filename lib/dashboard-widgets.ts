@@ -0,0 +1,126 @@
+/**
+ * Dashboard Widget Library
+ *
+ * Metadata for every widget a user can place on their dashboard, the
+ * built-in layout used when neither the user nor their role has one, and
+ * helpers to keep stored layouts valid as widgets come and go.
+ */
+
+import type {
+  DashboardWidget,
+  DashboardWidgetType,
+  DashboardWidgetWidth,
+} from '@/types/dashboard'
+
+export const DASHBOARD_COLUMNS = 4
+
+export interface WidgetDefinition {
+  title: string
+  description: string
+  defaultWidth: DashboardWidgetWidth
+  /** Narrower than this and the widget's content stops fitting */
+  minWidth: DashboardWidgetWidth
+}
+
+export const WIDGET_DEFINITIONS: Record<DashboardWidgetType, WidgetDefinition> = {
+  'stat-cards': {
+    title: 'Key Metrics',
+    description: 'Users, sign-ups and sign-ins compared with the previous period',
+    defaultWidth: 4,
+    minWidth: 2,
+  },
+  'user-activity': {
+    title: 'User Activity',
+    description: 'Daily sign-ups and logins over the selected range',
+    defaultWidth: 3,
+    minWidth: 2,
+  },
+  'users-by-role': {
+    title: 'Users by Role',
+    description: 'Share of users holding each role',
+    defaultWidth: 1,
+    minWidth: 1,
+  },
+  'department-headcount': {
+    title: 'Department Headcount',
+    description: 'Largest departments by number of users',
+    defaultWidth: 2,
+    minWidth: 1,
+  },
+  'recent-activity': {
+    title: 'Recent Activity',
+    description: 'Latest changes across the panel',
+    defaultWidth: 2,
+    minWidth: 1,
+  },
+  'hrm-overview': {
+    title: 'HRM Overview',
+    description: 'Departments, positions and teams at a glance',
+    defaultWidth: 1,
+    minWidth: 1,
+  },
+  'team-capacity': {
+    title: 'Team Capacity',
+    description: 'Active teams closest to their member limit',
+    defaultWidth: 2,
+    minWidth: 1,
+  },
+  'probation-ends': {
+    title: 'Upcoming Probation Ends',
+    description: 'Employees whose probation ends in the next 30 days',
+    defaultWidth: 2,
+    minWidth: 1,
+  },
+}
+
+export const WIDGET_TYPES = Object.keys(WIDGET_DEFINITIONS) as DashboardWidgetType[]
+
+export const DEFAULT_DASHBOARD_LAYOUT: DashboardWidget[] = [
+  { id: 'stat-cards', type: 'stat-cards', width: 4 },
+  { id: 'user-activity', type: 'user-activity', width: 3 },
+  { id: 'users-by-role', type: 'users-by-role', width: 1 },
+  { id: 'department-headcount', type: 'department-headcount', width: 2 },
+  { id: 'recent-activity', type: 'recent-activity', width: 2 },
+]
+
+export function clampWidgetWidth(
+  type: DashboardWidgetType,
+  width: number
+): DashboardWidgetWidth {
+  const { minWidth } = WIDGET_DEFINITIONS[type]
+  return Math.min(DASHBOARD_COLUMNS, Math.max(minWidth, Math.round(width))) as DashboardWidgetWidth
+}
+
+export function createWidget(type: DashboardWidgetType): DashboardWidget {
+  return {
+    id: `${type}-${Date.now().toString(36)}`,
+    type,
+    width: WIDGET_DEFINITIONS[type].defaultWidth,
+  }
+}
+
+/**
+ * Drop widgets this build no longer knows about (a layout saved by a newer
+ * or older release) and clamp widths into range
+ */
+export function normalizeLayout(widgets: DashboardWidget[] | null | undefined): DashboardWidget[] {
+  if (!widgets) return DEFAULT_DASHBOARD_LAYOUT
+
+  const seen = new Set<string>()
+  return widgets
+    .filter((widget) => Object.hasOwn(WIDGET_DEFINITIONS, widget.type) && !seen.has(widget.id))
+    .map((widget) => {
+      seen.add(widget.id)
+      return { ...widget, width: clampWidgetWidth(widget.type, widget.width) }
+    })
+}
+
+export function isSameLayout(a: DashboardWidget[], b: DashboardWidget[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every(
+      (widget, index) =>
+        widget.id === b[index].id && widget.type === b[index].type && widget.width === b[index].width
+    )
+  )
+}
@@ -0,0 +1,119 @@
+import type { VisibilityState } from '@tanstack/react-table'
+
+/**
+ * Serialize data table state (filters, sorting, hidden columns) to and from
+ * URL search params so a filtered table can be bookmarked or shared.
+ *
+ * Only the base filter keys plus the keys a table opts into are read, so
+ * unrelated params (tabs, dialogs) never leak into API requests.
+ */
+
+export const BASE_FILTER_KEYS = ['page', 'per_page', 'search', 'sort_by', 'sort_order'] as const
+
+// Hidden columns are stored as a comma separated list: ?hide=email,created_at
+export const HIDDEN_COLUMNS_PARAM = 'hide'
+
+const isNumericKey = (key: string) =>
+  key === 'page' || key === 'per_page' || key.endsWith('_id') || /^(min|max)_/.test(key)
+
+function decodeValue(key: string, raw: string): unknown {
+  if (raw === 'true') return true
+  if (raw === 'false') return false
+  if (isNumericKey(key)) {
+    const value = Number(raw)
+    return Number.isFinite(value) ? value : undefined
+  }
+  return raw
+}
+
+function encodeValue(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null
+  return String(value)
+}
+
+/**
+ * Hidden column ids -> TanStack visibility state
+ */
+export function parseHiddenColumns(raw: string | null): VisibilityState {
+  if (!raw) return {}
+  return Object.fromEntries(
+    raw
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean)
+      .map((id) => [id, false])
+  )
+}
+
+/**
+ * TanStack visibility state -> hidden column ids
+ */
+export function getHiddenColumns(visibility: VisibilityState): string[] {
+  return Object.entries(visibility)
+    .filter(([, visible]) => visible === false)
+    .map(([id]) => id)
+}
+
+export interface TableUrlState {
+  filters: Record<string, unknown>
+  columnVisibility: VisibilityState
+  /** True when the URL carried any table state at all */
+  hasState: boolean
+}
+
+/**
+ * Read table state from a search string
+ */
+export function readTableUrlState(search: string, filterKeys: readonly string[]): TableUrlState {
+  const params = new URLSearchParams(search)
+  const filters: Record<string, unknown> = {}
+
+  for (const key of [...BASE_FILTER_KEYS, ...filterKeys]) {
+    const raw = params.get(key)
+    if (raw === null || raw === '') continue
+    const value = key === 'search' ? raw : decodeValue(key, raw)
+    if (value !== undefined) filters[key] = value
+  }
+
+  const columnVisibility = parseHiddenColumns(params.get(HIDDEN_COLUMNS_PARAM))
+
+  return {
+    filters,
+    columnVisibility,
+    hasState: Object.keys(filters).length > 0 || Object.keys(columnVisibility).length > 0,
+  }
+}
+
+/**
+ * Write table state into an existing search string. Values equal to the
+ * table defaults are omitted to keep links short; other params are preserved.
+ */
+export function buildTableSearch(
+  search: string,
+  state: { filters: object; columnVisibility: VisibilityState },
+  defaults: object,
+  filterKeys: readonly string[]
+): string {
+  const params = new URLSearchParams(search)
+  const filters = state.filters as Record<string, unknown>
+  const defaultFilters = defaults as Record<string, unknown>
+
+  for (const key of [...BASE_FILTER_KEYS, ...filterKeys]) {
+    const value = encodeValue(filters[key])
+    if (value === null || value === encodeValue(defaultFilters[key])) {
+      params.delete(key)
+    } else {
+      params.set(key, value)
+    }
+  }
+
+  const hidden = getHiddenColumns(state.columnVisibility)
+  if (hidden.length > 0) {
+    params.set(HIDDEN_COLUMNS_PARAM, hidden.join(','))
+  } else {
+    params.delete(HIDDEN_COLUMNS_PARAM)
+  }
+
+  const query = params.toString()
+  return query ? `?${query}` : ''
+}
@@ -0,0 +1,56 @@
+/**
+ * Client-side export helpers
+ *
+ * Used when the backend has no dedicated export endpoint and the data is
+ * already available in the browser.
+ */
+
+export interface CsvColumn<T> {
+  header: string
+  value: (row: T) => unknown
+}
+
+// Leading characters spreadsheet apps read as the start of a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+/**
+ * Escape a single CSV cell (RFC 4180). Cells that would open as a formula
+ * get a leading quote, since exported values may come from user input.
+ */
+function escapeCsvCell(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+  if (FORMULA_PREFIX.test(text)) {
+    text = `'${text}`
+  }
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`
+  }
+  return text
+}
+
+/**
+ * Build a CSV document from rows and column definitions
+ */
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]): string {
+  const header = columns.map((col) => escapeCsvCell(col.header)).join(',')
+  const body = rows.map((row) =>
+    columns.map((col) => escapeCsvCell(col.value(row))).join(',')
+  )
+  return [header, ...body].join('\r\n')
+}
+
+/**
+ * Trigger a browser download for the given content
+ */
+export function downloadFile(content: BlobPart, filename: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType })
+  const url = window.URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  window.URL.revokeObjectURL(url)
+}
@@ -0,0 +1,50 @@
+/**
+ * Server-side validation errors for react-hook-form
+ */
+
+import type { FieldPath, FieldValues, UseFormReturn } from 'react-hook-form'
+import { ValidationError } from '@/lib/api/errors'
+
+interface SetServerErrorsOptions<T extends FieldValues> {
+  /** Laravel field -> form field, for fields the form names differently */
+  fieldMap?: Partial<Record<string, FieldPath<T>>>
+}
+
+/**
+ * Put Laravel validation messages on the matching form fields and focus the
+ * first one. Keys like `roles.0` land on their array field; keys with no
+ * matching field are joined under `root.server`.
+ *
+ * Returns the fields that received an error - empty when `error` is not a
+ * validation error, so callers can fall back to a toast.
+ */
+export function setServerErrors<T extends FieldValues>(
+  form: Pick<UseFormReturn<T>, 'setError' | 'getValues'>,
+  error: unknown,
+  { fieldMap = {} }: SetServerErrorsOptions<T> = {}
+): FieldPath<T>[] {
+  if (!(error instanceof ValidationError)) return []
+
+  const values = form.getValues()
+  const fields: FieldPath<T>[] = []
+  const unmatched: string[] = []
+
+  Object.entries(error.fieldErrors).forEach(([key, message]) => {
+    const field = (fieldMap[key] ?? key.split('.')[0]) as FieldPath<T>
+
+    if (!(field.split('.')[0] in values)) {
+      unmatched.push(message)
+      return
+    }
+    if (fields.includes(field)) return
+
+    form.setError(field, { type: 'server', message }, { shouldFocus: fields.length === 0 })
+    fields.push(field)
+  })
+
+  if (unmatched.length > 0) {
+    form.setError('root.server', { type: 'server', message: unmatched.join(' ') })
+  }
+
+  return fields
+}
@@ -0,0 +1,108 @@
+import { useQuery, useMutation, UseQueryOptions } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { format } from 'date-fns'
+import activityService from '@/lib/api/services/activity.service'
+import { toCsv, downloadFile } from '@/lib/export'
+import { formatSubjectType } from '@/lib/activity'
+import type { PaginatedResponse } from '@/types/user'
+import type {
+  ActivityLog,
+  ActivityLogFilters,
+  ActivityExportFormat,
+} from '@/types/activity'
+
+// Query keys
+export const activityKeys = {
+  all: ['activity-logs'] as const,
+  lists: () => [...activityKeys.all, 'list'] as const,
+  list: (filters?: ActivityLogFilters) => [...activityKeys.lists(), filters] as const,
+  detail: (id: string) => [...activityKeys.all, 'detail', id] as const,
+  logNames: () => [...activityKeys.all, 'log-names'] as const,
+  subjectTypes: () => [...activityKeys.all, 'subject-types'] as const,
+}
+
+/**
+ * Hook to fetch paginated activity logs
+ */
+export function useActivityLogs(
+  filters?: ActivityLogFilters,
+  options?: Omit<UseQueryOptions<PaginatedResponse<ActivityLog>>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery<PaginatedResponse<ActivityLog>>({
+    queryKey: activityKeys.list(filters),
+    queryFn: () => activityService.getActivities(filters),
+    staleTime: 30 * 1000, // 30 seconds - logs change frequently
+    ...options,
+  })
+}
+
+/**
+ * Hook to fetch distinct log names
+ */
+export function useActivityLogNames() {
+  return useQuery({
+    queryKey: activityKeys.logNames(),
+    queryFn: () => activityService.getLogNames(),
+    staleTime: 10 * 60 * 1000,
+  })
+}
+
+/**
+ * Hook to fetch distinct subject types
+ */
+export function useActivitySubjectTypes() {
+  return useQuery({
+    queryKey: activityKeys.subjectTypes(),
+    queryFn: () => activityService.getSubjectTypes(),
+    staleTime: 10 * 60 * 1000,
+  })
+}
+
+/**
+ * Hook to export the filtered activity set as CSV or JSON
+ */
+export function useExportActivityLogs() {
+  return useMutation<
+    number,
+    Error,
+    { filters?: ActivityLogFilters; format: ActivityExportFormat }
+  >({
+    mutationFn: async ({ filters, format: exportFormat }) => {
+      const rows = await activityService.getAllActivities(filters)
+      const stamp = format(new Date(), 'yyyy-MM-dd')
+
+      if (exportFormat === 'json') {
+        downloadFile(
+          JSON.stringify(rows, null, 2),
+          `activity-logs-${stamp}.json`,
+          'application/json'
+        )
+      } else {
+        const csv = toCsv<ActivityLog>(rows, [
+          { header: 'ID', value: (r) => r.id },
+          { header: 'Date', value: (r) => r.created_at },
+          { header: 'Log', value: (r) => r.log_name },
+          { header: 'Description', value: (r) => r.description },
+          { header: 'Subject Type', value: (r) => formatSubjectType(r.subject_type) },
+          { header: 'Subject ID', value: (r) => r.subject_id },
+          { header: 'Causer ID', value: (r) => r.causer_id },
+          { header: 'Causer', value: (r) => r.causer?.name },
+          { header: 'Properties', value: (r) => r.properties },
+        ])
+        downloadFile(csv, `activity-logs-${stamp}.csv`, 'text/csv;charset=utf-8')
+      }
+
+      return rows.length
+    },
+    onSuccess: (count) => {
+      toast.success('Activity logs exported successfully', {
+        description: `${count} entries exported.`,
+      })
+    },
+    onError: (error) => {
+      toast.error('Failed to export activity logs', {
+        description: error.message || 'Something went wrong',
+      })
+    },
+  })
+}
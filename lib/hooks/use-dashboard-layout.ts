@@ -0,0 +1,117 @@
+import { useQuery, useMutation, useQueryClient, UseQueryOptions } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import dashboardLayoutService from '@/lib/api/services/dashboard-layout.service'
+import { getErrorMessage } from '@/lib/api/errors'
+import type {
+  DashboardLayout,
+  DashboardWidget,
+  RoleDashboardLayout,
+} from '@/types/dashboard'
+
+// Query keys
+export const dashboardLayoutKeys = {
+  all: ['dashboard-layouts'] as const,
+  mine: () => [...dashboardLayoutKeys.all, 'mine'] as const,
+  roles: () => [...dashboardLayoutKeys.all, 'roles'] as const,
+}
+
+/**
+ * Hook to fetch the layout in effect for the current user
+ */
+export function useDashboardLayout(
+  options?: Omit<UseQueryOptions<DashboardLayout | null>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery<DashboardLayout | null>({
+    queryKey: dashboardLayoutKeys.mine(),
+    queryFn: dashboardLayoutService.getLayout,
+    staleTime: 5 * 60 * 1000,
+    ...options,
+  })
+}
+
+/**
+ * Hook to save the current user's own layout
+ */
+export function useSaveDashboardLayout() {
+  const queryClient = useQueryClient()
+
+  return useMutation<DashboardLayout, Error, DashboardWidget[]>({
+    mutationFn: dashboardLayoutService.saveLayout,
+    onSuccess: (layout) => {
+      queryClient.setQueryData(dashboardLayoutKeys.mine(), layout)
+      toast.success('Dashboard layout saved')
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error, 'Failed to save dashboard layout'))
+    },
+  })
+}
+
+/**
+ * Hook to discard the current user's own layout
+ */
+export function useResetDashboardLayout() {
+  const queryClient = useQueryClient()
+
+  return useMutation<void, Error, void>({
+    mutationFn: () => dashboardLayoutService.resetLayout(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: dashboardLayoutKeys.mine() })
+      toast.success('Dashboard reset to the default layout')
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error, 'Failed to reset dashboard layout'))
+    },
+  })
+}
+
+/**
+ * Hook to fetch the default layouts published per role
+ */
+export function useRoleDashboardLayouts(
+  options?: Omit<UseQueryOptions<RoleDashboardLayout[]>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery<RoleDashboardLayout[]>({
+    queryKey: dashboardLayoutKeys.roles(),
+    queryFn: dashboardLayoutService.getRoleLayouts,
+    staleTime: 5 * 60 * 1000,
+    ...options,
+  })
+}
+
+/**
+ * Hook to publish a layout as a role's default
+ */
+export function usePublishRoleDashboardLayout() {
+  const queryClient = useQueryClient()
+
+  return useMutation<RoleDashboardLayout, Error, { role: string; widgets: DashboardWidget[] }>({
+    mutationFn: ({ role, widgets }) => dashboardLayoutService.publishRoleLayout(role, widgets),
+    onSuccess: (layout) => {
+      // Users without their own layout may now see this one
+      queryClient.invalidateQueries({ queryKey: dashboardLayoutKeys.all })
+      toast.success(`Default dashboard published for ${layout.role}`)
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error, 'Failed to publish dashboard layout'))
+    },
+  })
+}
+
+/**
+ * Hook to remove a role's published default
+ */
+export function useDeleteRoleDashboardLayout() {
+  const queryClient = useQueryClient()
+
+  return useMutation<void, Error, string>({
+    mutationFn: dashboardLayoutService.deleteRoleLayout,
+    onSuccess: (_, role) => {
+      queryClient.invalidateQueries({ queryKey: dashboardLayoutKeys.all })
+      toast.success(`Default dashboard for ${role} removed`)
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error, 'Failed to remove dashboard layout'))
+    },
+  })
+}
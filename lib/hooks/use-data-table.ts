@@ -1,5 +1,11 @@
 import { useState, useEffect } from "react";
-import { SortingState, OnChangeFn } from "@tanstack/react-table";
+import {
+  SortingState,
+  OnChangeFn,
+  VisibilityState,
+} from "@tanstack/react-table";
+import { buildTableSearch, readTableUrlState } from "@/lib/data-table-url";
+import { useTableViews } from "@/lib/hooks/use-table-views";
 
 export interface BaseFilters {
   page?: number;
@@ -13,24 +19,88 @@ interface UseDataTableOptions<TFilters extends BaseFilters> {
   initialFilters: TFilters;
   onFilterChange?: (filters: TFilters) => void;
   debounceMs?: number;
+  /**
+   * Enables URL sync and saved views for this table (e.g. "users").
+   * Leave unset for tables embedded in detail pages.
+   */
+  tableId?: string;
+  /** Table specific filter keys that are mirrored to the URL */
+  filterKeys?: readonly (keyof TFilters & string)[];
 }
 
+/**
+ * Snapshot of the table state that can be stored as a saved view
+ */
+export interface DataTableViewState {
+  /** Saved view id; omitted for ad-hoc states such as "reset" */
+  id?: string;
+  filters: Record<string, unknown>;
+  column_visibility: VisibilityState;
+}
+
+const toSorting = (filters: BaseFilters): SortingState => [
+  {
+    id: filters.sort_by || "id",
+    desc: filters.sort_order === "desc",
+  },
+];
+
 /**
  * A reusable hook to manage DataTable state.
  * Centralizes filtering, sorting, and pagination logic.
+ * With a tableId the state is mirrored to the URL search params.
  */
 export function useDataTable<TFilters extends BaseFilters>({
   initialFilters,
   debounceMs = 600,
+  tableId,
+  filterKeys = [],
 }: UseDataTableOptions<TFilters>) {
-  const [filters, setFilters] = useState<TFilters>(initialFilters);
-  const [searchValue, setSearchValue] = useState(initialFilters.search || "");
-  const [sorting, setSorting] = useState<SortingState>([
-    {
-      id: initialFilters.sort_by || "id",
-      desc: initialFilters.sort_order === "desc",
-    },
-  ]);
+  // Defaults are captured once so inline initialFilters objects stay stable
+  const [defaults] = useState(initialFilters);
+  const [urlState] = useState(() =>
+    tableId && typeof window !== "undefined"
+      ? readTableUrlState(window.location.search, filterKeys)
+      : null
+  );
+
+  const [filters, setFilters] = useState<TFilters>(() => ({
+    ...defaults,
+    ...(urlState?.filters as Partial<TFilters>),
+  }));
+  const [searchValue, setSearchValue] = useState(filters.search || "");
+  const [sorting, setSorting] = useState<SortingState>(() =>
+    toSorting(filters)
+  );
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>(
+    urlState?.columnVisibility || {}
+  );
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [defaultViewChecked, setDefaultViewChecked] = useState(!tableId);
+  const filterKeysParam = filterKeys.join(",");
+
+  const { data: views } = useTableViews(tableId || "", {
+    enabled: !!tableId,
+  });
+
+  // Mirror state to the URL without adding history entries
+  useEffect(() => {
+    if (!tableId) return;
+
+    const search = buildTableSearch(
+      window.location.search,
+      { filters, columnVisibility },
+      defaults,
+      filterKeysParam ? filterKeysParam.split(",") : []
+    );
+    if (search === window.location.search) return;
+
+    window.history.replaceState(
+      null,
+      "",
+      `${window.location.pathname}${search}${window.location.hash}`
+    );
+  }, [tableId, filters, columnVisibility, defaults, filterKeysParam]);
 
   // Handle sorting change from TanStack Table
   // This avoids the "Cascading Renders" effect warning
@@ -86,15 +156,52 @@ export function useDataTable<TFilters extends BaseFilters>({
     }));
   };
 
-  const clearFilters = (defaults: Partial<TFilters>) => {
+  const clearFilters = (overrides: Partial<TFilters>) => {
     setSearchValue("");
     setFilters({
-      ...initialFilters,
       ...defaults,
+      ...overrides,
       page: 1,
     });
   };
 
+  // Replace filters, sorting and column visibility with a saved view
+  const applyView = (view: DataTableViewState) => {
+    const nextFilters = {
+      ...defaults,
+      ...(view.filters as Partial<TFilters>),
+      page: 1,
+    };
+    setFilters(nextFilters);
+    setSearchValue(nextFilters.search || "");
+    setSorting(toSorting(nextFilters));
+    setColumnVisibility(view.column_visibility || {});
+    setActiveViewId(view.id || null);
+  };
+
+  // Apply the user's default view once, unless the URL already carries state
+  if (!defaultViewChecked && views) {
+    setDefaultViewChecked(true);
+    const defaultView = views.find((view) => view.is_owner && view.is_default);
+    if (defaultView && !urlState?.hasState) {
+      applyView(defaultView);
+    }
+  }
+
+  // Current state in saved view shape (the page number is not part of a view)
+  const getViewState = (): DataTableViewState => {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { page, ...rest } = filters;
+    return {
+      filters: Object.fromEntries(
+        Object.entries(rest).filter(
+          ([, value]) => value !== undefined && value !== null && value !== ""
+        )
+      ),
+      column_visibility: columnVisibility,
+    };
+  };
+
   return {
     filters,
     setFilters,
@@ -106,5 +213,10 @@ export function useDataTable<TFilters extends BaseFilters>({
     handlePerPageChange,
     updateFilter,
     clearFilters,
+    columnVisibility,
+    setColumnVisibility, // Use this for onColumnVisibilityChange
+    applyView,
+    getViewState,
+    activeViewId,
   };
 }
@@ -0,0 +1,58 @@
+import { useMutation } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import { toast } from 'sonner'
+import type { User } from '@/types/user'
+
+// Full page load after switching, so no cached query, store or SSE stream
+// outlives the identity it was fetched for
+function reloadAt(path: string) {
+  window.location.assign(path)
+}
+
+/**
+ * Hook for super admins to view the panel as another user. Switching is
+ * done by the NextAuth `jwt` callback (see `auth.ts`); the backend writes
+ * both the start and the stop to the activity log.
+ */
+export function useImpersonation() {
+  const { data: session, update } = useSession()
+  const impersonator = session?.impersonator ?? null
+
+  const startMutation = useMutation<void, Error, User>({
+    mutationFn: async (user) => {
+      const next = await update({ impersonate: user.id })
+      // The callback leaves the session untouched when the backend refuses
+      if (!next?.impersonator) {
+        throw new Error(`You can't impersonate ${user.name}`)
+      }
+    },
+    onSuccess: () => reloadAt('/dashboard'),
+    onError: (error) => {
+      toast.error('Failed to start impersonating', {
+        description: error.message || 'Something went wrong',
+      })
+    },
+  })
+
+  const stopMutation = useMutation<void, Error, void>({
+    mutationFn: async () => {
+      await update({ stopImpersonating: true })
+    },
+    onSuccess: () => reloadAt('/dashboard/users'),
+    onError: (error) => {
+      toast.error('Failed to stop impersonating', {
+        description: error.message || 'Something went wrong',
+      })
+    },
+  })
+
+  return {
+    isImpersonating: !!impersonator,
+    impersonator,
+    startImpersonating: startMutation.mutate,
+    stopImpersonating: () => stopMutation.mutate(),
+    isStarting: startMutation.isPending,
+    // Stays true through the reload that follows
+    isStopping: stopMutation.isPending || stopMutation.isSuccess,
+  }
+}
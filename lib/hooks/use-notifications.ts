@@ -0,0 +1,141 @@
+import { useEffect, useState } from 'react'
+import {
+  InfiniteData,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query'
+import { toast } from 'sonner'
+import notificationService from '@/lib/api/services/notification.service'
+import type { NotificationTransport } from '@/lib/notifications'
+import type {
+  AppNotification,
+  NotificationPage,
+  NotificationTransportStatus,
+} from '@/types/notification'
+
+const PAGE_SIZE = 15
+
+// Query keys
+export const notificationKeys = {
+  all: ['notifications'] as const,
+  list: () => [...notificationKeys.all, 'list'] as const,
+  unreadCount: () => [...notificationKeys.all, 'unread-count'] as const,
+}
+
+/**
+ * Hook to page through the current user's notifications
+ */
+export function useNotifications(enabled = true) {
+  return useInfiniteQuery({
+    queryKey: notificationKeys.list(),
+    queryFn: ({ pageParam }) => notificationService.getNotifications(pageParam, PAGE_SIZE),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) =>
+      lastPage.meta.current_page < lastPage.meta.last_page
+        ? lastPage.meta.current_page + 1
+        : undefined,
+    staleTime: 60 * 1000,
+    enabled,
+  })
+}
+
+/**
+ * Hook to fetch the unread badge count
+ */
+export function useUnreadNotificationCount() {
+  return useQuery({
+    queryKey: notificationKeys.unreadCount(),
+    queryFn: notificationService.getUnreadCount,
+    staleTime: 60 * 1000,
+  })
+}
+
+/**
+ * Hook to mark one notification as read (optimistic)
+ */
+export function useMarkNotificationRead() {
+  const queryClient = useQueryClient()
+
+  return useMutation<AppNotification, Error, AppNotification>({
+    mutationFn: (notification) => notificationService.markAsRead(notification.id),
+    onMutate: async (notification) => {
+      await queryClient.cancelQueries({ queryKey: notificationKeys.all })
+      const readAt = new Date().toISOString()
+
+      queryClient.setQueryData<InfiniteData<NotificationPage>>(
+        notificationKeys.list(),
+        (data) =>
+          data && {
+            ...data,
+            pages: data.pages.map((page) => ({
+              ...page,
+              data: page.data.map((item) =>
+                item.id === notification.id ? { ...item, read_at: item.read_at ?? readAt } : item
+              ),
+            })),
+          }
+      )
+      if (!notification.read_at) {
+        queryClient.setQueryData<number>(notificationKeys.unreadCount(), (count) =>
+          Math.max((count ?? 1) - 1, 0)
+        )
+      }
+    },
+    onError: () => {
+      toast.error('Failed to mark notification as read')
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: notificationKeys.all })
+    },
+  })
+}
+
+/**
+ * Hook to mark every notification as read
+ */
+export function useMarkAllNotificationsRead() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: notificationService.markAllAsRead,
+    onSuccess: () => {
+      queryClient.setQueryData(notificationKeys.unreadCount(), 0)
+      queryClient.invalidateQueries({ queryKey: notificationKeys.list() })
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to mark notifications as read')
+    },
+  })
+}
+
+/**
+ * Subscribe to new notifications through a transport.
+ * New events refresh the list and badge and surface as a toast.
+ */
+export function useNotificationStream(
+  transport: NotificationTransport,
+  onOpen?: (notification: AppNotification) => void
+) {
+  const queryClient = useQueryClient()
+  const [status, setStatus] = useState<NotificationTransportStatus>('connecting')
+
+  useEffect(() => {
+    return transport.connect({
+      onNotification: (notification) => {
+        queryClient.invalidateQueries({ queryKey: notificationKeys.all })
+        toast(notification.title, {
+          description: notification.message,
+          action:
+            notification.url && onOpen
+              ? { label: 'View', onClick: () => onOpen(notification) }
+              : undefined,
+        })
+      },
+      onStatusChange: setStatus,
+    })
+  }, [transport, queryClient, onOpen])
+
+  return status
+}
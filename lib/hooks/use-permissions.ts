@@ -1,10 +1,12 @@
-import { useQuery } from '@tanstack/react-query'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { permissionService } from '@/lib/api/services/permission.service'
+import { CreatePermissionInput } from '@/types/permission'
+import { toast } from 'sonner'
 
 /**
  * Hook to fetch all permissions
  */
-export function usePermissions() {
+export function usePermissionList() {
   return useQuery({
     queryKey: ['permissions'],
     queryFn: () => permissionService.getPermissions(),
@@ -22,3 +24,24 @@ export function usePermissionsByModule() {
     staleTime: 10 * 60 * 1000, // 10 minutes
   })
 }
+
+/**
+ * Hook to create a custom permission
+ */
+export function useCreatePermission() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CreatePermissionInput) => permissionService.createPermission(data),
+    onSuccess: (permission) => {
+      queryClient.invalidateQueries({ queryKey: ['permissions'] })
+      toast.success('Permission created successfully', {
+        description: `${permission.name} is now available to assign to roles.`,
+      })
+    },
+    onError: (error: unknown) => {
+      const message = error instanceof Error ? error.message : 'Failed to create permission'
+      toast.error(message)
+    },
+  })
+}
@@ -0,0 +1,101 @@
+import { useQuery, useMutation, useQueryClient, UseQueryOptions } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import tableViewService from '@/lib/api/services/table-view.service'
+import type {
+  TableView,
+  CreateTableViewInput,
+  UpdateTableViewInput,
+} from '@/types/table-view'
+
+// Query keys
+export const tableViewKeys = {
+  all: ['table-views'] as const,
+  list: (table: string) => [...tableViewKeys.all, table] as const,
+}
+
+/**
+ * Hook to fetch own and shared saved views for a table
+ */
+export function useTableViews(
+  table: string,
+  options?: Omit<UseQueryOptions<TableView[]>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery<TableView[]>({
+    queryKey: tableViewKeys.list(table),
+    queryFn: () => tableViewService.getViews(table),
+    staleTime: 5 * 60 * 1000,
+    ...options,
+  })
+}
+
+/**
+ * Hook to save the current table state as a new view
+ */
+export function useCreateTableView() {
+  const queryClient = useQueryClient()
+
+  return useMutation<TableView, Error, CreateTableViewInput>({
+    mutationFn: tableViewService.createView,
+    onSuccess: (view) => {
+      queryClient.invalidateQueries({ queryKey: tableViewKeys.list(view.table) })
+      toast.success(`View "${view.name}" saved`)
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to save view')
+    },
+  })
+}
+
+/**
+ * Hook to update an existing view
+ */
+export function useUpdateTableView() {
+  const queryClient = useQueryClient()
+
+  return useMutation<TableView, Error, { id: string; data: UpdateTableViewInput }>({
+    mutationFn: ({ id, data }) => tableViewService.updateView(id, data),
+    onSuccess: (view) => {
+      queryClient.invalidateQueries({ queryKey: tableViewKeys.list(view.table) })
+      toast.success(`View "${view.name}" updated`)
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to update view')
+    },
+  })
+}
+
+/**
+ * Hook to make a view the default for its table
+ */
+export function useSetDefaultTableView() {
+  const queryClient = useQueryClient()
+
+  return useMutation<TableView, Error, string>({
+    mutationFn: tableViewService.setDefaultView,
+    onSuccess: (view) => {
+      queryClient.invalidateQueries({ queryKey: tableViewKeys.list(view.table) })
+      toast.success(`"${view.name}" is now your default view`)
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to set default view')
+    },
+  })
+}
+
+/**
+ * Hook to delete a view
+ */
+export function useDeleteTableView() {
+  const queryClient = useQueryClient()
+
+  return useMutation<void, Error, TableView>({
+    mutationFn: (view) => tableViewService.deleteView(view.id),
+    onSuccess: (_, view) => {
+      queryClient.invalidateQueries({ queryKey: tableViewKeys.list(view.table) })
+      toast.success(`View "${view.name}" deleted`)
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to delete view')
+    },
+  })
+}
@@ -0,0 +1,99 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import userService from '@/lib/api/services/user.service'
+import { userKeys } from '@/lib/hooks/use-users'
+import type { TwoFactorRecoveryCodes, TwoFactorSetup, User } from '@/types/user'
+
+/**
+ * Hook to start TOTP enrollment (returns the QR code and secret)
+ */
+export function useEnableTwoFactor() {
+  return useMutation<TwoFactorSetup, Error, string>({
+    mutationFn: (userId) => userService.enableTwoFactor(userId),
+    onError: (error) => {
+      toast.error('Failed to start two-factor setup', {
+        description: error.message || 'Something went wrong',
+      })
+    },
+  })
+}
+
+/**
+ * Hook to confirm enrollment; resolves with the initial recovery codes
+ */
+export function useConfirmTwoFactor() {
+  const queryClient = useQueryClient()
+
+  return useMutation<TwoFactorRecoveryCodes, Error, { userId: string; code: string }>({
+    mutationFn: ({ userId, code }) => userService.confirmTwoFactor(userId, code),
+    onSuccess: (_data, { userId }) => {
+      queryClient.invalidateQueries({ queryKey: userKeys.detail(userId) })
+      toast.success('Two-factor authentication enabled')
+    },
+    onError: (error) => {
+      toast.error('Invalid authentication code', {
+        description: error.message || 'Check the code in your authenticator app',
+      })
+    },
+  })
+}
+
+/**
+ * Hook to regenerate recovery codes
+ */
+export function useRegenerateRecoveryCodes() {
+  return useMutation<TwoFactorRecoveryCodes, Error, string>({
+    mutationFn: (userId) => userService.regenerateRecoveryCodes(userId),
+    onSuccess: () => {
+      toast.success('New recovery codes generated')
+    },
+    onError: (error) => {
+      toast.error('Failed to regenerate recovery codes', {
+        description: error.message || 'Something went wrong',
+      })
+    },
+  })
+}
+
+/**
+ * Hook to disable 2FA on the signed-in user's account
+ */
+export function useDisableTwoFactor() {
+  const queryClient = useQueryClient()
+
+  return useMutation<void, Error, { userId: string; code: string }>({
+    mutationFn: ({ userId, code }) => userService.disableTwoFactor(userId, code),
+    onSuccess: (_data, { userId }) => {
+      queryClient.invalidateQueries({ queryKey: userKeys.detail(userId) })
+      toast.success('Two-factor authentication disabled')
+    },
+    onError: (error) => {
+      toast.error('Failed to disable two-factor authentication', {
+        description: error.message || 'Something went wrong',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for admins to reset another user's 2FA
+ */
+export function useResetTwoFactor() {
+  const queryClient = useQueryClient()
+
+  return useMutation<User, Error, string>({
+    mutationFn: (userId) => userService.resetTwoFactor(userId),
+    onSuccess: (user) => {
+      queryClient.invalidateQueries({ queryKey: userKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: userKeys.detail(user.id) })
+      toast.success('Two-factor authentication reset', {
+        description: `${user.name} will be asked to enroll again`,
+      })
+    },
+    onError: (error) => {
+      toast.error('Failed to reset two-factor authentication', {
+        description: error.message || 'Something went wrong',
+      })
+    },
+  })
+}
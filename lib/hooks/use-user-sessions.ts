@@ -0,0 +1,80 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import userService from '@/lib/api/services/user.service'
+import { userKeys } from '@/lib/hooks/use-users'
+import type { UserSession } from '@/types/user'
+
+/**
+ * Hook to fetch a user's active sessions
+ */
+export function useUserSessions(userId: string, enabled = true) {
+  return useQuery<UserSession[]>({
+    queryKey: userKeys.sessions(userId),
+    queryFn: () => userService.getSessions(userId),
+    enabled: !!userId && enabled,
+    refetchInterval: 60 * 1000, // keep "last active" reasonably fresh
+  })
+}
+
+/**
+ * Hook to revoke one session. The device is signed out on its next
+ * request, when the `/auth/me` check in the jwt callback fails.
+ */
+export function useRevokeSession(userId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation<void, Error, string>({
+    mutationFn: (sessionId) => userService.revokeSession(userId, sessionId),
+    onSuccess: (_data, sessionId) => {
+      queryClient.setQueryData<UserSession[]>(userKeys.sessions(userId), (sessions) =>
+        sessions?.filter((session) => session.id !== sessionId)
+      )
+      toast.success('Session revoked')
+    },
+    onError: (error) => {
+      toast.error('Failed to revoke session', {
+        description: error.message || 'Something went wrong',
+      })
+    },
+  })
+}
+
+/**
+ * Hook to sign the current user out of every other device
+ */
+export function useRevokeOtherSessions(userId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation<void, Error, void>({
+    mutationFn: () => userService.revokeOtherSessions(userId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: userKeys.sessions(userId) })
+      toast.success('Signed out of all other sessions')
+    },
+    onError: (error) => {
+      toast.error('Failed to sign out other sessions', {
+        description: error.message || 'Something went wrong',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for admins to force a user to sign out everywhere
+ */
+export function useRevokeAllSessions(userId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation<void, Error, void>({
+    mutationFn: () => userService.revokeAllSessions(userId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: userKeys.sessions(userId) })
+      toast.success('User signed out everywhere')
+    },
+    onError: (error) => {
+      toast.error('Failed to sign out user', {
+        description: error.message || 'Something went wrong',
+      })
+    },
+  })
+}
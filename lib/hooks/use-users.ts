@@ -17,6 +17,8 @@ import type {
   UserStats,
 } from '@/types/user'
 import type { Permission } from '@/types/permission'
+import { runImportBatches, type ImportProgressHandler, type ImportResult } from '@/lib/import'
+import type { UserImportRow } from '@/lib/user-import'
 
 // Query keys
 export const userKeys = {
@@ -27,6 +29,7 @@ export const userKeys = {
   detail: (id: string) => [...userKeys.details(), id] as const,
   permissions: (id: string) => [...userKeys.detail(id), 'permissions'] as const,
   activities: (id: string, page: number) => [...userKeys.detail(id), 'activities', page] as const,
+  sessions: (id: string) => [...userKeys.detail(id), 'sessions'] as const,
   stats: () => [...userKeys.all, 'stats'] as const,
 }
 
@@ -442,3 +445,42 @@ export function useExportUsers() {
     },
   })
 }
+
+export interface ImportUsersVariables {
+  rows: UserImportRow[]
+  onProgress?: ImportProgressHandler
+}
+
+export type ImportUsersResult = ImportResult<UserImportRow['input'], User>
+
+/**
+ * Hook to create users from an import file in batches.
+ * Failures are collected per row instead of aborting the whole import.
+ */
+export function useImportUsers() {
+  const queryClient = useQueryClient()
+
+  return useMutation<ImportUsersResult, Error, ImportUsersVariables>({
+    mutationFn: ({ rows, onProgress }) =>
+      runImportBatches(rows, (row) => userService.createUser(row.input), { onProgress }),
+    onSuccess: ({ created, failed }) => {
+      queryClient.invalidateQueries({ queryKey: userKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: userKeys.stats() })
+
+      if (failed.length === 0) {
+        toast.success('Users imported successfully', {
+          description: `${created.length} users have been added to the system`,
+        })
+      } else {
+        toast.warning('Import finished with errors', {
+          description: `${created.length} created, ${failed.length} failed`,
+        })
+      }
+    },
+    onError: (error) => {
+      toast.error('Failed to import users', {
+        description: error.message || 'Something went wrong',
+      })
+    },
+  })
+}
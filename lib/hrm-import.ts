@@ -0,0 +1,380 @@
+/**
+ * HRM Import Helpers
+ *
+ * Column definitions and row builders for importing departments, positions
+ * and teams from spreadsheets. Rows are validated against the zod schemas in
+ * `lib/validations/hrm.ts`; parents and departments are referenced by `code`.
+ */
+
+import {
+  departmentSchema,
+  positionSchema,
+  teamSchema,
+  BACKEND_POSITION_LEVELS,
+  BACKEND_TEAM_STATUSES,
+  BACKEND_TEAM_TYPES,
+} from '@/lib/validations/hrm'
+import {
+  flagDuplicates,
+  formatIssues,
+  getMappedValue,
+  parseImportBoolean,
+  parseImportDate,
+  parseImportList,
+  parseImportNumber,
+  type ImportFieldDef,
+  type ImportMapping,
+  type ImportRow,
+} from '@/lib/import'
+import type { SpreadsheetRow } from '@/lib/spreadsheet'
+import type {
+  Department,
+  DepartmentInput,
+  PositionInput,
+  TeamInput,
+  TeamStatus,
+  TeamType,
+} from '@/types/hrm'
+
+export type HrmImportEntity = 'departments' | 'positions' | 'teams'
+
+// ============================================================================
+// Field Definitions
+// ============================================================================
+
+export type DepartmentImportField =
+  | 'name'
+  | 'code'
+  | 'parent_code'
+  | 'description'
+  | 'location'
+  | 'budget_allocated'
+  | 'is_active'
+
+export const DEPARTMENT_IMPORT_FIELDS: ImportFieldDef<DepartmentImportField>[] = [
+  { key: 'name', label: 'Name', required: true, aliases: ['name', 'department', 'department name'] },
+  { key: 'code', label: 'Code', required: true, aliases: ['code', 'department code'] },
+  {
+    key: 'parent_code',
+    label: 'Parent Code',
+    description: 'Code of an existing department or another row in the file',
+    aliases: ['parent_code', 'parent', 'parent code', 'parent department'],
+  },
+  { key: 'description', label: 'Description', aliases: ['description'] },
+  { key: 'location', label: 'Location', aliases: ['location'] },
+  { key: 'budget_allocated', label: 'Budget', aliases: ['budget_allocated', 'budget'] },
+  { key: 'is_active', label: 'Active', aliases: ['is_active', 'active', 'status'] },
+]
+
+export type PositionImportField =
+  | 'name'
+  | 'code'
+  | 'level'
+  | 'department_code'
+  | 'description'
+  | 'salary_min'
+  | 'salary_max'
+  | 'salary_currency'
+  | 'required_skills'
+  | 'is_active'
+
+export const POSITION_IMPORT_FIELDS: ImportFieldDef<PositionImportField>[] = [
+  { key: 'name', label: 'Name', required: true, aliases: ['name', 'position', 'position name'] },
+  { key: 'code', label: 'Code', required: true, aliases: ['code', 'position code'] },
+  {
+    key: 'level',
+    label: 'Level',
+    required: true,
+    description: BACKEND_POSITION_LEVELS.join(', '),
+    aliases: ['level', 'position level'],
+  },
+  {
+    key: 'department_code',
+    label: 'Department Code',
+    aliases: ['department_code', 'department', 'dept', 'dept code'],
+  },
+  { key: 'description', label: 'Description', aliases: ['description'] },
+  { key: 'salary_min', label: 'Salary Min', aliases: ['salary_min', 'min salary', 'salary min'] },
+  { key: 'salary_max', label: 'Salary Max', aliases: ['salary_max', 'max salary', 'salary max'] },
+  {
+    key: 'salary_currency',
+    label: 'Currency',
+    description: 'Defaults to IDR',
+    aliases: ['salary_currency', 'currency'],
+  },
+  {
+    key: 'required_skills',
+    label: 'Required Skills',
+    description: 'Separated by ";" or "|"',
+    aliases: ['required_skills', 'skills', 'required skills'],
+  },
+  { key: 'is_active', label: 'Active', aliases: ['is_active', 'active', 'status'] },
+]
+
+export type TeamImportField =
+  | 'name'
+  | 'code'
+  | 'team_type'
+  | 'status'
+  | 'department_code'
+  | 'description'
+  | 'max_members'
+  | 'start_date'
+  | 'end_date'
+
+export const TEAM_IMPORT_FIELDS: ImportFieldDef<TeamImportField>[] = [
+  { key: 'name', label: 'Name', required: true, aliases: ['name', 'team', 'team name'] },
+  { key: 'code', label: 'Code', required: true, aliases: ['code', 'team code'] },
+  {
+    key: 'team_type',
+    label: 'Type',
+    required: true,
+    description: BACKEND_TEAM_TYPES.join(', '),
+    aliases: ['team_type', 'type', 'team type'],
+  },
+  {
+    key: 'status',
+    label: 'Status',
+    description: 'Defaults to active',
+    aliases: ['status'],
+  },
+  {
+    key: 'department_code',
+    label: 'Department Code',
+    aliases: ['department_code', 'department', 'dept', 'dept code'],
+  },
+  { key: 'description', label: 'Description', aliases: ['description'] },
+  { key: 'max_members', label: 'Max Members', aliases: ['max_members', 'max members', 'capacity'] },
+  { key: 'start_date', label: 'Start Date', aliases: ['start_date', 'start date', 'start'] },
+  { key: 'end_date', label: 'End Date', aliases: ['end_date', 'end date', 'end'] },
+]
+
+// ============================================================================
+// Row Types
+// ============================================================================
+
+export interface DepartmentImportRow extends ImportRow<DepartmentInput> {
+  /** Parent referenced by another row of the file (resolved during import) */
+  parentCode: string | null
+  /** Depth in the in-file hierarchy; rows of the same level are created together */
+  level: number
+}
+
+export type PositionImportRow = ImportRow<PositionInput>
+export type TeamImportRow = ImportRow<TeamInput>
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** "Mid Level" -> "mid-level", "Cross Functional" -> "cross_functional" */
+const toSlug = (value: string, separator: '-' | '_') =>
+  value.trim().toLowerCase().replace(/[\s_-]+/g, separator)
+
+const indexByCode = <T extends { code: string }>(items: T[]) =>
+  new Map(items.map((item) => [item.code.toUpperCase(), item]))
+
+function checkNumber(value: number | null, label: string, errors: string[]) {
+  if (value !== null && Number.isNaN(value)) {
+    errors.push(`${label} must be a number`)
+    return null
+  }
+  return value
+}
+
+// ============================================================================
+// Departments
+// ============================================================================
+
+/**
+ * Build department rows and order them so parents are created first.
+ * Parent codes may point at an existing department or another row of the file.
+ */
+export function buildDepartmentImportRows(
+  rows: SpreadsheetRow[],
+  mapping: ImportMapping<DepartmentImportField>,
+  existing: Department[]
+): DepartmentImportRow[] {
+  const existingByCode = indexByCode(existing)
+
+  const importRows = rows.map(({ rowNumber, values }): DepartmentImportRow => {
+    const get = (field: DepartmentImportField) => getMappedValue(values, mapping, field)
+    const errors: string[] = []
+
+    const code = get('code').toUpperCase()
+    const parentCode = get('parent_code').toUpperCase()
+    const existingParent = parentCode ? existingByCode.get(parentCode) : undefined
+
+    if (code && existingByCode.has(code)) {
+      errors.push(`Department code "${code}" already exists`)
+    }
+    if (parentCode && parentCode === code) {
+      errors.push('A department cannot be its own parent')
+    }
+
+    const input: DepartmentInput = {
+      name: get('name'),
+      code,
+      description: get('description') || undefined,
+      location: get('location') || undefined,
+      parent_id: existingParent?.id ?? null,
+      budget_allocated: checkNumber(parseImportNumber(get('budget_allocated')), 'Budget', errors),
+      is_active: parseImportBoolean(get('is_active'), true),
+    }
+
+    const result = departmentSchema.safeParse(input)
+    if (!result.success) {
+      errors.push(...formatIssues(result.error.issues))
+    }
+
+    return {
+      rowNumber,
+      values,
+      input,
+      errors,
+      parentCode: parentCode && !existingParent && parentCode !== code ? parentCode : null,
+      level: 0,
+    }
+  })
+
+  flagDuplicates(importRows, (row) => row.input.code, 'code')
+
+  // Resolve in-file parents and compute levels (parents first)
+  const rowsByCode = new Map(importRows.map((row) => [row.input.code, row]))
+  for (const row of importRows) {
+    if (row.parentCode && !rowsByCode.has(row.parentCode)) {
+      row.errors.push(`Unknown parent code "${row.parentCode}"`)
+    }
+  }
+
+  const resolved = new Set<DepartmentImportRow>()
+  const resolving = new Set<DepartmentImportRow>()
+  const resolveLevel = (row: DepartmentImportRow): number => {
+    if (resolved.has(row)) return row.level
+    if (resolving.has(row)) {
+      row.errors.push('Circular parent reference')
+      return 0
+    }
+
+    const parent = row.parentCode ? rowsByCode.get(row.parentCode) : undefined
+    if (parent) {
+      resolving.add(row)
+      row.level = resolveLevel(parent) + 1
+      resolving.delete(row)
+
+      if (parent.errors.length > 0 && row.errors.length === 0) {
+        row.errors.push(`Parent "${row.parentCode}" (row ${parent.rowNumber}) has errors`)
+      }
+    }
+
+    resolved.add(row)
+    return row.level
+  }
+  importRows.forEach(resolveLevel)
+
+  return [...importRows].sort((a, b) => a.level - b.level || a.rowNumber - b.rowNumber)
+}
+
+// ============================================================================
+// Positions
+// ============================================================================
+
+export function buildPositionImportRows(
+  rows: SpreadsheetRow[],
+  mapping: ImportMapping<PositionImportField>,
+  lookups: { departments: Department[]; existingCodes: string[] }
+): PositionImportRow[] {
+  const departmentsByCode = indexByCode(lookups.departments)
+  const existingCodes = new Set(lookups.existingCodes.map((code) => code.toUpperCase()))
+
+  const importRows = rows.map(({ rowNumber, values }): PositionImportRow => {
+    const get = (field: PositionImportField) => getMappedValue(values, mapping, field)
+    const errors: string[] = []
+
+    const code = get('code').toUpperCase()
+    if (code && existingCodes.has(code)) {
+      errors.push(`Position code "${code}" already exists`)
+    }
+
+    const departmentCode = get('department_code').toUpperCase()
+    const department = departmentCode ? departmentsByCode.get(departmentCode) : undefined
+    if (departmentCode && !department) {
+      errors.push(`Unknown department code "${departmentCode}"`)
+    }
+
+    const skills = parseImportList(get('required_skills'))
+    const input: PositionInput = {
+      name: get('name'),
+      code,
+      level: toSlug(get('level'), '-'),
+      department_id: department?.id ?? null,
+      description: get('description') || undefined,
+      salary_min: checkNumber(parseImportNumber(get('salary_min')), 'Salary min', errors),
+      salary_max: checkNumber(parseImportNumber(get('salary_max')), 'Salary max', errors),
+      salary_currency: get('salary_currency').toUpperCase() || 'IDR',
+      required_skills: skills.length ? skills : undefined,
+      is_active: parseImportBoolean(get('is_active'), true),
+    }
+
+    const result = positionSchema.safeParse(input)
+    if (!result.success) {
+      errors.push(...formatIssues(result.error.issues))
+    }
+
+    return { rowNumber, values, input, errors }
+  })
+
+  flagDuplicates(importRows, (row) => row.input.code, 'code')
+  return importRows
+}
+
+// ============================================================================
+// Teams
+// ============================================================================
+
+export function buildTeamImportRows(
+  rows: SpreadsheetRow[],
+  mapping: ImportMapping<TeamImportField>,
+  lookups: { departments: Department[]; existingCodes: string[] }
+): TeamImportRow[] {
+  const departmentsByCode = indexByCode(lookups.departments)
+  const existingCodes = new Set(lookups.existingCodes.map((code) => code.toUpperCase()))
+
+  const importRows = rows.map(({ rowNumber, values }): TeamImportRow => {
+    const get = (field: TeamImportField) => getMappedValue(values, mapping, field)
+    const errors: string[] = []
+
+    const code = get('code').toUpperCase()
+    if (code && existingCodes.has(code)) {
+      errors.push(`Team code "${code}" already exists`)
+    }
+
+    const departmentCode = get('department_code').toUpperCase()
+    const department = departmentCode ? departmentsByCode.get(departmentCode) : undefined
+    if (departmentCode && !department) {
+      errors.push(`Unknown department code "${departmentCode}"`)
+    }
+
+    const input: TeamInput = {
+      name: get('name'),
+      code,
+      team_type: toSlug(get('team_type'), '_') as TeamType,
+      status: (toSlug(get('status'), '_') || BACKEND_TEAM_STATUSES[0]) as TeamStatus,
+      department_id: department?.id ?? null,
+      description: get('description') || undefined,
+      max_members: checkNumber(parseImportNumber(get('max_members')), 'Max members', errors),
+      start_date: parseImportDate(get('start_date')),
+      end_date: parseImportDate(get('end_date')),
+    }
+
+    const result = teamSchema.safeParse(input)
+    if (!result.success) {
+      errors.push(...formatIssues(result.error.issues))
+    }
+
+    return { rowNumber, values, input, errors }
+  })
+
+  flagDuplicates(importRows, (row) => row.input.code, 'code')
+  return importRows
+}
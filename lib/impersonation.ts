@@ -0,0 +1,40 @@
+/**
+ * Impersonation ("login as") helpers shared by the NextAuth callbacks,
+ * the API client and the UI.
+ *
+ * The backend issues a short-lived token for the target user and writes
+ * the start and stop to the activity log; `auth.ts` swaps that token into
+ * the JWT and keeps the admin's own tokens aside to switch back.
+ */
+
+export const IMPERSONATION_BLOCKED_MESSAGE =
+  'This action is not available while impersonating a user'
+
+// Account takeover vectors on any user: credentials, sign-in factors,
+// sessions, and the identity shown for the account
+const BLOCKED_WHILE_IMPERSONATING = [
+  /^\/auth\//,
+  /^\/users\/[^/]+\/(change-password|send-password-reset|verify-email|upload-avatar|delete-avatar)$/,
+  /^\/users\/[^/]+\/two-factor(\/.*)?$/,
+  /^\/users\/[^/]+\/sessions(\/.*)?$/,
+]
+
+/**
+ * Whether a request is refused client-side while impersonating `userId`.
+ * Reads stay allowed so the support agent still sees what the user sees;
+ * writes to the user's own account record (email, profile) are refused
+ * along with the endpoints above.
+ */
+export function isBlockedWhileImpersonating(
+  method: string | undefined,
+  url: string | undefined,
+  userId: string | null
+): boolean {
+  if (!method || !url || method.toLowerCase() === 'get') return false
+
+  const path = url.split('?')[0]
+  if (userId && (path === `/users/${userId}` || path.startsWith(`/users/${userId}/`))) {
+    return true
+  }
+  return BLOCKED_WHILE_IMPERSONATING.some((pattern) => pattern.test(path))
+}
@@ -0,0 +1,204 @@
+/**
+ * Spreadsheet Import Helpers
+ *
+ * Shared pieces of the bulk import wizards: column mapping, cell value
+ * parsing, per-row results and the downloadable error report.
+ */
+
+import { getErrorMessage, ValidationError } from '@/lib/api/errors'
+import { toCsv } from '@/lib/export'
+import { excelSerialToDate } from '@/lib/spreadsheet'
+
+export interface ImportFieldDef<K extends string = string> {
+  key: K
+  label: string
+  required?: boolean
+  description?: string
+  aliases: string[]
+}
+
+/** Maps an import field to a source column header (undefined = skipped) */
+export type ImportMapping<K extends string = string> = Partial<Record<K, string>>
+
+export interface ImportRow<T> {
+  rowNumber: number
+  values: Record<string, string>
+  input: T
+  errors: string[]
+}
+
+export interface ImportFailure<T> {
+  row: ImportRow<T>
+  message: string
+}
+
+export interface ImportResult<TRow, TCreated> {
+  created: TCreated[]
+  failed: ImportFailure<TRow>[]
+}
+
+export type ImportProgressHandler = (processed: number, total: number) => void
+
+const normalizeHeader = (header: string) =>
+  header.trim().toLowerCase().replace(/[\s_-]+/g, ' ')
+
+/**
+ * Guess the column mapping from header names
+ */
+export function guessImportMapping<K extends string>(
+  fields: ImportFieldDef<K>[],
+  headers: string[]
+): ImportMapping<K> {
+  const mapping: ImportMapping<K> = {}
+  const normalized = headers.map((header) => ({ header, key: normalizeHeader(header) }))
+
+  for (const field of fields) {
+    const aliases = field.aliases.map(normalizeHeader)
+    const match = normalized.find(({ key }) => aliases.includes(key))
+    if (match) mapping[field.key] = match.header
+  }
+
+  return mapping
+}
+
+/**
+ * Read a mapped cell value (trimmed, '' when the field is skipped)
+ */
+export function getMappedValue<K extends string>(
+  values: Record<string, string>,
+  mapping: ImportMapping<K>,
+  field: K
+): string {
+  const column = mapping[field]
+  return column ? (values[column] ?? '').trim() : ''
+}
+
+/**
+ * Normalize spreadsheet dates ("2024-01-31", "31/01/2024" or an Excel serial)
+ */
+export function parseImportDate(value: string): string | null {
+  if (!value) return null
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10)
+  if (/^\d+(\.\d+)?$/.test(value)) return excelSerialToDate(Number(value))
+
+  const dmy = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/)
+  if (dmy) {
+    const [, day, month, year] = dmy
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`
+  }
+
+  return value
+}
+
+export function parseImportBoolean(value: string, fallback: boolean): boolean {
+  if (!value) return fallback
+  return ['1', 'true', 'yes', 'y', 'active'].includes(value.trim().toLowerCase())
+}
+
+/**
+ * "15.000.000", "15,000,000" or "15000000" -> 15000000. Invalid input -> NaN
+ */
+export function parseImportNumber(value: string): number | null {
+  if (!value) return null
+  const cleaned = value.replace(/[\s,]/g, '').replace(/\.(?=\d{3}(\D|$))/g, '')
+  return cleaned === '' ? null : Number(cleaned)
+}
+
+/**
+ * "a; b | c" -> ["a", "b", "c"]
+ */
+export function parseImportList(value: string): string[] {
+  return value
+    .split(/[;|]/)
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Flatten zod issues into "field: message" strings
+ */
+export function formatIssues(issues: { path: PropertyKey[]; message: string }[]): string[] {
+  return issues.map((issue) => {
+    const field = issue.path.map(String).join('.')
+    return field ? `${field}: ${issue.message}` : issue.message
+  })
+}
+
+/**
+ * Flag rows whose key (code, username, ...) already appeared in the file
+ */
+export function flagDuplicates<T>(
+  rows: ImportRow<T>[],
+  getKey: (row: ImportRow<T>) => string,
+  label: string
+) {
+  const seen = new Map<string, number>()
+  for (const row of rows) {
+    const key = getKey(row).toLowerCase()
+    if (!key) continue
+    if (seen.has(key)) {
+      row.errors.push(`Duplicate ${label} (also on row ${seen.get(key)})`)
+    } else {
+      seen.set(key, row.rowNumber)
+    }
+  }
+}
+
+/**
+ * Laravel validation errors come back as { message, errors: { field: [msg] } }
+ */
+export function getImportErrorMessage(error: unknown): string {
+  if (error instanceof ValidationError) {
+    const fieldErrors = Object.values(error.errors).flat()
+    if (fieldErrors.length > 0) return fieldErrors.join('; ')
+  }
+  return getErrorMessage(error)
+}
+
+/**
+ * Create rows in parallel batches, collecting failures per row instead of
+ * aborting the whole import
+ */
+export async function runImportBatches<TRow, TCreated>(
+  rows: ImportRow<TRow>[],
+  create: (row: ImportRow<TRow>) => Promise<TCreated>,
+  options: { batchSize?: number; onProgress?: ImportProgressHandler; offset?: number; total?: number } = {}
+): Promise<ImportResult<TRow, TCreated>> {
+  const { batchSize = 10, onProgress, offset = 0, total = rows.length } = options
+  const created: TCreated[] = []
+  const failed: ImportFailure<TRow>[] = []
+
+  for (let i = 0; i < rows.length; i += batchSize) {
+    const batch = rows.slice(i, i + batchSize)
+    const results = await Promise.allSettled(batch.map((row) => create(row)))
+
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        created.push(result.value)
+      } else {
+        failed.push({ row: batch[index], message: getImportErrorMessage(result.reason) })
+      }
+    })
+
+    onProgress?.(offset + Math.min(i + batch.length, rows.length), total)
+  }
+
+  return { created, failed }
+}
+
+/**
+ * CSV error report: original columns plus row number and error messages
+ */
+export function buildImportErrorReport(
+  headers: string[],
+  failures: Pick<ImportRow<unknown>, 'rowNumber' | 'values' | 'errors'>[]
+): string {
+  return toCsv(failures, [
+    { header: 'Row', value: (failure) => failure.rowNumber },
+    ...headers.map((header) => ({
+      header,
+      value: (failure: (typeof failures)[number]) => failure.values[header],
+    })),
+    { header: 'Errors', value: (failure) => failure.errors.join('; ') },
+  ])
+}
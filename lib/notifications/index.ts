@@ -0,0 +1,35 @@
+import { getAccessToken } from '@/lib/auth'
+import notificationService from '@/lib/api/services/notification.service'
+import {
+  createPollingTransport,
+  createSseTransport,
+  withFallback,
+  type NotificationTransport,
+} from './transport'
+
+export * from './transport'
+
+// Point at a local mock server with NEXT_PUBLIC_NOTIFICATIONS_STREAM_URL
+const STREAM_URL =
+  process.env.NEXT_PUBLIC_NOTIFICATIONS_STREAM_URL ||
+  `${process.env.NEXT_PUBLIC_API_URL || 'http://127.0.0.1:8000'}/api/v1/notifications/stream`
+
+/**
+ * SSE with polling fallback; polling only where EventSource is unavailable
+ * or when NEXT_PUBLIC_NOTIFICATIONS_TRANSPORT=polling
+ */
+export function createDefaultNotificationTransport(): NotificationTransport {
+  const polling = createPollingTransport({ fetchSince: notificationService.getSince })
+
+  if (
+    typeof EventSource === 'undefined' ||
+    process.env.NEXT_PUBLIC_NOTIFICATIONS_TRANSPORT === 'polling'
+  ) {
+    return polling
+  }
+
+  return withFallback(
+    createSseTransport({ url: STREAM_URL, getToken: getAccessToken }),
+    polling
+  )
+}
@@ -0,0 +1,223 @@
+/**
+ * Notification Transports
+ *
+ * A transport delivers new notifications to the notification center. The
+ * center only knows this interface, so the live backend (SSE), the polling
+ * fallback or an in-memory source (local mock server, demos) are
+ * interchangeable.
+ */
+
+import type {
+  AppNotification,
+  NotificationTransportStatus,
+} from '@/types/notification'
+
+export interface NotificationTransportHandlers {
+  onNotification: (notification: AppNotification) => void
+  onStatusChange?: (status: NotificationTransportStatus) => void
+}
+
+export interface NotificationTransport {
+  /** Start delivering notifications; returns a function that stops it */
+  connect: (handlers: NotificationTransportHandlers) => () => void
+}
+
+// ============================================================================
+// Server-Sent Events
+// ============================================================================
+
+export interface SseTransportOptions {
+  url: string
+  /**
+   * EventSource cannot send headers, so the token goes in the query string.
+   * Called again for every reconnect, since access tokens rotate.
+   */
+  getToken: () => Promise<string | null>
+  /** Consecutive errors before the transport reports itself offline */
+  maxFailures?: number
+  /** Delay before a reconnect, multiplied by the failures so far */
+  retryDelay?: number
+}
+
+export function createSseTransport({
+  url,
+  getToken,
+  maxFailures = 3,
+  retryDelay = 3 * 1000,
+}: SseTransportOptions): NotificationTransport {
+  return {
+    connect: ({ onNotification, onStatusChange }) => {
+      let source: EventSource | null = null
+      let retryTimer: ReturnType<typeof setTimeout> | undefined
+      let stopped = false
+      let failures = 0
+
+      const fail = () => {
+        source?.close()
+        source = null
+        if (stopped) return
+
+        failures++
+        if (failures >= maxFailures) {
+          onStatusChange?.('offline')
+        } else {
+          onStatusChange?.('connecting')
+          retryTimer = setTimeout(open, retryDelay * failures)
+        }
+      }
+
+      const open = async () => {
+        let token: string | null
+        try {
+          token = await getToken()
+        } catch {
+          fail()
+          return
+        }
+        if (stopped) return
+
+        const streamUrl = new URL(url)
+        if (token) streamUrl.searchParams.set('token', token)
+
+        source = new EventSource(streamUrl.toString())
+
+        source.onopen = () => {
+          failures = 0
+          onStatusChange?.('live')
+        }
+
+        source.addEventListener('notification', (event) => {
+          try {
+            onNotification(JSON.parse((event as MessageEvent<string>).data))
+          } catch (error) {
+            console.error('Malformed notification event:', error)
+          }
+        })
+
+        // Reconnect ourselves rather than letting EventSource retry: its
+        // retries reuse the URL, and with it a token that may have expired
+        source.onerror = fail
+      }
+
+      onStatusChange?.('connecting')
+      open()
+
+      return () => {
+        stopped = true
+        clearTimeout(retryTimer)
+        source?.close()
+      }
+    },
+  }
+}
+
+// ============================================================================
+// Polling
+// ============================================================================
+
+export interface PollingTransportOptions {
+  /** Notifications created strictly after the ISO timestamp */
+  fetchSince: (since: string) => Promise<AppNotification[]>
+  interval?: number
+}
+
+export function createPollingTransport({
+  fetchSince,
+  interval = 30 * 1000,
+}: PollingTransportOptions): NotificationTransport {
+  return {
+    connect: ({ onNotification, onStatusChange }) => {
+      let since = new Date().toISOString()
+      let timer: ReturnType<typeof setTimeout> | undefined
+      let stopped = false
+
+      const poll = async () => {
+        // Skip background tabs; the next visible tick catches up via `since`
+        if (typeof document === 'undefined' || !document.hidden) {
+          try {
+            const notifications = await fetchSince(since)
+            notifications
+              .sort((a, b) => a.created_at.localeCompare(b.created_at))
+              .forEach((notification) => {
+                if (stopped) return
+                onNotification(notification)
+                if (notification.created_at > since) since = notification.created_at
+              })
+          } catch (error) {
+            console.error('Notification polling failed:', error)
+          }
+        }
+        if (!stopped) timer = setTimeout(poll, interval)
+      }
+
+      onStatusChange?.('polling')
+      timer = setTimeout(poll, interval)
+
+      return () => {
+        stopped = true
+        clearTimeout(timer)
+      }
+    },
+  }
+}
+
+// ============================================================================
+// Composition & in-memory
+// ============================================================================
+
+/**
+ * Use `primary` until it reports offline, then switch to `fallback`
+ */
+export function withFallback(
+  primary: NotificationTransport,
+  fallback: NotificationTransport
+): NotificationTransport {
+  return {
+    connect: (handlers) => {
+      let disconnectFallback: (() => void) | null = null
+
+      const disconnectPrimary = primary.connect({
+        onNotification: handlers.onNotification,
+        onStatusChange: (status) => {
+          if (status !== 'offline') {
+            handlers.onStatusChange?.(status)
+            return
+          }
+          if (!disconnectFallback) {
+            disconnectFallback = fallback.connect(handlers)
+          }
+        },
+      })
+
+      return () => {
+        disconnectPrimary()
+        disconnectFallback?.()
+      }
+    },
+  }
+}
+
+/**
+ * Transport driven from code, e.g. by a local mock server or a demo page
+ */
+export function createMemoryTransport() {
+  const listeners = new Set<NotificationTransportHandlers>()
+
+  const transport: NotificationTransport = {
+    connect: (handlers) => {
+      listeners.add(handlers)
+      handlers.onStatusChange?.('live')
+      return () => {
+        listeners.delete(handlers)
+      }
+    },
+  }
+
+  return {
+    transport,
+    emit: (notification: AppNotification) =>
+      listeners.forEach((handlers) => handlers.onNotification(notification)),
+    setStatus: (status: NotificationTransportStatus) =>
+      listeners.forEach((handlers) => handlers.onStatusChange?.(status)),
+  }
+}
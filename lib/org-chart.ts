@@ -0,0 +1,258 @@
+/**
+ * Department Org Chart Helpers
+ *
+ * Tree layout, cycle checks and SVG/PNG export for the department org chart.
+ */
+
+import { downloadFile } from '@/lib/export'
+import type { DepartmentTreeNode } from '@/types/hrm'
+
+export const ORG_NODE_WIDTH = 220
+export const ORG_NODE_HEIGHT = 84
+const H_GAP = 24
+const V_GAP = 56
+const PADDING = 32
+
+export interface OrgChartNode {
+  node: DepartmentTreeNode
+  x: number // left edge
+  y: number // top edge
+  depth: number
+  parentId: number | null
+  hasChildren: boolean
+}
+
+export interface OrgChartLayout {
+  nodes: OrgChartNode[]
+  edges: { from: OrgChartNode; to: OrgChartNode }[]
+  width: number
+  height: number
+}
+
+/**
+ * Compute a top-down tidy layout. Collapsed nodes hide their subtree.
+ */
+export function layoutOrgChart(
+  roots: DepartmentTreeNode[],
+  collapsed: Set<number>
+): OrgChartLayout {
+  const nodes: OrgChartNode[] = []
+  const edges: OrgChartLayout['edges'] = []
+  const widthCache = new Map<number, number>()
+
+  const visibleChildren = (node: DepartmentTreeNode) =>
+    collapsed.has(node.id) ? [] : node.children || []
+
+  const subtreeWidth = (node: DepartmentTreeNode): number => {
+    const cached = widthCache.get(node.id)
+    if (cached !== undefined) return cached
+    const children = visibleChildren(node)
+    const childrenWidth =
+      children.reduce((sum, child) => sum + subtreeWidth(child), 0) +
+      Math.max(0, children.length - 1) * H_GAP
+    const width = Math.max(ORG_NODE_WIDTH, childrenWidth)
+    widthCache.set(node.id, width)
+    return width
+  }
+
+  let maxDepth = 0
+
+  const place = (
+    node: DepartmentTreeNode,
+    left: number,
+    depth: number,
+    parent: OrgChartNode | null
+  ) => {
+    const width = subtreeWidth(node)
+    const placed: OrgChartNode = {
+      node,
+      x: left + width / 2 - ORG_NODE_WIDTH / 2,
+      y: PADDING + depth * (ORG_NODE_HEIGHT + V_GAP),
+      depth,
+      parentId: parent?.node.id ?? null,
+      hasChildren: (node.children || []).length > 0,
+    }
+    nodes.push(placed)
+    if (parent) edges.push({ from: parent, to: placed })
+    maxDepth = Math.max(maxDepth, depth)
+
+    const children = visibleChildren(node)
+    const childrenWidth =
+      children.reduce((sum, child) => sum + subtreeWidth(child), 0) +
+      Math.max(0, children.length - 1) * H_GAP
+    let childLeft = left + (width - childrenWidth) / 2
+    children.forEach((child) => {
+      place(child, childLeft, depth + 1, placed)
+      childLeft += subtreeWidth(child) + H_GAP
+    })
+  }
+
+  let left = PADDING
+  roots.forEach((root) => {
+    place(root, left, 0, null)
+    left += subtreeWidth(root) + H_GAP * 2
+  })
+
+  return {
+    nodes,
+    edges,
+    width: Math.max(left - H_GAP * 2 + PADDING, ORG_NODE_WIDTH + PADDING * 2),
+    height: PADDING * 2 + (maxDepth + 1) * ORG_NODE_HEIGHT + maxDepth * V_GAP,
+  }
+}
+
+/**
+ * Find a node by id anywhere in the tree
+ */
+export function findTreeNode(
+  roots: DepartmentTreeNode[],
+  id: number
+): DepartmentTreeNode | null {
+  for (const node of roots) {
+    if (node.id === id) return node
+    const found = findTreeNode(node.children || [], id)
+    if (found) return found
+  }
+  return null
+}
+
+/**
+ * Whether moving `sourceId` under `targetId` (`null` for top level) is allowed.
+ * Blocks self-parenting, no-op moves and moves into its own subtree (cycles).
+ */
+export function canReparent(
+  roots: DepartmentTreeNode[],
+  sourceId: number,
+  targetId: number | null
+): boolean {
+  if (sourceId === targetId) return false
+  const source = findTreeNode(roots, sourceId)
+  if (!source || (source.parent_id ?? null) === targetId) return false
+  if (targetId === null) return true
+  return findTreeNode(source.children || [], targetId) === null
+}
+
+// Presentation properties that must be inlined for a standalone SVG
+const INLINE_STYLE_PROPS = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-dasharray',
+  'opacity',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'color',
+]
+
+/**
+ * Replace <image> hrefs with data URLs; SVGs rendered as images cannot load external resources
+ */
+async function inlineImages(root: SVGSVGElement) {
+  const images = Array.from(root.querySelectorAll('image'))
+  await Promise.all(
+    images.map(async (image) => {
+      const href = image.getAttribute('href')
+      if (!href || href.startsWith('data:')) return
+      try {
+        const response = await fetch(href)
+        const blob = await response.blob()
+        const dataUrl = await new Promise<string>((resolve, reject) => {
+          const reader = new FileReader()
+          reader.onload = () => resolve(reader.result as string)
+          reader.onerror = () => reject(reader.error)
+          reader.readAsDataURL(blob)
+        })
+        image.setAttribute('href', dataUrl)
+      } catch {
+        // Initials underneath the avatar remain visible
+        image.remove()
+      }
+    })
+  )
+}
+
+/**
+ * Clone the chart SVG with computed styles inlined and the pan/zoom transform reset
+ */
+async function serializeChart(
+  svg: SVGSVGElement,
+  width: number,
+  height: number
+): Promise<string> {
+  const clone = svg.cloneNode(true) as SVGSVGElement
+  const liveElements = svg.querySelectorAll('*')
+  const cloneElements = clone.querySelectorAll('*')
+
+  liveElements.forEach((live, index) => {
+    const target = cloneElements[index] as SVGElement
+    const computed = window.getComputedStyle(live)
+    const style = INLINE_STYLE_PROPS.map(
+      (prop) => `${prop}:${computed.getPropertyValue(prop)}`
+    ).join(';')
+    target.setAttribute('style', style)
+    target.removeAttribute('class')
+  })
+
+  clone.querySelector('[data-viewport]')?.removeAttribute('transform')
+  clone.querySelectorAll('[data-export-ignore]').forEach((el) => el.remove())
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg')
+  clone.setAttribute('width', String(width))
+  clone.setAttribute('height', String(height))
+  clone.setAttribute('viewBox', `0 0 ${width} ${height}`)
+  clone.removeAttribute('class')
+  await inlineImages(clone)
+
+  return new XMLSerializer().serializeToString(clone)
+}
+
+/**
+ * Download the chart as an SVG file
+ */
+export async function exportOrgChartSvg(
+  svg: SVGSVGElement,
+  layout: OrgChartLayout,
+  filename: string
+) {
+  const markup = await serializeChart(svg, layout.width, layout.height)
+  downloadFile(markup, `${filename}.svg`, 'image/svg+xml;charset=utf-8')
+}
+
+/**
+ * Download the chart as a PNG file (rendered at 2x for sharpness)
+ */
+export async function exportOrgChartPng(
+  svg: SVGSVGElement,
+  layout: OrgChartLayout,
+  filename: string,
+  background = '#ffffff'
+) {
+  const scale = 2
+  const markup = await serializeChart(svg, layout.width, layout.height)
+  const url = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`
+
+  const image = new Image()
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve()
+    image.onerror = () => reject(new Error('Failed to render chart image'))
+    image.src = url
+  })
+
+  const canvas = document.createElement('canvas')
+  canvas.width = layout.width * scale
+  canvas.height = layout.height * scale
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas is not supported in this browser')
+
+  context.fillStyle = background
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.scale(scale, scale)
+  context.drawImage(image, 0, 0)
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, 'image/png')
+  )
+  if (!blob) throw new Error('Failed to encode PNG')
+  downloadFile(blob, `${filename}.png`, 'image/png')
+}
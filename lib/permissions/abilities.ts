@@ -0,0 +1,179 @@
+/**
+ * Abilities
+ *
+ * The one place that decides what a user may do. Module-wide permissions
+ * come from the JWT / session; record rules then grant narrower access to
+ * people who own a record without holding the permission - a team lead on
+ * their team's members, a department manager on their department.
+ *
+ * Pure functions so `proxy.ts` (server) and `usePermissions` (client) share
+ * them. Components should go through `usePermissions().can` or `<Can>`.
+ */
+
+import { HRM_PERMISSIONS } from '@/lib/permissions/hrm'
+import type { Department, Position, Team } from '@/types/hrm'
+import type { User } from '@/types/user'
+
+export const SUPER_ADMIN_ROLE = 'Super Admin'
+
+/** Who is asking - the JWT claims or the client session */
+export interface AccessSubject {
+  id?: string | null
+  roles?: string[] | null
+  permissions?: string[] | null
+}
+
+export type AbilityAction =
+  | 'view'
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'restore'
+  | 'manage-members'
+  | 'assign'
+
+interface AbilityRecords {
+  user: User
+  department: Department
+  position: Position
+  team: Team
+}
+
+export type AbilitySubject = keyof AbilityRecords
+
+export type AbilityRecord<S extends AbilitySubject> = AbilityRecords[S]
+
+/** `can` bound to the current user, as returned by `usePermissions()` */
+export type CanFunction = <S extends AbilitySubject>(
+  action: AbilityAction,
+  type: S,
+  record?: AbilityRecord<S> | null
+) => boolean
+
+/**
+ * Super Admin holds every permission; otherwise any one of `required`
+ */
+export function hasAnyPermission(subject: AccessSubject, required: string | string[]): boolean {
+  if (subject.roles?.includes(SUPER_ADMIN_ROLE)) return true
+
+  const granted = subject.permissions ?? []
+  return (Array.isArray(required) ? required : [required]).some((permission) =>
+    granted.includes(permission)
+  )
+}
+
+export function hasAllPermissions(subject: AccessSubject, required: string[]): boolean {
+  return required.every((permission) => hasAnyPermission(subject, permission))
+}
+
+/**
+ * Module-wide permission behind each action. Actions missing here can only
+ * be granted by a record rule.
+ */
+const ABILITY_PERMISSIONS: Record<AbilitySubject, Partial<Record<AbilityAction, string>>> = {
+  user: {
+    view: 'view_users',
+    create: 'create_users',
+    update: 'edit_users',
+    delete: 'delete_users',
+  },
+  department: {
+    view: HRM_PERMISSIONS.DEPARTMENTS_VIEW,
+    create: HRM_PERMISSIONS.DEPARTMENTS_CREATE,
+    update: HRM_PERMISSIONS.DEPARTMENTS_UPDATE,
+    delete: HRM_PERMISSIONS.DEPARTMENTS_DELETE,
+    restore: HRM_PERMISSIONS.DEPARTMENTS_RESTORE,
+  },
+  position: {
+    view: HRM_PERMISSIONS.POSITIONS_VIEW,
+    create: HRM_PERMISSIONS.POSITIONS_CREATE,
+    update: HRM_PERMISSIONS.POSITIONS_UPDATE,
+    delete: HRM_PERMISSIONS.POSITIONS_DELETE,
+    restore: HRM_PERMISSIONS.POSITIONS_RESTORE,
+  },
+  team: {
+    view: HRM_PERMISSIONS.TEAMS_VIEW,
+    create: HRM_PERMISSIONS.TEAMS_CREATE,
+    update: HRM_PERMISSIONS.TEAMS_UPDATE,
+    'manage-members': HRM_PERMISSIONS.TEAMS_UPDATE,
+    delete: HRM_PERMISSIONS.TEAMS_DELETE,
+    restore: HRM_PERMISSIONS.TEAMS_RESTORE,
+  },
+}
+
+/**
+ * Actions the backend grants by role rather than by a permission. Never
+ * extended by record rules: a direct manager may edit a report's profile
+ * but not transfer or promote them.
+ */
+const ROLE_ABILITIES: Partial<Record<AbilitySubject, Partial<Record<AbilityAction, string[]>>>> = {
+  user: {
+    // Department / position assignment, transfers and promotions
+    assign: ['Admin', 'HR Manager'],
+  },
+}
+
+// Ids are numbers on HRM records and strings in the session
+const isSameId = (a: string | number | null | undefined, b: string | null | undefined) =>
+  a !== null && a !== undefined && !!b && String(a) === b
+
+type RecordRules = {
+  [S in AbilitySubject]?: Partial<
+    Record<AbilityAction, (subject: AccessSubject, record: AbilityRecord<S>) => boolean>
+  >
+}
+
+const managesDepartment = (subject: AccessSubject, department?: Department | null) =>
+  isSameId(department?.manager_id, subject.id)
+
+const leadsTeam = (subject: AccessSubject, team: Team) => isSameId(team.team_lead_id, subject.id)
+
+/**
+ * Access granted by owning a record, for users without the module-wide
+ * permission. Rules only see the relations the list endpoints include
+ * (`department` on positions and teams), so they never over-grant.
+ */
+const RECORD_RULES: RecordRules = {
+  user: {
+    view: (subject, user) => isSameId(user.id, subject.id) || isSameId(user.direct_manager_id, subject.id),
+    update: (subject, user) => isSameId(user.direct_manager_id, subject.id),
+  },
+  department: {
+    view: managesDepartment,
+    update: managesDepartment,
+  },
+  position: {
+    view: (subject, position) => managesDepartment(subject, position.department),
+    update: (subject, position) => managesDepartment(subject, position.department),
+  },
+  team: {
+    view: (subject, team) => leadsTeam(subject, team) || managesDepartment(subject, team.department),
+    update: (subject, team) => managesDepartment(subject, team.department),
+    'manage-members': (subject, team) =>
+      leadsTeam(subject, team) || managesDepartment(subject, team.department),
+  },
+}
+
+/**
+ * Whether `subject` may perform `action` on a kind of record, or on one
+ * record when it is passed. Without a record only module-wide permissions
+ * count, so "can create a team?" never leaks through a record rule.
+ */
+export function can<S extends AbilitySubject>(
+  subject: AccessSubject,
+  action: AbilityAction,
+  type: S,
+  record?: AbilityRecord<S> | null
+): boolean {
+  const permission = ABILITY_PERMISSIONS[type][action]
+  if (permission && hasAnyPermission(subject, permission)) return true
+  if (subject.roles?.includes(SUPER_ADMIN_ROLE)) return true
+
+  const roles = ROLE_ABILITIES[type]?.[action]
+  if (roles?.some((role) => subject.roles?.includes(role))) return true
+
+  const rule = RECORD_RULES[type]?.[action] as
+    | ((subject: AccessSubject, record: AbilityRecord<S>) => boolean)
+    | undefined
+  return !!record && !!rule && !!subject.id && rule(subject, record)
+}
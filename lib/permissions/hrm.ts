@@ -107,3 +107,23 @@ export const HRM_PERMISSION_LABELS: Record<HrmPermission, string> = {
 export function isHrmPermission(permission: string): permission is HrmPermission {
   return Object.values(HRM_PERMISSIONS).includes(permission as HrmPermission)
 }
+
+/**
+ * Compare the HRM permissions defined here against the backend permission list.
+ * - missingInBackend: defined in HRM_PERMISSIONS but not seeded on the backend
+ * - missingInFrontend: "hrm.*" permissions on the backend that are not defined here
+ */
+export function diffHrmPermissions(backendPermissions: string[]): {
+  missingInBackend: HrmPermission[]
+  missingInFrontend: string[]
+} {
+  const backend = new Set(backendPermissions)
+  const defined = new Set<string>(HRM_PERMISSION_GROUPS.ALL)
+
+  return {
+    missingInBackend: HRM_PERMISSION_GROUPS.ALL.filter((name) => !backend.has(name)),
+    missingInFrontend: backendPermissions.filter(
+      (name) => name.startsWith('hrm.') && !defined.has(name)
+    ),
+  }
+}
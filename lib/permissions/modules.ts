@@ -0,0 +1,97 @@
+/**
+ * Permission Name Parsing
+ *
+ * The backend mixes two naming schemes:
+ * - Dot style (HRM module): "hrm.departments.view" -> module "hrm.departments", action "view"
+ * - Underscore style (core): "view_users" -> module "users", action "view"
+ *
+ * These helpers normalise both into a module/action pair so permissions can be
+ * grouped and rendered as a module-by-action matrix.
+ */
+
+export interface ParsedPermission {
+  module: string
+  action: string
+}
+
+/**
+ * Preferred column order for common CRUD actions.
+ * Unknown actions are appended alphabetically.
+ */
+export const PERMISSION_ACTION_ORDER = [
+  'view',
+  'create',
+  'update',
+  'edit',
+  'delete',
+  'restore',
+] as const
+
+const UPPERCASE_SEGMENTS = new Set(['hrm', 'api'])
+
+/**
+ * Split a permission name into its module and action
+ */
+export function parsePermissionName(name: string): ParsedPermission {
+  if (name.includes('.')) {
+    const parts = name.split('.')
+    return {
+      module: parts.slice(0, -1).join('.'),
+      action: parts[parts.length - 1],
+    }
+  }
+
+  const parts = name.split('_')
+  if (parts.length > 1) {
+    return {
+      module: parts.slice(1).join('_'),
+      action: parts[0],
+    }
+  }
+
+  return { module: 'other', action: name }
+}
+
+/**
+ * Sort action names using PERMISSION_ACTION_ORDER, then alphabetically
+ */
+export function sortPermissionActions(actions: string[]): string[] {
+  const order = PERMISSION_ACTION_ORDER as readonly string[]
+  return [...actions].sort((a, b) => {
+    const ia = order.indexOf(a)
+    const ib = order.indexOf(b)
+    if (ia !== -1 && ib !== -1) return ia - ib
+    if (ia !== -1) return -1
+    if (ib !== -1) return 1
+    return a.localeCompare(b)
+  })
+}
+
+/**
+ * Human readable label for a module key
+ * Example: "hrm.departments" -> "HRM / Departments"
+ */
+export function formatPermissionModule(module: string): string {
+  return module
+    .split('.')
+    .map((segment) =>
+      UPPERCASE_SEGMENTS.has(segment)
+        ? segment.toUpperCase()
+        : segment
+            .split('_')
+            .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+            .join(' ')
+    )
+    .join(' / ')
+}
+
+/**
+ * Human readable label for an action
+ * Example: "force_delete" -> "Force Delete"
+ */
+export function formatPermissionAction(action: string): string {
+  return action
+    .split(/[_-]/)
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(' ')
+}
@@ -0,0 +1,79 @@
+/**
+ * Route Permissions
+ *
+ * Single map of which permission each dashboard section needs. `proxy.ts`
+ * enforces it from the JWT before the page renders; `ProtectedRoute` and the
+ * sidebar read it so the UI never offers a page the proxy would refuse.
+ *
+ * Routes not listed only require being signed in.
+ */
+
+import { hasAnyPermission, type AccessSubject } from '@/lib/permissions/abilities'
+import { HRM_PERMISSIONS } from '@/lib/permissions/hrm'
+
+export interface RoutePermission {
+  /** Path prefix; also covers every nested route unless a longer entry matches */
+  path: string
+  /** Required permission, or a list where any one is enough */
+  permission: string | string[]
+  /**
+   * Roles that open the route even without `permission`. For sections that
+   * were role-gated before their permission existed in every backend seed.
+   */
+  roles?: string[]
+  /** Let users open their own record at `${path}/{their id}` without the permission */
+  allowSelf?: boolean
+}
+
+export const ROUTE_PERMISSIONS: RoutePermission[] = [
+  { path: '/dashboard/users', permission: 'view_users', allowSelf: true },
+  { path: '/dashboard/roles', permission: 'view_roles', roles: ['Admin'] },
+  { path: '/dashboard/permissions', permission: 'view_permissions', roles: ['Admin'] },
+  { path: '/dashboard/activity', permission: 'view_activity_logs', roles: ['Admin'] },
+  { path: '/dashboard/hrm/departments', permission: HRM_PERMISSIONS.DEPARTMENTS_VIEW },
+  { path: '/dashboard/hrm/positions', permission: HRM_PERMISSIONS.POSITIONS_VIEW },
+  { path: '/dashboard/hrm/compensation', permission: HRM_PERMISSIONS.POSITIONS_VIEW },
+  { path: '/dashboard/hrm/teams', permission: HRM_PERMISSIONS.TEAMS_VIEW },
+  { path: '/dashboard/hrm/capacity', permission: HRM_PERMISSIONS.TEAMS_VIEW },
+  {
+    path: '/dashboard/hrm/trash',
+    permission: [
+      HRM_PERMISSIONS.DEPARTMENTS_RESTORE,
+      HRM_PERMISSIONS.POSITIONS_RESTORE,
+      HRM_PERMISSIONS.TEAMS_RESTORE,
+    ],
+  },
+]
+
+function matchesPath(pathname: string, path: string): boolean {
+  return pathname === path || pathname.startsWith(`${path}/`)
+}
+
+/**
+ * Most specific entry covering `pathname`, or null when the route is open
+ * to any signed-in user
+ */
+export function getRoutePermission(pathname: string): RoutePermission | null {
+  return ROUTE_PERMISSIONS.reduce<RoutePermission | null>(
+    (best, route) =>
+      matchesPath(pathname, route.path) && route.path.length > (best?.path.length ?? -1)
+        ? route
+        : best,
+    null
+  )
+}
+
+export function canAccessRoute(pathname: string, subject: AccessSubject): boolean {
+  const route = getRoutePermission(pathname)
+  if (!route) return true
+
+  if (route.allowSelf && subject.id && matchesPath(pathname, `${route.path}/${subject.id}`)) {
+    return true
+  }
+
+  if (route.roles?.some((role) => subject.roles?.includes(role))) {
+    return true
+  }
+
+  return hasAnyPermission(subject, route.permission)
+}
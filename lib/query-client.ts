@@ -6,6 +6,21 @@
 
 import { QueryClient, QueryCache, MutationCache } from '@tanstack/react-query'
 import { toast } from 'sonner'
+import { ApiError, getErrorMessage, NetworkError, RateLimitError } from '@/lib/api/errors'
+
+// Retry network failures, 5xx and rate limits once; other 4xx won't change
+function shouldRetry(failureCount: number, error: unknown) {
+  if (failureCount >= 1) return false
+  if (!(error instanceof ApiError) || error instanceof NetworkError) return true
+  return error instanceof RateLimitError || (error.status ?? 500) >= 500
+}
+
+function getRetryDelay(attemptIndex: number, error: unknown) {
+  if (error instanceof RateLimitError && error.retryAfter !== null) {
+    return error.retryAfter * 1000
+  }
+  return Math.min(1000 * 2 ** attemptIndex, 30000)
+}
 
 export const queryConfig = {
   defaultOptions: {
@@ -17,8 +32,8 @@ export const queryConfig = {
       gcTime: 5 * 60 * 1000,
       
       // Retry failed requests
-      retry: 1,
-      retryDelay: (attemptIndex: number) => Math.min(1000 * 2 ** attemptIndex, 30000),
+      retry: shouldRetry,
+      retryDelay: getRetryDelay,
       
       // Refetch on window focus for important data
       refetchOnWindowFocus: false,
@@ -30,7 +45,8 @@ export const queryConfig = {
     },
     mutations: {
       // Retry mutations once
-      retry: 1,
+      retry: shouldRetry,
+      retryDelay: getRetryDelay,
       networkMode: 'online' as const,
     },
   },
@@ -42,44 +58,14 @@ export function createQueryClient() {
     queryCache: new QueryCache({
       onError: (error: unknown) => {
         // Global error handling
-        let message = "Something went wrong";
-        if (
-          error &&
-          typeof error === "object" &&
-          "response" in error &&
-          error.response &&
-          typeof error.response === "object" &&
-          "data" in error.response &&
-          error.response.data &&
-          typeof error.response.data === "object"
-        ) {
-          const data = error.response.data as { message?: string };
-          message = data.message || message;
-        } else if (error instanceof Error) {
-          message = error.message;
-        }
+        const message = getErrorMessage(error, "Something went wrong");
         console.error("Query error:", message);
       },
     }),
     mutationCache: new MutationCache({
       onError: (error: unknown) => {
         // Global mutation error handling
-        let message = "Failed to perform action";
-        if (
-          error &&
-          typeof error === "object" &&
-          "response" in error &&
-          error.response &&
-          typeof error.response === "object" &&
-          "data" in error.response &&
-          error.response.data &&
-          typeof error.response.data === "object"
-        ) {
-          const data = error.response.data as { message?: string };
-          message = data.message || message;
-        } else if (error instanceof Error) {
-          message = error.message;
-        }
+        const message = getErrorMessage(error, "Failed to perform action");
         toast.error(message);
       },
     }),
@@ -0,0 +1,144 @@
+/**
+ * Skill Gap Helpers
+ *
+ * Compares a position's required_skills (free-text names) with the catalog
+ * skills recorded on the users holding it. Names are matched case- and
+ * whitespace-insensitively against catalog name and slug.
+ */
+
+import type {
+  SkillProficiency,
+  User,
+  UserSkill,
+} from '@/types/hrm'
+import { SKILL_PROFICIENCIES } from '@/types/hrm'
+
+export interface SkillHolder {
+  user: User
+  proficiency: SkillProficiency
+}
+
+export interface SkillCoverage {
+  skill: string
+  holders: SkillHolder[]
+  // Holders below the minimum proficiency still need training
+  belowMinimum: SkillHolder[]
+  missing: User[]
+  coverage: number // share of users at or above the minimum
+}
+
+export interface UserSkillGap {
+  user: User
+  matched: string[]
+  missing: string[]
+  coverage: number
+}
+
+export interface SkillGapReport {
+  skills: SkillCoverage[]
+  users: UserSkillGap[]
+  coverage: number // share of (user, required skill) pairs that are met
+  gaps: number // unmet (user, required skill) pairs, i.e. training needs
+}
+
+export function normalizeSkillName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+export function compareProficiency(a: SkillProficiency, b: SkillProficiency): number {
+  return SKILL_PROFICIENCIES.indexOf(a) - SKILL_PROFICIENCIES.indexOf(b)
+}
+
+/**
+ * Case-insensitive de-duplication that keeps the first spelling
+ */
+export function uniqueSkillNames(names: string[]): string[] {
+  const seen = new Set<string>()
+  return names.filter((name) => {
+    const key = normalizeSkillName(name)
+    if (!key || seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+function indexUserSkills(skills: UserSkill[]): Map<string, SkillProficiency> {
+  const index = new Map<string, SkillProficiency>()
+  skills.forEach(({ skill, proficiency }) => {
+    if (!skill) return
+    index.set(normalizeSkillName(skill.name), proficiency)
+    index.set(normalizeSkillName(skill.slug.replace(/-/g, ' ')), proficiency)
+  })
+  return index
+}
+
+/**
+ * Build the gap report for a position
+ */
+export function buildSkillGapReport(
+  requiredSkills: string[],
+  users: User[],
+  skillsByUser: Map<number, UserSkill[]>,
+  minProficiency: SkillProficiency = 'beginner'
+): SkillGapReport {
+  const required = uniqueSkillNames(requiredSkills)
+  const indexes = new Map(
+    users.map((user) => [user.id, indexUserSkills(skillsByUser.get(user.id) ?? [])])
+  )
+
+  const meets = (user: User, skill: string) => {
+    const proficiency = indexes.get(user.id)?.get(normalizeSkillName(skill))
+    return !!proficiency && compareProficiency(proficiency, minProficiency) >= 0
+  }
+
+  const skills = required
+    .map((skill) => {
+      const key = normalizeSkillName(skill)
+      const holders: SkillHolder[] = []
+      const missing: User[] = []
+
+      users.forEach((user) => {
+        const proficiency = indexes.get(user.id)?.get(key)
+        if (proficiency) holders.push({ user, proficiency })
+        else missing.push(user)
+      })
+
+      const belowMinimum = holders.filter(
+        ({ proficiency }) => compareProficiency(proficiency, minProficiency) < 0
+      )
+
+      return {
+        skill,
+        holders,
+        belowMinimum,
+        missing,
+        coverage: users.length
+          ? (holders.length - belowMinimum.length) / users.length
+          : 0,
+      }
+    })
+    // Biggest gaps first
+    .sort((a, b) => a.coverage - b.coverage)
+
+  const userGaps = users
+    .map((user) => {
+      const matched = required.filter((skill) => meets(user, skill))
+      return {
+        user,
+        matched,
+        missing: required.filter((skill) => !matched.includes(skill)),
+        coverage: required.length ? matched.length / required.length : 1,
+      }
+    })
+    .sort((a, b) => a.coverage - b.coverage || a.user.name.localeCompare(b.user.name))
+
+  const pairs = required.length * users.length
+  const gaps = userGaps.reduce((sum, entry) => sum + entry.missing.length, 0)
+
+  return {
+    skills,
+    users: userGaps,
+    coverage: pairs ? (pairs - gaps) / pairs : 0,
+    gaps,
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * Spreadsheet Readers
+ *
+ * Parses CSV and XLSX uploads into header + row records in the browser.
+ * XLSX support covers the first worksheet only (shared strings, inline
+ * strings, numbers and booleans); formulas are read from their cached values.
+ */
+
+export interface SpreadsheetRow {
+  /** 1-based row number in the source file */
+  rowNumber: number
+  values: Record<string, string>
+}
+
+export interface SpreadsheetData {
+  headers: string[]
+  rows: SpreadsheetRow[]
+}
+
+export const SPREADSHEET_ACCEPT = {
+  'text/csv': ['.csv'],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Parse CSV text into a matrix of cells (RFC 4180, auto-detects `,` or `;`)
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '')
+  const firstLine = input.split(/\r?\n/, 1)[0]
+  const delimiter =
+    (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ','
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+/**
+ * Extract the given entries from a ZIP archive (stored or deflated)
+ */
+async function readZipEntries(
+  buffer: ArrayBuffer,
+  match: (name: string) => boolean
+): Promise<Map<string, string>> {
+  const view = new DataView(buffer)
+  const decoder = new TextDecoder()
+
+  // End of central directory record (scan backwards past an optional comment)
+  let eocd = -1
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd < 0) throw new Error('Invalid XLSX file')
+
+  const entryCount = view.getUint16(eocd + 10, true)
+  let offset = view.getUint32(eocd + 16, true)
+  const entries = new Map<string, string>()
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break
+
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localOffset = view.getUint32(offset + 42, true)
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (!match(name)) continue
+
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+    const data = new Uint8Array(buffer, dataStart, compressedSize)
+
+    if (method === 0) {
+      entries.set(name, decoder.decode(data))
+    } else if (method === 8) {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+      entries.set(name, await new Response(stream).text())
+    } else {
+      throw new Error(`Unsupported XLSX compression method (${method})`)
+    }
+  }
+
+  return entries
+}
+
+/**
+ * "AB12" -> 27 (zero-based column index)
+ */
+function columnIndex(ref: string): number {
+  const letters = ref.replace(/[0-9]/g, '')
+  let index = 0
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64)
+  }
+  return index - 1
+}
+
+/**
+ * Zip path of the first sheet in tab order. File names say nothing about
+ * order (sheets get renumbered, reordered or deleted), so it is looked up
+ * in `xl/workbook.xml` and resolved through the workbook relationships.
+ */
+async function resolveFirstSheet(buffer: ArrayBuffer, parser: DOMParser): Promise<string> {
+  const parts = await readZipEntries(
+    buffer,
+    (name) => name === 'xl/workbook.xml' || name === 'xl/_rels/workbook.xml.rels'
+  )
+  const workbookXml = parts.get('xl/workbook.xml')
+  const relsXml = parts.get('xl/_rels/workbook.xml.rels')
+  if (!workbookXml || !relsXml) throw new Error('Invalid XLSX file')
+
+  const workbook = parser.parseFromString(workbookXml, 'application/xml')
+  const firstSheet = workbook.getElementsByTagName('sheet')[0]
+  // The relationships prefix is usually `r:`, but only its namespace is fixed
+  const relationId = firstSheet
+    ? Array.from(firstSheet.attributes).find((attr) => attr.localName === 'id' && attr.namespaceURI)?.value
+    : undefined
+  if (!relationId) throw new Error('Workbook has no worksheets')
+
+  const rels = parser.parseFromString(relsXml, 'application/xml')
+  const target = Array.from(rels.getElementsByTagName('Relationship'))
+    .find((rel) => rel.getAttribute('Id') === relationId)
+    ?.getAttribute('Target')
+  if (!target) throw new Error('Workbook has no worksheets')
+
+  // Targets are relative to xl/, or absolute within the package
+  return target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`
+}
+
+/**
+ * Parse the first worksheet of an XLSX workbook into a matrix of cells
+ */
+export async function parseXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const parser = new DOMParser()
+  const sheetName = await resolveFirstSheet(buffer, parser)
+  const entries = await readZipEntries(
+    buffer,
+    (name) => name === 'xl/sharedStrings.xml' || name === sheetName
+  )
+  if (!entries.has(sheetName)) throw new Error('Workbook has no worksheets')
+
+  const sharedStrings: string[] = []
+  const sharedXml = entries.get('xl/sharedStrings.xml')
+  if (sharedXml) {
+    const doc = parser.parseFromString(sharedXml, 'application/xml')
+    for (const si of Array.from(doc.getElementsByTagName('si'))) {
+      sharedStrings.push(
+        Array.from(si.getElementsByTagName('t'))
+          .map((t) => t.textContent || '')
+          .join('')
+      )
+    }
+  }
+
+  const sheet = parser.parseFromString(entries.get(sheetName)!, 'application/xml')
+  const rows: string[][] = []
+
+  for (const rowEl of Array.from(sheet.getElementsByTagName('row'))) {
+    const row: string[] = []
+    for (const cellEl of Array.from(rowEl.getElementsByTagName('c'))) {
+      const ref = cellEl.getAttribute('r')
+      const index = ref ? columnIndex(ref) : row.length
+      const type = cellEl.getAttribute('t')
+      const raw = cellEl.getElementsByTagName('v')[0]?.textContent ?? ''
+
+      let value: string
+      if (type === 's') {
+        value = sharedStrings[Number(raw)] ?? ''
+      } else if (type === 'inlineStr') {
+        value = Array.from(cellEl.getElementsByTagName('t'))
+          .map((t) => t.textContent || '')
+          .join('')
+      } else if (type === 'b') {
+        value = raw === '1' ? 'true' : 'false'
+      } else {
+        value = raw
+      }
+
+      while (row.length < index) row.push('')
+      row[index] = value
+    }
+
+    const rowNumber = Number(rowEl.getAttribute('r')) || rows.length + 1
+    while (rows.length < rowNumber - 1) rows.push([])
+    rows.push(row)
+  }
+
+  return rows
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Convert an Excel date serial (e.g. 45292) to "yyyy-MM-dd"
+ */
+export function excelSerialToDate(serial: number): string {
+  const date = new Date(Math.round((serial - 25569) * 86400 * 1000))
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Read an uploaded CSV or XLSX file. The first non-empty row is the header.
+ */
+export async function readSpreadsheet(file: File): Promise<SpreadsheetData> {
+  const isXlsx = /\.xlsx$/i.test(file.name)
+  const matrix = isXlsx ? await parseXlsx(await file.arrayBuffer()) : parseCsv(await file.text())
+
+  const headerIndex = matrix.findIndex((row) => row.some((cell) => cell.trim() !== ''))
+  if (headerIndex < 0) {
+    return { headers: [], rows: [] }
+  }
+
+  const headers = matrix[headerIndex].map(
+    (header, index) => header.trim() || `Column ${index + 1}`
+  )
+
+  const rows: SpreadsheetRow[] = []
+  matrix.slice(headerIndex + 1).forEach((row, offset) => {
+    if (!row.some((cell) => cell.trim() !== '')) return
+    rows.push({
+      rowNumber: headerIndex + offset + 2,
+      values: Object.fromEntries(
+        headers.map((header, index) => [header, (row[index] ?? '').trim()])
+      ),
+    })
+  })
+
+  return { headers, rows }
+}
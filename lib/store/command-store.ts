@@ -0,0 +1,33 @@
+import { create } from 'zustand';
+
+/**
+ * Actions the command palette can hand off to a page,
+ * e.g. "users.create" opens the create dialog on the users page.
+ */
+export type CommandIntent =
+  | 'users.create'
+  | 'departments.create'
+  | 'positions.create'
+  | 'teams.create';
+
+interface CommandState {
+  isOpen: boolean;
+  intent: CommandIntent | null;
+  setOpen: (open: boolean) => void;
+  toggle: () => void;
+  requestIntent: (intent: CommandIntent) => void;
+  clearIntent: () => void;
+}
+
+export const useCommandStore = create<CommandState>()((set) => ({
+  isOpen: false,
+  intent: null,
+
+  setOpen: (open) => set({ isOpen: open }),
+
+  toggle: () => set((state) => ({ isOpen: !state.isOpen })),
+
+  requestIntent: (intent) => set({ intent, isOpen: false }),
+
+  clearIntent: () => set({ intent: null }),
+}));
@@ -0,0 +1,61 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+/**
+ * Base currency of the conversion table; every rate is
+ * "how many IDR one unit of the currency is worth".
+ */
+export const BASE_CURRENCY = 'IDR';
+
+export const DEFAULT_CURRENCY_RATES: Record<string, number> = {
+  IDR: 1,
+  USD: 16000,
+  EUR: 17500,
+  SGD: 12000,
+};
+
+interface CurrencyState {
+  displayCurrency: string;
+  rates: Record<string, number>;
+  setDisplayCurrency: (currency: string) => void;
+  setRate: (currency: string, rate: number) => void;
+  removeRate: (currency: string) => void;
+  resetRates: () => void;
+}
+
+export const useCurrencyStore = create<CurrencyState>()(
+  persist(
+    (set) => ({
+      displayCurrency: BASE_CURRENCY,
+      rates: DEFAULT_CURRENCY_RATES,
+
+      setDisplayCurrency: (currency) => set({ displayCurrency: currency }),
+
+      setRate: (currency, rate) =>
+        set((state) => ({
+          rates: { ...state.rates, [currency.toUpperCase()]: rate },
+        })),
+
+      removeRate: (currency) =>
+        set((state) => {
+          // The base currency always stays in the table
+          if (currency === BASE_CURRENCY) return state;
+          const rates = { ...state.rates };
+          delete rates[currency];
+          return {
+            rates,
+            displayCurrency:
+              state.displayCurrency === currency
+                ? BASE_CURRENCY
+                : state.displayCurrency,
+          };
+        }),
+
+      resetRates: () =>
+        set({ rates: DEFAULT_CURRENCY_RATES, displayCurrency: BASE_CURRENCY }),
+    }),
+    {
+      name: 'currency-settings',
+    }
+  )
+);
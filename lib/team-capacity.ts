@@ -0,0 +1,213 @@
+/**
+ * Team Capacity Helpers
+ *
+ * Aggregates team sizes, memberships and max_members into utilisation
+ * figures per team and department, flags over-allocated people and builds
+ * a month-by-month headcount series from joined_at / left_at.
+ */
+
+import {
+  addMonths,
+  endOfMonth,
+  format,
+  isAfter,
+  parseISO,
+  startOfMonth,
+} from 'date-fns'
+import type { Team, TeamMember, TeamType, User } from '@/types/hrm'
+
+// A team at or above this share of max_members is "nearing capacity"
+export const NEAR_CAPACITY_THRESHOLD = 0.8
+
+// Active memberships in this many project / cross-functional teams is over-allocation
+export const OVER_ALLOCATION_THRESHOLD = 2
+
+const ALLOCATION_TEAM_TYPES: TeamType[] = ['project', 'cross_functional']
+
+export type CapacityStatus = 'over' | 'full' | 'near' | 'ok' | 'unbounded'
+
+export interface TeamCapacity {
+  team: Team
+  activeMembers: number
+  capacity: number | null // null when max_members is not set
+  utilisation: number | null // activeMembers / capacity
+  status: CapacityStatus
+}
+
+export interface DepartmentCapacity {
+  departmentId: number | null
+  departmentName: string
+  teams: number
+  activeMembers: number
+  // Only teams with max_members count towards capacity
+  boundedMembers: number
+  capacity: number
+  utilisation: number | null
+  nearCapacityTeams: number
+}
+
+export interface OverAllocatedUser {
+  user: User
+  teams: Team[]
+}
+
+export interface HeadcountPoint {
+  month: string // yyyy-MM
+  label: string // MMM yy
+  seats: number // active memberships at month end
+  people: number // distinct users at month end
+  joined: number
+  left: number
+}
+
+/**
+ * A membership is active when it has not ended (or ends in the future)
+ */
+export function isActiveMembership(member: TeamMember, at = new Date()): boolean {
+  if (isAfter(parseISO(member.joined_at), at)) return false
+  return !member.left_at || isAfter(parseISO(member.left_at), at)
+}
+
+function getCapacityStatus(activeMembers: number, capacity: number | null): CapacityStatus {
+  if (!capacity) return 'unbounded'
+  if (activeMembers > capacity) return 'over'
+  if (activeMembers === capacity) return 'full'
+  if (activeMembers / capacity >= NEAR_CAPACITY_THRESHOLD) return 'near'
+  return 'ok'
+}
+
+/**
+ * Utilisation per team, fullest first (unbounded teams last)
+ */
+export function getTeamCapacities(
+  teams: Team[],
+  membersByTeam: Map<number, TeamMember[]>
+): TeamCapacity[] {
+  return teams
+    .map((team) => {
+      const members = membersByTeam.get(team.id)
+      const activeMembers = members
+        ? members.filter((member) => isActiveMembership(member)).length
+        : team.active_members_count ?? team.members_count ?? 0
+      const capacity = team.max_members || null
+
+      return {
+        team,
+        activeMembers,
+        capacity,
+        utilisation: capacity ? activeMembers / capacity : null,
+        status: getCapacityStatus(activeMembers, capacity),
+      }
+    })
+    .sort((a, b) => (b.utilisation ?? -1) - (a.utilisation ?? -1))
+}
+
+/**
+ * Roll team capacity up to departments
+ */
+export function getDepartmentCapacities(capacities: TeamCapacity[]): DepartmentCapacity[] {
+  const byDepartment = new Map<number | null, DepartmentCapacity>()
+
+  capacities.forEach(({ team, activeMembers, capacity, status }) => {
+    const departmentId = team.department_id ?? null
+    const entry = byDepartment.get(departmentId) ?? {
+      departmentId,
+      departmentName: team.department?.name ?? 'No Department',
+      teams: 0,
+      activeMembers: 0,
+      boundedMembers: 0,
+      capacity: 0,
+      utilisation: null,
+      nearCapacityTeams: 0,
+    }
+
+    entry.teams++
+    entry.activeMembers += activeMembers
+    if (capacity) {
+      entry.boundedMembers += activeMembers
+      entry.capacity += capacity
+    }
+    if (status === 'near' || status === 'full' || status === 'over') {
+      entry.nearCapacityTeams++
+    }
+    byDepartment.set(departmentId, entry)
+  })
+
+  return [...byDepartment.values()]
+    .map((entry) => ({
+      ...entry,
+      utilisation: entry.capacity ? entry.boundedMembers / entry.capacity : null,
+    }))
+    .sort((a, b) => (b.utilisation ?? -1) - (a.utilisation ?? -1))
+}
+
+/**
+ * People with active seats in several project / cross-functional teams
+ */
+export function getOverAllocatedUsers(
+  teams: Team[],
+  membersByTeam: Map<number, TeamMember[]>,
+  threshold = OVER_ALLOCATION_THRESHOLD
+): OverAllocatedUser[] {
+  const byUser = new Map<number, OverAllocatedUser>()
+
+  const allocationTeams = teams.filter(
+    (team) => team.status === 'active' && ALLOCATION_TEAM_TYPES.includes(team.team_type)
+  )
+
+  for (const team of allocationTeams) {
+    for (const member of membersByTeam.get(team.id) ?? []) {
+      if (!member.user || !isActiveMembership(member)) continue
+      const entry = byUser.get(member.user_id) ?? { user: member.user, teams: [] }
+      entry.teams.push(team)
+      byUser.set(member.user_id, entry)
+    }
+  }
+
+  return [...byUser.values()]
+    .filter((entry) => entry.teams.length >= threshold)
+    .sort((a, b) => b.teams.length - a.teams.length || a.user.name.localeCompare(b.user.name))
+}
+
+/**
+ * Headcount at the end of each of the last `months` months (current month included)
+ */
+export function buildHeadcountSeries(
+  members: TeamMember[],
+  months = 12,
+  now = new Date()
+): HeadcountPoint[] {
+  const first = startOfMonth(addMonths(now, -(months - 1)))
+
+  return Array.from({ length: months }, (_, index) => {
+    const monthStart = addMonths(first, index)
+    const monthEnd = endOfMonth(monthStart)
+    const cutoff = isAfter(monthEnd, now) ? now : monthEnd
+    const people = new Set<number>()
+    let seats = 0
+    let joined = 0
+    let left = 0
+
+    members.forEach((member) => {
+      const joinedAt = parseISO(member.joined_at)
+      const leftAt = member.left_at ? parseISO(member.left_at) : null
+
+      if (joinedAt >= monthStart && joinedAt <= monthEnd) joined++
+      if (leftAt && leftAt >= monthStart && leftAt <= monthEnd) left++
+
+      if (joinedAt <= cutoff && (!leftAt || leftAt > cutoff)) {
+        seats++
+        people.add(member.user_id)
+      }
+    })
+
+    return {
+      month: format(monthStart, 'yyyy-MM'),
+      label: format(monthStart, 'MMM yy'),
+      seats,
+      people: people.size,
+      joined,
+      left,
+    }
+  })
+}
@@ -0,0 +1,130 @@
+/**
+ * Team Lifecycle Helpers
+ *
+ * Status transition rules for teams, overdue detection based on end_date
+ * and the layout math for the project timeline (Gantt) view.
+ */
+
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  endOfMonth,
+  isBefore,
+  max as maxDate,
+  min as minDate,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+} from 'date-fns'
+import type { Team, TeamStatus } from '@/types/hrm'
+
+/**
+ * Allowed status changes; anything else is rejected
+ */
+export const TEAM_STATUS_TRANSITIONS: Record<TeamStatus, TeamStatus[]> = {
+  active: ['on_hold', 'inactive', 'completed'],
+  on_hold: ['active', 'inactive', 'completed'],
+  inactive: ['active', 'completed'],
+  completed: ['active', 'on_hold', 'inactive'],
+}
+
+// Leaving these statuses needs a written reason (e.g. reopening a project)
+const REASON_REQUIRED_FROM: TeamStatus[] = ['completed']
+
+export function canTransitionTo(from: TeamStatus, to: TeamStatus): boolean {
+  // Legacy statuses (archived, disbanded) have no rules
+  return from === to || (TEAM_STATUS_TRANSITIONS[from]?.includes(to) ?? true)
+}
+
+export function requiresTransitionReason(from: TeamStatus, to: TeamStatus): boolean {
+  return from !== to && REASON_REQUIRED_FROM.includes(from)
+}
+
+/**
+ * Returns an error message when the transition is not allowed
+ */
+export function validateStatusTransition(
+  from: TeamStatus,
+  to: TeamStatus,
+  reason?: string | null
+): string | null {
+  if (!canTransitionTo(from, to)) {
+    return `A team cannot move from ${from.replace('_', ' ')} to ${to.replace('_', ' ')}`
+  }
+  if (requiresTransitionReason(from, to) && !reason?.trim()) {
+    return 'A reason is required to reopen a completed team'
+  }
+  return null
+}
+
+/**
+ * Active team whose end_date has already passed
+ */
+export function isTeamOverdue(team: Team, now = new Date()): boolean {
+  if (team.status !== 'active' || !team.end_date) return false
+  return isBefore(parseISO(team.end_date), startOfDay(now))
+}
+
+// ============================================================================
+// Timeline
+// ============================================================================
+
+export interface TimelineRange {
+  start: Date
+  end: Date
+  months: Date[]
+}
+
+export interface TimelineBar {
+  offset: number // % from the range start
+  width: number // % of the range
+  openStart: boolean // no start_date, bar starts at range start
+  openEnd: boolean // no end_date, bar runs to range end
+}
+
+/**
+ * Month range covering every team's dates (and today), padded by a month
+ */
+export function getTimelineRange(teams: Team[], now = new Date()): TimelineRange {
+  const dates = teams
+    .flatMap((team) => [team.start_date, team.end_date])
+    .filter((date): date is string => !!date)
+    .map((date) => parseISO(date))
+
+  const start = startOfMonth(addMonths(minDate([now, ...dates]), -1))
+  const end = endOfMonth(addMonths(maxDate([now, ...dates]), 1))
+  const months: Date[] = []
+  for (let month = start; month <= end; month = addMonths(month, 1)) {
+    months.push(month)
+  }
+
+  return { start, end, months }
+}
+
+/**
+ * Position of a value within the range, as a percentage
+ */
+export function getTimelineOffset(date: Date, range: TimelineRange): number {
+  const total = differenceInCalendarDays(range.end, range.start) + 1
+  const days = differenceInCalendarDays(date, range.start)
+  return Math.min(Math.max((days / total) * 100, 0), 100)
+}
+
+export function getTimelineBar(team: Team, range: TimelineRange): TimelineBar {
+  const offset = team.start_date
+    ? getTimelineOffset(parseISO(team.start_date), range)
+    : 0
+  // end_date is inclusive, so the bar runs to the end of that day
+  const endOffset = team.end_date
+    ? getTimelineOffset(addDays(parseISO(team.end_date), 1), range)
+    : 100
+
+  return {
+    offset,
+    // Keep single-day teams visible
+    width: Math.max(endOffset - offset, 0.5),
+    openStart: !team.start_date,
+    openEnd: !team.end_date,
+  }
+}
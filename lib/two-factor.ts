@@ -0,0 +1,39 @@
+/**
+ * TOTP two-factor helpers shared by the NextAuth Credentials provider,
+ * the login challenge and the enrollment UI.
+ */
+
+import { downloadFile } from '@/lib/export'
+
+export const TOTP_CODE_LENGTH = 6
+
+// `code` values the Credentials provider reports back to signIn()
+export const TWO_FACTOR_REQUIRED = 'two_factor_required'
+export const INVALID_TWO_FACTOR_CODE = 'invalid_two_factor_code'
+
+/**
+ * The backend renders the QR code as SVG markup; show it through an <img>
+ * so the markup is never injected into the DOM.
+ */
+export function toSvgDataUrl(svg: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+}
+
+/**
+ * Group a base32 secret in blocks of four for manual entry
+ */
+export function formatTotpSecret(secret: string): string {
+  return secret.replace(/\s+/g, '').match(/.{1,4}/g)?.join(' ') ?? secret
+}
+
+export function downloadRecoveryCodes(codes: string[], account: string) {
+  const content = [
+    `Recovery codes for ${account}`,
+    'Each code can be used once to sign in without your authenticator app.',
+    '',
+    ...codes,
+    '',
+  ].join('\n')
+
+  downloadFile(content, 'recovery-codes.txt', 'text/plain')
+}
@@ -0,0 +1,181 @@
+/**
+ * User Import Helpers
+ *
+ * Column mapping and client-side validation for the bulk user import wizard.
+ * Every row is validated with `createUserSchema` before anything is sent.
+ */
+
+import { createUserSchema } from '@/lib/validations/user.schema'
+import {
+  flagDuplicates,
+  formatIssues,
+  getMappedValue,
+  guessImportMapping,
+  parseImportBoolean,
+  parseImportDate,
+  parseImportList,
+  type ImportFailure,
+  type ImportFieldDef,
+  type ImportMapping,
+  type ImportRow,
+} from '@/lib/import'
+import type { SpreadsheetRow } from '@/lib/spreadsheet'
+import type { CreateUserInput } from '@/types/user'
+import type { Department, Position } from '@/types/hrm'
+
+export type UserImportField =
+  | 'username'
+  | 'name'
+  | 'email'
+  | 'phone'
+  | 'password'
+  | 'roles'
+  | 'is_active'
+  | 'department_code'
+  | 'position_code'
+  | 'employee_number'
+  | 'join_date'
+  | 'probation_end_date'
+
+export const USER_IMPORT_FIELDS: ImportFieldDef<UserImportField>[] = [
+  { key: 'username', label: 'Username', required: true, aliases: ['username', 'user name', 'login'] },
+  { key: 'name', label: 'Full Name', required: true, aliases: ['name', 'full name', 'fullname'] },
+  { key: 'email', label: 'Email', required: true, aliases: ['email', 'e-mail', 'email address'] },
+  { key: 'phone', label: 'Phone', aliases: ['phone', 'phone number', 'mobile'] },
+  {
+    key: 'password',
+    label: 'Password',
+    description: 'Falls back to the default password when empty',
+    aliases: ['password'],
+  },
+  {
+    key: 'roles',
+    label: 'Roles',
+    description: 'Role names separated by ";" or "|"',
+    aliases: ['roles', 'role'],
+  },
+  { key: 'is_active', label: 'Active', aliases: ['is_active', 'active', 'status'] },
+  {
+    key: 'department_code',
+    label: 'Department Code',
+    aliases: ['department_code', 'department', 'dept', 'dept code'],
+  },
+  {
+    key: 'position_code',
+    label: 'Position Code',
+    aliases: ['position_code', 'position', 'position code'],
+  },
+  {
+    key: 'employee_number',
+    label: 'Employee Number',
+    aliases: ['employee_number', 'employee no', 'employee number', 'nik'],
+  },
+  { key: 'join_date', label: 'Join Date', aliases: ['join_date', 'join date', 'joined'] },
+  {
+    key: 'probation_end_date',
+    label: 'Probation End Date',
+    aliases: ['probation_end_date', 'probation end', 'probation end date'],
+  },
+]
+
+export type UserImportMapping = ImportMapping<UserImportField>
+
+export interface UserImportDefaults {
+  password: string
+  role: string
+  isActive: boolean
+}
+
+export interface UserImportLookups {
+  departments: Department[]
+  positions: Position[]
+  roles: string[]
+}
+
+export type UserImportRow = ImportRow<CreateUserInput>
+export type UserImportFailure = ImportFailure<CreateUserInput>
+
+/**
+ * Guess the column mapping from header names
+ */
+export function guessUserImportMapping(headers: string[]): UserImportMapping {
+  return guessImportMapping(USER_IMPORT_FIELDS, headers)
+}
+
+/**
+ * Convert mapped spreadsheet rows into CreateUserInput payloads and validate
+ * them. Duplicate usernames/emails inside the file are flagged as well.
+ */
+export function buildUserImportRows(
+  rows: SpreadsheetRow[],
+  mapping: UserImportMapping,
+  defaults: UserImportDefaults,
+  lookups: UserImportLookups
+): UserImportRow[] {
+  const departmentsByCode = new Map(lookups.departments.map((d) => [d.code.toLowerCase(), d]))
+  const positionsByCode = new Map(lookups.positions.map((p) => [p.code.toLowerCase(), p]))
+  const knownRoles = new Map(lookups.roles.map((role) => [role.toLowerCase(), role]))
+
+  const importRows = rows.map(({ rowNumber, values }): UserImportRow => {
+    const get = (field: UserImportField) => getMappedValue(values, mapping, field)
+    const errors: string[] = []
+
+    // Roles (by name, matching UserFormDialog)
+    const roleNames = parseImportList(get('roles'))
+    const roles = (roleNames.length ? roleNames : [defaults.role].filter(Boolean)).map(
+      (role) => {
+        const known = knownRoles.get(role.toLowerCase())
+        if (!known) errors.push(`Unknown role "${role}"`)
+        return known || role
+      }
+    )
+
+    // Department / position by code
+    const departmentCode = get('department_code')
+    const department = departmentCode
+      ? departmentsByCode.get(departmentCode.toLowerCase())
+      : undefined
+    if (departmentCode && !department) {
+      errors.push(`Unknown department code "${departmentCode}"`)
+    }
+
+    const positionCode = get('position_code')
+    const position = positionCode ? positionsByCode.get(positionCode.toLowerCase()) : undefined
+    if (positionCode && !position) {
+      errors.push(`Unknown position code "${positionCode}"`)
+    } else if (position && department && position.department_id && position.department_id !== department.id) {
+      errors.push(`Position "${positionCode}" does not belong to department "${departmentCode}"`)
+    }
+
+    const password = get('password') || defaults.password
+    const input: CreateUserInput = {
+      username: get('username'),
+      name: get('name'),
+      email: get('email'),
+      phone: get('phone'),
+      password,
+      password_confirmation: password,
+      roles,
+      is_active: parseImportBoolean(get('is_active'), defaults.isActive),
+      department_id: department?.id ?? null,
+      position_id: position?.id ?? null,
+      employee_number: get('employee_number') || null,
+      join_date: parseImportDate(get('join_date')),
+      probation_end_date: parseImportDate(get('probation_end_date')),
+    }
+
+    const result = createUserSchema.safeParse(input)
+    if (!result.success) {
+      errors.push(...formatIssues(result.error.issues))
+    }
+
+    return { rowNumber, values, input, errors }
+  })
+
+  // Duplicates within the file
+  flagDuplicates(importRows, (row) => row.input.username, 'username')
+  flagDuplicates(importRows, (row) => row.input.email, 'email')
+
+  return importRows
+}
+
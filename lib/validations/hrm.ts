@@ -11,6 +11,7 @@
  */
 
 import { z } from 'zod';
+import { TRANSFER_REASONS } from '@/types/hrm';
 
 // ============================================================================
 // Department Validation Schemas
@@ -295,6 +296,14 @@ export const teamSchema = z.object({
     .union([z.string(), z.date()])
     .optional()
     .nullable(),
+
+  // Checked against the previous status in the form (see lib/team-lifecycle.ts)
+  status_reason: z
+    .string()
+    .trim()
+    .max(500, 'Reason must not exceed 500 characters')
+    .optional()
+    .nullable(),
 }).superRefine((data, ctx) => {
   // Custom validation: end_date must be after or equal to start_date
   if (
@@ -374,6 +383,41 @@ export const teamMemberUpdateSchema = z.object({
     .nullable(),
 });
 
+// ============================================================================
+// User Assignment Validation Schemas
+// ============================================================================
+
+/**
+ * Transfer / Promotion Schema
+ * Synced with: UserAssignmentController transfer & promote validation
+ */
+export const assignmentChangeSchema = z
+  .object({
+    type: z.enum(['transfer', 'promotion']),
+
+    department_id: z
+      .number({ message: 'Target department is required' })
+      .int('Target department must be valid')
+      .positive('Target department must be valid'),
+
+    position_id: z
+      .number({ message: 'Position must be valid' })
+      .int('Position must be valid')
+      .positive('Position must be valid')
+      .optional()
+      .nullable(),
+
+    reason: z.enum(TRANSFER_REASONS, { message: 'Reason is required' }),
+
+    effective_date: z
+      .string({ message: 'Effective date is required' })
+      .min(1, 'Effective date is required'),
+  })
+  .refine((data) => data.type !== 'promotion' || !!data.position_id, {
+    message: 'A new position is required for a promotion',
+    path: ['position_id'],
+  });
+
 // ============================================================================
 // Form Validation Helpers
 // ============================================================================
@@ -385,6 +429,7 @@ export type DepartmentFormData = z.infer<typeof departmentSchema>;
 export type PositionFormData = z.infer<typeof positionSchema>;
 export type TeamFormData = z.infer<typeof teamSchema>;
 export type TeamMemberFormData = z.infer<typeof teamMemberSchema>;
+export type AssignmentChangeFormData = z.infer<typeof assignmentChangeSchema>;
 
 /**
  * Validate form data and return errors
@@ -0,0 +1,19 @@
+import { z } from 'zod'
+
+// Custom permission schema
+// Accepts dot style (module.action, e.g. "hrm.payroll.view")
+// and underscore style (action_module, e.g. "export_reports")
+export const permissionSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(3, 'Permission name must be at least 3 characters')
+    .max(125, 'Permission name must not exceed 125 characters')
+    .regex(
+      /^([a-z0-9_]+\.)+[a-z0-9_]+$|^[a-z0-9]+_[a-z0-9_]+$/,
+      'Use lowercase "module.action" or "action_module" format'
+    ),
+})
+
+// Export types from schemas
+export type PermissionFormData = z.infer<typeof permissionSchema>
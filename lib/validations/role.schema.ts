@@ -0,0 +1,15 @@
+import { z } from 'zod'
+
+// Role create/update schema
+export const roleSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Role name must be at least 2 characters')
+    .max(100, 'Role name must not exceed 100 characters'),
+
+  permissions: z.array(z.string()),
+})
+
+// Export types from schemas
+export type RoleFormData = z.infer<typeof roleSchema>
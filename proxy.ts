@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
 import { getToken } from 'next-auth/jwt'
+import { canAccessRoute } from '@/lib/permissions/routes'
 
 // Halaman yang memerlukan authentication
 const protectedPaths = [
@@ -22,6 +23,9 @@ export default async function proxy(request: NextRequest) {
 
   const { pathname } = request.nextUrl
 
+  // Login sosial yang masih menunggu kode 2FA belum dianggap login
+  const isSignedIn = !!token && !token.twoFactorChallenge
+
   // Cek apakah path adalah protected path (dashboard dan turunannya)
   const isProtectedPath = protectedPaths.some(path => pathname.startsWith(path))
   
@@ -29,14 +33,29 @@ export default async function proxy(request: NextRequest) {
   const isAuthPath = authPaths.some(path => pathname.startsWith(path))
 
   // Jika mengakses protected path tapi belum login
-  if (isProtectedPath && !token) {
+  if (isProtectedPath && !isSignedIn) {
     const url = new URL('/login', request.url)
     url.searchParams.set('callbackUrl', pathname)
     return NextResponse.redirect(url)
   }
 
+  // Sudah login tapi tidak punya permission untuk route ini (lihat ROUTE_PERMISSIONS)
+  if (
+    isProtectedPath &&
+    token &&
+    isSignedIn &&
+    !canAccessRoute(pathname, {
+      id: token.sub,
+      roles: token.roles,
+      permissions: token.permissions,
+    })
+  ) {
+    // Rewrite (bukan redirect) supaya URL tetap dan status 403 sampai ke browser
+    return NextResponse.rewrite(new URL('/dashboard/forbidden', request.url), { status: 403 })
+  }
+
   // Jika sudah login tapi mengakses auth path, redirect ke dashboard
-  if (isAuthPath && token) {
+  if (isAuthPath && isSignedIn) {
     return NextResponse.redirect(new URL('/dashboard', request.url))
   }
 
@@ -0,0 +1,31 @@
+import type { ActivityLog } from './user'
+
+export type { ActivityLog }
+
+// Spatie activitylog stores model changes as { attributes, old }
+export interface ActivityLogProperties {
+  attributes?: Record<string, unknown>
+  old?: Record<string, unknown>
+  [key: string]: unknown
+}
+
+export interface ActivityLogFilters {
+  page?: number
+  per_page?: number
+  search?: string
+  sort_by?: string
+  sort_order?: 'asc' | 'desc'
+  log_name?: string
+  causer_id?: string
+  subject_type?: string
+  date_from?: string // yyyy-MM-dd
+  date_to?: string // yyyy-MM-dd
+}
+
+export interface ActivityPropertyChange {
+  key: string
+  old: unknown
+  new: unknown
+}
+
+export type ActivityExportFormat = 'csv' | 'json'
@@ -0,0 +1,52 @@
+/**
+ * Customizable dashboard layouts
+ * A user's own layout wins over the default published for their role,
+ * which wins over the built-in layout.
+ */
+
+export type DashboardWidgetType =
+  | 'stat-cards'
+  | 'user-activity'
+  | 'users-by-role'
+  | 'department-headcount'
+  | 'recent-activity'
+  | 'hrm-overview'
+  | 'team-capacity'
+  | 'probation-ends'
+
+/** Columns spanned in the 4-column dashboard grid */
+export type DashboardWidgetWidth = 1 | 2 | 3 | 4
+
+export interface DashboardWidget {
+  /** Unique within a layout, so the same widget type can appear twice */
+  id: string
+  type: DashboardWidgetType
+  width: DashboardWidgetWidth
+}
+
+export type DashboardLayoutSource = 'user' | 'role'
+
+export interface DashboardLayout {
+  widgets: DashboardWidget[]
+  source: DashboardLayoutSource
+  /** Role whose published default is in use when source is "role" */
+  role?: string | null
+  updated_at: string
+}
+
+export interface RoleDashboardLayout {
+  role: string
+  widgets: DashboardWidget[]
+  updated_by?: {
+    id: string
+    name: string
+  } | null
+  updated_at: string
+}
+
+export interface DepartmentHeadcount {
+  id: number
+  name: string
+  is_active: boolean
+  users_count: number
+}
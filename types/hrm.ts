@@ -59,9 +59,11 @@ export interface Department {
   created_at: string;
   updated_at: string;
   deleted_at?: string | null;
+  deleted_by?: number | null;
   
   // Relationships (optional, loaded when eager loaded)
   manager?: User;
+  deleter?: User | null;
   parent?: Department;
   children?: Department[];
   users?: User[];
@@ -118,11 +120,13 @@ export interface Position {
   created_at: string;
   updated_at: string;
   deleted_at?: string | null;
+  deleted_by?: number | null;
   
   // Relationships
   department?: Department;
   users?: User[];
   users_count?: number;
+  deleter?: User | null;
   
   // Computed
   salary_range?: string; // formatted salary range
@@ -197,9 +201,11 @@ export interface Team {
   created_at: string;
   updated_at: string;
   deleted_at?: string | null;
+  deleted_by?: number | null;
   
   // Relationships
   team_lead?: User;
+  deleter?: User | null;
   department?: Department;
   team_members?: TeamMember[];
   users?: User[]; // through team_members pivot
@@ -223,10 +229,20 @@ export interface TeamInput {
   team_type: TeamType;
   max_members?: number | null;
   status?: TeamStatus;
+  status_reason?: string | null; // Required when reopening a completed team
   start_date?: string | null;
   end_date?: string | null;
 }
 
+/**
+ * Complete Team Input
+ * Closes the team and sets left_at for every active member
+ */
+export interface TeamCompleteInput {
+  end_date?: string;
+  reason?: string;
+}
+
 /**
  * Team Types
  */
@@ -338,6 +354,7 @@ export interface DepartmentUserHistory {
   effective_date: string;
   end_date?: string | null;
   reason?: string | null; // e.g., 'promotion', 'transfer', 'restructure'
+  created_by?: number | null; // user who recorded the change
   created_at: string;
   updated_at: string;
   
@@ -345,6 +362,7 @@ export interface DepartmentUserHistory {
   user?: User;
   department?: Department;
   position?: Position;
+  creator?: User | null;
   
   // Computed
   is_current?: boolean;
@@ -364,6 +382,96 @@ export const TRANSFER_REASONS = [
 
 export type TransferReason = typeof TRANSFER_REASONS[number];
 
+// ============================================================================
+// Skill Types
+// ============================================================================
+
+/**
+ * Skill Catalog Model
+ * Synced with: lara12-rest-api/app/Models/Skill.php
+ */
+export interface Skill {
+  id: number;
+  name: string;
+  slug: string;
+  category?: string | null;
+  description?: string | null;
+  users_count?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Skill Form Input
+ */
+export interface SkillInput {
+  name: string;
+  category?: string | null;
+  description?: string | null;
+}
+
+/**
+ * Skill Proficiency Levels (lowest to highest)
+ */
+export const SKILL_PROFICIENCIES = ['beginner', 'intermediate', 'advanced', 'expert'] as const;
+export type SkillProficiency = typeof SKILL_PROFICIENCIES[number];
+
+/**
+ * Skill Proficiency for UI selects (with labels)
+ */
+export const SKILL_PROFICIENCY_OPTIONS = [
+  { value: 'beginner', label: 'Beginner' },
+  { value: 'intermediate', label: 'Intermediate' },
+  { value: 'advanced', label: 'Advanced' },
+  { value: 'expert', label: 'Expert' },
+] as const;
+
+/**
+ * User Skill Model (pivot between users and the skill catalog)
+ * Synced with: lara12-rest-api/app/Models/UserSkill.php
+ */
+export interface UserSkill {
+  id: number;
+  user_id: number;
+  skill_id: number;
+  proficiency: SkillProficiency;
+  years_experience?: number | null;
+  created_at: string;
+  updated_at: string;
+
+  // Relationships
+  skill?: Skill;
+}
+
+/**
+ * User Skill Form Input
+ */
+export interface UserSkillInput {
+  skill_id: number;
+  proficiency: SkillProficiency;
+  years_experience?: number | null;
+}
+
+// ============================================================================
+// Trash Types
+// ============================================================================
+
+export type TrashEntityType = 'department' | 'position' | 'team';
+
+/**
+ * Soft-deleted department, position or team, normalised for the Trash view
+ */
+export interface TrashItem {
+  key: string; // `${type}-${id}`, unique across entity types
+  type: TrashEntityType;
+  id: number;
+  name: string;
+  code: string;
+  context?: string | null; // parent / department name
+  deleted_at: string;
+  deleter?: User | null;
+}
+
 // ============================================================================
 // API Response Types
 // ============================================================================
@@ -464,6 +572,16 @@ export interface TeamFilters {
   sort_order?: 'asc' | 'desc';
 }
 
+/**
+ * Skill Catalog Filters
+ */
+export interface SkillFilters {
+  search?: string;
+  category?: string;
+  page?: number;
+  per_page?: number;
+}
+
 // ============================================================================
 // Form State Types
 // ============================================================================
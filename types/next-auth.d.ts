@@ -8,10 +8,22 @@ declare module "next-auth" {
       permissions?: string[]
       provider?: string
     } & DefaultSession["user"]
+    error?: "RefreshAccessTokenError"
+    accessTokenExpires?: number // epoch ms; the client refreshes ahead of it
+    // Social sign-in waiting for the TOTP code; grants no access
+    twoFactorPending?: boolean
+    // The signed-in admin while they impersonate `user`
+    impersonator?: {
+      id: string
+      name?: string | null
+      email?: string | null
+    }
   }
 
   interface User {
     accessToken?: string
+    refreshToken?: string
+    accessTokenExpires?: number
     roles?: string[]
     permissions?: string[]
   }
@@ -20,8 +32,25 @@ declare module "next-auth" {
 declare module "next-auth/jwt" {
   interface JWT {
     accessToken?: string
+    refreshToken?: string
+    accessTokenExpires?: number // epoch ms
     roles?: string[]
     permissions?: string[]
     provider?: string
+    error?: "RefreshAccessTokenError"
+    twoFactorChallenge?: string // social sign-in awaiting its second factor
+    // The admin's own identity and tokens, restored when impersonation stops
+    impersonator?: Pick<
+      JWT,
+      | "sub"
+      | "name"
+      | "email"
+      | "picture"
+      | "accessToken"
+      | "refreshToken"
+      | "accessTokenExpires"
+      | "roles"
+      | "permissions"
+    >
   }
 }
@@ -0,0 +1,32 @@
+import type { PaginationMeta } from './user'
+
+// Laravel notification types broadcast by the API
+export type NotificationType =
+  | 'team.member_added'
+  | 'team.member_removed'
+  | 'team.completed'
+  | 'position.changed'
+  | 'department.changed'
+  | 'user.activated'
+  | 'user.deactivated'
+  | 'system'
+
+export interface AppNotification {
+  id: string
+  type: NotificationType
+  title: string
+  message: string
+  url?: string | null // in-app link, e.g. /dashboard/hrm/teams/12
+  data?: Record<string, unknown>
+  read_at: string | null
+  created_at: string
+}
+
+export interface NotificationPage {
+  data: AppNotification[]
+  meta: PaginationMeta & {
+    unread_count: number
+  }
+}
+
+export type NotificationTransportStatus = 'connecting' | 'live' | 'polling' | 'offline'
@@ -4,6 +4,19 @@ export interface Permission {
   guard_name: string
   created_at: string
   updated_at: string
+  roles?: PermissionRole[]
+  users_count?: number
+}
+
+// Minimal role shape included on permission resources
+export interface PermissionRole {
+  id: string
+  name: string
+}
+
+export interface CreatePermissionInput {
+  name: string
+  guard_name?: string
 }
 
 export interface PermissionsByModule {
@@ -8,6 +8,7 @@ export interface Role {
   updated_at: string
   permissions?: Permission[]
   permissions_count?: number
+  users_count?: number
 }
 
 export interface RoleQueryParams {
@@ -0,0 +1,39 @@
+/**
+ * Saved data table views (filters + sorting + column visibility)
+ * Stored server-side per user; shared views are visible to everyone.
+ */
+
+export interface TableViewOwner {
+  id: string
+  name: string
+}
+
+export interface TableView {
+  id: string
+  /** Table identifier, e.g. "users", "hrm.departments" */
+  table: string
+  name: string
+  /** BaseFilters snapshot (search, sort_by, sort_order and table filters) */
+  filters: Record<string, unknown>
+  /** TanStack column visibility state; only hidden columns are stored */
+  column_visibility: Record<string, boolean>
+  is_default: boolean
+  is_shared: boolean
+  user_id: string
+  user?: TableViewOwner
+  /** Whether the authenticated user owns (and may edit) the view */
+  is_owner: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface CreateTableViewInput {
+  table: string
+  name: string
+  filters: Record<string, unknown>
+  column_visibility: Record<string, boolean>
+  is_default?: boolean
+  is_shared?: boolean
+}
+
+export type UpdateTableViewInput = Partial<Omit<CreateTableViewInput, 'table'>>
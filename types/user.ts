@@ -32,6 +32,7 @@ export interface User {
   permissions: Permission[]
   avatar_url?: string
   profile?: UserProfile | null
+  two_factor_enabled?: boolean
   
   // HRM Fields
   department_id?: string | number | null
@@ -101,7 +102,9 @@ export interface UserFilters {
   role?: string
   is_active?: boolean
   email_verified?: boolean
-  sort_by?: 'username' | 'name' | 'email' | 'created_at' | 'last_login_at'
+  /** Only users whose probation ends within this many days from today */
+  probation_ending_within?: number
+  sort_by?: 'username' | 'name' | 'email' | 'created_at' | 'last_login_at' | 'probation_end_date'
   sort_order?: 'asc' | 'desc'
   page?: number
   per_page?: number
@@ -111,6 +114,7 @@ export interface CreateUserInput {
   username: string
   name: string
   email: string
+  phone?: string
   password: string
   password_confirmation: string
   roles?: string[] // Role IDs
@@ -186,6 +190,29 @@ export interface ChangePasswordInput {
   new_password_confirmation: string
 }
 
+// TOTP two-factor authentication
+export interface TwoFactorSetup {
+  secret: string
+  otpauth_url: string
+  qr_code_svg: string // rendered by the backend
+}
+
+export interface TwoFactorRecoveryCodes {
+  recovery_codes: string[]
+}
+
+// Active API tokens (one per signed-in browser/device)
+export interface UserSession {
+  id: string
+  device: string | null // e.g. "Chrome on macOS"
+  device_type?: 'desktop' | 'mobile' | 'tablet' | null
+  ip_address: string | null
+  location: string | null // resolved from the IP by the backend
+  last_active_at: string | null
+  created_at: string
+  is_current: boolean // token that made this request
+}
+
 // Activity Log type
 export interface ActivityLog {
   id: string